@@ -9,30 +9,15 @@ const AudioPlayer: React.FC = () => {
   const [volume, setVolume] = useState(1);
   const [currentTime, setCurrentTime] = useState(0);
   
-  const { drawWaveform, generateWaveformFromAudio } = useWaveform(canvasRef);
+  const { drawPeaks } = useWaveform(canvasRef);
   const { currentSession, updateSession, playAudio, pauseAudio, seekAudio } = useProjectStore();
 
-  // Update waveform when session changes
+  // Draw the recording from its cached peaks
   useEffect(() => {
-    if (currentSession?.audioBlob && currentSession.waveformData) {
-      drawWaveform(
-        currentSession.waveformData.peaks,
-        currentTime,
-        currentSession.duration,
-        false
-      );
+    if (currentSession?.waveformData) {
+      drawPeaks(currentSession.waveformData, currentTime);
     }
-  }, [currentSession, currentTime, drawWaveform]);
-
-  // Generate waveform data when audio blob changes
-  useEffect(() => {
-    if (currentSession?.audioBlob && !currentSession.waveformData) {
-      currentSession.audioBlob.arrayBuffer().then(async (buffer) => {
-        const waveformData = await generateWaveformFromAudio(buffer);
-        updateSession({ waveformData });
-      });
-    }
-  }, [currentSession?.audioBlob, generateWaveformFromAudio, updateSession]);
+  }, [currentSession?.waveformData, currentTime, drawPeaks]);
 
   // Set up audio element
   useEffect(() => {
@@ -1,16 +1,31 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Mic, Square, Play, Pause, RotateCcw, AlertCircle, Settings, Shield, RefreshCw, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Mic, Square, Play, Pause, RotateCcw, AlertCircle, Settings, Shield, RefreshCw, CheckCircle, XCircle, Clock, Layers, Gauge } from 'lucide-react';
 import { useAudioRecorder } from '../../hooks/useAudioRecorder';
 import { useWaveform } from '../../hooks/useWaveform';
 import { useProjectStore } from '../../stores/projectStore';
+import { useMetronomeStore, getMetronomeSettings } from '../../stores/metronomeStore';
+import { useTrackStore } from '../../stores/trackStore';
+import { useLatencyStore } from '../../stores/latencyStore';
+import { multiTrackEngine } from '../../lib/multiTrackEngine';
 
 interface AudioRecorderProps {
   onRecordingComplete?: (audioBlob: Blob) => void;
 }
 
+// Where an overdub started on the timeline, and the performance.now() times
+// playback reached that point and capturing actually began
+interface OverdubTiming {
+  from: number;
+  startAt: number;
+  startedAt: number;
+}
+
 const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [overdub, setOverdub] = useState(false);
+  const [isOverdubbing, setIsOverdubbing] = useState(false);
+  const overdubRef = useRef<OverdubTiming | null>(null);
   const [recordingSettings, setRecordingSettings] = useState({
     sampleRate: 44100,
     echoCancellation: true,
@@ -26,6 +41,8 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
     error,
     permissionStatus,
     isCheckingPermissions,
+    isCountingIn,
+    countInBeatsLeft,
     startRecording,
     stopRecording,
     pauseRecording,
@@ -37,12 +54,27 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
 
   const { generateLiveWaveform } = useWaveform(canvasRef);
   const { createSession, currentProject } = useProjectStore();
+  const { enabled: clickEnabled, countInBars } = useMetronomeStore();
+  const { tracks } = useTrackStore();
+  const { roundTripLatency, isCalibrating, error: latencyError, calibrate } = useLatencyStore();
+
+  const canOverdub = tracks.some(track => track.project_id === currentProject?.id);
 
   // Check permissions on mount
   useEffect(() => {
     checkPermissions();
   }, [checkPermissions]);
 
+  // Don't leave the project playing if the recorder goes away mid-overdub
+  useEffect(() => {
+    return () => {
+      if (overdubRef.current) {
+        multiTrackEngine.pause();
+        overdubRef.current = null;
+      }
+    };
+  }, []);
+
   // Update live waveform during recording
   useEffect(() => {
     if (isRecording && !isPaused) {
@@ -64,17 +96,70 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
       alert('Please create a project first');
       return;
     }
-    await startRecording();
+
+    if (overdub && canOverdub && await startOverdub()) return;
+
+    const settings = getMetronomeSettings();
+    await startRecording(settings && (clickEnabled || countInBars > 0)
+      ? { settings, countInBars, continuous: clickEnabled }
+      : undefined);
+  };
+
+  // Plays the project from the playhead and records along with it. The
+  // engine plays the click, if it's on, on the project's own grid. Resolves
+  // with false when there's nothing to play, to record on its own instead.
+  const startOverdub = async () => {
+    await multiTrackEngine.play();
+    const from = multiTrackEngine.getCurrentTime();
+    const startAt = multiTrackEngine.getPerformanceTime(from);
+    if (startAt === null) return false;
+
+    const timing: OverdubTiming = { from, startAt, startedAt: startAt };
+    overdubRef.current = timing;
+    setIsOverdubbing(true);
+
+    const started = await startRecording(undefined, {
+      startAt,
+      endAt: Infinity,
+      onComplete: (_blob, startedAt) => {
+        timing.startedAt = startedAt;
+      },
+    });
+    if (!started) {
+      stopOverdub();
+    }
+    return true;
+  };
+
+  const stopOverdub = () => {
+    if (!overdubRef.current) return;
+    multiTrackEngine.pause();
+    overdubRef.current = null;
+    setIsOverdubbing(false);
   };
 
   const handleStopRecording = async () => {
     const audioBlob = await stopRecording();
+    // The recording reports when capturing began as it resolves, so the
+    // timing is complete by now
+    const timing = overdubRef.current;
+    stopOverdub();
+
     if (audioBlob && currentProject) {
-      await createSession(currentProject.id, audioBlob);
+      // Line the overdub up with the tracks it was played along to
+      const recordedAt = timing
+        ? timing.from + (timing.startedAt - timing.startAt) / 1000 - (roundTripLatency ?? 0)
+        : undefined;
+      await createSession(currentProject.id, audioBlob, recordedAt);
       onRecordingComplete?.(audioBlob);
     }
   };
 
+  const handleReset = () => {
+    stopOverdub();
+    resetRecording();
+  };
+
   const handlePauseResume = () => {
     if (isPaused) {
       resumeRecording();
@@ -306,9 +391,57 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
         )}
       </div>
 
+      {/* Overdub */}
+      <div className="mb-6 bg-dark-700/50 rounded-lg px-4 py-3 border border-gray-600">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label
+            className={`flex items-center space-x-2 ${canOverdub ? 'cursor-pointer' : 'opacity-50'}`}
+            title="Play the project from the playhead while recording. Count-in is skipped."
+          >
+            <input
+              type="checkbox"
+              checked={overdub && canOverdub}
+              onChange={(e) => setOverdub(e.target.checked)}
+              className="accent-neon-blue"
+              disabled={!canOverdub || isRecording || isCountingIn}
+            />
+            <Layers className="h-4 w-4 text-neon-blue" />
+            <span className="text-sm text-gray-300">Overdub</span>
+            <span className="text-xs text-gray-500">
+              {canOverdub ? 'Hear your tracks while you record' : 'Add a track to record over it'}
+            </span>
+          </label>
+          <div className="flex items-center space-x-3">
+            <span className="text-xs text-gray-400 font-mono">
+              Latency: {roundTripLatency === null ? 'not calibrated' : `${Math.round(roundTripLatency * 1000)} ms`}
+            </span>
+            <button
+              onClick={calibrate}
+              disabled={isCalibrating || isRecording || isCountingIn}
+              className="flex items-center space-x-1 bg-dark-600 border border-gray-500 rounded px-3 py-1 text-sm text-gray-300 hover:text-neon-blue hover:border-neon-blue transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Play test pulses through the speakers and time how long the microphone takes to hear them. Take headphones off first."
+            >
+              <Gauge className={`h-4 w-4 ${isCalibrating ? 'animate-pulse' : ''}`} />
+              <span>{isCalibrating ? 'Listening...' : 'Calibrate'}</span>
+            </button>
+          </div>
+        </div>
+        {latencyError && (
+          <p className="mt-2 text-xs text-red-400">{latencyError}</p>
+        )}
+      </div>
+
       {/* Recording Controls */}
       <div className="flex items-center justify-center space-x-4 mb-4">
-        {!isRecording ? (
+        {isCountingIn ? (
+          <button
+            onClick={handleStopRecording}
+            className="bg-gradient-to-r from-gray-600 to-gray-700 text-white p-3 rounded-full hover:shadow-lg transition-all duration-300 transform hover:scale-105"
+            title="Cancel count-in"
+          >
+            <Square className="h-5 w-5" />
+          </button>
+        ) : !isRecording ? (
           <button
             onClick={handleStartRecording}
             disabled={!canRecord}
@@ -319,13 +452,16 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
           </button>
         ) : (
           <>
-            <button
-              onClick={handlePauseResume}
-              className="bg-gradient-to-r from-neon-blue to-neon-purple text-white p-3 rounded-full hover:shadow-neon-sm transition-all duration-300 transform hover:scale-105"
-              title={isPaused ? 'Resume recording' : 'Pause recording'}
-            >
-              {isPaused ? <Play className="h-5 w-5" /> : <Pause className="h-5 w-5" />}
-            </button>
+            {/* Pausing would put an overdub out of step with the playback */}
+            {!isOverdubbing && (
+              <button
+                onClick={handlePauseResume}
+                className="bg-gradient-to-r from-neon-blue to-neon-purple text-white p-3 rounded-full hover:shadow-neon-sm transition-all duration-300 transform hover:scale-105"
+                title={isPaused ? 'Resume recording' : 'Pause recording'}
+              >
+                {isPaused ? <Play className="h-5 w-5" /> : <Pause className="h-5 w-5" />}
+              </button>
+            )}
             
             <button
               onClick={handleStopRecording}
@@ -338,7 +474,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
         )}
 
         <button
-          onClick={resetRecording}
+          onClick={handleReset}
           className="bg-gradient-to-r from-gray-700 to-gray-800 text-white p-3 rounded-full hover:shadow-lg transition-all duration-300 transform hover:scale-105"
           disabled={!isRecording && recordingTime === 0}
           title="Reset recording"
@@ -349,11 +485,17 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
 
       {/* Recording Status */}
       <div className="text-center">
+        {isCountingIn && (
+          <div className="flex items-center justify-center space-x-2">
+            <div className="w-3 h-3 bg-yellow-500 rounded-full animate-pulse" />
+            <span className="text-yellow-400 font-medium">Count-in... {countInBeatsLeft}</span>
+          </div>
+        )}
         {isRecording && (
           <div className="flex items-center justify-center space-x-2">
             <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
             <span className={`font-medium ${getStatusColor()}`}>
-              {isPaused ? 'Recording Paused' : 'Recording...'}
+              {isPaused ? 'Recording Paused' : isOverdubbing ? 'Overdubbing...' : 'Recording...'}
             </span>
           </div>
         )}
@@ -363,7 +505,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
             <span className="text-green-400 font-medium">Recording Complete</span>
           </div>
         )}
-        {!isRecording && recordingTime === 0 && canRecord && (
+        {!isRecording && !isCountingIn && recordingTime === 0 && canRecord && (
           <div className="flex items-center justify-center space-x-2">
             <div className="w-3 h-3 bg-gray-500 rounded-full" />
             <span className="text-gray-400">Ready to Record</span>
@@ -378,10 +520,14 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete }) =>
       </div>
 
       {/* Recording Tips */}
-      {canRecord && !isRecording && recordingTime === 0 && (
+      {canRecord && !isRecording && !isCountingIn && recordingTime === 0 && (
         <div className="mt-4 text-center">
           <p className="text-xs text-gray-500">
-            💡 Tip: Keep audio levels between 30-70% for best quality
+            {overdub && canOverdub
+              ? '💡 Tip: Use headphones so the microphone only hears you, not your tracks'
+              : clickEnabled
+                ? '💡 Tip: Use headphones so the microphone doesn\'t pick up the click'
+                : '💡 Tip: Keep audio levels between 30-70% for best quality'}
           </p>
         </div>
       )}
@@ -1,80 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { Sliders, Volume2, Zap, Waves, Music, RotateCcw, Power, Play, Pause, Download } from 'lucide-react';
+import { Sliders, Volume2, Zap, Waves, Music, RotateCcw, Power, Play, Pause, Download, Save } from 'lucide-react';
 import { useProjectStore } from '../../stores/projectStore';
-
-interface EffectParameters {
-  reverb: {
-    roomSize: number;
-    damping: number;
-    wetLevel: number;
-    dryLevel: number;
-  };
-  delay: {
-    delayTime: number;
-    feedback: number;
-    wetLevel: number;
-    dryLevel: number;
-  };
-  chorus: {
-    rate: number;
-    depth: number;
-    wetLevel: number;
-    dryLevel: number;
-  };
-  equalizer: {
-    lowGain: number;
-    midGain: number;
-    highGain: number;
-  };
-  compressor: {
-    threshold: number;
-    ratio: number;
-    attack: number;
-    release: number;
-  };
-}
+import { useEffectsStore } from '../../stores/effectsStore';
+import { EFFECT_PARAMETER_RANGES, connectEffects, getEffectsTailSeconds, serializeEffectsSettings } from '../../lib/effectsGraph';
+import { decodeAudio } from '../../lib/decode';
+import { encodeWav } from '../../lib/encoders/wav';
+import type { WavBitDepth } from '../../lib/encoders/wav';
+import { probeAudio } from '../../lib/probe';
+import { DEFAULT_EXPORT_SETTINGS } from '../../hooks/useAudioExporter';
 
 const EffectsPanel: React.FC = () => {
   const [isEnabled, setIsEnabled] = useState(false);
-  const [activeEffects, setActiveEffects] = useState<string[]>([]);
-  const [parameters, setParameters] = useState<EffectParameters>({
-    reverb: {
-      roomSize: 0.3,
-      damping: 0.5,
-      wetLevel: 0.3,
-      dryLevel: 0.7,
-    },
-    delay: {
-      delayTime: 0.3,
-      feedback: 0.25,
-      wetLevel: 0.3,
-      dryLevel: 0.7,
-    },
-    chorus: {
-      rate: 1.5,
-      depth: 0.3,
-      wetLevel: 0.4,
-      dryLevel: 0.6,
-    },
-    equalizer: {
-      lowGain: 0,
-      midGain: 0,
-      highGain: 0,
-    },
-    compressor: {
-      threshold: -24,
-      ratio: 3,
-      attack: 0.003,
-      release: 0.25,
-    },
-  });
+  const { activeEffects, parameters, toggleEffect, updateParameter, resetParameters } = useEffectsStore();
 
   const [processedAudioUrl, setProcessedAudioUrl] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isPlayingProcessed, setIsPlayingProcessed] = useState(false);
   const [processedAudioRef] = useState(new Audio());
 
-  const { currentSession, updateSession } = useProjectStore();
+  const { currentProject, currentSession, updateSession, updateProject } = useProjectStore();
 
   // Clean up processed audio URL when component unmounts or session changes
   useEffect(() => {
@@ -94,57 +38,13 @@ const EffectsPanel: React.FC = () => {
     setIsPlayingProcessed(false);
   }, [currentSession?.id]);
 
-  const toggleEffect = (effectName: string) => {
-    setActiveEffects(prev => 
-      prev.includes(effectName)
-        ? prev.filter(name => name !== effectName)
-        : [...prev, effectName]
-    );
-  };
-
-  const updateParameter = (effectType: keyof EffectParameters, parameterName: string, value: number) => {
-    setParameters(prev => ({
-      ...prev,
-      [effectType]: {
-        ...prev[effectType],
-        [parameterName]: value,
-      },
-    }));
-  };
+  // The project's effects_settings are applied to the whole mix in playback and on export
+  const saveAsMasterEffects = async () => {
+    if (!currentProject) return;
 
-  const resetParameters = () => {
-    setParameters({
-      reverb: {
-        roomSize: 0.3,
-        damping: 0.5,
-        wetLevel: 0.3,
-        dryLevel: 0.7,
-      },
-      delay: {
-        delayTime: 0.3,
-        feedback: 0.25,
-        wetLevel: 0.3,
-        dryLevel: 0.7,
-      },
-      chorus: {
-        rate: 1.5,
-        depth: 0.3,
-        wetLevel: 0.4,
-        dryLevel: 0.6,
-      },
-      equalizer: {
-        lowGain: 0,
-        midGain: 0,
-        highGain: 0,
-      },
-      compressor: {
-        threshold: -24,
-        ratio: 3,
-        attack: 0.003,
-        release: 0.25,
-      },
+    await updateProject(currentProject.id, {
+      effects_settings: activeEffects.length > 0 ? serializeEffectsSettings({ activeEffects, parameters }) : {},
     });
-    setActiveEffects([]);
   };
 
   const processAudioWithEffects = async () => {
@@ -155,15 +55,16 @@ const EffectsPanel: React.FC = () => {
     setIsProcessing(true);
 
     try {
-      // Convert blob to audio buffer
-      const arrayBuffer = await currentSession.audioBlob.arrayBuffer();
-      const audioContext = new AudioContext();
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+      // Decode at the recording's own rate, as export does
+      const { sampleRate } = await probeAudio(currentSession.audioBlob);
+      const audioBuffer = await decodeAudio(await currentSession.audioBlob.arrayBuffer(), sampleRate);
 
-      // Create offline audio context for processing
+      // Create offline audio context for processing, long enough for the
+      // reverb and delay to ring out
+      const settings = { activeEffects, parameters };
       const offlineContext = new OfflineAudioContext(
         audioBuffer.numberOfChannels,
-        audioBuffer.length,
+        audioBuffer.length + Math.ceil(getEffectsTailSeconds(settings) * audioBuffer.sampleRate),
         audioBuffer.sampleRate
       );
 
@@ -171,142 +72,8 @@ const EffectsPanel: React.FC = () => {
       const source = offlineContext.createBufferSource();
       source.buffer = audioBuffer;
 
-      let currentNode: AudioNode = source;
-
       // Apply effects in order
-      activeEffects.forEach(effectType => {
-        switch (effectType) {
-          case 'equalizer': {
-            const lowShelf = offlineContext.createBiquadFilter();
-            const midPeaking = offlineContext.createBiquadFilter();
-            const highShelf = offlineContext.createBiquadFilter();
-
-            lowShelf.type = 'lowshelf';
-            lowShelf.frequency.value = 320;
-            lowShelf.gain.value = parameters.equalizer.lowGain;
-
-            midPeaking.type = 'peaking';
-            midPeaking.frequency.value = 1000;
-            midPeaking.Q.value = 1;
-            midPeaking.gain.value = parameters.equalizer.midGain;
-
-            highShelf.type = 'highshelf';
-            highShelf.frequency.value = 3200;
-            highShelf.gain.value = parameters.equalizer.highGain;
-
-            currentNode.connect(lowShelf);
-            lowShelf.connect(midPeaking);
-            midPeaking.connect(highShelf);
-            currentNode = highShelf;
-            break;
-          }
-          
-          case 'compressor': {
-            const compressor = offlineContext.createDynamicsCompressor();
-            compressor.threshold.value = parameters.compressor.threshold;
-            compressor.ratio.value = parameters.compressor.ratio;
-            compressor.attack.value = parameters.compressor.attack;
-            compressor.release.value = parameters.compressor.release;
-
-            currentNode.connect(compressor);
-            currentNode = compressor;
-            break;
-          }
-          
-          case 'reverb': {
-            const convolver = offlineContext.createConvolver();
-            const wetGain = offlineContext.createGain();
-            const dryGain = offlineContext.createGain();
-            const outputGain = offlineContext.createGain();
-
-            // Create simple impulse response
-            const length = offlineContext.sampleRate * parameters.reverb.roomSize * 4;
-            const impulse = offlineContext.createBuffer(2, length, offlineContext.sampleRate);
-            
-            for (let channel = 0; channel < 2; channel++) {
-              const channelData = impulse.getChannelData(channel);
-              for (let i = 0; i < length; i++) {
-                const decay = Math.pow(1 - i / length, parameters.reverb.damping * 10);
-                channelData[i] = (Math.random() * 2 - 1) * decay;
-              }
-            }
-            
-            convolver.buffer = impulse;
-            wetGain.gain.value = parameters.reverb.wetLevel;
-            dryGain.gain.value = parameters.reverb.dryLevel;
-
-            // Wet path
-            currentNode.connect(convolver);
-            convolver.connect(wetGain);
-            wetGain.connect(outputGain);
-            
-            // Dry path
-            currentNode.connect(dryGain);
-            dryGain.connect(outputGain);
-            
-            currentNode = outputGain;
-            break;
-          }
-          
-          case 'delay': {
-            const delay = offlineContext.createDelay(1.0);
-            const feedback = offlineContext.createGain();
-            const wetGain = offlineContext.createGain();
-            const dryGain = offlineContext.createGain();
-            const outputGain = offlineContext.createGain();
-
-            delay.delayTime.value = parameters.delay.delayTime;
-            feedback.gain.value = parameters.delay.feedback;
-            wetGain.gain.value = parameters.delay.wetLevel;
-            dryGain.gain.value = parameters.delay.dryLevel;
-
-            // Wet path with feedback
-            currentNode.connect(delay);
-            delay.connect(feedback);
-            feedback.connect(delay);
-            delay.connect(wetGain);
-            wetGain.connect(outputGain);
-            
-            // Dry path
-            currentNode.connect(dryGain);
-            dryGain.connect(outputGain);
-            
-            currentNode = outputGain;
-            break;
-          }
-          
-          case 'chorus': {
-            const delay = offlineContext.createDelay(0.05);
-            const lfo = offlineContext.createOscillator();
-            const lfoGain = offlineContext.createGain();
-            const wetGain = offlineContext.createGain();
-            const dryGain = offlineContext.createGain();
-            const outputGain = offlineContext.createGain();
-
-            lfo.frequency.value = parameters.chorus.rate;
-            lfoGain.gain.value = parameters.chorus.depth * 0.01;
-            delay.delayTime.value = 0.02;
-            wetGain.gain.value = parameters.chorus.wetLevel;
-            dryGain.gain.value = parameters.chorus.dryLevel;
-
-            lfo.connect(lfoGain);
-            lfoGain.connect(delay.delayTime);
-            lfo.start();
-
-            // Wet path
-            currentNode.connect(delay);
-            delay.connect(wetGain);
-            wetGain.connect(outputGain);
-            
-            // Dry path
-            currentNode.connect(dryGain);
-            dryGain.connect(outputGain);
-            
-            currentNode = outputGain;
-            break;
-          }
-        }
-      });
+      const currentNode = connectEffects(offlineContext, source, settings).output;
 
       // Connect to destination
       currentNode.connect(offlineContext.destination);
@@ -315,9 +82,17 @@ const EffectsPanel: React.FC = () => {
       source.start();
       const processedBuffer = await offlineContext.startRendering();
 
-      // Convert processed buffer to blob
-      const processedBlob = audioBufferToWav(processedBuffer);
-      
+      // Written by the same WAV encoder and dither as export
+      const channelData = Array.from(
+        { length: processedBuffer.numberOfChannels },
+        (_, channel) => processedBuffer.getChannelData(channel)
+      );
+      const wav = await encodeWav(channelData, processedBuffer.sampleRate, {
+        bitDepth: DEFAULT_EXPORT_SETTINGS.bitDepth as WavBitDepth,
+        dither: DEFAULT_EXPORT_SETTINGS.dither,
+      });
+      const processedBlob = new Blob([wav], { type: 'audio/wav' });
+
       // Create URL for processed audio
       if (processedAudioUrl) {
         URL.revokeObjectURL(processedAudioUrl);
@@ -327,8 +102,6 @@ const EffectsPanel: React.FC = () => {
 
       // Update processed audio element
       processedAudioRef.src = newProcessedUrl;
-
-      await audioContext.close();
     } catch (error) {
       console.error('Error processing audio:', error);
     } finally {
@@ -336,56 +109,6 @@ const EffectsPanel: React.FC = () => {
     }
   };
 
-  const audioBufferToWav = (buffer: AudioBuffer): Blob => {
-    const length = buffer.length;
-    const numberOfChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const bytesPerSample = 2;
-    const blockAlign = numberOfChannels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = length * blockAlign;
-    const bufferSize = 44 + dataSize;
-    
-    const arrayBuffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(arrayBuffer);
-    
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-    
-    writeString(0, 'RIFF');
-    view.setUint32(4, bufferSize - 8, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, 16, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataSize, true);
-    
-    // Convert audio data
-    let offset = 44;
-    const maxValue = 32767;
-    
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, buffer.getChannelData(channel)[i]));
-        const intSample = Math.round(sample * maxValue);
-        view.setInt16(offset, intSample, true);
-        offset += 2;
-      }
-    }
-    
-    return new Blob([arrayBuffer], { type: 'audio/wav' });
-  };
-
   const playProcessedAudio = () => {
     if (processedAudioRef.paused) {
       processedAudioRef.play();
@@ -501,6 +224,14 @@ const EffectsPanel: React.FC = () => {
           <h2 className="font-righteous text-xl text-neon-blue">Audio Effects</h2>
         </div>
         <div className="flex items-center space-x-3">
+          <button
+            onClick={saveAsMasterEffects}
+            disabled={!currentProject}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Use as master effects for the mix"
+          >
+            <Save className="h-5 w-5" />
+          </button>
           <button
             onClick={resetParameters}
             className="text-gray-400 hover:text-white transition-colors duration-200"
@@ -570,9 +301,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Low ({parameters.equalizer.lowGain.toFixed(1)} dB)</label>
                   <input
                     type="range"
-                    min="-12"
-                    max="12"
-                    step="0.5"
+                    min={EFFECT_PARAMETER_RANGES.equalizer.lowGain.min}
+                    max={EFFECT_PARAMETER_RANGES.equalizer.lowGain.max}
+                    step={EFFECT_PARAMETER_RANGES.equalizer.lowGain.step}
                     value={parameters.equalizer.lowGain}
                     onChange={(e) => updateParameter('equalizer', 'lowGain', parseFloat(e.target.value))}
                     className="w-full accent-neon-blue"
@@ -582,9 +313,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Mid ({parameters.equalizer.midGain.toFixed(1)} dB)</label>
                   <input
                     type="range"
-                    min="-12"
-                    max="12"
-                    step="0.5"
+                    min={EFFECT_PARAMETER_RANGES.equalizer.midGain.min}
+                    max={EFFECT_PARAMETER_RANGES.equalizer.midGain.max}
+                    step={EFFECT_PARAMETER_RANGES.equalizer.midGain.step}
                     value={parameters.equalizer.midGain}
                     onChange={(e) => updateParameter('equalizer', 'midGain', parseFloat(e.target.value))}
                     className="w-full accent-neon-blue"
@@ -594,9 +325,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">High ({parameters.equalizer.highGain.toFixed(1)} dB)</label>
                   <input
                     type="range"
-                    min="-12"
-                    max="12"
-                    step="0.5"
+                    min={EFFECT_PARAMETER_RANGES.equalizer.highGain.min}
+                    max={EFFECT_PARAMETER_RANGES.equalizer.highGain.max}
+                    step={EFFECT_PARAMETER_RANGES.equalizer.highGain.step}
                     value={parameters.equalizer.highGain}
                     onChange={(e) => updateParameter('equalizer', 'highGain', parseFloat(e.target.value))}
                     className="w-full accent-neon-blue"
@@ -615,9 +346,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Room Size ({(parameters.reverb.roomSize * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0.1"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.reverb.roomSize.min}
+                    max={EFFECT_PARAMETER_RANGES.reverb.roomSize.max}
+                    step={EFFECT_PARAMETER_RANGES.reverb.roomSize.step}
                     value={parameters.reverb.roomSize}
                     onChange={(e) => updateParameter('reverb', 'roomSize', parseFloat(e.target.value))}
                     className="w-full accent-neon-green"
@@ -627,9 +358,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Damping ({(parameters.reverb.damping * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.reverb.damping.min}
+                    max={EFFECT_PARAMETER_RANGES.reverb.damping.max}
+                    step={EFFECT_PARAMETER_RANGES.reverb.damping.step}
                     value={parameters.reverb.damping}
                     onChange={(e) => updateParameter('reverb', 'damping', parseFloat(e.target.value))}
                     className="w-full accent-neon-green"
@@ -639,9 +370,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Wet Level ({(parameters.reverb.wetLevel * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.reverb.wetLevel.min}
+                    max={EFFECT_PARAMETER_RANGES.reverb.wetLevel.max}
+                    step={EFFECT_PARAMETER_RANGES.reverb.wetLevel.step}
                     value={parameters.reverb.wetLevel}
                     onChange={(e) => updateParameter('reverb', 'wetLevel', parseFloat(e.target.value))}
                     className="w-full accent-neon-green"
@@ -651,9 +382,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Dry Level ({(parameters.reverb.dryLevel * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.reverb.dryLevel.min}
+                    max={EFFECT_PARAMETER_RANGES.reverb.dryLevel.max}
+                    step={EFFECT_PARAMETER_RANGES.reverb.dryLevel.step}
                     value={parameters.reverb.dryLevel}
                     onChange={(e) => updateParameter('reverb', 'dryLevel', parseFloat(e.target.value))}
                     className="w-full accent-neon-green"
@@ -672,9 +403,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Delay Time ({(parameters.delay.delayTime * 1000).toFixed(0)}ms)</label>
                   <input
                     type="range"
-                    min="0.05"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.delay.delayTime.min}
+                    max={EFFECT_PARAMETER_RANGES.delay.delayTime.max}
+                    step={EFFECT_PARAMETER_RANGES.delay.delayTime.step}
                     value={parameters.delay.delayTime}
                     onChange={(e) => updateParameter('delay', 'delayTime', parseFloat(e.target.value))}
                     className="w-full accent-neon-yellow"
@@ -684,9 +415,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Feedback ({(parameters.delay.feedback * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="0.8"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.delay.feedback.min}
+                    max={EFFECT_PARAMETER_RANGES.delay.feedback.max}
+                    step={EFFECT_PARAMETER_RANGES.delay.feedback.step}
                     value={parameters.delay.feedback}
                     onChange={(e) => updateParameter('delay', 'feedback', parseFloat(e.target.value))}
                     className="w-full accent-neon-yellow"
@@ -696,9 +427,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Wet Level ({(parameters.delay.wetLevel * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.delay.wetLevel.min}
+                    max={EFFECT_PARAMETER_RANGES.delay.wetLevel.max}
+                    step={EFFECT_PARAMETER_RANGES.delay.wetLevel.step}
                     value={parameters.delay.wetLevel}
                     onChange={(e) => updateParameter('delay', 'wetLevel', parseFloat(e.target.value))}
                     className="w-full accent-neon-yellow"
@@ -708,9 +439,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Dry Level ({(parameters.delay.dryLevel * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.delay.dryLevel.min}
+                    max={EFFECT_PARAMETER_RANGES.delay.dryLevel.max}
+                    step={EFFECT_PARAMETER_RANGES.delay.dryLevel.step}
                     value={parameters.delay.dryLevel}
                     onChange={(e) => updateParameter('delay', 'dryLevel', parseFloat(e.target.value))}
                     className="w-full accent-neon-yellow"
@@ -729,9 +460,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Rate ({parameters.chorus.rate.toFixed(1)} Hz)</label>
                   <input
                     type="range"
-                    min="0.1"
-                    max="5"
-                    step="0.1"
+                    min={EFFECT_PARAMETER_RANGES.chorus.rate.min}
+                    max={EFFECT_PARAMETER_RANGES.chorus.rate.max}
+                    step={EFFECT_PARAMETER_RANGES.chorus.rate.step}
                     value={parameters.chorus.rate}
                     onChange={(e) => updateParameter('chorus', 'rate', parseFloat(e.target.value))}
                     className="w-full accent-neon-pink"
@@ -741,9 +472,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Depth ({(parameters.chorus.depth * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.chorus.depth.min}
+                    max={EFFECT_PARAMETER_RANGES.chorus.depth.max}
+                    step={EFFECT_PARAMETER_RANGES.chorus.depth.step}
                     value={parameters.chorus.depth}
                     onChange={(e) => updateParameter('chorus', 'depth', parseFloat(e.target.value))}
                     className="w-full accent-neon-pink"
@@ -753,9 +484,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Wet Level ({(parameters.chorus.wetLevel * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.chorus.wetLevel.min}
+                    max={EFFECT_PARAMETER_RANGES.chorus.wetLevel.max}
+                    step={EFFECT_PARAMETER_RANGES.chorus.wetLevel.step}
                     value={parameters.chorus.wetLevel}
                     onChange={(e) => updateParameter('chorus', 'wetLevel', parseFloat(e.target.value))}
                     className="w-full accent-neon-pink"
@@ -765,9 +496,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Dry Level ({(parameters.chorus.dryLevel * 100).toFixed(0)}%)</label>
                   <input
                     type="range"
-                    min="0"
-                    max="1"
-                    step="0.05"
+                    min={EFFECT_PARAMETER_RANGES.chorus.dryLevel.min}
+                    max={EFFECT_PARAMETER_RANGES.chorus.dryLevel.max}
+                    step={EFFECT_PARAMETER_RANGES.chorus.dryLevel.step}
                     value={parameters.chorus.dryLevel}
                     onChange={(e) => updateParameter('chorus', 'dryLevel', parseFloat(e.target.value))}
                     className="w-full accent-neon-pink"
@@ -786,9 +517,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Threshold ({parameters.compressor.threshold.toFixed(1)} dB)</label>
                   <input
                     type="range"
-                    min="-60"
-                    max="0"
-                    step="1"
+                    min={EFFECT_PARAMETER_RANGES.compressor.threshold.min}
+                    max={EFFECT_PARAMETER_RANGES.compressor.threshold.max}
+                    step={EFFECT_PARAMETER_RANGES.compressor.threshold.step}
                     value={parameters.compressor.threshold}
                     onChange={(e) => updateParameter('compressor', 'threshold', parseFloat(e.target.value))}
                     className="w-full accent-neon-purple"
@@ -798,9 +529,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Ratio ({parameters.compressor.ratio.toFixed(1)}:1)</label>
                   <input
                     type="range"
-                    min="1"
-                    max="20"
-                    step="0.5"
+                    min={EFFECT_PARAMETER_RANGES.compressor.ratio.min}
+                    max={EFFECT_PARAMETER_RANGES.compressor.ratio.max}
+                    step={EFFECT_PARAMETER_RANGES.compressor.ratio.step}
                     value={parameters.compressor.ratio}
                     onChange={(e) => updateParameter('compressor', 'ratio', parseFloat(e.target.value))}
                     className="w-full accent-neon-purple"
@@ -810,9 +541,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Attack ({(parameters.compressor.attack * 1000).toFixed(1)}ms)</label>
                   <input
                     type="range"
-                    min="0.001"
-                    max="0.1"
-                    step="0.001"
+                    min={EFFECT_PARAMETER_RANGES.compressor.attack.min}
+                    max={EFFECT_PARAMETER_RANGES.compressor.attack.max}
+                    step={EFFECT_PARAMETER_RANGES.compressor.attack.step}
                     value={parameters.compressor.attack}
                     onChange={(e) => updateParameter('compressor', 'attack', parseFloat(e.target.value))}
                     className="w-full accent-neon-purple"
@@ -822,9 +553,9 @@ const EffectsPanel: React.FC = () => {
                   <label className="block text-sm text-gray-300 mb-2">Release ({(parameters.compressor.release * 1000).toFixed(0)}ms)</label>
                   <input
                     type="range"
-                    min="0.01"
-                    max="1"
-                    step="0.01"
+                    min={EFFECT_PARAMETER_RANGES.compressor.release.min}
+                    max={EFFECT_PARAMETER_RANGES.compressor.release.max}
+                    step={EFFECT_PARAMETER_RANGES.compressor.release.step}
                     value={parameters.compressor.release}
                     onChange={(e) => updateParameter('compressor', 'release', parseFloat(e.target.value))}
                     className="w-full accent-neon-purple"
@@ -1,10 +1,10 @@
 import React, { useRef, useEffect, useState } from 'react';
 import { Play, Pause, SkipBack, SkipForward, Volume2, Repeat, Shuffle, Download } from 'lucide-react';
-import { useWaveform } from '../../hooks/useWaveform';
 import { useProjectStore } from '../../stores/projectStore';
+import { BlobScrubber } from '../../lib/scrub';
+import WaveformTimeline from './WaveformTimeline';
 
 const EnhancedAudioPlayer: React.FC = () => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const [volume, setVolume] = useState(1);
   const [currentTime, setCurrentTime] = useState(0);
@@ -14,31 +14,38 @@ const EnhancedAudioPlayer: React.FC = () => {
   const [isAudioReady, setIsAudioReady] = useState(false);
   const [actualDuration, setActualDuration] = useState(0);
   const [loadingState, setLoadingState] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  
-  const { drawWaveform, generateWaveformFromAudio } = useWaveform(canvasRef);
+  const [scrubber] = useState(() => new BlobScrubber());
+  const [decodedBuffer, setDecodedBuffer] = useState<AudioBuffer | null>(null);
+  // Whether playback was running when the current scrub started
+  const resumeAfterScrubRef = useRef(false);
+
   const { currentSession, updateSession, playAudio, pauseAudio, seekAudio } = useProjectStore();
 
-  // Update waveform when session changes
+  // Decoded copy of the recording for scrubbing and sample-level zoom
   useEffect(() => {
-    if (currentSession?.audioBlob && currentSession.waveformData) {
-      drawWaveform(
-        currentSession.waveformData.peaks,
-        currentTime,
-        actualDuration || currentSession.duration,
-        false
-      );
-    }
-  }, [currentSession, currentTime, actualDuration, drawWaveform]);
+    const blob = currentSession?.audioBlob;
+    setDecodedBuffer(null);
+    if (!blob) return;
+
+    let cancelled = false;
+    scrubber.load(blob)
+      .then(buffer => {
+        if (!cancelled) setDecodedBuffer(buffer);
+      })
+      .catch(error => console.warn('Could not decode audio for scrubbing:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentSession?.audioBlob, scrubber]);
 
-  // Generate waveform data when audio blob changes
   useEffect(() => {
-    if (currentSession?.audioBlob && !currentSession.waveformData) {
-      currentSession.audioBlob.arrayBuffer().then(async (buffer) => {
-        const waveformData = await generateWaveformFromAudio(buffer);
-        updateSession({ waveformData });
-      });
-    }
-  }, [currentSession?.audioBlob, generateWaveformFromAudio, updateSession]);
+    return () => scrubber.close();
+  }, [scrubber]);
+
+  useEffect(() => {
+    scrubber.setVolume(volume);
+  }, [volume, scrubber]);
 
   // Enhanced audio loading with better duration detection
   useEffect(() => {
@@ -224,45 +231,56 @@ const EnhancedAudioPlayer: React.FC = () => {
     }
   };
 
-  const handleSeek = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const duration = actualDuration || currentSession?.duration;
-    if (!duration || !canvasRef.current || !isAudioReady) return;
+  const seekTo = (time: number) => {
+    setCurrentTime(time);
+    seekAudio(time);
 
-    const canvas = canvasRef.current;
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const progress = x / rect.width;
-    const newTime = progress * duration;
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+    }
+  };
 
-    setCurrentTime(newTime);
-    seekAudio(newTime);
+  // Hold the playhead to pause and hear snippets as it moves; playback picks
+  // up from the new position on release
+  const handleScrubStart = (time: number) => {
+    if (!isAudioReady) return;
 
-    if (audioRef.current) {
-      audioRef.current.currentTime = newTime;
+    resumeAfterScrubRef.current = !!currentSession?.isPlaying;
+    if (currentSession?.isPlaying) {
+      pauseAudio();
+    }
+    setCurrentTime(time);
+    scrubber.scrub(time);
+  };
+
+  const handleScrub = (time: number) => {
+    if (!isAudioReady) return;
+
+    setCurrentTime(time);
+    scrubber.scrub(time);
+  };
+
+  const handleScrubEnd = (time: number) => {
+    scrubber.stop();
+    if (!isAudioReady) return;
+
+    seekTo(time);
+    if (resumeAfterScrubRef.current) {
+      playAudio();
     }
   };
 
   const handleSkipBack = () => {
     if (!isAudioReady) return;
     
-    const newTime = Math.max(0, currentTime - 10);
-    setCurrentTime(newTime);
-    seekAudio(newTime);
-    if (audioRef.current) {
-      audioRef.current.currentTime = newTime;
-    }
+    seekTo(Math.max(0, currentTime - 10));
   };
 
   const handleSkipForward = () => {
     if (!isAudioReady) return;
     
     const duration = actualDuration || currentSession?.duration || 0;
-    const newTime = Math.min(duration, currentTime + 10);
-    setCurrentTime(newTime);
-    seekAudio(newTime);
-    if (audioRef.current) {
-      audioRef.current.currentTime = newTime;
-    }
+    seekTo(Math.min(duration, currentTime + 10));
   };
 
   const handleDownload = () => {
@@ -294,12 +312,6 @@ const EnhancedAudioPlayer: React.FC = () => {
     return formatTime(remaining);
   };
 
-  const getProgress = () => {
-    const duration = actualDuration || currentSession?.duration;
-    if (!duration || duration <= 0) return 0;
-    return Math.min((currentTime / duration) * 100, 100);
-  };
-
   // Use the most reliable duration source
   const displayDuration = actualDuration || currentSession?.duration || 0;
 
@@ -362,24 +374,18 @@ const EnhancedAudioPlayer: React.FC = () => {
         </div>
       </div>
 
-      {/* Progress Bar */}
-      <div className="mb-4">
-        <div className="bg-dark-700 rounded-full h-2 overflow-hidden">
-          <div 
-            className="h-full bg-gradient-to-r from-neon-purple to-neon-pink transition-all duration-100"
-            style={{ width: `${getProgress()}%` }}
-          />
-        </div>
-      </div>
-
       {/* Waveform */}
       <div className="mb-6">
-        <canvas
-          ref={canvasRef}
-          width={800}
-          height={120}
-          className="w-full h-24 bg-dark-900/50 rounded-lg border border-gray-600 cursor-pointer"
-          onClick={handleSeek}
+        <WaveformTimeline
+          lanes={[{ id: 'recording', peaks: currentSession.waveformData, buffer: decodedBuffer }]}
+          duration={displayDuration}
+          currentTime={currentTime}
+          isPlaying={currentSession.isPlaying}
+          laneHeight={120}
+          laneClassName="h-24"
+          onScrubStart={handleScrubStart}
+          onScrub={handleScrub}
+          onScrubEnd={handleScrubEnd}
         />
       </div>
 
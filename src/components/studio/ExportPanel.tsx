@@ -1,8 +1,28 @@
-import React, { useState } from 'react';
-import { Download, Settings, Music, FileAudio, Trash2, CheckCircle, AlertCircle, Clock, X } from 'lucide-react';
-import { useAudioExporter, ExportSettings } from '../../hooks/useAudioExporter';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Download, Settings, Music, FileAudio, Trash2, CheckCircle, AlertCircle, Clock, X, Layers, FolderArchive, Image, Ban, Save } from 'lucide-react';
+import { useAudioExporter, ExportSettings, ExportResult } from '../../hooks/useAudioExporter';
 import { useProjectStore } from '../../stores/projectStore';
+import type { Project } from '../../stores/projectStore';
+import { useTrackStore } from '../../stores/trackStore';
 import { useAuthStore } from '../../stores/authStore';
+import { useSubscriptionStore } from '../../stores/subscriptionStore';
+import { useExportStore } from '../../stores/exportStore';
+import { parseEffectsSettings } from '../../lib/effectsGraph';
+import type { AudioTags } from '../../lib/tags';
+import type { Profile } from '../../lib/supabase';
+
+const MAX_COVER_ART_BYTES = 5 * 1024 * 1024;
+
+// Tag values the export starts from; anything edited in the panel overrides them
+const getProjectMetadata = (project: Project | null, profile: Profile | null): AudioTags => ({
+  title: project?.title,
+  artist: profile?.full_name || profile?.username,
+  year: new Date().getFullYear(),
+  genre: project?.genre,
+  comment: project?.description,
+  bpm: project?.metronome_bpm,
+  keywords: project?.tags,
+});
 
 const ExportPanel: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
@@ -14,62 +34,223 @@ const ExportPanel: React.FC = () => {
     normalize: true,
     fadeIn: 0,
     fadeOut: 0,
+    resampling: 'sinc',
+    dither: 'tpdf',
     metadata: {},
   });
 
-  const { currentSession } = useProjectStore();
+  const { currentProject, currentSession } = useProjectStore();
+  const { tracks } = useTrackStore();
   const { profile } = useAuthStore();
   const {
     jobs,
     isExporting,
     error,
     exportAudio,
+    exportMix,
+    exportStems,
     downloadExport,
+    cancelExport,
     removeJob,
     clearCompletedJobs,
     getQualitySettings,
   } = useAudioExporter();
 
-  const handleExport = async () => {
-    if (!currentSession?.audioBlob) {
-      alert('No audio to export. Please record some audio first.');
-      return;
+  const {
+    checkUsageLimit,
+    trackUsage,
+    getCurrentUsage,
+    getUsageLimit,
+    loadLimits,
+    loadUsage,
+  } = useSubscriptionStore();
+  const {
+    exports: savedExports,
+    presets,
+    error: historyError,
+    loadExports,
+    recordExport,
+    downloadExport: downloadSavedExport,
+    deleteExport,
+    loadPresets,
+    savePreset,
+    deletePreset,
+  } = useExportStore();
+
+  const [includeStemEffects, setIncludeStemEffects] = useState(true);
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+
+  useEffect(() => {
+    loadLimits();
+    loadUsage();
+    loadPresets();
+  }, [loadLimits, loadUsage, loadPresets]);
+
+  // Edits apply to the current project only
+  const projectId = currentProject?.id;
+  useEffect(() => {
+    setExportSettings(prev => ({ ...prev, metadata: {} }));
+    if (projectId) {
+      loadExports(projectId);
     }
+  }, [projectId, loadExports]);
 
-    // Check subscription limits
-    if (profile?.subscription_tier === 'free') {
-      const todayExports = jobs.filter(job => {
-        const today = new Date();
-        const jobDate = job.createdAt;
-        return jobDate.toDateString() === today.toDateString();
-      }).length;
-
-      if (todayExports >= 10) {
-        alert('Free tier export limit reached (10 per day). Upgrade to Pro for unlimited exports.');
-        return;
-      }
+  const projectMetadata = useMemo(
+    () => getProjectMetadata(currentProject, profile),
+    [currentProject, profile]
+  );
+  const metadata: AudioTags = { ...projectMetadata, ...exportSettings.metadata };
+  const settingsWithMetadata: ExportSettings = { ...exportSettings, metadata };
+
+  const hasMixableTracks = tracks.some(track => track.audio_blob || track.audio_url);
 
+  const exportLimit = getUsageLimit('exports');
+  const exportsUsed = getCurrentUsage('exports');
+
+  // Returns false (after telling the user why) when the export isn't allowed
+  const checkExportLimits = async () => {
+    if (!(await checkUsageLimit('exports'))) {
+      alert(`Export limit reached (${exportLimit} per month). Upgrade to Pro for unlimited exports.`);
+      return false;
+    }
+
+    if (profile?.subscription_tier === 'free') {
       // Free tier restrictions
       if (exportSettings.format !== 'mp3') {
         alert('Free tier only supports MP3 export. Upgrade to Pro for WAV, FLAC, and OGG formats.');
-        return;
+        return false;
       }
 
       if (exportSettings.quality === 'lossless') {
         alert('Free tier does not support lossless quality. Upgrade to Pro for lossless exports.');
-        return;
+        return false;
       }
     }
 
+    return true;
+  };
+
+  // Counts the export against the plan and keeps the file in the project's history
+  const saveExport = async (result: ExportResult | null) => {
+    if (!result) return;
+
+    await trackUsage('exports');
+
+    if (currentProject) {
+      const record = await recordExport(currentProject.id, result.job, result.blob);
+      // The saved entry replaces the finished job in the list
+      if (record) {
+        removeJob(result.job.id);
+      }
+    }
+  };
+
+  const handleExport = async () => {
+    if (!currentSession?.audioBlob) {
+      alert('No audio to export. Please record some audio first.');
+      return;
+    }
+
+    if (!(await checkExportLimits())) return;
+
     try {
-      await exportAudio(currentSession.audioBlob, exportSettings);
+      await saveExport(await exportAudio(currentSession.audioBlob, settingsWithMetadata));
     } catch (error) {
       console.error('Export failed:', error);
     }
   };
 
+  const handleExportMix = async () => {
+    if (!hasMixableTracks) {
+      alert('No tracks to mix. Add some tracks to the project first.');
+      return;
+    }
+
+    if (!(await checkExportLimits())) return;
+
+    try {
+      await saveExport(await exportMix(tracks, parseEffectsSettings(currentProject?.effects_settings), settingsWithMetadata));
+    } catch (error) {
+      console.error('Mix export failed:', error);
+    }
+  };
+
+  const handleExportStems = async () => {
+    if (!hasMixableTracks) {
+      alert('No tracks to export. Add some tracks to the project first.');
+      return;
+    }
+
+    if (!(await checkExportLimits())) return;
+
+    try {
+      await saveExport(await exportStems(tracks, currentProject, includeStemEffects, settingsWithMetadata));
+    } catch (error) {
+      console.error('Stems export failed:', error);
+    }
+  };
+
   const updateSettings = (updates: Partial<ExportSettings>) => {
     setExportSettings(prev => ({ ...prev, ...updates }));
+    setSelectedPresetId('');
+  };
+
+  const handlePresetChange = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find(p => p.id === presetId);
+    if (preset) {
+      // Presets carry no tags, so the project's metadata is kept
+      setExportSettings(prev => ({ ...prev, ...preset.settings }));
+    }
+  };
+
+  const handleSavePreset = async () => {
+    const current = presets.find(p => p.id === selectedPresetId);
+    const name = prompt('Preset name', current?.name ?? '');
+    if (!name?.trim()) return;
+
+    const preset = await savePreset(name, exportSettings);
+    if (preset) {
+      setSelectedPresetId(preset.id);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find(p => p.id === selectedPresetId);
+    if (!preset || !confirm(`Delete preset "${preset.name}"?`)) return;
+
+    if (await deletePreset(preset.id)) {
+      setSelectedPresetId('');
+    }
+  };
+
+  const handleDeleteExport = async (id: string) => {
+    if (confirm('Delete this export? The file will be removed from storage.')) {
+      await deleteExport(id);
+    }
+  };
+
+  const updateMetadata = (updates: Partial<AudioTags>) => {
+    setExportSettings(prev => ({ ...prev, metadata: { ...prev.metadata, ...updates } }));
+  };
+
+  const handleCoverArtChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.type !== 'image/jpeg' && file.type !== 'image/png') {
+      alert('Cover art must be a JPEG or PNG image.');
+      return;
+    }
+    if (file.size > MAX_COVER_ART_BYTES) {
+      alert('Cover art must be smaller than 5 MB.');
+      return;
+    }
+
+    updateMetadata({
+      coverArt: { mimeType: file.type, data: new Uint8Array(await file.arrayBuffer()) },
+    });
   };
 
   const getFormatIcon = (format: string) => {
@@ -88,6 +269,7 @@ const ExportPanel: React.FC = () => {
       case 'processing': return <div className="w-4 h-4 border-2 border-blue-400 border-t-transparent rounded-full animate-spin" />;
       case 'completed': return <CheckCircle className="h-4 w-4 text-green-400" />;
       case 'failed': return <AlertCircle className="h-4 w-4 text-red-400" />;
+      case 'cancelled': return <Ban className="h-4 w-4 text-gray-400" />;
       default: return null;
     }
   };
@@ -137,10 +319,10 @@ const ExportPanel: React.FC = () => {
       </div>
 
       {/* Error Display */}
-      {error && (
+      {(error || historyError) && (
         <div className="mb-4 p-3 bg-red-900/20 border border-red-500/30 rounded-lg flex items-center space-x-2">
           <AlertCircle className="h-5 w-5 text-red-400" />
-          <span className="text-red-300 text-sm">{error}</span>
+          <span className="text-red-300 text-sm">{error || historyError}</span>
         </div>
       )}
 
@@ -162,9 +344,39 @@ const ExportPanel: React.FC = () => {
           <span>{isExporting ? 'Exporting...' : 'Export Audio'}</span>
         </button>
 
+        <button
+          onClick={handleExportMix}
+          disabled={!hasMixableTracks || isExporting}
+          className="w-full mt-3 bg-dark-700 border border-neon-green/50 text-neon-green py-3 rounded-xl font-semibold hover:bg-neon-green/10 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+          title="Render all tracks with their volume, pan, mute/solo and effects"
+        >
+          <Layers className="h-5 w-5" />
+          <span>Export Mix</span>
+        </button>
+
+        <button
+          onClick={handleExportStems}
+          disabled={!hasMixableTracks || isExporting}
+          className="w-full mt-3 bg-dark-700 border border-neon-blue/50 text-neon-blue py-3 rounded-xl font-semibold hover:bg-neon-blue/10 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+          title="Export every track as its own file in a ZIP archive"
+        >
+          <FolderArchive className="h-5 w-5" />
+          <span>Export Stems</span>
+        </button>
+
+        <label className="flex items-center space-x-2 mt-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={includeStemEffects}
+            onChange={(e) => setIncludeStemEffects(e.target.checked)}
+            className="accent-neon-green"
+          />
+          <span>Include track effects in stems</span>
+        </label>
+
         {profile?.subscription_tier === 'free' && (
           <p className="text-xs text-gray-400 mt-2 text-center">
-            Free tier: 10 MP3 exports per day • Upgrade to Pro for unlimited exports and more formats
+            Free tier: {exportsUsed}/{exportLimit} MP3 exports this month • Upgrade to Pro for unlimited exports and more formats
           </p>
         )}
       </div>
@@ -173,6 +385,39 @@ const ExportPanel: React.FC = () => {
       {showSettings && (
         <div className="mb-6 bg-dark-700/50 rounded-xl p-4 border border-gray-600">
           <h3 className="font-semibold text-white mb-4">Export Settings</h3>
+
+          {/* Presets */}
+          <div className="mb-4">
+            <label className="block text-sm text-gray-300 mb-2">Preset</label>
+            <div className="flex items-center space-x-2">
+              <select
+                value={selectedPresetId}
+                onChange={(e) => handlePresetChange(e.target.value)}
+                className="flex-1 bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white focus:outline-none focus:border-neon-green"
+              >
+                <option value="">Custom</option>
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>{preset.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleSavePreset}
+                className="text-gray-400 hover:text-neon-green transition-colors duration-200"
+                title="Save current settings as a preset"
+              >
+                <Save className="h-5 w-5" />
+              </button>
+              {selectedPresetId && (
+                <button
+                  onClick={handleDeletePreset}
+                  className="text-gray-400 hover:text-red-400 transition-colors duration-200"
+                  title="Delete preset"
+                >
+                  <Trash2 className="h-5 w-5" />
+                </button>
+              )}
+            </div>
+          </div>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             {/* Format Selection */}
@@ -230,6 +475,36 @@ const ExportPanel: React.FC = () => {
               </label>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Sample Rate Conversion
+                </label>
+                <select
+                  value={exportSettings.resampling}
+                  onChange={(e) => updateSettings({ resampling: e.target.value as ExportSettings['resampling'] })}
+                  className="w-full bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white focus:outline-none focus:border-neon-green"
+                >
+                  <option value="sinc">High quality (sinc)</option>
+                  <option value="linear">Fast (linear)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-300 mb-2">
+                  Dither (WAV, FLAC)
+                </label>
+                <select
+                  value={exportSettings.dither}
+                  onChange={(e) => updateSettings({ dither: e.target.value as ExportSettings['dither'] })}
+                  className="w-full bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white focus:outline-none focus:border-neon-green"
+                >
+                  <option value="tpdf">TPDF</option>
+                  <option value="shaped">TPDF + noise shaping</option>
+                  <option value="none">None</option>
+                </select>
+              </div>
+            </div>
+
             {profile?.subscription_tier !== 'free' && (
               <>
                 <div className="grid grid-cols-2 gap-4">
@@ -262,51 +537,103 @@ const ExportPanel: React.FC = () => {
                     />
                   </div>
                 </div>
-
-                {/* Metadata */}
-                <div>
-                  <h4 className="font-medium text-white mb-2">Metadata (Optional)</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    <input
-                      type="text"
-                      placeholder="Title"
-                      value={exportSettings.metadata.title || ''}
-                      onChange={(e) => updateSettings({ 
-                        metadata: { ...exportSettings.metadata, title: e.target.value }
-                      })}
-                      className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
-                    />
-                    <input
-                      type="text"
-                      placeholder="Artist"
-                      value={exportSettings.metadata.artist || ''}
-                      onChange={(e) => updateSettings({ 
-                        metadata: { ...exportSettings.metadata, artist: e.target.value }
-                      })}
-                      className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
-                    />
-                    <input
-                      type="text"
-                      placeholder="Album"
-                      value={exportSettings.metadata.album || ''}
-                      onChange={(e) => updateSettings({ 
-                        metadata: { ...exportSettings.metadata, album: e.target.value }
-                      })}
-                      className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
-                    />
-                    <input
-                      type="text"
-                      placeholder="Genre"
-                      value={exportSettings.metadata.genre || ''}
-                      onChange={(e) => updateSettings({ 
-                        metadata: { ...exportSettings.metadata, genre: e.target.value }
-                      })}
-                      className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
-                    />
-                  </div>
-                </div>
               </>
             )}
+
+            {/* Metadata */}
+            <div>
+              <h4 className="font-medium text-white mb-2">Metadata</h4>
+              <p className="text-xs text-gray-400 mb-3">
+                Filled in from the project. Written as ID3 tags (MP3), Vorbis comments (FLAC, OGG) or INFO (WAV).
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  placeholder="Title"
+                  value={metadata.title ?? ''}
+                  onChange={(e) => updateMetadata({ title: e.target.value })}
+                  className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <input
+                  type="text"
+                  placeholder="Artist"
+                  value={metadata.artist ?? ''}
+                  onChange={(e) => updateMetadata({ artist: e.target.value })}
+                  className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <input
+                  type="text"
+                  placeholder="Album"
+                  value={metadata.album ?? ''}
+                  onChange={(e) => updateMetadata({ album: e.target.value })}
+                  className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <input
+                  type="text"
+                  placeholder="Genre"
+                  value={metadata.genre ?? ''}
+                  onChange={(e) => updateMetadata({ genre: e.target.value })}
+                  className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <input
+                  type="number"
+                  min="1900"
+                  max="9999"
+                  placeholder="Year"
+                  value={metadata.year ?? ''}
+                  onChange={(e) => updateMetadata({ year: e.target.value ? parseInt(e.target.value) : undefined })}
+                  className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <input
+                  type="number"
+                  min="1"
+                  max="999"
+                  placeholder="BPM"
+                  value={metadata.bpm ?? ''}
+                  onChange={(e) => updateMetadata({ bpm: e.target.value ? parseInt(e.target.value) : undefined })}
+                  className="bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <input
+                  type="text"
+                  placeholder="Keywords (comma separated)"
+                  value={metadata.keywords?.join(',') ?? ''}
+                  onChange={(e) => updateMetadata({ keywords: e.target.value.split(',') })}
+                  className="md:col-span-2 bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+                <textarea
+                  placeholder="Comment"
+                  rows={2}
+                  value={metadata.comment ?? ''}
+                  onChange={(e) => updateMetadata({ comment: e.target.value })}
+                  className="md:col-span-2 resize-none bg-dark-600 border border-gray-500 rounded px-3 py-2 text-white placeholder-gray-400 focus:outline-none focus:border-neon-green"
+                />
+              </div>
+
+              <div className="flex items-center justify-between mt-3">
+                <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer hover:text-white transition-colors">
+                  <Image className="h-4 w-4" />
+                  <span>{metadata.coverArt ? 'Replace cover art' : 'Add cover art'}</span>
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png"
+                    onChange={handleCoverArtChange}
+                    className="hidden"
+                  />
+                </label>
+                {metadata.coverArt && (
+                  <div className="flex items-center space-x-2 text-xs text-gray-400">
+                    <span>{metadata.coverArt.mimeType === 'image/png' ? 'PNG' : 'JPEG'} • {Math.ceil(metadata.coverArt.data.length / 1024)} KB</span>
+                    <button
+                      onClick={() => updateMetadata({ coverArt: undefined })}
+                      className="text-gray-400 hover:text-red-400 transition-colors"
+                      title="Remove cover art"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
           </div>
         </div>
       )}
@@ -314,7 +641,7 @@ const ExportPanel: React.FC = () => {
       {/* Export Queue */}
       {jobs.length > 0 && (
         <div>
-          <h3 className="font-semibold text-white mb-4">Export History</h3>
+          <h3 className="font-semibold text-white mb-4">Export Queue</h3>
           <div className="space-y-3 max-h-64 overflow-y-auto">
             {jobs.map((job) => (
               <div
@@ -325,7 +652,7 @@ const ExportPanel: React.FC = () => {
                   <div className="flex items-center space-x-3">
                     {getFormatIcon(job.settings.format)}
                     <span className="font-medium text-white">
-                      {job.settings.format.toUpperCase()} • {job.settings.quality}
+                      {job.source === 'mix' ? 'Mix • ' : job.source === 'stems' ? 'Stems • ' : ''}{job.settings.format.toUpperCase()} • {job.settings.quality}
                     </span>
                     {getStatusIcon(job.status)}
                   </div>
@@ -350,7 +677,7 @@ const ExportPanel: React.FC = () => {
                   </div>
                 </div>
                 
-                {job.status === 'processing' && (
+                {(job.status === 'pending' || job.status === 'processing') && (
                   <div className="mb-2">
                     <div className="bg-dark-600 rounded-full h-2 overflow-hidden">
                       <div 
@@ -358,7 +685,15 @@ const ExportPanel: React.FC = () => {
                         style={{ width: `${job.progress}%` }}
                       />
                     </div>
-                    <p className="text-xs text-gray-400 mt-1">{job.progress}% complete</p>
+                    <div className="flex items-center justify-between mt-1">
+                      <p className="text-xs text-gray-400">{job.progress}% complete</p>
+                      <button
+                        onClick={() => cancelExport(job.id)}
+                        className="text-xs text-gray-400 hover:text-red-400 transition-colors duration-200"
+                      >
+                        Cancel
+                      </button>
+                    </div>
                   </div>
                 )}
                 
@@ -367,6 +702,7 @@ const ExportPanel: React.FC = () => {
                   {job.completedAt && job.status === 'completed' && (
                     <span> • Completed in {Math.round((job.completedAt.getTime() - job.createdAt.getTime()) / 1000)}s</span>
                   )}
+                  {job.status === 'cancelled' && <span> • Cancelled</span>}
                 </div>
                 
                 {job.error && (
@@ -378,12 +714,57 @@ const ExportPanel: React.FC = () => {
         </div>
       )}
 
+      {/* Saved Exports */}
+      {savedExports.length > 0 && (
+        <div className="mt-6">
+          <h3 className="font-semibold text-white mb-4">Export History</h3>
+          <div className="space-y-3 max-h-64 overflow-y-auto">
+            {savedExports.map((record) => (
+              <div
+                key={record.id}
+                className="bg-dark-700/50 rounded-lg p-4 border border-gray-600"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center space-x-3">
+                    {getFormatIcon(record.format)}
+                    <span className="font-medium text-white">
+                      {record.source === 'mix' ? 'Mix • ' : record.source === 'stems' ? 'Stems • ' : ''}{record.format.toUpperCase()} • {record.quality}
+                    </span>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => downloadSavedExport(record)}
+                      className="text-neon-green hover:text-neon-blue transition-colors duration-200"
+                      title="Download"
+                    >
+                      <Download className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteExport(record.id)}
+                      className="text-gray-400 hover:text-red-400 transition-colors duration-200"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="text-xs text-gray-400">
+                  {new Date(record.created_at).toLocaleString()} • {formatFileSize(record.file_size_bytes)} • {Math.round(record.duration_seconds)}s • {record.sample_rate / 1000} kHz
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Status */}
       <div className="mt-6 text-center">
-        {!currentSession?.audioBlob && (
+        {!currentSession?.audioBlob && !hasMixableTracks && (
           <p className="text-gray-400 text-sm">Record audio to enable export</p>
         )}
-        {currentSession?.audioBlob && !isExporting && (
+        {(currentSession?.audioBlob || hasMixableTracks) && !isExporting && (
           <p className="text-green-400 text-sm">Ready to export</p>
         )}
         {isExporting && (
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Timer, Minus, Plus, Hand, Play, Square, Power } from 'lucide-react';
+import { useProjectStore } from '../../stores/projectStore';
+import { useMetronomeStore, getMetronomeSettings } from '../../stores/metronomeStore';
+import { CLICK_SOUNDS, MAX_BPM, MIN_BPM, Metronome, clampBpm } from '../../lib/metronome';
+import type { ClickSound } from '../../lib/metronome';
+import { TIME_SIGNATURES, formatTimeSignature, getTimeSignature } from '../../lib/musicalTime';
+
+// A pause longer than this starts a new tap-tempo measurement
+const TAP_RESET_MS = 2000;
+const MAX_TAPS = 8;
+
+const COUNT_IN_OPTIONS = [0, 1, 2, 4];
+
+const MetronomePanel: React.FC = () => {
+  const [bpmDraft, setBpmDraft] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const tapsRef = useRef<number[]>([]);
+  const previewRef = useRef<{ context: AudioContext; metronome: Metronome } | null>(null);
+
+  const { currentProject, updateProject } = useProjectStore();
+  const {
+    enabled,
+    sound,
+    volume,
+    countInBars,
+    setEnabled,
+    setSound,
+    setVolume,
+    setCountInBars,
+  } = useMetronomeStore();
+
+  const bpm = currentProject?.metronome_bpm;
+  const timeSignature = getTimeSignature(currentProject?.project_settings);
+  const timeSignatureLabel = formatTimeSignature(timeSignature);
+
+  useEffect(() => {
+    setBpmDraft(bpm ? String(bpm) : '');
+  }, [bpm]);
+
+  const saveBpm = (value: number) => {
+    if (!currentProject || !isFinite(value)) return;
+    const clamped = clampBpm(value);
+    setBpmDraft(String(clamped));
+    if (clamped !== currentProject.metronome_bpm) {
+      updateProject(currentProject.id, { metronome_bpm: clamped });
+    }
+  };
+
+  const saveTimeSignature = (label: string) => {
+    const selected = TIME_SIGNATURES.find(option => formatTimeSignature(option) === label);
+    if (!currentProject || !selected) return;
+    updateProject(currentProject.id, {
+      project_settings: { ...currentProject.project_settings, time_signature: selected },
+    });
+  };
+
+  const handleTap = () => {
+    const now = performance.now();
+    const taps = tapsRef.current;
+    if (taps.length > 0 && now - taps[taps.length - 1] > TAP_RESET_MS) {
+      taps.length = 0;
+    }
+    taps.push(now);
+    if (taps.length > MAX_TAPS) taps.shift();
+
+    if (taps.length >= 2) {
+      const averageInterval = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+      saveBpm(60000 / averageInterval);
+    }
+  };
+
+  // Preview clicks on their own context, independent of the transport
+  const stopPreview = () => {
+    previewRef.current?.metronome.stop();
+    previewRef.current?.context.close();
+    previewRef.current = null;
+    setIsPreviewing(false);
+  };
+
+  const startPreview = () => {
+    const settings = getMetronomeSettings();
+    if (!settings) return;
+
+    const context = new AudioContext();
+    const metronome = new Metronome(context, context.destination);
+    metronome.start(settings, context.currentTime + 0.05);
+    previewRef.current = { context, metronome };
+    setIsPreviewing(true);
+  };
+
+  // Follow setting changes while previewing
+  useEffect(() => {
+    const preview = previewRef.current;
+    const settings = getMetronomeSettings();
+    if (!preview || !settings) return;
+    preview.metronome.start(settings, preview.context.currentTime + 0.05);
+  }, [bpm, timeSignatureLabel, sound, volume]);
+
+  useEffect(() => {
+    return () => {
+      previewRef.current?.metronome.stop();
+      previewRef.current?.context.close();
+      previewRef.current = null;
+    };
+  }, []);
+
+  if (!currentProject) return null;
+
+  return (
+    <div className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <Timer className="h-6 w-6 text-neon-yellow" />
+          <h2 className="font-righteous text-xl text-neon-yellow">Metronome</h2>
+        </div>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={isPreviewing ? stopPreview : startPreview}
+            className="text-gray-400 hover:text-white transition-colors duration-200"
+            title={isPreviewing ? 'Stop preview' : 'Preview click'}
+          >
+            {isPreviewing ? <Square className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+          </button>
+          <button
+            onClick={() => setEnabled(!enabled)}
+            className={`flex items-center space-x-2 px-3 py-1 rounded-lg border transition-all duration-200 ${
+              enabled
+                ? 'border-neon-yellow text-neon-yellow bg-neon-yellow/10'
+                : 'border-gray-600 text-gray-400 hover:text-white'
+            }`}
+            title="Click during playback and recording"
+          >
+            <Power className="h-4 w-4" />
+            <span className="text-sm">{enabled ? 'Click on' : 'Click off'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Tempo */}
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Tempo (BPM)</label>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => saveBpm(currentProject.metronome_bpm - 1)}
+              disabled={currentProject.metronome_bpm <= MIN_BPM}
+              className="bg-dark-700 border border-gray-600 rounded p-2 text-gray-300 hover:text-white disabled:opacity-50"
+              title="Slower"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+            <input
+              type="number"
+              min={MIN_BPM}
+              max={MAX_BPM}
+              value={bpmDraft}
+              onChange={(e) => setBpmDraft(e.target.value)}
+              onBlur={() => saveBpm(parseFloat(bpmDraft))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') saveBpm(parseFloat(bpmDraft));
+              }}
+              className="w-20 bg-dark-700 border border-gray-600 rounded px-3 py-2 text-white text-center font-mono focus:outline-none focus:border-neon-yellow"
+            />
+            <button
+              onClick={() => saveBpm(currentProject.metronome_bpm + 1)}
+              disabled={currentProject.metronome_bpm >= MAX_BPM}
+              className="bg-dark-700 border border-gray-600 rounded p-2 text-gray-300 hover:text-white disabled:opacity-50"
+              title="Faster"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+            <button
+              onClick={handleTap}
+              className="flex items-center space-x-1 bg-dark-700 border border-gray-600 rounded px-3 py-2 text-gray-300 hover:text-neon-yellow hover:border-neon-yellow transition-colors duration-200"
+              title="Tap the beat to set the tempo"
+            >
+              <Hand className="h-4 w-4" />
+              <span className="text-sm">Tap</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Time signature */}
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Time Signature</label>
+          <select
+            value={timeSignatureLabel}
+            onChange={(e) => saveTimeSignature(e.target.value)}
+            className="w-full bg-dark-700 border border-gray-600 rounded px-3 py-2 text-white focus:outline-none focus:border-neon-yellow"
+          >
+            {TIME_SIGNATURES.map(option => {
+              const label = formatTimeSignature(option);
+              return <option key={label} value={label}>{label}</option>;
+            })}
+          </select>
+        </div>
+
+        {/* Sound */}
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Click Sound</label>
+          <select
+            value={sound}
+            onChange={(e) => setSound(e.target.value as ClickSound)}
+            className="w-full bg-dark-700 border border-gray-600 rounded px-3 py-2 text-white focus:outline-none focus:border-neon-yellow"
+          >
+            {CLICK_SOUNDS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Count-in */}
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Count-in Before Recording</label>
+          <select
+            value={countInBars}
+            onChange={(e) => setCountInBars(parseInt(e.target.value))}
+            className="w-full bg-dark-700 border border-gray-600 rounded px-3 py-2 text-white focus:outline-none focus:border-neon-yellow"
+          >
+            {COUNT_IN_OPTIONS.map(bars => (
+              <option key={bars} value={bars}>
+                {bars === 0 ? 'None' : `${bars} bar${bars === 1 ? '' : 's'}`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Volume */}
+        <div className="md:col-span-2">
+          <label className="block text-sm text-gray-300 mb-2">
+            Click Volume: {Math.round(volume * 100)}%
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={volume}
+            onChange={(e) => setVolume(parseFloat(e.target.value))}
+            className="w-full accent-neon-yellow"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetronomePanel;
@@ -1,143 +1,118 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Play, Pause, SkipBack, SkipForward, Volume2, RotateCcw } from 'lucide-react';
+import {
+  Play, Pause, SkipBack, SkipForward, Volume2, RotateCcw,
+  MousePointer2, Move, SeparatorVertical, Scissors, Copy, ClipboardPaste, Trash2, Space,
+  Magnet, Clock, Music, Repeat,
+} from 'lucide-react';
 import { useTrackStore } from '../../stores/trackStore';
-import { useWaveform } from '../../hooks/useWaveform';
+import { useProjectStore } from '../../stores/projectStore';
+import { multiTrackEngine } from '../../lib/multiTrackEngine';
+import type { TimeRange } from '../../lib/clips';
+import { computePeaksInWorker } from '../../lib/peaksWorker';
+import type { PeakPyramid } from '../../lib/peaks';
+import { getClipsEnd } from '../../lib/clips';
+import type { Clip } from '../../lib/clips';
+import { SNAP_DIVISIONS, formatMusicalTime, getSnapSeconds, getTimeSignature, snapTime } from '../../lib/musicalTime';
+import type { MusicalGrid, SnapDivision, TimeDisplay } from '../../lib/musicalTime';
+import WaveformTimeline from './WaveformTimeline';
+import type { TimelineLane, TimelineRegion, TimelineSelection, TimelineTool } from './WaveformTimeline';
+import PunchRecorder from './PunchRecorder';
 
 const MultiTrackPlayer: React.FC = () => {
-  const canvasRefs = useRef<Map<string, HTMLCanvasElement>>(new Map());
-  const audioRefs = useRef<Map<string, HTMLAudioElement>>(new Map());
+  // Whether the mix was playing when the current scrub started
+  const resumeAfterScrubRef = useRef(false);
   const [masterVolume, setMasterVolume] = useState(1);
   const [currentTime, setCurrentTime] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
+  const [tool, setTool] = useState<TimelineTool>('select');
+  const [selection, setSelection] = useState<TimelineSelection | null>(null);
+  const [timeDisplay, setTimeDisplay] = useState<TimeDisplay>('clock');
+  const [snapDivision, setSnapDivision] = useState<SnapDivision>('off');
+  const [loop, setLoop] = useState<TimeRange | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [punch, setPunch] = useState<TimeRange | null>(null);
+  const [isPunching, setIsPunching] = useState(false);
+  // Peaks of takes and other audio that isn't a track's own recording
+  const [assetPeaks, setAssetPeaks] = useState<Map<string, PeakPyramid>>(new Map());
+  const pendingPeaksRef = useRef(new Set<string>());
 
-  const { tracks, trackSessions, playTrack, pauseTrack, seekTrack, updateTrackSession } = useTrackStore();
-  const { drawWaveform, generateWaveformFromAudio } = useWaveform(null);
+  const { currentProject } = useProjectStore();
 
-  // Calculate master duration (longest track)
+  const {
+    tracks,
+    transport,
+    clipboard,
+    playAll,
+    pauseAll,
+    seekAll,
+    setTrackClips,
+    splitClips,
+    copyRange,
+    cutRange,
+    deleteRange,
+    pasteClips,
+    insertSilence,
+  } = useTrackStore();
+
+  const grid: MusicalGrid | null = currentProject?.metronome_bpm
+    ? { bpm: currentProject.metronome_bpm, timeSignature: getTimeSignature(currentProject.project_settings) }
+    : null;
+  const isMusical = timeDisplay === 'musical' && !!grid;
+  const snapSeconds = grid ? getSnapSeconds(snapDivision, grid) : 0;
+
+  // Single-track previews from the track list also run on the engine; the
+  // master transport only reports full-mix playback
+  const isPlaying = transport.isPlaying && !transport.playingTrackIds;
+
+  // Calculate master duration (end of the last clip)
   useEffect(() => {
-    const maxDuration = Math.max(0, ...tracks.map(t => t.duration_seconds));
+    const maxDuration = Math.max(0, ...tracks.map(t => getClipsEnd(t.clips)));
     setDuration(maxDuration);
   }, [tracks]);
 
-  // Set up audio elements for each track
   useEffect(() => {
-    tracks.forEach(track => {
-      const session = trackSessions.get(track.id);
-      if (session?.audioUrl) {
-        let audio = audioRefs.current.get(track.id);
-        if (!audio) {
-          audio = new Audio();
-          audioRefs.current.set(track.id, audio);
-        }
-        
-        if (audio.src !== session.audioUrl) {
-          audio.src = session.audioUrl;
-          audio.load();
-        }
-        
-        // Apply track settings
-        audio.volume = track.volume * masterVolume * (track.is_muted ? 0 : 1);
-        audio.muted = track.is_muted || (tracks.some(t => t.is_solo) && !track.is_solo);
-      }
-    });
-
-    // Clean up removed tracks
-    const currentTrackIds = new Set(tracks.map(t => t.id));
-    for (const [trackId, audio] of audioRefs.current.entries()) {
-      if (!currentTrackIds.has(trackId)) {
-        audio.pause();
-        audioRefs.current.delete(trackId);
-      }
-    }
-  }, [tracks, trackSessions, masterVolume]);
+    multiTrackEngine.setMasterVolume(masterVolume);
+  }, [masterVolume]);
 
-  // Generate waveforms for tracks
+  // Punch recording plays straight through the loop
+  const isLooping = loopEnabled && !!loop && !isPunching;
   useEffect(() => {
-    tracks.forEach(async (track) => {
-      const session = trackSessions.get(track.id);
-      if (session?.audioBlob && !session.waveformData) {
-        try {
-          const arrayBuffer = await session.audioBlob.arrayBuffer();
-          const waveformData = await generateWaveformFromAudio(arrayBuffer);
-          updateTrackSession(track.id, { waveformData });
-        } catch (error) {
-          console.error('Error generating waveform for track:', track.id, error);
-        }
-      }
-    });
-  }, [tracks, trackSessions, generateWaveformFromAudio, updateTrackSession]);
+    multiTrackEngine.setLoop(isLooping ? loop : null);
+  }, [isLooping, loop]);
 
-  // Draw waveforms
   useEffect(() => {
-    tracks.forEach(track => {
-      const canvas = canvasRefs.current.get(track.id);
-      const session = trackSessions.get(track.id);
-      
-      if (canvas && session?.waveformData) {
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-          drawWaveform(
-            session.waveformData.peaks,
-            currentTime,
-            track.duration_seconds,
-            false,
-            canvas
-          );
-        }
-      }
-    });
-  }, [tracks, trackSessions, currentTime, drawWaveform]);
+    return () => multiTrackEngine.setLoop(null);
+  }, []);
 
-  // Sync playback across all tracks
+  // Takes have no cached peaks, so they're computed once decoded
   useEffect(() => {
-    const audioElements = Array.from(audioRefs.current.values());
-    
-    if (isPlaying) {
-      audioElements.forEach(audio => {
-        if (audio.paused) {
-          audio.currentTime = currentTime;
-          audio.play().catch(console.error);
-        }
-      });
-    } else {
-      audioElements.forEach(audio => {
-        if (!audio.paused) {
-          audio.pause();
-        }
-      });
-    }
-  }, [isPlaying, currentTime]);
+    const recordingPaths = new Set(tracks.map(track => track.audio_path));
+    tracks.forEach(track => track.clips.forEach(({ asset_path: assetPath }) => {
+      if (recordingPaths.has(assetPath) || assetPeaks.has(assetPath) || pendingPeaksRef.current.has(assetPath)) return;
+      const buffer = multiTrackEngine.getAssetBuffer(assetPath);
+      if (!buffer) return;
 
-  // Handle time updates
+      pendingPeaksRef.current.add(assetPath);
+      computePeaksInWorker(buffer)
+        .then(peaks => setAssetPeaks(prev => new Map(prev).set(assetPath, peaks)))
+        .catch(error => console.error('Error computing clip peaks:', assetPath, error))
+        .finally(() => pendingPeaksRef.current.delete(assetPath));
+    }));
+  }, [tracks, transport, assetPeaks]);
+
+  // Follow the engine clock while playing
   useEffect(() => {
     let animationFrame: number;
     
     const updateTime = () => {
-      if (isPlaying) {
-        const audioElements = Array.from(audioRefs.current.values());
-        const playingAudio = audioElements.find(audio => !audio.paused);
-        
-        if (playingAudio) {
-          setCurrentTime(playingAudio.currentTime);
-          
-          // Check if we've reached the end
-          if (playingAudio.currentTime >= duration) {
-            setIsPlaying(false);
-            setCurrentTime(0);
-            audioElements.forEach(audio => {
-              audio.currentTime = 0;
-              audio.pause();
-            });
-          }
-        }
-        
-        animationFrame = requestAnimationFrame(updateTime);
-      }
+      setCurrentTime(multiTrackEngine.getCurrentTime());
+      animationFrame = requestAnimationFrame(updateTime);
     };
     
     if (isPlaying) {
       animationFrame = requestAnimationFrame(updateTime);
+    } else if (!transport.playingTrackIds) {
+      setCurrentTime(transport.currentTime);
     }
     
     return () => {
@@ -145,19 +120,128 @@ const MultiTrackPlayer: React.FC = () => {
         cancelAnimationFrame(animationFrame);
       }
     };
-  }, [isPlaying, duration]);
+  }, [isPlaying, transport]);
 
   const handlePlayPause = () => {
-    setIsPlaying(!isPlaying);
+    if (isPlaying) {
+      pauseAll();
+    } else {
+      playAll();
+    }
   };
 
   const handleSeek = (newTime: number) => {
     setCurrentTime(newTime);
-    audioRefs.current.forEach(audio => {
-      audio.currentTime = newTime;
-    });
+    seekAll(newTime);
+  };
+
+  // Pause while the playhead is held, play snippets of the mix as it moves,
+  // and pick up from the new position on release
+  const handleScrubStart = (time: number) => {
+    resumeAfterScrubRef.current = isPlaying;
+    if (transport.isPlaying) {
+      pauseAll();
+    }
+    setCurrentTime(time);
+    multiTrackEngine.scrub(time);
+  };
+
+  const handleScrub = (time: number) => {
+    setCurrentTime(time);
+    multiTrackEngine.scrub(time);
+  };
+
+  const handleScrubEnd = (time: number) => {
+    multiTrackEngine.stopScrub();
+    handleSeek(time);
+    if (resumeAfterScrubRef.current) {
+      playAll();
+    }
+  };
+
+  const handleClipChange = (trackId: string, clip: Clip) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    setTrackClips(trackId, track.clips.map(c => c.id === clip.id ? clip : c));
+  };
+
+  // Edits apply to the selected lanes, or to every track when none are
+  const targetTrackIds = selection?.laneIds.length ? selection.laneIds : tracks.map(t => t.id);
+  const hasRange = !!selection && selection.end > selection.start;
+
+  const handleSplit = () => {
+    splitClips(targetTrackIds, snapTime(currentTime, snapSeconds));
+  };
+
+  const handleCopy = () => {
+    if (!selection || !hasRange) return;
+    copyRange(targetTrackIds, selection.start, selection.end);
+  };
+
+  const handleCut = () => {
+    if (!selection || !hasRange) return;
+    cutRange(targetTrackIds, selection.start, selection.end);
+    setSelection({ ...selection, end: selection.start });
+    handleSeek(selection.start);
+  };
+
+  const handleDelete = () => {
+    if (!selection || !hasRange) return;
+    deleteRange(targetTrackIds, selection.start, selection.end);
+    setSelection({ ...selection, end: selection.start });
+    handleSeek(selection.start);
+  };
+
+  const handlePaste = () => {
+    if (!clipboard) return;
+    const time = currentTime;
+    pasteClips(targetTrackIds, time);
+    // Select what was pasted
+    const pastedIds = tracks
+      .filter(t => targetTrackIds.includes(t.id))
+      .slice(0, clipboard.lanes.length)
+      .map(t => t.id);
+    setSelection({ start: time, end: time + clipboard.length, laneIds: pastedIds });
+  };
+
+  const handleInsertSilence = () => {
+    if (!selection || !hasRange) return;
+    insertSilence(targetTrackIds, selection.start, selection.end - selection.start);
   };
 
+  // Keyboard shortcuts for editing, except while typing in a field
+  const handleToggleLoop = () => {
+    if (loop) setLoopEnabled(!loopEnabled);
+  };
+
+  const shortcutsRef = useRef({ handleSplit, handleCopy, handleCut, handleDelete, handlePaste, handleToggleLoop });
+  shortcutsRef.current = { handleSplit, handleCopy, handleCut, handleDelete, handlePaste, handleToggleLoop };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const shortcuts = shortcutsRef.current;
+      const key = e.key.toLowerCase();
+      const modifier = e.ctrlKey || e.metaKey;
+
+      if (modifier && key === 'x') shortcuts.handleCut();
+      else if (modifier && key === 'c') shortcuts.handleCopy();
+      else if (modifier && key === 'v') shortcuts.handlePaste();
+      else if (!modifier && (key === 'delete' || key === 'backspace')) shortcuts.handleDelete();
+      else if (!modifier && key === 's') shortcuts.handleSplit();
+      else if (!modifier && key === 'l') shortcuts.handleToggleLoop();
+      else if (key === 'escape') setSelection(null);
+      else return;
+
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleSkipBack = () => {
     const newTime = Math.max(0, currentTime - 10);
     handleSeek(newTime);
@@ -169,7 +253,7 @@ const MultiTrackPlayer: React.FC = () => {
   };
 
   const handleReset = () => {
-    setIsPlaying(false);
+    pauseAll();
     handleSeek(0);
   };
 
@@ -180,11 +264,66 @@ const MultiTrackPlayer: React.FC = () => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const getProgress = () => {
-    if (!duration || duration <= 0) return 0;
-    return Math.min((currentTime / duration) * 100, 100);
+  // Bars:beats:ticks or clock time, as chosen
+  const formatPosition = (seconds: number) => {
+    return isMusical ? formatMusicalTime(seconds, grid!) : formatTime(seconds);
   };
 
+  // Clips can play another track's recording (e.g. after pasting), so
+  // recordings are looked up by their path
+  const recordings = new Map(tracks
+    .filter(track => track.audio_path)
+    .map(track => [track.audio_path!, track]));
+
+  const lanes: TimelineLane[] = tracks.map(track => ({
+    id: track.id,
+    clips: track.clips.map(clip => {
+      const buffer = multiTrackEngine.getAssetBuffer(clip.asset_path);
+      const recording = recordings.get(clip.asset_path);
+      return {
+        clip,
+        peaks: recording?.waveform_data ?? assetPeaks.get(clip.asset_path),
+        buffer,
+        sourceDuration: buffer?.duration ?? recording?.duration_seconds ?? clip.source_out,
+      };
+    }),
+    header: (
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-white truncate">{track.name}</span>
+        <div className="flex items-center space-x-2 text-xs text-gray-400">
+          {track.is_muted && <span className="text-red-400">MUTED</span>}
+          {track.is_solo && <span className="text-yellow-400">SOLO</span>}
+          <span>{formatPosition(getClipsEnd(track.clips))}</span>
+        </div>
+      </div>
+    ),
+  }));
+
+  // Punched takes go on the first selected track
+  const punchTrackId = selection?.laneIds[0] ?? null;
+
+  const regions: TimelineRegion[] = [
+    {
+      id: 'loop',
+      label: 'Loop',
+      range: loop,
+      active: isLooping,
+      className: 'bg-neon-yellow/20 border-neon-yellow',
+      onChange: (range) => {
+        setLoop(range);
+        setLoopEnabled(true);
+      },
+    },
+    {
+      id: 'punch',
+      label: 'Punch',
+      range: punch,
+      active: !!punchTrackId,
+      className: 'bg-red-500/20 border-red-500',
+      onChange: setPunch,
+    },
+  ];
+
   if (tracks.length === 0) {
     return (
       <div className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
@@ -201,55 +340,159 @@ const MultiTrackPlayer: React.FC = () => {
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
         <h2 className="font-righteous text-xl text-neon-purple">Multi-Track Player</h2>
-        <div className="text-sm text-gray-400">
-          {formatTime(currentTime)} / {formatTime(duration)}
+        <div className="flex items-center space-x-3">
+          <span className="text-sm text-gray-400 font-mono">
+            {formatPosition(currentTime)} / {formatPosition(duration)}
+          </span>
+          <div className="flex items-center bg-dark-700 rounded-lg p-1">
+            <button
+              onClick={() => setTimeDisplay('clock')}
+              className={`p-1 rounded transition-colors duration-200 ${
+                !isMusical ? 'bg-neon-purple/30 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+              title="Show minutes and seconds"
+            >
+              <Clock className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setTimeDisplay('musical')}
+              disabled={!grid}
+              className={`p-1 rounded transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                isMusical ? 'bg-neon-purple/30 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+              title="Show bars, beats and ticks"
+            >
+              <Music className="h-4 w-4" />
+            </button>
+          </div>
         </div>
       </div>
 
-      {/* Master Progress Bar */}
-      <div className="mb-6">
-        <div className="bg-dark-700 rounded-full h-3 overflow-hidden cursor-pointer"
-             onClick={(e) => {
-               const rect = e.currentTarget.getBoundingClientRect();
-               const x = e.clientX - rect.left;
-               const progress = x / rect.width;
-               const newTime = progress * duration;
-               handleSeek(newTime);
-             }}>
-          <div 
-            className="h-full bg-gradient-to-r from-neon-purple to-neon-pink transition-all duration-100"
-            style={{ width: `${getProgress()}%` }}
-          />
+      {/* Edit Tools */}
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center bg-dark-700 rounded-lg p-1">
+            <button
+              onClick={() => setTool('select')}
+              className={`p-1.5 rounded transition-colors duration-200 ${
+                tool === 'select' ? 'bg-neon-purple/30 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+              title="Select range"
+            >
+              <MousePointer2 className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setTool('move')}
+              className={`p-1.5 rounded transition-colors duration-200 ${
+                tool === 'move' ? 'bg-neon-purple/30 text-white' : 'text-gray-400 hover:text-white'
+              }`}
+              title="Move clips"
+            >
+              <Move className="h-4 w-4" />
+            </button>
+          </div>
+          <label
+            className={`flex items-center space-x-1 ${snapSeconds > 0 ? 'text-neon-purple' : 'text-gray-400'}`}
+            title="Snap to grid (hold Alt while dragging to place freely)"
+          >
+            <Magnet className="h-4 w-4" />
+            <select
+              value={snapDivision}
+              onChange={(e) => setSnapDivision(e.target.value as SnapDivision)}
+              disabled={!grid}
+              className="bg-dark-700 border border-gray-600 rounded px-1 py-0.5 text-xs text-white focus:outline-none focus:border-neon-purple disabled:opacity-50"
+            >
+              {SNAP_DIVISIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleSplit}
+            className="text-gray-400 hover:text-white transition-colors duration-200"
+            title={snapSeconds > 0 ? 'Split at the grid line nearest the playhead (S)' : 'Split at playhead (S)'}
+          >
+            <SeparatorVertical className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleCut}
+            disabled={!hasRange}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Cut (Ctrl+X)"
+          >
+            <Scissors className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!hasRange}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Copy (Ctrl+C)"
+          >
+            <Copy className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handlePaste}
+            disabled={!clipboard}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Paste at playhead (Ctrl+V)"
+          >
+            <ClipboardPaste className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={!hasRange}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Delete and close gap (Delete)"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleToggleLoop}
+            disabled={!loop}
+            className={`transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+              isLooping ? 'text-neon-yellow' : 'text-gray-400 hover:text-white'
+            }`}
+            title={isLooping ? 'Turn loop off (L)' : 'Turn loop on (L)'}
+          >
+            <Repeat className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleInsertSilence}
+            disabled={!hasRange}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Insert silence the length of the selection"
+          >
+            <Space className="h-4 w-4" />
+          </button>
+          <span className={`text-xs text-gray-400 font-mono text-right ${isMusical ? 'w-40' : 'w-28'}`}>
+            {hasRange ? `${formatPosition(selection!.start)} – ${formatPosition(selection!.end)}` : 'No selection'}
+          </span>
         </div>
       </div>
 
+      <PunchRecorder punch={punch} trackId={punchTrackId} onActiveChange={setIsPunching} />
+
       {/* Track Waveforms */}
-      <div className="mb-6 space-y-3 max-h-64 overflow-y-auto">
-        {tracks.map((track) => {
-          const session = trackSessions.get(track.id);
-          return (
-            <div key={track.id} className="bg-dark-700/30 rounded-lg p-3">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-white truncate">{track.name}</span>
-                <div className="flex items-center space-x-2 text-xs text-gray-400">
-                  {track.is_muted && <span className="text-red-400">MUTED</span>}
-                  {track.is_solo && <span className="text-yellow-400">SOLO</span>}
-                  <span>{formatTime(track.duration_seconds)}</span>
-                </div>
-              </div>
-              <canvas
-                ref={(canvas) => {
-                  if (canvas) {
-                    canvasRefs.current.set(track.id, canvas);
-                  }
-                }}
-                width={600}
-                height={60}
-                className="w-full h-12 bg-dark-900/50 rounded border border-gray-600"
-              />
-            </div>
-          );
-        })}
+      <div className="mb-6">
+        <WaveformTimeline
+          lanes={lanes}
+          duration={duration}
+          currentTime={currentTime}
+          isPlaying={isPlaying}
+          onScrubStart={handleScrubStart}
+          onScrub={handleScrub}
+          onScrubEnd={handleScrubEnd}
+          onClipChange={handleClipChange}
+          tool={tool}
+          selection={selection}
+          onSelectionChange={setSelection}
+          grid={isMusical ? grid : null}
+          snapSeconds={snapSeconds}
+          regions={regions}
+        />
       </div>
 
       {/* Master Controls */}
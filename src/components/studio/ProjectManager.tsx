@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Music, Trash2, Edit3, Calendar, Clock, X } from 'lucide-react';
 import { useProjectStore } from '../../stores/projectStore';
+import ProjectSnapshots from './ProjectSnapshots';
 
 interface ProjectManagerProps {
   onRecordNewTrack?: () => void;
@@ -154,6 +155,8 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({ onRecordNewTrack }) =>
         )}
       </div>
 
+      {currentProject && <ProjectSnapshots />}
+
       {/* Create Project Modal - Completely redesigned for proper viewport handling */}
       {showCreateModal && (
         <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm">
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Camera, Eye, GitCompare, RotateCcw, Trash2, X } from 'lucide-react';
+import { useProjectStore } from '../../stores/projectStore';
+import { useTrackStore } from '../../stores/trackStore';
+import { useSnapshotStore } from '../../stores/snapshotStore';
+import { captureSnapshot, diffSnapshots, formatSnapshotField } from '../../lib/snapshots';
+import type { ProjectSnapshot, SnapshotContent, TrackDiff } from '../../lib/snapshots';
+
+// Compare against the project as it is now
+const CURRENT = 'current';
+
+const TRACK_STATUS_STYLES: Record<TrackDiff['status'], string> = {
+  added: 'text-neon-green',
+  removed: 'text-red-400',
+  changed: 'text-neon-yellow',
+  unchanged: 'text-gray-500',
+};
+
+const ProjectSnapshots: React.FC = () => {
+  const [snapshotName, setSnapshotName] = useState('');
+  const [expanded, setExpanded] = useState<{ id: string; mode: 'preview' | 'diff' } | null>(null);
+  const [compareWith, setCompareWith] = useState(CURRENT);
+
+  const { currentProject } = useProjectStore();
+  const { tracks } = useTrackStore();
+  const {
+    snapshots,
+    loading,
+    error,
+    loadSnapshots,
+    createSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+  } = useSnapshotStore();
+
+  const projectId = currentProject?.id;
+  useEffect(() => {
+    if (projectId) {
+      loadSnapshots(projectId);
+    }
+    setExpanded(null);
+  }, [projectId, loadSnapshots]);
+
+  if (!currentProject) return null;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!snapshotName.trim()) return;
+
+    if (await createSnapshot(snapshotName.trim())) {
+      setSnapshotName('');
+    }
+  };
+
+  const handleRestore = async (snapshot: ProjectSnapshot) => {
+    if (confirm(`Restore "${snapshot.name}"? The current state is saved as a snapshot first.`)) {
+      await restoreSnapshot(snapshot.id);
+      setExpanded(null);
+    }
+  };
+
+  const handleDelete = async (snapshot: ProjectSnapshot) => {
+    if (confirm(`Delete snapshot "${snapshot.name}"?`)) {
+      await deleteSnapshot(snapshot.id);
+      if (expanded?.id === snapshot.id) setExpanded(null);
+    }
+  };
+
+  const toggleExpanded = (id: string, mode: 'preview' | 'diff') => {
+    setExpanded(expanded?.id === id && expanded.mode === mode ? null : { id, mode });
+    setCompareWith(CURRENT);
+  };
+
+  const renderPreview = (snapshot: ProjectSnapshot) => (
+    <div className="space-y-3 text-xs">
+      <div className="grid grid-cols-2 gap-1 text-gray-400">
+        <span>BPM: <span className="text-white">{snapshot.project.metronome_bpm}</span></span>
+        <span>Effects: <span className="text-white">{formatSnapshotField('effects_settings', snapshot.project.effects_settings)}</span></span>
+      </div>
+      {snapshot.tracks.length === 0 ? (
+        <p className="text-gray-500">No tracks</p>
+      ) : (
+        <div className="space-y-1">
+          {snapshot.tracks.map(track => (
+            <div key={track.id} className="flex items-center justify-between bg-dark-800/50 rounded px-2 py-1">
+              <span className="text-white truncate mr-2">{track.name}</span>
+              <span className="text-gray-400 whitespace-nowrap">
+                {formatSnapshotField('volume', track.volume)} • {formatSnapshotField('pan', track.pan)}
+                {track.is_muted && ' • M'}
+                {track.is_solo && ' • S'}
+                {' • '}{formatSnapshotField('clips', track.clips)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderDiff = (snapshot: ProjectSnapshot) => {
+    // Changes going from the snapshot to what it's compared with
+    const other: SnapshotContent | undefined = compareWith === CURRENT
+      ? captureSnapshot(currentProject, tracks)
+      : snapshots.find(s => s.id === compareWith);
+    const diff = other ? diffSnapshots(snapshot, other) : null;
+    const changedTracks = diff?.tracks.filter(track => track.status !== 'unchanged') ?? [];
+
+    return (
+      <div className="space-y-3 text-xs">
+        <div className="flex items-center space-x-2">
+          <span className="text-gray-400">Compare with</span>
+          <select
+            value={compareWith}
+            onChange={(e) => setCompareWith(e.target.value)}
+            className="flex-1 bg-dark-700 border border-gray-600 rounded px-2 py-1 text-white focus:outline-none focus:border-neon-green"
+          >
+            <option value={CURRENT}>Current project</option>
+            {snapshots.filter(s => s.id !== snapshot.id).map(s => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {diff && diff.project.length === 0 && changedTracks.length === 0 && (
+          <p className="text-gray-500">No differences</p>
+        )}
+
+        {diff && diff.project.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-gray-300 font-medium">Project</p>
+            {diff.project.map(change => (
+              <div key={change.field} className="flex justify-between text-gray-400">
+                <span>{change.label}</span>
+                <span><span className="text-red-400">{change.from}</span> → <span className="text-neon-green">{change.to}</span></span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {changedTracks.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-gray-300 font-medium">Tracks</p>
+            {changedTracks.map(track => (
+              <div key={track.id}>
+                <div className="flex justify-between">
+                  <span className="text-white truncate mr-2">{track.name}</span>
+                  <span className={`capitalize ${TRACK_STATUS_STYLES[track.status]}`}>{track.status}</span>
+                </div>
+                {track.changes.map(change => (
+                  <div key={change.field} className="flex justify-between text-gray-400 pl-3">
+                    <span>{change.label}</span>
+                    <span><span className="text-red-400">{change.from}</span> → <span className="text-neon-green">{change.to}</span></span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-700">
+      <h3 className="font-semibold text-white mb-3">Snapshots</h3>
+
+      <form onSubmit={handleCreate} className="flex items-center space-x-2 mb-3">
+        <input
+          type="text"
+          value={snapshotName}
+          onChange={(e) => setSnapshotName(e.target.value)}
+          maxLength={80}
+          className="flex-1 min-w-0 bg-dark-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white placeholder-gray-400 focus:outline-none focus:border-neon-green transition-colors duration-200"
+          placeholder='e.g. "v1 rough mix"'
+        />
+        <button
+          type="submit"
+          disabled={!snapshotName.trim()}
+          className="bg-dark-700 border border-gray-600 text-gray-300 hover:text-neon-green hover:border-neon-green px-3 py-2 rounded-lg transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Save snapshot"
+        >
+          <Camera className="h-4 w-4" />
+        </button>
+      </form>
+
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-2">
+        {loading && snapshots.length === 0 ? (
+          <p className="text-center text-gray-400 text-sm py-4">Loading snapshots...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-center text-gray-500 text-sm py-4">Save a snapshot to come back to this version later</p>
+        ) : (
+          snapshots.map(snapshot => (
+            <div key={snapshot.id} className="bg-dark-700/50 rounded-lg p-3 border border-gray-600">
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="font-medium text-white text-sm truncate">{snapshot.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {new Date(snapshot.created_at).toLocaleString()} • {snapshot.tracks.length} track{snapshot.tracks.length === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2 ml-2">
+                  <button
+                    onClick={() => toggleExpanded(snapshot.id, 'preview')}
+                    className={`transition-colors duration-200 ${expanded?.id === snapshot.id && expanded.mode === 'preview' ? 'text-neon-blue' : 'text-gray-400 hover:text-neon-blue'}`}
+                    title="Preview"
+                  >
+                    <Eye className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => toggleExpanded(snapshot.id, 'diff')}
+                    className={`transition-colors duration-200 ${expanded?.id === snapshot.id && expanded.mode === 'diff' ? 'text-neon-yellow' : 'text-gray-400 hover:text-neon-yellow'}`}
+                    title="Show changes"
+                  >
+                    <GitCompare className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={loading}
+                    className="text-gray-400 hover:text-neon-green transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Restore"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    className="text-gray-400 hover:text-red-400 transition-colors duration-200"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {expanded?.id === snapshot.id && (
+                <div className="mt-3 pt-3 border-t border-gray-600">
+                  <div className="flex justify-end mb-2">
+                    <button
+                      onClick={() => setExpanded(null)}
+                      className="text-gray-500 hover:text-white transition-colors duration-200"
+                      aria-label="Close"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                  {expanded.mode === 'preview' ? renderPreview(snapshot) : renderDiff(snapshot)}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSnapshots;
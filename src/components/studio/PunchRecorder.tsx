@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { Mic, Square } from 'lucide-react';
+import { useAudioRecorder } from '../../hooks/useAudioRecorder';
+import { useTrackStore } from '../../stores/trackStore';
+import { useLatencyStore } from '../../stores/latencyStore';
+import { multiTrackEngine } from '../../lib/multiTrackEngine';
+import type { TimeRange } from '../../lib/clips';
+
+// Playback starts this long before the punch-in, so the performer can come in
+// in time with the project
+const PRE_ROLL_SECONDS = 2;
+
+interface PunchRecorderProps {
+  punch: TimeRange | null;
+  // Track the take is placed on
+  trackId: string | null;
+  // Set while a punch is running, so the timeline stops looping
+  onActiveChange: (active: boolean) => void;
+}
+
+const PunchRecorder: React.FC<PunchRecorderProps> = ({ punch, trackId, onActiveChange }) => {
+  const [isActive, setIsActive] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const activeRef = useRef(false);
+
+  const { tracks, insertTake, error: trackError } = useTrackStore();
+  const {
+    isRecording,
+    isWaitingForPunch,
+    error,
+    startRecording,
+    stopRecording,
+  } = useAudioRecorder();
+
+  const { roundTripLatency } = useLatencyStore();
+
+  const track = tracks.find(t => t.id === trackId);
+
+  const setActive = (active: boolean) => {
+    activeRef.current = active;
+    setIsActive(active);
+    onActiveChange(active);
+  };
+
+  const handleStart = async () => {
+    if (!punch || !track || isActive) return;
+    const takeTrackId = track.id;
+
+    setActive(true);
+    let started = false;
+
+    try {
+      // Punching plays straight through, never around the loop
+      multiTrackEngine.setLoop(null);
+      await multiTrackEngine.play(Math.max(0, punch.start - PRE_ROLL_SECONDS));
+
+      const startAt = multiTrackEngine.getPerformanceTime(punch.start);
+      const endAt = multiTrackEngine.getPerformanceTime(punch.end);
+      if (startAt === null || endAt === null) return;
+
+      started = await startRecording(undefined, {
+        startAt,
+        endAt,
+        onComplete: async (blob, startedAt) => {
+          multiTrackEngine.pause();
+          setIsSaving(true);
+
+          try {
+            // Place the take where capturing actually began, less the time the
+            // playback took to reach the microphone
+            const recordedAt = punch.start + (startedAt - startAt) / 1000 - (roundTripLatency ?? 0);
+            await insertTake(takeTrackId, blob, recordedAt, punch);
+          } catch (error) {
+            console.error('Error saving punch take:', error);
+          } finally {
+            setIsSaving(false);
+            setActive(false);
+          }
+        },
+      });
+    } catch (error) {
+      console.error('Error starting punch recording:', error);
+    } finally {
+      // Playback failed, or recording was cancelled or the microphone couldn't
+      // be opened
+      if (!started && activeRef.current) {
+        multiTrackEngine.pause();
+        setActive(false);
+      }
+    }
+  };
+
+  const handleStop = async () => {
+    // Stopped before the punch-in: there's no take
+    if (!await stopRecording()) {
+      multiTrackEngine.pause();
+      setActive(false);
+    }
+  };
+
+  const status = isSaving
+    ? 'Saving take...'
+    : isRecording
+      ? 'Recording take...'
+      : isWaitingForPunch
+        ? 'Pre-roll...'
+        : !punch
+          ? 'Drag on the Punch strip to set the punch-in and punch-out'
+          : track
+            ? `Records over "${track.name}" between the markers`
+            : 'Select a track to record over';
+
+  return (
+    <div className="flex items-center justify-between bg-dark-700/50 rounded-lg px-3 py-2 mb-4">
+      <div className="flex items-center space-x-3 min-w-0">
+        {isActive && !isSaving ? (
+          <button
+            onClick={handleStop}
+            className="bg-gray-600 hover:bg-gray-500 text-white p-2 rounded-full transition-colors duration-200"
+            title="Stop punch recording"
+          >
+            <Square className="h-4 w-4" />
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={!punch || !track || isSaving}
+            className="bg-red-500 hover:bg-red-600 text-white p-2 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Punch record (use headphones)"
+          >
+            <Mic className="h-4 w-4" />
+          </button>
+        )}
+        <span className={`text-sm truncate ${isRecording ? 'text-red-400' : 'text-gray-400'}`}>{status}</span>
+      </div>
+      {(error || trackError) && (
+        <span className="text-sm text-red-400 ml-3 truncate">{error || trackError}</span>
+      )}
+    </div>
+  );
+};
+
+export default PunchRecorder;
@@ -1,5 +1,5 @@
-import React, { useState, useRef } from 'react';
-import { Music, Headphones, Settings, Layers, Wand2, Download, Crown, Wifi, ArrowLeft } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { Music, Headphones, Settings, Layers, Wand2, Download, Crown, Wifi, ArrowLeft, Undo2, Redo2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import AudioRecorder from './AudioRecorder';
 import EnhancedAudioPlayer from './EnhancedAudioPlayer';
@@ -11,13 +11,17 @@ import SubscriptionManager from '../subscription/SubscriptionManager';
 import APIConnectionTest from './APIConnectionTest';
 import TrackManager from './TrackManager';
 import MultiTrackPlayer from './MultiTrackPlayer';
+import MetronomePanel from './MetronomePanel';
 import { useProjectStore } from '../../stores/projectStore';
 import { useTrackStore } from '../../stores/trackStore';
+import { useHistoryStore } from '../../stores/historyStore';
+import { getClipsEnd } from '../../lib/clips';
 
 const Studio: React.FC = () => {
   const navigate = useNavigate();
   const { currentProject } = useProjectStore();
   const { tracks } = useTrackStore();
+  const { past, future, isApplying, error: historyError, undo, redo, clear: clearHistory } = useHistoryStore();
   const [activeTab, setActiveTab] = useState<'record' | 'tracks' | 'effects' | 'ai' | 'export' | 'subscription' | 'api-test'>('record');
   
   const tabs = [
@@ -30,6 +34,34 @@ const Studio: React.FC = () => {
     { id: 'api-test', label: 'API Test', icon: Wifi },
   ];
 
+  // History belongs to the open project
+  useEffect(() => {
+    clearHistory();
+  }, [currentProject?.id, clearHistory]);
+
+  // Undo and redo from any tab, except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const isTextInput = target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type);
+      if (target && (target.isContentEditable || isTextInput || ['TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const nextUndo = past[past.length - 1];
+  const nextRedo = future[future.length - 1];
+
   const handleRecordNewTrack = () => {
     setActiveTab('record');
   };
@@ -61,14 +93,34 @@ const Studio: React.FC = () => {
               </div>
             </div>
             
-            {/* Back to Dashboard Button */}
-            <button
-              onClick={handleBackToDashboard}
-              className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-lg px-4 py-2 text-gray-300 hover:text-neon-blue hover:border-neon-blue transition-all duration-200 flex items-center space-x-2"
-            >
-              <ArrowLeft className="h-4 w-4" />
-              <span>Back to Dashboard</span>
-            </button>
+            <div className="flex items-center space-x-2">
+              {historyError && <span className="text-red-400 text-sm">{historyError}</span>}
+              <button
+                onClick={undo}
+                disabled={!nextUndo || isApplying}
+                className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-2 text-gray-300 hover:text-neon-blue hover:border-neon-blue transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={nextUndo ? `Undo ${nextUndo.label.toLowerCase()} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!nextRedo || isApplying}
+                className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-lg p-2 text-gray-300 hover:text-neon-blue hover:border-neon-blue transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={nextRedo ? `Redo ${nextRedo.label.toLowerCase()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+
+              {/* Back to Dashboard Button */}
+              <button
+                onClick={handleBackToDashboard}
+                className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-lg px-4 py-2 text-gray-300 hover:text-neon-blue hover:border-neon-blue transition-all duration-200 flex items-center space-x-2"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span>Back to Dashboard</span>
+              </button>
+            </div>
           </div>
 
           {/* Tab Navigation */}
@@ -154,7 +206,7 @@ const Studio: React.FC = () => {
                     <span className="text-gray-400">Total Duration:</span>
                     <span className="text-white">
                       {tracks.length > 0 
-                        ? `${Math.floor(Math.max(...tracks.map(t => t.duration_seconds)) / 60)}:${Math.floor(Math.max(...tracks.map(t => t.duration_seconds)) % 60).toString().padStart(2, '0')}`
+                        ? `${Math.floor(Math.max(...tracks.map(t => getClipsEnd(t.clips))) / 60)}:${Math.floor(Math.max(...tracks.map(t => getClipsEnd(t.clips))) % 60).toString().padStart(2, '0')}`
                         : '--:--'
                       }
                     </span>
@@ -174,6 +226,7 @@ const Studio: React.FC = () => {
             {/* Record Tab */}
             {activeTab === 'record' && (
               <>
+                <MetronomePanel />
                 <AudioRecorder />
                 <EnhancedAudioPlayer />
               </>
@@ -184,6 +237,7 @@ const Studio: React.FC = () => {
               <>
                 <TrackManager onRecordNewTrack={handleRecordNewTrack} />
                 {tracks.length > 0 && <MultiTrackPlayer />}
+                {tracks.length > 0 && <MetronomePanel />}
               </>
             )}
 
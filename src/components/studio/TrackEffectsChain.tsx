@@ -0,0 +1,208 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, X, Plus } from 'lucide-react';
+import { useTrackStore } from '../../stores/trackStore';
+import type { Track } from '../../stores/trackStore';
+import { EFFECT_PARAMETER_RANGES, EFFECT_TYPES, readEffectsSettings } from '../../lib/effectsGraph';
+import type { EffectType, EffectsSettings, ParameterRange } from '../../lib/effectsGraph';
+
+interface ParameterControl {
+  name: string;
+  label: string;
+  format: (value: number) => string;
+}
+
+interface EffectControls {
+  label: string;
+  textClass: string;
+  accentClass: string;
+  parameters: ParameterControl[];
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+const decibels = (value: number) => `${value.toFixed(1)} dB`;
+
+const EFFECT_CONTROLS: Record<EffectType, EffectControls> = {
+  equalizer: {
+    label: 'Equalizer',
+    textClass: 'text-neon-blue',
+    accentClass: 'accent-neon-blue',
+    parameters: [
+      { name: 'lowGain', label: 'Low', format: decibels },
+      { name: 'midGain', label: 'Mid', format: decibels },
+      { name: 'highGain', label: 'High', format: decibels },
+    ],
+  },
+  compressor: {
+    label: 'Compressor',
+    textClass: 'text-neon-purple',
+    accentClass: 'accent-neon-purple',
+    parameters: [
+      { name: 'threshold', label: 'Threshold', format: decibels },
+      { name: 'ratio', label: 'Ratio', format: value => `${value.toFixed(1)}:1` },
+      { name: 'attack', label: 'Attack', format: value => `${(value * 1000).toFixed(1)}ms` },
+      { name: 'release', label: 'Release', format: value => `${(value * 1000).toFixed(0)}ms` },
+    ],
+  },
+  reverb: {
+    label: 'Reverb',
+    textClass: 'text-neon-green',
+    accentClass: 'accent-neon-green',
+    parameters: [
+      { name: 'roomSize', label: 'Room Size', format: percent },
+      { name: 'damping', label: 'Damping', format: percent },
+      { name: 'wetLevel', label: 'Wet Level', format: percent },
+      { name: 'dryLevel', label: 'Dry Level', format: percent },
+    ],
+  },
+  delay: {
+    label: 'Delay',
+    textClass: 'text-neon-yellow',
+    accentClass: 'accent-neon-yellow',
+    parameters: [
+      { name: 'delayTime', label: 'Delay Time', format: value => `${(value * 1000).toFixed(0)}ms` },
+      { name: 'feedback', label: 'Feedback', format: percent },
+      { name: 'wetLevel', label: 'Wet Level', format: percent },
+      { name: 'dryLevel', label: 'Dry Level', format: percent },
+    ],
+  },
+  chorus: {
+    label: 'Chorus',
+    textClass: 'text-neon-pink',
+    accentClass: 'accent-neon-pink',
+    parameters: [
+      { name: 'rate', label: 'Rate', format: value => `${value.toFixed(1)} Hz` },
+      { name: 'depth', label: 'Depth', format: percent },
+      { name: 'wetLevel', label: 'Wet Level', format: percent },
+      { name: 'dryLevel', label: 'Dry Level', format: percent },
+    ],
+  },
+};
+
+interface TrackEffectsChainProps {
+  track: Track;
+}
+
+/**
+ * Editor for a track's insert effects, which run in order from top to bottom
+ * during playback, mixdown and stems export.
+ */
+const TrackEffectsChain: React.FC<TrackEffectsChainProps> = ({ track }) => {
+  const { setTrackEffects } = useTrackStore();
+
+  const settings = readEffectsSettings(track.effects_settings);
+  const chain = settings.activeEffects as EffectType[];
+  const available = EFFECT_TYPES.filter(effect => !chain.includes(effect));
+
+  // Removed effects keep their parameters, for if they're added back
+  const saveChain = (activeEffects: EffectType[]) => {
+    setTrackEffects(track.id, { ...settings, activeEffects });
+  };
+
+  const addEffect = (effect: EffectType) => saveChain([...chain, effect]);
+
+  const removeEffect = (effect: EffectType) => saveChain(chain.filter(other => other !== effect));
+
+  const moveEffect = (index: number, direction: -1 | 1) => {
+    const reordered = [...chain];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    saveChain(reordered);
+  };
+
+  const updateParameter = (effect: EffectType, name: string, value: number) => {
+    const parameters: EffectsSettings['parameters'] = {
+      ...settings.parameters,
+      [effect]: { ...settings.parameters[effect], [name]: value },
+    };
+    // A slider drag undoes as one step
+    setTrackEffects(track.id, { ...settings, parameters }, `effects:${track.id}:${effect}.${name}`);
+  };
+
+  return (
+    <div className="mb-3 bg-dark-800/50 rounded-lg p-3 border border-gray-600">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-gray-400">
+          {chain.length === 0 ? 'No effects on this track' : 'Effects run from top to bottom'}
+        </span>
+        {available.length > 0 && (
+          <div className="flex items-center space-x-1">
+            <Plus className="h-3 w-3 text-gray-400" />
+            <select
+              value=""
+              onChange={(e) => addEffect(e.target.value as EffectType)}
+              className="bg-dark-600 border border-gray-500 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-neon-green"
+              title="Add an effect to the end of the chain"
+            >
+              <option value="" disabled>Add effect</option>
+              {available.map(effect => (
+                <option key={effect} value={effect}>{EFFECT_CONTROLS[effect].label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {chain.map((effect, index) => {
+          const controls = EFFECT_CONTROLS[effect];
+          const values = settings.parameters[effect] as Record<string, number>;
+          const ranges = EFFECT_PARAMETER_RANGES[effect] as Record<string, ParameterRange>;
+
+          return (
+            <div key={effect} className="bg-dark-700/50 rounded p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className={`text-sm font-semibold ${controls.textClass}`}>
+                  {index + 1}. {controls.label}
+                </span>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => moveEffect(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Move earlier in the chain"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveEffect(index, 1)}
+                    disabled={index === chain.length - 1}
+                    className="text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Move later in the chain"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => removeEffect(effect)}
+                    className="text-gray-400 hover:text-red-400"
+                    title="Remove effect"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-2">
+                {controls.parameters.map(parameter => (
+                  <div key={parameter.name}>
+                    <label className="block text-xs text-gray-400 mb-1">
+                      {parameter.label} ({parameter.format(values[parameter.name])})
+                    </label>
+                    <input
+                      type="range"
+                      min={ranges[parameter.name].min}
+                      max={ranges[parameter.name].max}
+                      step={ranges[parameter.name].step}
+                      value={values[parameter.name]}
+                      onChange={(e) => updateParameter(effect, parameter.name, parseFloat(e.target.value))}
+                      className={`w-full ${controls.accentClass}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TrackEffectsChain;
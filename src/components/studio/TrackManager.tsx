@@ -1,7 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Music, Trash2, Edit3, Volume2, VolumeX, Play, Pause, MoreVertical, Save, X, Mic } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Plus, Music, Trash2, Edit3, Volume2, VolumeX, Play, Pause, MoreVertical, Save, X, Mic, Upload, AlertCircle, Sliders } from 'lucide-react';
 import { useTrackStore } from '../../stores/trackStore';
 import { useProjectStore } from '../../stores/projectStore';
+import { IMPORT_ACCEPT, isImportableFile, readImportFile } from '../../lib/audioImport';
+import { parseEffectsSettings } from '../../lib/effectsGraph';
+import TrackEffectsChain from './TrackEffectsChain';
+
+interface ImportItem {
+  id: string;
+  file: File;
+  status: 'queued' | 'importing' | 'failed';
+  error?: string;
+}
 
 interface TrackManagerProps {
   onRecordNewTrack?: () => void;
@@ -14,6 +24,10 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
   const [editingTrack, setEditingTrack] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  const [effectsTrack, setEffectsTrack] = useState<string | null>(null);
+  const [importQueue, setImportQueue] = useState<ImportItem[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const {
     tracks,
@@ -41,6 +55,84 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
     }
   }, [currentProject, loadTracks]);
 
+  // Resolves to an error message, or null once the track exists
+  const importFile = useCallback(async (projectId: string, file: File): Promise<string | null> => {
+    try {
+      if (useTrackStore.getState().tracks.length >= 10) {
+        return 'Maximum of 10 tracks per project allowed';
+      }
+
+      const audio = await readImportFile(file);
+      const track = await createTrack(projectId, audio.name, audio.blob);
+      return track ? null : useTrackStore.getState().error || 'Failed to create track';
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Failed to import file';
+    }
+  }, [createTrack]);
+
+  // Imports run one at a time so track order follows the drop order
+  useEffect(() => {
+    if (!currentProject || importQueue.some(item => item.status === 'importing')) return;
+
+    const next = importQueue.find(item => item.status === 'queued');
+    if (!next) return;
+
+    setImportQueue(queue => queue.map(item =>
+      item.id === next.id ? { ...item, status: 'importing' } : item
+    ));
+
+    importFile(currentProject.id, next.file).then(error => {
+      setImportQueue(queue => error
+        ? queue.map(item => item.id === next.id ? { ...item, status: 'failed', error } : item)
+        : queue.filter(item => item.id !== next.id)
+      );
+    });
+  }, [importQueue, currentProject, importFile]);
+
+  const queueFiles = (files: FileList | File[]) => {
+    const items: ImportItem[] = Array.from(files).map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      ...(isImportableFile(file)
+        ? { status: 'queued' as const }
+        : { status: 'failed' as const, error: 'Unsupported file type. Use WAV, MP3, FLAC, OGG, M4A or WebM.' }),
+    }));
+    setImportQueue(queue => [...queue, ...items]);
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      queueFiles(e.target.files);
+    }
+    e.target.value = '';
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!currentProject || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving onto a child element also fires dragleave on the container
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    if (currentProject && e.dataTransfer.files.length > 0) {
+      queueFiles(e.dataTransfer.files);
+    }
+  };
+
+  const dismissImport = (id: string) => {
+    setImportQueue(queue => queue.filter(item => item.id !== id));
+  };
+
   const handleSaveCurrentSession = async () => {
     if (!currentProject || !currentSession?.audioBlob) {
       alert('No audio session to save');
@@ -56,7 +148,8 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
       currentProject.id,
       trackName.trim(),
       currentSession.audioBlob,
-      trackDescription.trim() || undefined
+      trackDescription.trim() || undefined,
+      currentSession.recordedAt
     );
 
     if (track) {
@@ -135,7 +228,23 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
   };
 
   return (
-    <div className="bg-dark-800/50 backdrop-blur-sm border border-gray-700 rounded-2xl p-6">
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`relative bg-dark-800/50 backdrop-blur-sm border rounded-2xl p-6 transition-colors duration-200 ${
+        isDraggingFiles ? 'border-neon-green' : 'border-gray-700'
+      }`}
+    >
+      {/* Drop Overlay */}
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center rounded-2xl bg-dark-900/80 pointer-events-none">
+          <Upload className="h-10 w-10 text-neon-green mb-2" />
+          <p className="text-neon-green font-medium">Drop audio files to add them as tracks</p>
+          <p className="text-sm text-gray-400">WAV, MP3, FLAC, OGG, M4A or WebM</p>
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center space-x-3">
@@ -155,6 +264,23 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
               <span>Save Current</span>
             </button>
           )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!currentProject || tracks.length >= 10}
+            className="bg-dark-700 border border-neon-green/50 text-neon-green px-4 py-2 rounded-lg font-medium hover:bg-neon-green/10 transition-all duration-300 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Import audio files as tracks"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Import</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            multiple
+            onChange={handleFileInputChange}
+            className="hidden"
+          />
           <button
             onClick={onRecordNewTrack}
             disabled={tracks.length >= 10}
@@ -173,6 +299,45 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
         </div>
       )}
 
+      {/* Import Queue */}
+      {importQueue.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {importQueue.map(item => (
+            <div
+              key={item.id}
+              className={`flex items-center justify-between p-3 rounded-lg border text-sm ${
+                item.status === 'failed'
+                  ? 'bg-red-900/20 border-red-500/30'
+                  : 'bg-dark-700/50 border-gray-600'
+              }`}
+            >
+              <div className="flex items-center space-x-2 min-w-0">
+                {item.status === 'importing' && (
+                  <div className="w-4 h-4 flex-shrink-0 border-2 border-neon-green border-t-transparent rounded-full animate-spin" />
+                )}
+                {item.status === 'queued' && <Upload className="h-4 w-4 flex-shrink-0 text-gray-400" />}
+                {item.status === 'failed' && <AlertCircle className="h-4 w-4 flex-shrink-0 text-red-400" />}
+                <div className="min-w-0">
+                  <p className="text-white truncate">{item.file.name}</p>
+                  <p className={item.status === 'failed' ? 'text-red-300 text-xs' : 'text-gray-400 text-xs'}>
+                    {item.status === 'importing' ? 'Importing...' : item.status === 'queued' ? 'Waiting' : item.error}
+                  </p>
+                </div>
+              </div>
+              {item.status !== 'importing' && (
+                <button
+                  onClick={() => dismissImport(item.id)}
+                  className="ml-2 text-gray-400 hover:text-white transition-colors duration-200"
+                  title={item.status === 'failed' ? 'Dismiss' : 'Remove from queue'}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Current Session Info */}
       {currentSession?.audioBlob && (
         <div className="mb-6 p-4 bg-blue-900/20 border border-blue-500/30 rounded-lg">
@@ -204,7 +369,7 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
           <div className="text-center text-gray-400 py-8">
             <Music className="h-12 w-12 mx-auto mb-4 opacity-50" />
             <p>No tracks yet</p>
-            <p className="text-sm">Record and save your first track to get started</p>
+            <p className="text-sm">Record a track, or drop audio files here to import them</p>
           </div>
         ) : (
           tracks.map((track) => (
@@ -296,6 +461,19 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
                         S
                       </button>
 
+                      {/* Effects Button */}
+                      <button
+                        onClick={() => setEffectsTrack(effectsTrack === track.id ? null : track.id)}
+                        className={`transition-colors duration-200 ${
+                          effectsTrack === track.id || parseEffectsSettings(track.effects_settings)
+                            ? 'text-neon-purple'
+                            : 'text-gray-400 hover:text-neon-purple'
+                        }`}
+                        title="Track effects"
+                      >
+                        <Sliders className="h-4 w-4" />
+                      </button>
+
                       {/* Edit Button */}
                       <button
                         onClick={() => handleEditTrack(track)}
@@ -357,6 +535,8 @@ const TrackManager: React.FC<TrackManagerProps> = ({ onRecordNewTrack }) => {
                     </div>
                   </div>
 
+                  {effectsTrack === track.id && <TrackEffectsChain track={track} />}
+
                   {/* Track Metadata */}
                   <div className="flex items-center justify-between text-xs text-gray-500">
                     <span>Created: {formatDate(track.created_at)}</span>
@@ -0,0 +1,689 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { useWaveform } from '../../hooks/useWaveform';
+import type { ClipDrawing } from '../../hooks/useWaveform';
+import { useTimelineView } from '../../hooks/useTimelineView';
+import { isPeakPyramid } from '../../lib/peaks';
+import { MIN_CLIP_SECONDS, getClipDuration, getClipEnd, normalizeClip } from '../../lib/clips';
+import type { Clip } from '../../lib/clips';
+import { snapTime } from '../../lib/musicalTime';
+import type { MusicalGrid } from '../../lib/musicalTime';
+import type { TimeRange } from '../../lib/clips';
+
+export interface TimelineClip {
+  clip: Clip;
+  // Cached peaks of the clip's source recording, as stored on the row
+  peaks?: unknown;
+  buffer?: AudioBuffer | null;
+  // Length of the source recording, which limits trimming
+  sourceDuration: number;
+}
+
+export interface TimelineLane {
+  id: string;
+  header?: React.ReactNode;
+  // Cached peaks as stored on the row; lanes without valid peaks stay blank
+  peaks?: unknown;
+  // Decoded audio, used to draw individual samples when zoomed all the way in
+  buffer?: AudioBuffer | null;
+  // When given, the lane is drawn as movable, trimmable clips instead
+  clips?: TimelineClip[];
+}
+
+// A time range on one or more lanes; start === end is a cursor position
+export interface TimelineSelection {
+  start: number;
+  end: number;
+  laneIds: string[];
+}
+
+// A marked stretch of the timeline, e.g. the loop region, set by dragging on
+// its own strip above the ruler
+export interface TimelineRegion {
+  id: string;
+  label: string;
+  range: TimeRange | null;
+  // Drawn dimmed while the region has no effect
+  active: boolean;
+  // Colors of the marked range
+  className: string;
+  onChange: (range: TimeRange) => void;
+}
+
+// Dragging a clip body either selects a range or moves the clip
+export type TimelineTool = 'select' | 'move';
+
+type ClipEdit = 'move' | 'trim-start' | 'trim-end' | 'fade-in' | 'fade-out';
+
+interface ClipDrag {
+  laneId: string;
+  edit: ClipEdit;
+  original: TimelineClip;
+  clip: Clip;
+  pointerTime: number;
+  // A press on a clip body only becomes a move once the pointer travels
+  moved: boolean;
+}
+
+interface WaveformTimelineProps {
+  lanes: TimelineLane[];
+  duration: number;
+  currentTime: number;
+  // Keeps the playhead in view while set
+  isPlaying: boolean;
+  laneHeight?: number;
+  laneClassName?: string;
+  // Pointer down, drag and release on a lane or the ruler
+  onScrubStart: (time: number) => void;
+  onScrub: (time: number) => void;
+  onScrubEnd: (time: number) => void;
+  // A clip was moved, trimmed or faded; called once on release
+  onClipChange?: (laneId: string, clip: Clip) => void;
+  tool?: TimelineTool;
+  selection?: TimelineSelection | null;
+  onSelectionChange?: (selection: TimelineSelection) => void;
+  // Labels the ruler in bars and beats when set
+  grid?: MusicalGrid | null;
+  // Grid spacing clip edges and selections snap to, in seconds; 0 for none.
+  // Holding Alt while dragging places freely.
+  snapSeconds?: number;
+  regions?: TimelineRegion[];
+}
+
+type RegionEdit = 'create' | 'move' | 'start' | 'end';
+
+interface RegionDrag {
+  id: string;
+  edit: RegionEdit;
+  original: TimeRange | null;
+  pointerTime: number;
+  range: TimeRange | null;
+}
+
+interface SelectDrag {
+  anchorTime: number;
+  anchorLane: number;
+  pressX: number;
+  moved: boolean;
+}
+
+const CANVAS_WIDTH = 800;
+// How close to a clip edge or fade handle a press grabs it, in CSS pixels
+const HANDLE_GRAB_PIXELS = 6;
+// Pointer travel before a press on a clip starts moving it, in CSS pixels
+const MOVE_THRESHOLD_PIXELS = 3;
+
+const getClipCursor = (edit: ClipEdit | null) => {
+  switch (edit) {
+    case 'trim-start':
+    case 'trim-end':
+      return 'ew-resize';
+    case 'fade-in':
+    case 'fade-out':
+      return 'col-resize';
+    case 'move':
+      return 'grab';
+    default:
+      return 'pointer';
+  }
+};
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  lanes,
+  duration,
+  currentTime,
+  isPlaying,
+  laneHeight = 60,
+  laneClassName = 'h-12',
+  onScrubStart,
+  onScrub,
+  onScrubEnd,
+  onClipChange,
+  tool = 'move',
+  selection = null,
+  onSelectionChange,
+  grid = null,
+  snapSeconds = 0,
+  regions = [],
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rulerRef = useRef<HTMLCanvasElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const laneRefs = useRef<Map<string, HTMLCanvasElement>>(new Map());
+  const scrubTimeRef = useRef<number | null>(null);
+  const minimapGrabRef = useRef<number | null>(null);
+  const pressXRef = useRef(0);
+  const selectDragRef = useRef<SelectDrag | null>(null);
+  const [clipDrag, setClipDrag] = useState<ClipDrag | null>(null);
+  const [regionDrag, setRegionDrag] = useState<RegionDrag | null>(null);
+
+  const { drawPeaks, drawClips, drawSelection, drawRuler, drawMinimap } = useWaveform(null);
+
+  // Zoom down to the samples of the finest recording on the timeline
+  const sampleRate = Math.max(44100, ...lanes.flatMap(lane => [
+    lane.buffer?.sampleRate || (isPeakPyramid(lane.peaks) ? lane.peaks.sampleRate : 0),
+    ...(lane.clips ?? []).map(({ buffer, peaks }) => buffer?.sampleRate || (isPeakPyramid(peaks) ? peaks.sampleRate : 0)),
+  ]));
+  const {
+    view, zoom, canZoomIn, canZoomOut, scrollTo, scrollBy, zoomAt, zoomIn, zoomOut, zoomToFit, reveal,
+  } = useTimelineView(duration, sampleRate);
+  const { startTime, endTime } = view;
+  const hasHeaders = lanes.some(lane => lane.header);
+
+  // What each lane draws, with the clip being dragged in its new place
+  const getLaneDrawings = (lane: TimelineLane): ClipDrawing[] => {
+    if (!lane.clips) {
+      if (!isPeakPyramid(lane.peaks)) return [];
+      const { duration: sourceDuration } = lane.peaks;
+      return [{
+        clip: { id: lane.id, asset_path: '', start: 0, source_in: 0, source_out: sourceDuration, gain: 1, fade_in: 0, fade_out: 0 },
+        pyramid: lane.peaks,
+        buffer: lane.buffer,
+      }];
+    }
+
+    return lane.clips.map(({ clip, peaks, buffer }) => {
+      const isActive = clipDrag?.laneId === lane.id && clipDrag.clip.id === clip.id && clipDrag.moved;
+      return {
+        clip: isActive ? clipDrag.clip : clip,
+        pyramid: isPeakPyramid(peaks) ? peaks : null,
+        buffer,
+        isActive,
+      };
+    });
+  };
+
+  useEffect(() => {
+    const drawings = lanes.map(lane => ({ lane, clips: getLaneDrawings(lane) }));
+
+    drawings.forEach(({ lane, clips }) => {
+      const canvas = laneRefs.current.get(lane.id);
+      if (!canvas) return;
+      if (lane.clips) {
+        drawClips(canvas, clips, currentTime, startTime, endTime);
+      } else if (isPeakPyramid(lane.peaks)) {
+        drawPeaks(lane.peaks, currentTime, canvas, startTime, endTime, lane.buffer);
+      } else {
+        canvas.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      }
+
+      if (selection && selection.end > selection.start && selection.laneIds.includes(lane.id)) {
+        drawSelection(canvas, selection.start, selection.end, startTime, endTime);
+      }
+    });
+
+    if (rulerRef.current) {
+      drawRuler(rulerRef.current, startTime, endTime, currentTime, grid);
+    }
+    if (minimapRef.current) {
+      const allClips = drawings.flatMap(({ clips }) => clips);
+      drawMinimap(minimapRef.current, allClips, Math.max(duration, endTime), startTime, endTime, currentTime);
+    }
+  });
+
+  // Follow the playhead, unless the user is holding it
+  useEffect(() => {
+    if (isPlaying && scrubTimeRef.current === null) {
+      reveal(currentTime);
+    }
+  }, [isPlaying, currentTime, reveal]);
+
+  // Ctrl/Cmd + wheel zooms around the pointer; horizontal or Shift + wheel
+  // scrolls. Registered natively because React's wheel listener is passive.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      const rect = container.getBoundingClientRect();
+      const span = endTime - startTime;
+
+      if (e.ctrlKey || e.metaKey) {
+        e.preventDefault();
+        const anchor = startTime + ((e.clientX - rect.left) / rect.width) * span;
+        zoomAt(anchor, Math.exp(-e.deltaY * 0.002));
+      } else if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        e.preventDefault();
+        const delta = e.shiftKey ? e.deltaY : e.deltaX;
+        scrollBy((delta / rect.width) * span);
+      }
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [startTime, endTime, zoomAt, scrollBy]);
+
+  // Timeline position under the pointer; unclamped positions let clips be
+  // dragged past the current end
+  const getTimeAt = (e: React.PointerEvent<HTMLElement>, clamp: boolean = true) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const progress = (e.clientX - rect.left) / rect.width;
+    const time = startTime + progress * (endTime - startTime);
+    return clamp ? Math.max(startTime, Math.min(time, endTime, duration)) : Math.max(0, time);
+  };
+
+  // The nearest grid line to `time`, unless snapping is off or Alt is held
+  const snap = (e: React.PointerEvent<HTMLElement>, time: number) => {
+    return snapSeconds > 0 && !e.altKey ? snapTime(time, snapSeconds) : time;
+  };
+
+  // Selections stay within the timeline, even when the nearest grid line
+  // is past its end
+  const getSnappedTimeAt = (e: React.PointerEvent<HTMLElement>) => {
+    return Math.min(snap(e, getTimeAt(e)), Math.max(duration, 0));
+  };
+
+  // Which clip edit a press at this spot would start, topmost clip first
+  const hitTestClip = (lane: TimelineLane, e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lane.clips || !onClipChange) return null;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = getTimeAt(e, false);
+    const grab = (HANDLE_GRAB_PIXELS / rect.width) * (endTime - startTime);
+    const nearTop = e.clientY - rect.top < rect.height / 3;
+
+    for (let index = lane.clips.length - 1; index >= 0; index--) {
+      const target = lane.clips[index];
+      const { clip } = target;
+      const clipEnd = getClipEnd(clip);
+      if (time < clip.start - grab || time > clipEnd + grab) continue;
+
+      let edit: ClipEdit = 'move';
+      if (nearTop && Math.abs(time - (clip.start + clip.fade_in)) <= grab) edit = 'fade-in';
+      else if (nearTop && Math.abs(time - (clipEnd - clip.fade_out)) <= grab) edit = 'fade-out';
+      else if (Math.abs(time - clip.start) <= grab) edit = 'trim-start';
+      else if (Math.abs(time - clipEnd) <= grab) edit = 'trim-end';
+      else if (time < clip.start || time > clipEnd) continue;
+
+      return { target, edit };
+    }
+    return null;
+  };
+
+  // Moves and trims put the edge being dragged on the snap grid
+  const applyClipEdit = (drag: ClipDrag, e: React.PointerEvent<HTMLCanvasElement>): Clip => {
+    const { clip, sourceDuration } = drag.original;
+    const time = getTimeAt(e, false);
+    const delta = time - drag.pointerTime;
+    const clipEnd = getClipEnd(clip);
+
+    switch (drag.edit) {
+      case 'move':
+        return { ...clip, start: Math.max(0, snap(e, clip.start + delta)) };
+      case 'trim-start': {
+        // Can't reveal audio before the source starts or the timeline begins
+        const shift = Math.min(
+          Math.max(snap(e, clip.start + delta) - clip.start, -clip.source_in, -clip.start),
+          getClipDuration(clip) - MIN_CLIP_SECONDS
+        );
+        return normalizeClip({ ...clip, start: clip.start + shift, source_in: clip.source_in + shift }, sourceDuration);
+      }
+      case 'trim-end':
+        return normalizeClip({ ...clip, source_out: clip.source_out + snap(e, clipEnd + delta) - clipEnd }, sourceDuration);
+      case 'fade-in':
+        return normalizeClip({ ...clip, fade_in: time - clip.start }, sourceDuration);
+      case 'fade-out':
+        return normalizeClip({ ...clip, fade_out: clipEnd - time }, sourceDuration);
+    }
+  };
+
+  // Index of the lane under the pointer, or the nearest one above or below
+  const getLaneIndexAt = (clientY: number) => {
+    let index = 0;
+    lanes.forEach((lane, laneIndex) => {
+      const rect = laneRefs.current.get(lane.id)?.getBoundingClientRect();
+      if (rect && clientY >= rect.top) index = laneIndex;
+    });
+    return index;
+  };
+
+  const updateSelection = (e: React.PointerEvent<HTMLCanvasElement>, drag: SelectDrag) => {
+    const time = getSnappedTimeAt(e);
+    const laneIndex = getLaneIndexAt(e.clientY);
+    onSelectionChange?.({
+      start: Math.min(drag.anchorTime, time),
+      end: Math.max(drag.anchorTime, time),
+      laneIds: lanes
+        .slice(Math.min(drag.anchorLane, laneIndex), Math.max(drag.anchorLane, laneIndex) + 1)
+        .map(lane => lane.id),
+    });
+  };
+
+  const startScrub = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const time = getTimeAt(e);
+    scrubTimeRef.current = time;
+    onScrubStart(time);
+  };
+
+  const scrubHandlers = (lane?: TimelineLane) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (duration <= 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+
+      const hit = lane ? hitTestClip(lane, e) : null;
+      if (lane && hit && (hit.edit !== 'move' || tool === 'move')) {
+        pressXRef.current = e.clientX;
+        setClipDrag({
+          laneId: lane.id,
+          edit: hit.edit,
+          original: hit.target,
+          clip: hit.target.clip,
+          pointerTime: getTimeAt(e, false),
+          // Handles take effect right away; the body waits for a drag
+          moved: hit.edit !== 'move',
+        });
+        return;
+      }
+
+      if (lane && tool === 'select' && onSelectionChange) {
+        selectDragRef.current = {
+          anchorTime: getSnappedTimeAt(e),
+          anchorLane: lanes.indexOf(lane),
+          pressX: e.clientX,
+          moved: false,
+        };
+        return;
+      }
+      startScrub(e);
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (clipDrag) {
+        const moved = clipDrag.moved || Math.abs(e.clientX - pressXRef.current) >= MOVE_THRESHOLD_PIXELS;
+        if (moved) {
+          setClipDrag({ ...clipDrag, moved, clip: applyClipEdit(clipDrag, e) });
+        }
+        return;
+      }
+
+      const selectDrag = selectDragRef.current;
+      if (selectDrag) {
+        selectDrag.moved = selectDrag.moved || Math.abs(e.clientX - selectDrag.pressX) >= MOVE_THRESHOLD_PIXELS;
+        if (selectDrag.moved) {
+          updateSelection(e, selectDrag);
+        }
+        return;
+      }
+
+      if (scrubTimeRef.current === null) {
+        if (lane) {
+          const edit = hitTestClip(lane, e)?.edit ?? null;
+          e.currentTarget.style.cursor = tool === 'select' && (edit === 'move' || !edit) ? 'text' : getClipCursor(edit);
+        }
+        return;
+      }
+      const time = getTimeAt(e);
+      if (time === scrubTimeRef.current) return;
+      scrubTimeRef.current = time;
+      onScrub(time);
+    },
+    onPointerUp: (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (clipDrag) {
+        setClipDrag(null);
+        if (clipDrag.moved) {
+          if (clipDrag.clip !== clipDrag.original.clip) {
+            onClipChange?.(clipDrag.laneId, clipDrag.clip);
+          }
+        } else {
+          // A click on a clip seeks like anywhere else
+          const time = getTimeAt(e);
+          onScrubStart(time);
+          onScrubEnd(time);
+        }
+        return;
+      }
+
+      const selectDrag = selectDragRef.current;
+      if (selectDrag && lane) {
+        selectDragRef.current = null;
+        if (selectDrag.moved) {
+          updateSelection(e, selectDrag);
+        } else {
+          // A click puts the cursor on that lane and moves the playhead there
+          const time = getSnappedTimeAt(e);
+          onSelectionChange?.({ start: time, end: time, laneIds: [lane.id] });
+          onScrubStart(time);
+          onScrubEnd(time);
+        }
+        return;
+      }
+
+      if (scrubTimeRef.current === null) return;
+      const time = getTimeAt(e);
+      scrubTimeRef.current = null;
+      onScrubEnd(time);
+    },
+    onPointerCancel: () => {
+      selectDragRef.current = null;
+      if (clipDrag) {
+        setClipDrag(null);
+        return;
+      }
+      if (scrubTimeRef.current === null) return;
+      const time = scrubTimeRef.current;
+      scrubTimeRef.current = null;
+      onScrubEnd(time);
+    },
+  });
+
+  // Pressing near an edge of a region resizes it, inside it moves it, and
+  // anywhere else drags out a new one
+  const getRegionEdit = (region: TimelineRegion, e: React.PointerEvent<HTMLDivElement>): RegionEdit => {
+    const { range } = region;
+    if (!range) return 'create';
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const time = getTimeAt(e, false);
+    const grab = (HANDLE_GRAB_PIXELS / rect.width) * (endTime - startTime);
+    if (Math.abs(time - range.start) <= grab) return 'start';
+    if (Math.abs(time - range.end) <= grab) return 'end';
+    if (time > range.start && time < range.end) return 'move';
+    return 'create';
+  };
+
+  const applyRegionEdit = (drag: RegionDrag, e: React.PointerEvent<HTMLDivElement>): TimeRange | null => {
+    const time = getTimeAt(e, false);
+    const { original } = drag;
+
+    if (drag.edit === 'create' || !original) {
+      const anchor = snap(e, drag.pointerTime);
+      const edge = snap(e, time);
+      return { start: Math.min(anchor, edge), end: Math.max(anchor, edge) };
+    }
+    if (drag.edit === 'move') {
+      const start = Math.max(0, snap(e, original.start + time - drag.pointerTime));
+      return { start, end: start + original.end - original.start };
+    }
+
+    const fixed = drag.edit === 'start' ? original.end : original.start;
+    const edge = snap(e, time);
+    return { start: Math.min(fixed, edge), end: Math.max(fixed, edge) };
+  };
+
+  const regionHandlers = (region: TimelineRegion) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setRegionDrag({
+        id: region.id,
+        edit: getRegionEdit(region, e),
+        original: region.range,
+        pointerTime: getTimeAt(e, false),
+        range: region.range,
+      });
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+      if (regionDrag?.id === region.id) {
+        setRegionDrag({ ...regionDrag, range: applyRegionEdit(regionDrag, e) });
+        return;
+      }
+      const edit = getRegionEdit(region, e);
+      e.currentTarget.style.cursor = edit === 'create' ? 'crosshair' : edit === 'move' ? 'grab' : 'ew-resize';
+    },
+    onPointerUp: (e: React.PointerEvent<HTMLDivElement>) => {
+      if (regionDrag?.id !== region.id) return;
+      setRegionDrag(null);
+
+      const range = applyRegionEdit(regionDrag, e);
+      const changed = range?.start !== region.range?.start || range?.end !== region.range?.end;
+      if (range && range.end > range.start && changed) {
+        region.onChange(range);
+      }
+    },
+    onPointerCancel: () => {
+      setRegionDrag(null);
+    },
+  });
+
+  const renderRegion = (region: TimelineRegion) => {
+    const range = regionDrag?.id === region.id ? regionDrag.range : region.range;
+    const span = endTime - startTime;
+
+    return (
+      <div
+        key={region.id}
+        className="relative h-4 mb-1 bg-dark-900/50 rounded border border-gray-700 overflow-hidden touch-none"
+        {...regionHandlers(region)}
+      >
+        {range && span > 0 && (
+          <div
+            className={`absolute inset-y-0 border-x-2 ${region.className} ${region.active ? '' : 'opacity-40'}`}
+            style={{
+              left: `${((range.start - startTime) / span) * 100}%`,
+              width: `${((range.end - range.start) / span) * 100}%`,
+            }}
+          />
+        )}
+        <span className="absolute left-1 inset-y-0 text-[10px] leading-[14px] text-gray-400 pointer-events-none">
+          {region.label}
+        </span>
+      </div>
+    );
+  };
+
+  // Dragging the minimap moves the viewport; grabbing outside it centers the
+  // viewport on the pointer first
+  const getMinimapTime = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * Math.max(duration, endTime);
+  };
+
+  const handleMinimapDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = getMinimapTime(e);
+    const inView = time >= startTime && time <= endTime;
+    minimapGrabRef.current = inView ? time - startTime : (endTime - startTime) / 2;
+    scrollTo(time - minimapGrabRef.current);
+  };
+
+  const handleMinimapMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (minimapGrabRef.current === null) return;
+    scrollTo(getMinimapTime(e) - minimapGrabRef.current);
+  };
+
+  const handleMinimapUp = () => {
+    minimapGrabRef.current = null;
+  };
+
+  const formatZoom = () => {
+    if (zoom < 10) return `${zoom.toFixed(1)}x`;
+    return `${Math.round(zoom).toLocaleString()}x`;
+  };
+
+  return (
+    <div ref={containerRef} className="select-none">
+      {/* Zoom Controls */}
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => zoomOut()}
+            disabled={!canZoomOut}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => zoomIn(currentTime >= startTime && currentTime <= endTime ? currentTime : undefined)}
+            disabled={!canZoomIn}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </button>
+          <button
+            onClick={zoomToFit}
+            disabled={!canZoomOut}
+            className="text-gray-400 hover:text-white transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Show whole timeline"
+          >
+            <Maximize2 className="h-4 w-4" />
+          </button>
+          <span className="text-xs text-gray-400 font-mono">{formatZoom()}</span>
+        </div>
+        <span className="text-xs text-gray-500">Ctrl + scroll to zoom, Shift + scroll to pan</span>
+      </div>
+
+      {/* Overview */}
+      <canvas
+        ref={minimapRef}
+        width={CANVAS_WIDTH}
+        height={32}
+        className="w-full h-6 mb-2 bg-dark-900/50 rounded border border-gray-600 cursor-grab"
+        onPointerDown={handleMinimapDown}
+        onPointerMove={handleMinimapMove}
+        onPointerUp={handleMinimapUp}
+        onPointerCancel={handleMinimapUp}
+      />
+
+      {/* Regions and Time Ruler */}
+      <div className={hasHeaders ? 'px-3' : ''}>
+        {regions.map(renderRegion)}
+        <canvas
+          ref={rulerRef}
+          width={CANVAS_WIDTH}
+          height={24}
+          className="w-full h-5 cursor-pointer touch-none"
+          {...scrubHandlers()}
+        />
+      </div>
+
+      {/* Lanes */}
+      <div className={`space-y-3 ${lanes.length > 1 ? 'max-h-64 overflow-y-auto' : ''}`}>
+        {lanes.map(lane => {
+          const canvas = (
+            <canvas
+              ref={(element) => {
+                if (element) {
+                  laneRefs.current.set(lane.id, element);
+                } else {
+                  laneRefs.current.delete(lane.id);
+                }
+              }}
+              width={CANVAS_WIDTH}
+              height={laneHeight}
+              className={`w-full ${laneClassName} bg-dark-900/50 rounded border border-gray-600 cursor-pointer touch-none`}
+              {...scrubHandlers(lane)}
+            />
+          );
+
+          if (!lane.header) {
+            return <div key={lane.id}>{canvas}</div>;
+          }
+
+          return (
+            <div
+              key={lane.id}
+              className={`bg-dark-700/30 rounded-lg p-3 ${
+                selection?.laneIds.includes(lane.id) ? 'ring-1 ring-neon-blue/50' : ''
+              }`}
+            >
+              <div className="mb-2">{lane.header}</div>
+              {canvas}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
@@ -1,36 +1,8 @@
 import { useRef, useCallback, useEffect } from 'react';
+import { DEFAULT_EFFECT_PARAMETERS, connectEffects, getEffectsLayoutKey } from '../lib/effectsGraph';
+import type { EffectParameters, EffectsChain, EffectsSettings } from '../lib/effectsGraph';
 
-export interface EffectParameters {
-  reverb: {
-    roomSize: number;
-    damping: number;
-    wetLevel: number;
-    dryLevel: number;
-  };
-  delay: {
-    delayTime: number;
-    feedback: number;
-    wetLevel: number;
-    dryLevel: number;
-  };
-  chorus: {
-    rate: number;
-    depth: number;
-    wetLevel: number;
-    dryLevel: number;
-  };
-  equalizer: {
-    lowGain: number;
-    midGain: number;
-    highGain: number;
-  };
-  compressor: {
-    threshold: number;
-    ratio: number;
-    attack: number;
-    release: number;
-  };
-}
+export type { EffectParameters } from '../lib/effectsGraph';
 
 export interface AudioEffectsState {
   isEnabled: boolean;
@@ -38,140 +10,16 @@ export interface AudioEffectsState {
   parameters: EffectParameters;
 }
 
+// Live monitoring of a microphone stream through an effects chain, built the
+// same way as for playback and export
 export const useAudioEffects = () => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const effectsChainRef = useRef<AudioNode[]>([]);
+  const effectsChainRef = useRef<EffectsChain | null>(null);
   const outputNodeRef = useRef<GainNode | null>(null);
+  const settingsRef = useRef<EffectsSettings>({ activeEffects: [], parameters: DEFAULT_EFFECT_PARAMETERS });
 
-  const defaultParameters: EffectParameters = {
-    reverb: {
-      roomSize: 0.3,
-      damping: 0.5,
-      wetLevel: 0.3,
-      dryLevel: 0.7,
-    },
-    delay: {
-      delayTime: 0.3,
-      feedback: 0.25,
-      wetLevel: 0.3,
-      dryLevel: 0.7,
-    },
-    chorus: {
-      rate: 1.5,
-      depth: 0.3,
-      wetLevel: 0.4,
-      dryLevel: 0.6,
-    },
-    equalizer: {
-      lowGain: 0,
-      midGain: 0,
-      highGain: 0,
-    },
-    compressor: {
-      threshold: -24,
-      ratio: 3,
-      attack: 0.003,
-      release: 0.25,
-    },
-  };
-
-  const createReverbNode = useCallback((context: AudioContext, parameters: EffectParameters['reverb']) => {
-    const convolver = context.createConvolver();
-    const wetGain = context.createGain();
-    const dryGain = context.createGain();
-    const outputGain = context.createGain();
-
-    // Create impulse response for reverb
-    const length = context.sampleRate * parameters.roomSize * 4;
-    const impulse = context.createBuffer(2, length, context.sampleRate);
-    
-    for (let channel = 0; channel < 2; channel++) {
-      const channelData = impulse.getChannelData(channel);
-      for (let i = 0; i < length; i++) {
-        const decay = Math.pow(1 - i / length, parameters.damping * 10);
-        channelData[i] = (Math.random() * 2 - 1) * decay;
-      }
-    }
-    
-    convolver.buffer = impulse;
-    wetGain.gain.value = parameters.wetLevel;
-    dryGain.gain.value = parameters.dryLevel;
-
-    return { convolver, wetGain, dryGain, outputGain };
-  }, []);
-
-  const createDelayNode = useCallback((context: AudioContext, parameters: EffectParameters['delay']) => {
-    const delay = context.createDelay(1.0);
-    const feedback = context.createGain();
-    const wetGain = context.createGain();
-    const dryGain = context.createGain();
-    const outputGain = context.createGain();
-
-    delay.delayTime.value = parameters.delayTime;
-    feedback.gain.value = parameters.feedback;
-    wetGain.gain.value = parameters.wetLevel;
-    dryGain.gain.value = parameters.dryLevel;
-
-    // Connect delay feedback loop
-    delay.connect(feedback);
-    feedback.connect(delay);
-
-    return { delay, feedback, wetGain, dryGain, outputGain };
-  }, []);
-
-  const createChorusNode = useCallback((context: AudioContext, parameters: EffectParameters['chorus']) => {
-    const delay = context.createDelay(0.05);
-    const lfo = context.createOscillator();
-    const lfoGain = context.createGain();
-    const wetGain = context.createGain();
-    const dryGain = context.createGain();
-    const outputGain = context.createGain();
-
-    lfo.frequency.value = parameters.rate;
-    lfoGain.gain.value = parameters.depth * 0.01;
-    delay.delayTime.value = 0.02;
-    wetGain.gain.value = parameters.wetLevel;
-    dryGain.gain.value = parameters.dryLevel;
-
-    lfo.connect(lfoGain);
-    lfoGain.connect(delay.delayTime);
-    lfo.start();
-
-    return { delay, lfo, lfoGain, wetGain, dryGain, outputGain };
-  }, []);
-
-  const createEqualizerNode = useCallback((context: AudioContext, parameters: EffectParameters['equalizer']) => {
-    const lowShelf = context.createBiquadFilter();
-    const midPeaking = context.createBiquadFilter();
-    const highShelf = context.createBiquadFilter();
-
-    lowShelf.type = 'lowshelf';
-    lowShelf.frequency.value = 320;
-    lowShelf.gain.value = parameters.lowGain;
-
-    midPeaking.type = 'peaking';
-    midPeaking.frequency.value = 1000;
-    midPeaking.Q.value = 1;
-    midPeaking.gain.value = parameters.midGain;
-
-    highShelf.type = 'highshelf';
-    highShelf.frequency.value = 3200;
-    highShelf.gain.value = parameters.highGain;
-
-    return { lowShelf, midPeaking, highShelf };
-  }, []);
-
-  const createCompressorNode = useCallback((context: AudioContext, parameters: EffectParameters['compressor']) => {
-    const compressor = context.createDynamicsCompressor();
-    
-    compressor.threshold.value = parameters.threshold;
-    compressor.ratio.value = parameters.ratio;
-    compressor.attack.value = parameters.attack;
-    compressor.release.value = parameters.release;
-
-    return compressor;
-  }, []);
+  const defaultParameters = DEFAULT_EFFECT_PARAMETERS;
 
   const initializeAudioContext = useCallback(async (stream: MediaStream) => {
     try {
@@ -196,106 +44,35 @@ export const useAudioEffects = () => {
       return;
     }
 
-    const context = audioContextRef.current;
-    
-    // Disconnect existing chain
-    sourceNodeRef.current.disconnect();
-    effectsChainRef.current.forEach(node => {
-      try {
-        node.disconnect();
-      } catch (e) {
-        // Node might already be disconnected
-      }
-    });
-    
-    effectsChainRef.current = [];
-    let currentNode: AudioNode = sourceNodeRef.current;
-
-    // Build effects chain
-    activeEffects.forEach(effectType => {
-      switch (effectType) {
-        case 'equalizer': {
-          const { lowShelf, midPeaking, highShelf } = createEqualizerNode(context, parameters.equalizer);
-          currentNode.connect(lowShelf);
-          lowShelf.connect(midPeaking);
-          midPeaking.connect(highShelf);
-          currentNode = highShelf;
-          effectsChainRef.current.push(lowShelf, midPeaking, highShelf);
-          break;
-        }
-        
-        case 'compressor': {
-          const compressor = createCompressorNode(context, parameters.compressor);
-          currentNode.connect(compressor);
-          currentNode = compressor;
-          effectsChainRef.current.push(compressor);
-          break;
-        }
-        
-        case 'reverb': {
-          const { convolver, wetGain, dryGain, outputGain } = createReverbNode(context, parameters.reverb);
-          
-          // Wet path
-          currentNode.connect(convolver);
-          convolver.connect(wetGain);
-          wetGain.connect(outputGain);
-          
-          // Dry path
-          currentNode.connect(dryGain);
-          dryGain.connect(outputGain);
-          
-          currentNode = outputGain;
-          effectsChainRef.current.push(convolver, wetGain, dryGain, outputGain);
-          break;
-        }
-        
-        case 'delay': {
-          const { delay, feedback, wetGain, dryGain, outputGain } = createDelayNode(context, parameters.delay);
-          
-          // Wet path
-          currentNode.connect(delay);
-          delay.connect(wetGain);
-          wetGain.connect(outputGain);
-          
-          // Dry path
-          currentNode.connect(dryGain);
-          dryGain.connect(outputGain);
-          
-          currentNode = outputGain;
-          effectsChainRef.current.push(delay, feedback, wetGain, dryGain, outputGain);
-          break;
-        }
-        
-        case 'chorus': {
-          const { delay, lfo, lfoGain, wetGain, dryGain, outputGain } = createChorusNode(context, parameters.chorus);
-          
-          // Wet path
-          currentNode.connect(delay);
-          delay.connect(wetGain);
-          wetGain.connect(outputGain);
-          
-          // Dry path
-          currentNode.connect(dryGain);
-          dryGain.connect(outputGain);
-          
-          currentNode = outputGain;
-          effectsChainRef.current.push(delay, lfo, lfoGain, wetGain, dryGain, outputGain);
-          break;
-        }
-      }
-    });
+    settingsRef.current = { activeEffects, parameters };
 
-    // Connect final node to output
-    currentNode.connect(outputNodeRef.current);
-  }, [createReverbNode, createDelayNode, createChorusNode, createEqualizerNode, createCompressorNode]);
+    // Replace the existing chain
+    sourceNodeRef.current.disconnect();
+    effectsChainRef.current?.disconnect();
+    effectsChainRef.current = connectEffects(audioContextRef.current, sourceNodeRef.current, settingsRef.current);
+    effectsChainRef.current.output.connect(outputNodeRef.current);
+  }, []);
 
+  // Changes one parameter on the running chain, rebuilding it only when the
+  // change can't be made in place
   const updateEffectParameter = useCallback((effectType: keyof EffectParameters, parameterName: string, value: number) => {
-    if (!audioContextRef.current) return;
+    const current = settingsRef.current;
+    const settings: EffectsSettings = {
+      activeEffects: current.activeEffects,
+      parameters: {
+        ...current.parameters,
+        [effectType]: { ...current.parameters[effectType], [parameterName]: value },
+      },
+    };
+
+    if (effectsChainRef.current && getEffectsLayoutKey(settings) === getEffectsLayoutKey(current)) {
+      settingsRef.current = settings;
+      effectsChainRef.current.setParameters(settings.parameters);
+      return;
+    }
 
-    // This would update specific effect parameters in real-time
-    // Implementation depends on the specific effect and parameter
-    console.log(`Updating ${effectType}.${parameterName} to ${value}`);
-  }, []);
+    applyEffects(settings.activeEffects, settings.parameters);
+  }, [applyEffects]);
 
   const cleanup = useCallback(() => {
     if (sourceNodeRef.current) {
@@ -303,14 +80,8 @@ export const useAudioEffects = () => {
       sourceNodeRef.current = null;
     }
     
-    effectsChainRef.current.forEach(node => {
-      try {
-        node.disconnect();
-      } catch (e) {
-        // Node might already be disconnected
-      }
-    });
-    effectsChainRef.current = [];
+    effectsChainRef.current?.disconnect();
+    effectsChainRef.current = null;
     
     if (audioContextRef.current) {
       audioContextRef.current.close();
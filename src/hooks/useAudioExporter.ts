@@ -1,4 +1,24 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { DitherMode } from '../lib/encoders/dither';
+import type { FlacBitDepth } from '../lib/encoders/flac';
+import type { Mp3Bitrate, Mp3SampleRate } from '../lib/encoders/mp3';
+import { isOpusEncodingSupported, OPUS_SAMPLE_RATE } from '../lib/encoders/opus';
+import type { OggCodec } from '../lib/encoders/opus';
+import type { WavBitDepth } from '../lib/encoders/wav';
+import type { ProcessingSettings } from '../lib/exportProcessing';
+import { getResampledLength } from '../lib/resampler';
+import type { ResamplingMode } from '../lib/resampler';
+import { decodeAudio } from '../lib/decode';
+import { createAbortError, getTransferableChannels, isAbortError, runExportWorker } from '../lib/exportWorker';
+import type { ExportWorkerOptions, ExportWorkerParams } from '../lib/exportWorker';
+import { getRenderLength, getSourceSampleRate, loadTrackBuffers, renderMixdown, renderStem } from '../lib/mixdown';
+import { parseAudioHeader } from '../lib/probe';
+import type { AudioTags } from '../lib/tags';
+import { createZip } from '../lib/zipWriter';
+import type { ZipEntry } from '../lib/zipWriter';
+import type { EffectsSettings } from '../lib/effectsGraph';
+import type { Track } from '../stores/trackStore';
+import type { Project } from '../stores/projectStore';
 
 export interface ExportSettings {
   format: 'mp3' | 'wav' | 'flac' | 'ogg';
@@ -8,32 +28,151 @@ export interface ExportSettings {
   normalize: boolean;
   fadeIn: number;
   fadeOut: number;
-  metadata: {
-    title?: string;
-    artist?: string;
-    album?: string;
-    year?: number;
-    genre?: string;
-  };
+  resampling: ResamplingMode;
+  // Applied when samples are reduced to 16 or 24-bit integers (WAV, FLAC)
+  dither: DitherMode;
+  metadata: AudioTags;
 }
 
 export interface ExportJob {
   id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  source: 'recording' | 'mix' | 'stems';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   settings: ExportSettings;
   outputUrl?: string;
+  sizeBytes?: number;
+  durationSeconds?: number;
+  // Rate of the exported file, which the format's quality tier can set
+  // instead of settings.sampleRate
+  sampleRate?: number;
   error?: string;
   createdAt: Date;
   completedAt?: Date;
 }
 
+// Written as manifest.json next to the stems
+export interface StemManifest {
+  version: 1;
+  project: string | null;
+  bpm: number | null;
+  format: ExportSettings['format'];
+  sampleRate: number;
+  length: number;
+  durationSeconds: number;
+  effectsApplied: boolean;
+  tracks: {
+    file: string;
+    name: string;
+    order: number;
+    volume: number;
+    pan: number;
+    muted: boolean;
+    solo: boolean;
+  }[];
+}
+
+interface ExportPlan {
+  renderSettings: ExportSettings;
+  bitrate: number;
+  flacBitDepth: FlacBitDepth;
+  oggCodec: OggCodec;
+}
+
+export interface ExportResult {
+  job: ExportJob;
+  blob: Blob;
+}
+
+interface ExportOutput {
+  blob: Blob;
+  durationSeconds: number;
+}
+
+interface JobControl {
+  setProgress: (progress: number) => void;
+  signal: AbortSignal;
+}
+
 interface AudioExporterState {
   jobs: ExportJob[];
   isExporting: boolean;
   error: string | null;
 }
 
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'mp3',
+  quality: 'high',
+  sampleRate: 44100,
+  bitDepth: 16,
+  normalize: true,
+  fadeIn: 0,
+  fadeOut: 0,
+  resampling: 'sinc',
+  dither: 'tpdf',
+  metadata: {},
+};
+
+const MIME_TYPES: Record<ExportSettings['format'], string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+};
+
+const sanitizeFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'track';
+
+const isActiveJob = (job: ExportJob) => job.status === 'pending' || job.status === 'processing';
+
+const getEncoderParams = ({ renderSettings, bitrate, flacBitDepth, oggCodec }: ExportPlan) => {
+  switch (renderSettings.format) {
+    case 'mp3':
+      return {
+        format: 'mp3' as const,
+        options: {
+          bitrate: bitrate as Mp3Bitrate,
+          outputSampleRate: renderSettings.sampleRate as Mp3SampleRate,
+        },
+      };
+    case 'flac':
+      return { format: 'flac' as const, options: { bitDepth: flacBitDepth, dither: renderSettings.dither } };
+    case 'ogg':
+      return { format: 'ogg' as const, options: { codec: oggCodec, bitrate } };
+    default:
+      return {
+        format: 'wav' as const,
+        options: { bitDepth: renderSettings.bitDepth as WavBitDepth, dither: renderSettings.dither },
+      };
+  }
+};
+
+// Hands a copy of the audio to the export worker for processing, encoding and tagging
+const encodeInWorker = async (
+  buffer: AudioBuffer,
+  plan: ExportPlan,
+  tags: AudioTags,
+  processingOverrides: Partial<ProcessingSettings>,
+  options: ExportWorkerOptions
+): Promise<Blob> => {
+  const { renderSettings } = plan;
+  const params: ExportWorkerParams = {
+    ...getEncoderParams(plan),
+    processing: {
+      sampleRate: renderSettings.sampleRate,
+      resampling: renderSettings.resampling,
+      normalize: renderSettings.normalize,
+      fadeIn: renderSettings.fadeIn,
+      fadeOut: renderSettings.fadeOut,
+      ...processingOverrides,
+    },
+    tags,
+  };
+
+  const data = await runExportWorker(getTransferableChannels(buffer), buffer.sampleRate, params, options);
+  return new Blob([data], { type: MIME_TYPES[renderSettings.format] });
+};
+
 export const useAudioExporter = () => {
   const [state, setState] = useState<AudioExporterState>({
     jobs: [],
@@ -41,16 +180,16 @@ export const useAudioExporter = () => {
     error: null,
   });
 
-  const defaultSettings: ExportSettings = {
-    format: 'mp3',
-    quality: 'high',
-    sampleRate: 44100,
-    bitDepth: 16,
-    normalize: true,
-    fadeIn: 0,
-    fadeOut: 0,
-    metadata: {},
-  };
+  // Abort controllers of running jobs, so they can be cancelled
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // Stop any running export (and its worker) when the exporter goes away
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort(createAbortError()));
+    };
+  }, []);
 
   const getQualitySettings = useCallback((format: string, quality: string) => {
     const settings = {
@@ -83,152 +222,43 @@ export const useAudioExporter = () => {
     return settings[format as keyof typeof settings]?.[quality as keyof typeof settings.mp3] || settings.mp3.high;
   }, []);
 
-  const processAudioWithEffects = useCallback(async (
-    audioBuffer: AudioBuffer,
-    settings: ExportSettings
-  ): Promise<AudioBuffer> => {
-    const audioContext = new AudioContext({ sampleRate: settings.sampleRate });
-    
-    // Create a new buffer with the desired sample rate
-    const outputBuffer = audioContext.createBuffer(
-      audioBuffer.numberOfChannels,
-      Math.floor(audioBuffer.length * (settings.sampleRate / audioBuffer.sampleRate)),
-      settings.sampleRate
-    );
-
-    // Copy and resample audio data
-    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-      const inputData = audioBuffer.getChannelData(channel);
-      const outputData = outputBuffer.getChannelData(channel);
-      
-      // Simple linear interpolation for resampling
-      const ratio = inputData.length / outputData.length;
-      for (let i = 0; i < outputData.length; i++) {
-        const sourceIndex = i * ratio;
-        const index = Math.floor(sourceIndex);
-        const fraction = sourceIndex - index;
-        
-        if (index + 1 < inputData.length) {
-          outputData[i] = inputData[index] * (1 - fraction) + inputData[index + 1] * fraction;
-        } else {
-          outputData[i] = inputData[index] || 0;
-        }
-      }
-    }
+  // Resolves the codec parameters and the sample rate the source is rendered at.
+  // Encoded formats take their sample rate (and bitrate or bit depth) from the quality tier.
+  const planExport = useCallback(async (settings: ExportSettings): Promise<ExportPlan> => {
+    const qualitySettings = getQualitySettings(settings.format, settings.quality);
+    const bitrate = 'bitrate' in qualitySettings ? qualitySettings.bitrate : 320;
+    const flacBitDepth = ('bitDepth' in qualitySettings ? qualitySettings.bitDepth : 16) as FlacBitDepth;
 
-    // Apply normalization
-    if (settings.normalize) {
-      let maxValue = 0;
-      for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-        const channelData = outputBuffer.getChannelData(channel);
-        for (let i = 0; i < channelData.length; i++) {
-          maxValue = Math.max(maxValue, Math.abs(channelData[i]));
-        }
-      }
-      
-      if (maxValue > 0) {
-        const normalizeGain = 0.95 / maxValue;
-        for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-          const channelData = outputBuffer.getChannelData(channel);
-          for (let i = 0; i < channelData.length; i++) {
-            channelData[i] *= normalizeGain;
-          }
-        }
-      }
-    }
+    // Prefer Opus through WebCodecs; it always runs at 48 kHz
+    const oggCodec: OggCodec = settings.format === 'ogg' && await isOpusEncodingSupported(2, bitrate)
+      ? 'opus'
+      : 'vorbis';
 
-    // Apply fade in/out
-    if (settings.fadeIn > 0 || settings.fadeOut > 0) {
-      const fadeInSamples = Math.floor(settings.fadeIn * settings.sampleRate);
-      const fadeOutSamples = Math.floor(settings.fadeOut * settings.sampleRate);
-      
-      for (let channel = 0; channel < outputBuffer.numberOfChannels; channel++) {
-        const channelData = outputBuffer.getChannelData(channel);
-        
-        // Fade in
-        for (let i = 0; i < Math.min(fadeInSamples, channelData.length); i++) {
-          channelData[i] *= i / fadeInSamples;
-        }
-        
-        // Fade out
-        for (let i = Math.max(0, channelData.length - fadeOutSamples); i < channelData.length; i++) {
-          const fadeProgress = (channelData.length - i) / fadeOutSamples;
-          channelData[i] *= fadeProgress;
-        }
-      }
+    let renderSettings: ExportSettings = settings;
+    if (settings.format !== 'wav') {
+      const sampleRate = settings.format === 'ogg' && oggCodec === 'opus'
+        ? OPUS_SAMPLE_RATE
+        : qualitySettings.sampleRate;
+      renderSettings = { ...settings, sampleRate };
     }
 
-    await audioContext.close();
-    return outputBuffer;
-  }, []);
+    return { renderSettings, bitrate, flacBitDepth, oggCodec };
+  }, [getQualitySettings]);
 
-  const audioBufferToWav = useCallback((buffer: AudioBuffer, bitDepth: number = 16): Blob => {
-    const length = buffer.length;
-    const numberOfChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numberOfChannels * bytesPerSample;
-    const byteRate = sampleRate * blockAlign;
-    const dataSize = length * blockAlign;
-    const bufferSize = 44 + dataSize;
-    
-    const arrayBuffer = new ArrayBuffer(bufferSize);
-    const view = new DataView(arrayBuffer);
-    
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-    
-    writeString(0, 'RIFF');
-    view.setUint32(4, bufferSize - 8, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, byteRate, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataSize, true);
-    
-    // Convert audio data
-    let offset = 44;
-    const maxValue = Math.pow(2, bitDepth - 1) - 1;
-    
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, buffer.getChannelData(channel)[i]));
-        const intSample = Math.round(sample * maxValue);
-        
-        if (bitDepth === 16) {
-          view.setInt16(offset, intSample, true);
-          offset += 2;
-        } else if (bitDepth === 24) {
-          view.setInt32(offset, intSample << 8, true);
-          offset += 3;
-        } else if (bitDepth === 32) {
-          view.setFloat32(offset, sample, true);
-          offset += 4;
-        }
-      }
-    }
-    
-    return new Blob([arrayBuffer], { type: 'audio/wav' });
-  }, []);
-
-  const exportAudio = useCallback(async (
-    audioBlob: Blob,
-    settings: ExportSettings = defaultSettings
-  ): Promise<string> => {
+  // Shared job bookkeeping: `produce` builds the output file and reports
+  // overall progress (0-100) as it goes. Resolves to null if cancelled.
+  const runExportJob = useCallback(async (
+    settings: ExportSettings,
+    source: ExportJob['source'],
+    produce: (plan: ExportPlan, control: JobControl) => Promise<ExportOutput>
+  ): Promise<ExportResult | null> => {
     const jobId = `export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const controller = new AbortController();
+    controllersRef.current.set(jobId, controller);
     
     const job: ExportJob = {
       id: jobId,
+      source,
       status: 'pending',
       progress: 0,
       settings,
@@ -242,89 +272,61 @@ export const useAudioExporter = () => {
       error: null,
     }));
 
-    try {
-      // Update job status
+    const setProgress = (progress: number) => {
+      if (controller.signal.aborted) return;
       setState(prev => ({
         ...prev,
         jobs: prev.jobs.map(j => 
-          j.id === jobId ? { ...j, status: 'processing' as const, progress: 10 } : j
-        ),
-      }));
-
-      // Convert blob to audio buffer
-      const arrayBuffer = await audioBlob.arrayBuffer();
-      const audioContext = new AudioContext();
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      
-      setState(prev => ({
-        ...prev,
-        jobs: prev.jobs.map(j => 
-          j.id === jobId ? { ...j, progress: 30 } : j
+          j.id === jobId ? { ...j, progress: Math.round(progress) } : j
         ),
       }));
+    };
 
-      // Process audio with effects
-      const processedBuffer = await processAudioWithEffects(audioBuffer, settings);
-      
+    try {
+      // Update job status
       setState(prev => ({
         ...prev,
         jobs: prev.jobs.map(j => 
-          j.id === jobId ? { ...j, progress: 60 } : j
+          j.id === jobId ? { ...j, status: 'processing' as const } : j
         ),
       }));
 
-      let outputBlob: Blob;
-
-      // Export based on format
-      switch (settings.format) {
-        case 'wav':
-          outputBlob = audioBufferToWav(processedBuffer, settings.bitDepth);
-          break;
-        case 'mp3':
-          // For MP3, we'll use WAV as fallback since MP3 encoding requires additional libraries
-          outputBlob = audioBufferToWav(processedBuffer, 16);
-          break;
-        case 'flac':
-          // For FLAC, we'll use WAV as fallback
-          outputBlob = audioBufferToWav(processedBuffer, settings.bitDepth);
-          break;
-        case 'ogg':
-          // For OGG, we'll use WAV as fallback
-          outputBlob = audioBufferToWav(processedBuffer, 16);
-          break;
-        default:
-          outputBlob = audioBufferToWav(processedBuffer, 16);
-      }
-
-      setState(prev => ({
-        ...prev,
-        jobs: prev.jobs.map(j => 
-          j.id === jobId ? { ...j, progress: 90 } : j
-        ),
-      }));
+      const plan = await planExport(settings);
+      const { blob, durationSeconds } = await produce(plan, { setProgress, signal: controller.signal });
+      controller.signal.throwIfAborted();
 
       // Create download URL
-      const outputUrl = URL.createObjectURL(outputBlob);
-      
-      await audioContext.close();
+      const completedJob: ExportJob = {
+        ...job,
+        status: 'completed',
+        progress: 100,
+        outputUrl: URL.createObjectURL(blob),
+        sizeBytes: blob.size,
+        durationSeconds,
+        sampleRate: plan.renderSettings.sampleRate,
+        completedAt: new Date(),
+      };
 
       // Complete the job
       setState(prev => ({
         ...prev,
-        jobs: prev.jobs.map(j => 
-          j.id === jobId ? { 
-            ...j, 
-            status: 'completed' as const, 
-            progress: 100, 
-            outputUrl,
-            completedAt: new Date()
-          } : j
-        ),
-        isExporting: false,
+        jobs: prev.jobs.map(j => j.id === jobId ? completedJob : j),
+        isExporting: prev.jobs.some(j => j.id !== jobId && isActiveJob(j)),
       }));
 
-      return outputUrl;
+      return { job: completedJob, blob };
     } catch (error) {
+      if (isAbortError(error)) {
+        setState(prev => ({
+          ...prev,
+          jobs: prev.jobs.map(j =>
+            j.id === jobId ? { ...j, status: 'cancelled' as const, completedAt: new Date() } : j
+          ),
+          isExporting: prev.jobs.some(j => j.id !== jobId && isActiveJob(j)),
+        }));
+        return null;
+      }
+
       console.error('Export error:', error);
       
       setState(prev => ({
@@ -337,19 +339,156 @@ export const useAudioExporter = () => {
             completedAt: new Date()
           } : j
         ),
-        isExporting: false,
+        isExporting: prev.jobs.some(j => j.id !== jobId && isActiveJob(j)),
         error: error instanceof Error ? error.message : 'Export failed',
       }));
 
       throw error;
+    } finally {
+      controllersRef.current.delete(jobId);
     }
-  }, [defaultSettings, processAudioWithEffects, audioBufferToWav]);
+  }, [planExport]);
+
+  const cancelExport = useCallback((jobId: string) => {
+    controllersRef.current.get(jobId)?.abort(createAbortError());
+  }, []);
+
+  const exportAudio = useCallback((
+    audioBlob: Blob,
+    settings: ExportSettings = DEFAULT_EXPORT_SETTINGS
+  ): Promise<ExportResult | null> => {
+    return runExportJob(settings, 'recording', async (plan, { setProgress, signal }) => {
+      // Decode at the recording's own rate, which the header gives without
+      // decoding, so the worker's resampler does the only rate conversion.
+      // Decoding runs off the main thread inside the browser.
+      const arrayBuffer = await audioBlob.arrayBuffer();
+      const sourceRate = parseAudioHeader(new Uint8Array(arrayBuffer))?.sampleRate || plan.renderSettings.sampleRate;
+      const audioBuffer = await decodeAudio(arrayBuffer, sourceRate);
+      setProgress(10);
+
+      const blob = await encodeInWorker(audioBuffer, plan, plan.renderSettings.metadata, {}, {
+        signal,
+        onProgress: (progress) => setProgress(10 + progress * 90),
+      });
+      return { blob, durationSeconds: audioBuffer.duration };
+    });
+  }, [runExportJob]);
+
+  // Renders every track of the project into one song and exports it
+  const exportMix = useCallback((
+    tracks: Track[],
+    masterEffects: EffectsSettings | null,
+    settings: ExportSettings = DEFAULT_EXPORT_SETTINGS
+  ): Promise<ExportResult | null> => {
+    return runExportJob(settings, 'mix', async (plan, { setProgress, signal }) => {
+      // Render at the tracks' own rate; the worker converts to the export rate
+      const mix = await renderMixdown(tracks, {
+        sampleRate: getSourceSampleRate(tracks) ?? plan.renderSettings.sampleRate,
+        masterEffects,
+        signal,
+        onProgress: (progress) => setProgress(progress * 40),
+      });
+
+      const blob = await encodeInWorker(mix, plan, plan.renderSettings.metadata, {}, {
+        signal,
+        onProgress: (progress) => setProgress(40 + progress * 60),
+      });
+      return { blob, durationSeconds: mix.duration };
+    });
+  }, [runExportJob]);
+
+  /**
+   * Renders each track to its own file (same length and sample rate) and
+   * packages them with a manifest into a ZIP archive.
+   */
+  const exportStems = useCallback((
+    tracks: Track[],
+    project: Project | null,
+    includeEffects: boolean,
+    settings: ExportSettings = DEFAULT_EXPORT_SETTINGS
+  ): Promise<ExportResult | null> => {
+    return runExportJob(settings, 'stems', async (plan, { setProgress, signal }) => {
+      const { renderSettings } = plan;
+      const { sampleRate } = renderSettings;
+      const ordered = [...tracks].sort((a, b) => a.track_order - b.track_order);
+      const renderRate = getSourceSampleRate(ordered) ?? sampleRate;
+
+      const loaded = await loadTrackBuffers(ordered, renderRate, signal);
+      if (loaded.length === 0) {
+        throw new Error('None of the tracks have audio to export');
+      }
+      const renderLength = getRenderLength(loaded, renderRate, includeEffects);
+      const length = getResampledLength(renderLength, renderRate, sampleRate);
+      setProgress(10);
+
+      const files: ZipEntry[] = [];
+      const manifestTracks: StemManifest['tracks'] = [];
+
+      // Stems share the 10-95% range; each is rendered, then processed and encoded
+      for (let index = 0; index < loaded.length; index++) {
+        const { track } = loaded[index];
+        const stemStart = 10 + (index / loaded.length) * 85;
+        const stemSpan = 85 / loaded.length;
+
+        const rendered = await renderStem(loaded[index], {
+          sampleRate: renderRate,
+          length: renderLength,
+          includeEffects,
+          signal,
+          onProgress: (progress) => setProgress(stemStart + progress * stemSpan * 0.4),
+        });
+
+        const stemTags: AudioTags = {
+          ...renderSettings.metadata,
+          title: track.name,
+          album: renderSettings.metadata.album || renderSettings.metadata.title,
+        };
+        // Normalizing stems one by one would change their relative levels
+        const encoded = await encodeInWorker(rendered, plan, stemTags, { normalize: false }, {
+          signal,
+          onProgress: (progress) => setProgress(stemStart + stemSpan * (0.4 + progress * 0.6)),
+        });
+
+        const file = `${String(index + 1).padStart(2, '0')} - ${sanitizeFileName(track.name)}.${settings.format}`;
+        files.push({ name: file, data: new Uint8Array(await encoded.arrayBuffer()) });
+        manifestTracks.push({
+          file,
+          name: track.name,
+          order: track.track_order,
+          volume: track.volume,
+          pan: track.pan,
+          muted: track.is_muted,
+          solo: track.is_solo,
+        });
+      }
+
+      const manifest: StemManifest = {
+        version: 1,
+        project: project?.title ?? null,
+        bpm: project?.metronome_bpm ?? null,
+        format: settings.format,
+        sampleRate,
+        length,
+        durationSeconds: length / sampleRate,
+        effectsApplied: includeEffects,
+        tracks: manifestTracks,
+      };
+      files.push({
+        name: 'manifest.json',
+        data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+      });
+
+      setProgress(95);
+      return { blob: createZip(files), durationSeconds: length / sampleRate };
+    });
+  }, [runExportJob]);
 
   const downloadExport = useCallback((job: ExportJob) => {
     if (job.outputUrl && job.status === 'completed') {
       const a = document.createElement('a');
       a.href = job.outputUrl;
-      a.download = `export-${job.createdAt.getTime()}.${job.settings.format}`;
+      const extension = job.source === 'stems' ? 'zip' : job.settings.format;
+      a.download = `export-${job.createdAt.getTime()}.${extension}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -357,6 +496,7 @@ export const useAudioExporter = () => {
   }, []);
 
   const removeJob = useCallback((jobId: string) => {
+    controllersRef.current.get(jobId)?.abort(createAbortError());
     setState(prev => {
       const job = prev.jobs.find(j => j.id === jobId);
       if (job?.outputUrl) {
@@ -372,13 +512,13 @@ export const useAudioExporter = () => {
   const clearCompletedJobs = useCallback(() => {
     setState(prev => {
       prev.jobs.forEach(job => {
-        if (job.outputUrl && (job.status === 'completed' || job.status === 'failed')) {
+        if (job.outputUrl && !isActiveJob(job)) {
           URL.revokeObjectURL(job.outputUrl);
         }
       });
       return {
         ...prev,
-        jobs: prev.jobs.filter(j => j.status === 'processing' || j.status === 'pending'),
+        jobs: prev.jobs.filter(isActiveJob),
       };
     });
   }, []);
@@ -386,10 +526,13 @@ export const useAudioExporter = () => {
   return {
     ...state,
     exportAudio,
+    exportMix,
+    exportStems,
+    cancelExport,
     downloadExport,
     removeJob,
     clearCompletedJobs,
-    defaultSettings,
+    defaultSettings: DEFAULT_EXPORT_SETTINGS,
     getQualitySettings,
   };
 };
\ No newline at end of file
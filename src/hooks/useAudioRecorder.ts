@@ -1,4 +1,30 @@
 import { useState, useRef, useCallback } from 'react';
+import { Metronome, getBeatTime, waitForContextTime } from '../lib/metronome';
+import type { MetronomeSettings } from '../lib/metronome';
+
+// Gives the first click time to be scheduled after the metronome starts
+const CLICK_START_DELAY_SECONDS = 0.1;
+const WAIT_INTERVAL_MS = 10;
+
+// Resolves once performance.now() reaches `time`, or with false if
+// `isCancelled` turns true first
+const waitUntil = (time: number, isCancelled: () => boolean) => {
+  return new Promise<boolean>(resolve => {
+    const check = () => {
+      if (isCancelled()) {
+        resolve(false);
+        return;
+      }
+      const remaining = time - performance.now();
+      if (remaining <= 0) {
+        resolve(true);
+        return;
+      }
+      setTimeout(check, Math.min(remaining, WAIT_INTERVAL_MS));
+    };
+    check();
+  });
+};
 
 export interface AudioRecorderState {
   isRecording: boolean;
@@ -8,10 +34,34 @@ export interface AudioRecorderState {
   error: string | null;
   permissionStatus: 'unknown' | 'granted' | 'denied' | 'prompt';
   isCheckingPermissions: boolean;
+  isCountingIn: boolean;
+  // Beats of count-in still to play
+  countInBeatsLeft: number;
+  // Waiting for the punch-in while the project plays
+  isWaitingForPunch: boolean;
+}
+
+export interface RecordingClick {
+  settings: MetronomeSettings;
+  countInBars: number;
+  // Keep clicking after the count-in, for the whole take
+  continuous: boolean;
+}
+
+// Captures only between two performance.now() times, e.g. while the
+// transport passes the punch-in and punch-out markers
+export interface RecordingPunch {
+  startAt: number;
+  // Infinity to keep recording until stopped, as when overdubbing
+  endAt: number;
+  // Receives the take, and when capturing actually began, once the
+  // punch-out is reached or recording is stopped early
+  onComplete: (blob: Blob, startedAt: number) => void;
 }
 
 export interface AudioRecorderControls {
-  startRecording: () => Promise<void>;
+  // Resolves with whether recording started
+  startRecording: (click?: RecordingClick, punch?: RecordingPunch) => Promise<boolean>;
   stopRecording: () => Promise<Blob | null>;
   pauseRecording: () => void;
   resumeRecording: () => void;
@@ -29,6 +79,9 @@ export const useAudioRecorder = () => {
     error: null,
     permissionStatus: 'unknown',
     isCheckingPermissions: false,
+    isCountingIn: false,
+    countInBeatsLeft: 0,
+    isWaitingForPunch: false,
   });
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -38,6 +91,12 @@ export const useAudioRecorder = () => {
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const animationRef = useRef<number | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  // Set while counting in or waiting for the punch-in; stopping then
+  // cancels the take
+  const countInRef = useRef<{ cancelled: boolean } | null>(null);
+  const punchRef = useRef<{ punch: RecordingPunch; startedAt: number; timer: NodeJS.Timeout | null } | null>(null);
+  const stopRecordingRef = useRef<() => Promise<Blob | null>>(async () => null);
 
   const updateAudioLevel = useCallback(() => {
     if (!analyserRef.current) return;
@@ -234,7 +293,7 @@ export const useAudioRecorder = () => {
     }
   }, []);
 
-  const startRecording = useCallback(async () => {
+  const startRecording = useCallback(async (click?: RecordingClick, punch?: RecordingPunch) => {
     try {
       setState(prev => ({ ...prev, error: null }));
 
@@ -242,7 +301,7 @@ export const useAudioRecorder = () => {
       if (state.permissionStatus !== 'granted') {
         const hasPermission = await requestPermissions();
         if (!hasPermission) {
-          return;
+          return false;
         }
       }
 
@@ -268,6 +327,53 @@ export const useAudioRecorder = () => {
       analyserRef.current.fftSize = 256;
       source.connect(analyserRef.current);
 
+      // The click plays from the monitoring context straight to the speakers;
+      // the recorder below only ever sees the microphone stream
+      if (click) {
+        const context = audioContextRef.current;
+        if (context.state === 'suspended') {
+          await context.resume();
+        }
+
+        const { settings, countInBars, continuous } = click;
+        const countInBeats = countInBars * settings.beatsPerBar;
+        const origin = context.currentTime + CLICK_START_DELAY_SECONDS;
+        const metronome = new Metronome(context, context.destination);
+        metronomeRef.current = metronome;
+        metronome.start(settings, origin, {
+          toBeat: continuous ? Infinity : countInBeats,
+          onBeat: (beat, time) => {
+            if (beat >= countInBeats) return;
+            setTimeout(() => {
+              setState(prev => prev.isCountingIn ? { ...prev, countInBeatsLeft: countInBeats - beat } : prev);
+            }, Math.max(0, (time - context.currentTime) * 1000));
+          },
+        });
+
+        if (countInBeats > 0) {
+          const countIn = { cancelled: false };
+          countInRef.current = countIn;
+          setState(prev => ({ ...prev, isCountingIn: true, countInBeatsLeft: countInBeats }));
+
+          const recordAt = getBeatTime(origin, countInBeats, settings.bpm, context.sampleRate);
+          const completed = await waitForContextTime(context, recordAt, () => countIn.cancelled);
+          countInRef.current = null;
+          setState(prev => ({ ...prev, isCountingIn: false, countInBeatsLeft: 0 }));
+          if (!completed) return false;
+        }
+      }
+
+      if (punch) {
+        const wait = { cancelled: false };
+        countInRef.current = wait;
+        setState(prev => ({ ...prev, isWaitingForPunch: true }));
+
+        const reached = await waitUntil(punch.startAt, () => wait.cancelled);
+        countInRef.current = null;
+        setState(prev => ({ ...prev, isWaitingForPunch: false }));
+        if (!reached) return false;
+      }
+
       // Set up MediaRecorder with fallback mime types
       let mimeType = '';
       const supportedTypes = [
@@ -305,6 +411,20 @@ export const useAudioRecorder = () => {
         }));
       };
 
+      if (punch) {
+        const punchState = { punch, startedAt: performance.now(), timer: null as NodeJS.Timeout | null };
+        punchRef.current = punchState;
+        mediaRecorder.onstart = () => {
+          punchState.startedAt = performance.now();
+        };
+        if (isFinite(punch.endAt)) {
+          punchState.timer = setTimeout(() => {
+            punchState.timer = null;
+            stopRecordingRef.current();
+          }, Math.max(0, punch.endAt - performance.now()));
+        }
+      }
+
       mediaRecorder.start(100); // Collect data every 100ms
       startTimer();
       updateAudioLevel();
@@ -317,6 +437,7 @@ export const useAudioRecorder = () => {
       }));
 
       console.log('Recording started successfully');
+      return true;
     } catch (error: any) {
       console.error('Error starting recording:', error);
       
@@ -340,42 +461,73 @@ export const useAudioRecorder = () => {
       }
       
       setState(prev => ({ ...prev, error: errorMessage }));
+      return false;
     }
   }, [state.permissionStatus, startTimer, updateAudioLevel, requestPermissions]);
 
+  // Stops the click, level meter and microphone
+  const releaseInput = useCallback(() => {
+    metronomeRef.current?.stop();
+    metronomeRef.current = null;
+
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => {
+        console.log('Stopping track:', track.label);
+        track.stop();
+      });
+      streamRef.current = null;
+    }
+
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
+  }, []);
+
   const stopRecording = useCallback(async (): Promise<Blob | null> => {
     return new Promise((resolve) => {
+      // Stopping during the count-in cancels the take
+      if (countInRef.current) {
+        countInRef.current.cancelled = true;
+        countInRef.current = null;
+        releaseInput();
+        setState(prev => ({
+          ...prev,
+          isCountingIn: false,
+          countInBeatsLeft: 0,
+          isWaitingForPunch: false,
+          audioLevel: 0,
+        }));
+        resolve(null);
+        return;
+      }
+
       if (!mediaRecorderRef.current) {
         resolve(null);
         return;
       }
 
+      const punchState = punchRef.current;
+      punchRef.current = null;
+      if (punchState?.timer) {
+        clearTimeout(punchState.timer);
+      }
+
       mediaRecorderRef.current.onstop = () => {
         const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
         console.log('Recording stopped, blob size:', blob.size);
         resolve(blob);
+        punchState?.punch.onComplete(blob, punchState.startedAt);
       };
 
       mediaRecorderRef.current.stop();
       stopTimer();
-
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-        animationRef.current = null;
-      }
-
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => {
-          console.log('Stopping track:', track.label);
-          track.stop();
-        });
-        streamRef.current = null;
-      }
-
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
+      releaseInput();
 
       setState(prev => ({
         ...prev,
@@ -384,7 +536,8 @@ export const useAudioRecorder = () => {
         audioLevel: 0,
       }));
     });
-  }, [stopTimer]);
+  }, [stopTimer, releaseInput]);
+  stopRecordingRef.current = stopRecording;
 
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && state.isRecording) {
@@ -410,7 +563,7 @@ export const useAudioRecorder = () => {
   }, [state.isPaused, startTimer, updateAudioLevel]);
 
   const resetRecording = useCallback(() => {
-    if (state.isRecording) {
+    if (state.isRecording || state.isCountingIn || state.isWaitingForPunch) {
       stopRecording();
     }
     
@@ -424,7 +577,7 @@ export const useAudioRecorder = () => {
     }));
     
     chunksRef.current = [];
-  }, [state.isRecording, stopRecording]);
+  }, [state.isRecording, state.isCountingIn, state.isWaitingForPunch, stopRecording]);
 
   return {
     ...state,
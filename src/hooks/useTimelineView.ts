@@ -0,0 +1,82 @@
+import { useState, useCallback, useMemo } from 'react';
+
+// Closest zoom shows this many samples across the whole viewport
+const MIN_VISIBLE_SAMPLES = 100;
+const ZOOM_STEP = 2;
+// When following the playhead, how much of the new page is left behind it
+const REVEAL_MARGIN = 0.05;
+
+export interface TimelineView {
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Visible time range of a zoomable timeline, from the whole duration down to
+ * a handful of samples.
+ */
+export const useTimelineView = (duration: number, sampleRate: number = 44100) => {
+  // null while zoomed out to fit, so the view follows the duration as it changes
+  const [span, setSpan] = useState<number | null>(null);
+  const [start, setStart] = useState(0);
+
+  const minSpan = MIN_VISIBLE_SAMPLES / sampleRate;
+  const total = Math.max(duration, minSpan);
+  const visibleSpan = span === null ? total : Math.min(Math.max(span, minSpan), total);
+  const startTime = Math.max(0, Math.min(start, total - visibleSpan));
+
+  const view = useMemo<TimelineView>(() => ({
+    startTime,
+    endTime: startTime + visibleSpan,
+  }), [startTime, visibleSpan]);
+
+  const scrollTo = useCallback((time: number) => {
+    setStart(Math.max(0, Math.min(time, total - visibleSpan)));
+  }, [total, visibleSpan]);
+
+  const scrollBy = useCallback((delta: number) => {
+    scrollTo(startTime + delta);
+  }, [scrollTo, startTime]);
+
+  // Zooms by factor (> 1 zooms in) keeping anchorTime at the same spot on screen
+  const zoomAt = useCallback((anchorTime: number, factor: number) => {
+    const newSpan = Math.min(Math.max(visibleSpan / factor, minSpan), total);
+    const ratio = (anchorTime - startTime) / visibleSpan;
+    setSpan(newSpan >= total ? null : newSpan);
+    setStart(Math.max(0, Math.min(anchorTime - ratio * newSpan, total - newSpan)));
+  }, [visibleSpan, minSpan, total, startTime]);
+
+  const zoomIn = useCallback((anchorTime: number = startTime + visibleSpan / 2) => {
+    zoomAt(anchorTime, ZOOM_STEP);
+  }, [zoomAt, startTime, visibleSpan]);
+
+  const zoomOut = useCallback((anchorTime: number = startTime + visibleSpan / 2) => {
+    zoomAt(anchorTime, 1 / ZOOM_STEP);
+  }, [zoomAt, startTime, visibleSpan]);
+
+  const zoomToFit = useCallback(() => {
+    setSpan(null);
+    setStart(0);
+  }, []);
+
+  // Pages the view so that time is visible
+  const reveal = useCallback((time: number) => {
+    if (time >= startTime && time <= startTime + visibleSpan) return;
+    scrollTo(time - visibleSpan * REVEAL_MARGIN);
+  }, [scrollTo, startTime, visibleSpan]);
+
+  return {
+    view,
+    // 1 when the whole duration is visible
+    zoom: total / visibleSpan,
+    canZoomIn: visibleSpan > minSpan,
+    canZoomOut: visibleSpan < total,
+    scrollTo,
+    scrollBy,
+    zoomAt,
+    zoomIn,
+    zoomOut,
+    zoomToFit,
+    reveal,
+  };
+};
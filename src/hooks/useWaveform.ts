@@ -1,12 +1,210 @@
 import { useRef, useCallback, useEffect } from 'react';
+import { getPeakColumns, getSampleColumns } from '../lib/peaks';
+import type { PeakPyramid } from '../lib/peaks';
+import { getClipEnd } from '../lib/clips';
+import type { Clip } from '../lib/clips';
+import { getBeatSeconds, toMusicalPosition } from '../lib/musicalTime';
+import type { MusicalGrid } from '../lib/musicalTime';
 
-export interface WaveformData {
-  peaks: number[];
-  duration: number;
+// Width of one peak bar in canvas pixels, including the 1px gap
+const PEAK_BAR_WIDTH = 3;
+
+const PLAYED_COLOR = '#00d4ff';
+const UNPLAYED_COLOR = '#475569';
+const PLAYHEAD_COLOR = '#ff47d9';
+const RULER_TICK_COLOR = '#64748b';
+const RULER_LABEL_COLOR = '#94a3b8';
+const MINIMAP_SHADE_COLOR = 'rgba(15, 23, 42, 0.6)';
+const MINIMAP_VIEW_COLOR = '#b347d9';
+const ZERO_LINE_COLOR = '#334155';
+const CLIP_BACKGROUND_COLOR = 'rgba(179, 71, 217, 0.12)';
+const CLIP_BORDER_COLOR = '#6b7280';
+const CLIP_ACTIVE_BORDER_COLOR = '#b347d9';
+const CLIP_FADE_COLOR = 'rgba(15, 23, 42, 0.5)';
+const SELECTION_COLOR = 'rgba(0, 212, 255, 0.18)';
+const SELECTION_EDGE_COLOR = '#00d4ff';
+
+// Candidate spacings between ruler labels, in seconds
+const RULER_STEPS = [
+  0.0001, 0.0002, 0.0005, 0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5,
+  1, 2, 5, 10, 15, 30, 60, 120, 300, 600,
+];
+// Closest two ruler labels may be, in canvas pixels
+const MIN_LABEL_SPACING = 80;
+// Below this many canvas pixels per sample, samples are drawn as a line
+const MIN_DOT_SPACING = 6;
+
+// Largest ruler step that divides the label step into at least four ticks
+const getMinorStep = (step: number) => {
+  for (let i = RULER_STEPS.length - 1; i >= 0; i--) {
+    const candidate = RULER_STEPS[i];
+    const ticks = step / candidate;
+    if (ticks >= 4 && Math.abs(ticks - Math.round(ticks)) < 1e-6) return candidate;
+  }
+  return step;
+};
+
+// Candidate spacings between musical ruler labels, in beats, from a tick of
+// 1/8 beat up to whole bars; bar multiples are added per time signature
+const BEAT_STEPS = [1 / 8, 1 / 4, 1 / 2, 1];
+const BAR_STEPS = [1, 2, 4, 8, 16, 32, 64];
+
+const getMusicalSteps = ({ timeSignature }: MusicalGrid) => [
+  ...BEAT_STEPS,
+  ...BAR_STEPS.map(bars => bars * timeSignature.beatsPerBar),
+];
+
+// Largest musical step that divides the label step into at least two ticks
+const getMusicalMinorStep = (steps: number[], step: number) => {
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const ticks = step / steps[i];
+    if (ticks >= 2 && Math.abs(ticks - Math.round(ticks)) < 1e-6) return steps[i];
+  }
+  return step;
+};
+
+// Bar, bar.beat or bar.beat.tick, depending on how fine the label step is
+const formatRulerPosition = (seconds: number, grid: MusicalGrid, stepBeats: number) => {
+  const { bar, beat, tick } = toMusicalPosition(seconds, grid);
+  if (stepBeats >= grid.timeSignature.beatsPerBar) return `${bar}`;
+  if (stepBeats >= 1) return `${bar}.${beat}`;
+  return `${bar}.${beat}.${tick.toString().padStart(3, '0')}`;
+};
+
+// m:ss, with as many decimals as the label step needs
+const formatRulerTime = (seconds: number, step: number) => {
+  const decimals = step >= 1 ? 0 : Math.min(4, Math.ceil(-Math.log10(step) - 1e-9));
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds - mins * 60).toFixed(decimals);
+  return `${mins}:${secs.padStart(decimals > 0 ? decimals + 3 : 2, '0')}`;
+};
+
+// Zoomed in far enough that individual samples are wider than a peak bar:
+// connect them with a line, and mark each one once there's room
+const drawSampleLine = (
+  ctx: CanvasRenderingContext2D,
+  buffer: AudioBuffer,
+  currentTime: number,
+  startTime: number,
+  endTime: number,
+  width: number,
+  height: number
+) => {
+  const centerY = height / 2;
+  const span = endTime - startTime;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  const first = Math.max(0, Math.floor(startTime * buffer.sampleRate));
+  const last = Math.min(buffer.length - 1, Math.ceil(endTime * buffer.sampleRate));
+  const spacing = width / (span * buffer.sampleRate);
+
+  const points: [number, number][] = [];
+  for (let i = first; i <= last; i++) {
+    const value = channels.reduce((sum, samples) => sum + samples[i], 0) / channels.length;
+    points.push([((i / buffer.sampleRate - startTime) / span) * width, centerY - value * centerY * 0.9]);
+  }
+
+  const playheadX = ((currentTime - startTime) / span) * width;
+  const passes: [string, number, number][] = [
+    [UNPLAYED_COLOR, playheadX, width],
+    [PLAYED_COLOR, 0, playheadX],
+  ];
+
+  ctx.strokeStyle = ZERO_LINE_COLOR;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(0, centerY);
+  ctx.lineTo(width, centerY);
+  ctx.stroke();
+
+  passes.forEach(([color, from, to]) => {
+    if (to <= from) return;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(from, 0, to - from, height);
+    ctx.clip();
+
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    points.forEach(([x, y], index) => {
+      if (index === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+
+    if (spacing >= MIN_DOT_SPACING) {
+      points.forEach(([x, y]) => {
+        ctx.beginPath();
+        ctx.arc(x, y, 2, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+    ctx.restore();
+  });
+};
+
+// Min/max bars (or, zoomed in far enough, the samples themselves) for
+// [startTime, endTime) across the whole canvas, without clearing it
+const renderPeaks = (
+  ctx: CanvasRenderingContext2D,
+  pyramid: PeakPyramid,
+  buffer: AudioBuffer | null | undefined,
+  currentTime: number,
+  startTime: number,
+  endTime: number
+) => {
+  const { width, height } = ctx.canvas;
+  const centerY = height / 2;
+  const bars = Math.max(1, Math.floor(width / PEAK_BAR_WIDTH));
+  const barWidth = width / bars;
+  const span = endTime - startTime;
+  const finestPeakSeconds = pyramid.levels[0].samplesPerPeak / pyramid.sampleRate;
+  const sampleBuffer = buffer && span / bars < finestPeakSeconds ? buffer : null;
+
+  if (sampleBuffer && span * sampleBuffer.sampleRate < bars) {
+    drawSampleLine(ctx, sampleBuffer, currentTime, startTime, endTime, width, height);
+    return;
+  }
+
+  const { min, max } = sampleBuffer
+    ? getSampleColumns(sampleBuffer, startTime, endTime, bars)
+    : getPeakColumns(pyramid, startTime, endTime, bars);
+
+  for (let bar = 0; bar < bars; bar++) {
+    const barTime = startTime + (bar / bars) * span;
+    ctx.fillStyle = barTime < currentTime ? PLAYED_COLOR : UNPLAYED_COLOR;
+
+    const top = centerY - max[bar] * centerY * 0.9;
+    const bottom = centerY - min[bar] * centerY * 0.9;
+    ctx.fillRect(bar * barWidth, top, Math.max(barWidth - 1, 1), Math.max(bottom - top, 2));
+  }
+};
+
+const renderPlayhead = (ctx: CanvasRenderingContext2D, currentTime: number, startTime: number, endTime: number) => {
+  const { width, height } = ctx.canvas;
+  const span = endTime - startTime;
+  if (span <= 0 || currentTime < startTime || currentTime > endTime) return;
+
+  const indicatorX = ((currentTime - startTime) / span) * width;
+  ctx.strokeStyle = PLAYHEAD_COLOR;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(indicatorX, 0);
+  ctx.lineTo(indicatorX, height);
+  ctx.stroke();
+};
+
+export interface ClipDrawing {
+  clip: Clip;
+  // Peaks of the clip's whole source recording, if cached
+  pyramid?: PeakPyramid | null;
+  buffer?: AudioBuffer | null;
+  // Being dragged or trimmed
+  isActive?: boolean;
 }
 
 export const useWaveform = (canvasRef: React.RefObject<HTMLCanvasElement> | null) => {
-  const audioContextRef = useRef<AudioContext | null>(null);
   const animationRef = useRef<number | null>(null);
 
   const drawWaveform = useCallback((
@@ -70,46 +268,264 @@ export const useWaveform = (canvasRef: React.RefObject<HTMLCanvasElement> | null
     }
   }, [canvasRef]);
 
-  const generateWaveformFromAudio = useCallback(async (audioBuffer: ArrayBuffer): Promise<WaveformData> => {
-    try {
-      if (!audioContextRef.current) {
-        audioContextRef.current = new AudioContext();
+  // Renders the cached peaks for [startTime, endTime) at whatever zoom the
+  // range implies; defaults to the whole recording. Zoomed in past the finest
+  // cached level, the decoded buffer is drawn instead when one is given.
+  const drawPeaks = useCallback((
+    pyramid: PeakPyramid,
+    currentTime: number = 0,
+    canvas?: HTMLCanvasElement,
+    startTime: number = 0,
+    endTime: number = pyramid.duration,
+    buffer?: AudioBuffer | null
+  ) => {
+    const targetCanvas = canvas || canvasRef?.current;
+    if (!targetCanvas) return;
+
+    const ctx = targetCanvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, targetCanvas.width, targetCanvas.height);
+    renderPeaks(ctx, pyramid, buffer, currentTime, startTime, endTime);
+    renderPlayhead(ctx, currentTime, startTime, endTime);
+  }, [canvasRef]);
+
+  // Renders a lane of clips for [startTime, endTime): each clip's slice of
+  // its source audio at its place on the timeline, with trim edges and fades
+  const drawClips = useCallback((
+    canvas: HTMLCanvasElement,
+    clips: ClipDrawing[],
+    currentTime: number,
+    startTime: number,
+    endTime: number
+  ) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    const span = endTime - startTime;
+    const toX = (time: number) => ((time - startTime) / span) * width;
+    ctx.clearRect(0, 0, width, height);
+    if (span <= 0) return;
+
+    clips.forEach(({ clip, pyramid, buffer, isActive }) => {
+      const clipEnd = getClipEnd(clip);
+      if (clipEnd < startTime || clip.start > endTime) return;
+
+      const left = toX(clip.start);
+      const right = toX(clipEnd);
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(left, 0, right - left, height);
+      ctx.clip();
+
+      ctx.fillStyle = CLIP_BACKGROUND_COLOR;
+      ctx.fillRect(left, 0, right - left, height);
+
+      // The source plays shifted by this much relative to the timeline
+      if (pyramid) {
+        const shift = clip.source_in - clip.start;
+        renderPeaks(ctx, pyramid, buffer, currentTime + shift, startTime + shift, endTime + shift);
       }
 
-      const audioData = await audioContextRef.current.decodeAudioData(audioBuffer);
-      const channelData = audioData.getChannelData(0);
-      const samples = 200; // Number of bars in waveform
-      const blockSize = Math.floor(channelData.length / samples);
-      const peaks: number[] = [];
-
-      for (let i = 0; i < samples; i++) {
-        const start = i * blockSize;
-        const end = start + blockSize;
-        let max = 0;
-
-        for (let j = start; j < end; j++) {
-          const sample = Math.abs(channelData[j]);
-          if (sample > max) {
-            max = sample;
-          }
-        }
-
-        peaks.push(max);
+      // Fades as shaded corners
+      ctx.fillStyle = CLIP_FADE_COLOR;
+      if (clip.fade_in > 0) {
+        ctx.beginPath();
+        ctx.moveTo(left, 0);
+        ctx.lineTo(toX(clip.start + clip.fade_in), 0);
+        ctx.lineTo(left, height);
+        ctx.closePath();
+        ctx.fill();
+      }
+      if (clip.fade_out > 0) {
+        ctx.beginPath();
+        ctx.moveTo(right, 0);
+        ctx.lineTo(toX(clipEnd - clip.fade_out), 0);
+        ctx.lineTo(right, height);
+        ctx.closePath();
+        ctx.fill();
       }
+      ctx.restore();
+
+      ctx.strokeStyle = isActive ? CLIP_ACTIVE_BORDER_COLOR : CLIP_BORDER_COLOR;
+      ctx.lineWidth = isActive ? 2 : 1;
+      ctx.strokeRect(left + 0.5, 0.5, Math.max(right - left - 1, 1), height - 1);
+
+      // Fade handles in the top corners
+      ctx.fillStyle = isActive ? CLIP_ACTIVE_BORDER_COLOR : CLIP_BORDER_COLOR;
+      ctx.fillRect(toX(clip.start + clip.fade_in) - 3, 0, 6, 6);
+      ctx.fillRect(toX(clipEnd - clip.fade_out) - 3, 0, 6, 6);
+    });
+
+    renderPlayhead(ctx, currentTime, startTime, endTime);
+  }, []);
+
+  // Shades a selected time range over whatever the canvas already shows
+  const drawSelection = useCallback((
+    canvas: HTMLCanvasElement,
+    selectionStart: number,
+    selectionEnd: number,
+    startTime: number,
+    endTime: number
+  ) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
 
-      return {
-        peaks,
-        duration: audioData.duration,
-      };
-    } catch (error) {
-      console.error('Error generating waveform:', error);
-      return {
-        peaks: Array(200).fill(0),
-        duration: 0,
-      };
+    const { width, height } = canvas;
+    const span = endTime - startTime;
+    if (span <= 0 || selectionEnd < startTime || selectionStart > endTime) return;
+
+    const left = ((selectionStart - startTime) / span) * width;
+    const right = ((selectionEnd - startTime) / span) * width;
+    ctx.fillStyle = SELECTION_COLOR;
+    ctx.fillRect(left, 0, right - left, height);
+
+    ctx.strokeStyle = SELECTION_EDGE_COLOR;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(Math.round(left) + 0.5, 0);
+    ctx.lineTo(Math.round(left) + 0.5, height);
+    ctx.moveTo(Math.round(right) + 0.5, 0);
+    ctx.lineTo(Math.round(right) + 0.5, height);
+    ctx.stroke();
+  }, []);
+
+  // Time ruler for [startTime, endTime), with labels as far apart as the
+  // zoom allows and unlabeled ticks in between
+  const drawRuler = useCallback((
+    canvas: HTMLCanvasElement,
+    startTime: number,
+    endTime: number,
+    currentTime: number = 0,
+    // Label bars and beats instead of clock time
+    grid: MusicalGrid | null = null
+  ) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    const span = endTime - startTime;
+    ctx.clearRect(0, 0, width, height);
+    if (span <= 0) return;
+
+    let step: number;
+    let minorStep: number;
+    let formatLabel: (time: number) => string;
+    // Zoomed in past the finest beat division, clock time is more useful
+    if (grid && BEAT_STEPS[0] * getBeatSeconds(grid) <= span) {
+      const beatSeconds = getBeatSeconds(grid);
+      const steps = getMusicalSteps(grid);
+      const stepBeats = steps.find(candidate => (candidate * beatSeconds / span) * width >= MIN_LABEL_SPACING)
+        ?? steps[steps.length - 1];
+      step = stepBeats * beatSeconds;
+      minorStep = getMusicalMinorStep(steps, stepBeats) * beatSeconds;
+      formatLabel = (time) => formatRulerPosition(time, grid, stepBeats);
+    } else {
+      step = RULER_STEPS.find(candidate => (candidate / span) * width >= MIN_LABEL_SPACING)
+        ?? RULER_STEPS[RULER_STEPS.length - 1];
+      minorStep = getMinorStep(step);
+      formatLabel = (time) => formatRulerTime(time, step);
+    }
+    const toX = (time: number) => ((time - startTime) / span) * width;
+
+    ctx.strokeStyle = RULER_TICK_COLOR;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let tick = Math.ceil(startTime / minorStep); tick * minorStep <= endTime; tick++) {
+      const x = Math.round(toX(tick * minorStep)) + 0.5;
+      ctx.moveTo(x, height);
+      ctx.lineTo(x, height * 0.7);
+    }
+    ctx.stroke();
+
+    ctx.fillStyle = RULER_LABEL_COLOR;
+    ctx.font = '10px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.beginPath();
+    for (let tick = Math.ceil(startTime / step); tick * step <= endTime; tick++) {
+      const time = tick * step;
+      const x = Math.round(toX(time)) + 0.5;
+      ctx.moveTo(x, height);
+      ctx.lineTo(x, height * 0.3);
+      ctx.fillText(formatLabel(time), x + 3, 1);
+    }
+    ctx.stroke();
+
+    if (currentTime >= startTime && currentTime <= endTime) {
+      const x = toX(currentTime);
+      ctx.fillStyle = PLAYHEAD_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(x - 5, 0);
+      ctx.lineTo(x + 5, 0);
+      ctx.lineTo(x, 7);
+      ctx.closePath();
+      ctx.fill();
     }
   }, []);
 
+  // Whole-duration overview of every clip on the timeline, with the visible
+  // range highlighted
+  const drawMinimap = useCallback((
+    canvas: HTMLCanvasElement,
+    clips: ClipDrawing[],
+    duration: number,
+    viewStart: number,
+    viewEnd: number,
+    currentTime: number = 0
+  ) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = canvas;
+    const centerY = height / 2;
+    ctx.clearRect(0, 0, width, height);
+    if (duration <= 0) return;
+
+    const bars = Math.max(1, Math.floor(width / 2));
+    const barWidth = width / bars;
+    const min = new Float32Array(bars);
+    const max = new Float32Array(bars);
+    clips.forEach(({ clip, pyramid }) => {
+      if (!pyramid) return;
+      const shift = clip.source_in - clip.start;
+      const clipEnd = getClipEnd(clip);
+      const columns = getPeakColumns(pyramid, shift, duration + shift, bars);
+      for (let bar = 0; bar < bars; bar++) {
+        const barTime = (bar / bars) * duration;
+        if (barTime < clip.start || barTime >= clipEnd) continue;
+        min[bar] = Math.min(min[bar], columns.min[bar]);
+        max[bar] = Math.max(max[bar], columns.max[bar]);
+      }
+    });
+
+    ctx.fillStyle = UNPLAYED_COLOR;
+    for (let bar = 0; bar < bars; bar++) {
+      const top = centerY - max[bar] * centerY * 0.9;
+      const bottom = centerY - min[bar] * centerY * 0.9;
+      ctx.fillRect(bar * barWidth, top, Math.max(barWidth - 1, 1), Math.max(bottom - top, 1));
+    }
+
+    // Dim everything outside the viewport
+    const viewX = (viewStart / duration) * width;
+    const viewWidth = Math.max(2, ((viewEnd - viewStart) / duration) * width);
+    ctx.fillStyle = MINIMAP_SHADE_COLOR;
+    ctx.fillRect(0, 0, viewX, height);
+    ctx.fillRect(viewX + viewWidth, 0, width - viewX - viewWidth, height);
+    ctx.strokeStyle = MINIMAP_VIEW_COLOR;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(viewX + 1, 1, viewWidth - 2, height - 2);
+
+    const playheadX = (currentTime / duration) * width;
+    ctx.strokeStyle = PLAYHEAD_COLOR;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(playheadX, 0);
+    ctx.lineTo(playheadX, height);
+    ctx.stroke();
+  }, []);
+
   const generateLiveWaveform = useCallback((audioLevel: number, isRecording: boolean) => {
     if (!isRecording) return;
 
@@ -128,15 +544,16 @@ export const useWaveform = (canvasRef: React.RefObject<HTMLCanvasElement> | null
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
     };
   }, []);
 
   return {
     drawWaveform,
-    generateWaveformFromAudio,
+    drawPeaks,
+    drawClips,
+    drawSelection,
+    drawRuler,
+    drawMinimap,
     generateLiveWaveform,
   };
 };
\ No newline at end of file
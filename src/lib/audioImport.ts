@@ -0,0 +1,102 @@
+import { probeAudio } from './probe';
+import type { AudioProbe } from './probe';
+
+// Formats accepted for import, keyed by extension. The MIME type is what the
+// file is uploaded as, since browsers report some of these inconsistently
+// (e.g. "video/webm", "audio/x-m4a" or an empty type).
+const IMPORT_FORMATS: Record<string, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+};
+
+// Matches the audio-files bucket's file_size_limit
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+const MAX_DURATION_SECONDS = 30 * 60;
+const MIN_DURATION_SECONDS = 0.1;
+const MAX_CHANNELS = 2;
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 192000;
+
+// For <input accept> and drop filtering
+export const IMPORT_ACCEPT = Object.keys(IMPORT_FORMATS).map(extension => `.${extension}`).join(',');
+
+export interface ImportedAudio {
+  // The file with a MIME type the storage bucket accepts
+  blob: Blob;
+  // Filename without its extension, used as the track name
+  name: string;
+  duration: number;
+  channels: number;
+  sampleRate: number;
+}
+
+const getExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+};
+
+export const isImportableFile = (file: File) => getExtension(file.name) in IMPORT_FORMATS;
+
+export const getTrackNameFromFile = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  const name = (dot > 0 ? fileName.slice(0, dot) : fileName).trim();
+  return name || 'Imported track';
+};
+
+/**
+ * Probes an audio file and checks it can be used as a track. Throws with a
+ * message meant for the user when the file is unsupported, unreadable or out
+ * of range.
+ */
+export const readImportFile = async (file: File): Promise<ImportedAudio> => {
+  const mimeType = IMPORT_FORMATS[getExtension(file.name)];
+  if (!mimeType) {
+    throw new Error('Unsupported file type. Use WAV, MP3, FLAC, OGG, M4A or WebM.');
+  }
+  if (file.size === 0) {
+    throw new Error('File is empty.');
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`File is larger than ${MAX_FILE_BYTES / (1024 * 1024)} MB.`);
+  }
+
+  const blob = file.type === mimeType ? file : new Blob([file], { type: mimeType });
+
+  let probe: AudioProbe;
+  try {
+    // Probes `blob`, the one the track is created from, so createTrack reuses
+    // the result
+    probe = await probeAudio(blob);
+  } catch {
+    throw new Error('Could not decode audio. The file may be corrupt or use an unsupported codec.');
+  }
+
+  const { duration, channels, sampleRate } = probe;
+
+  if (duration < MIN_DURATION_SECONDS) {
+    throw new Error('Audio is too short.');
+  }
+  if (duration > MAX_DURATION_SECONDS) {
+    throw new Error(`Audio is longer than ${MAX_DURATION_SECONDS / 60} minutes.`);
+  }
+  if (channels > MAX_CHANNELS) {
+    throw new Error(`Only mono and stereo files are supported (file has ${channels} channels).`);
+  }
+  if (sampleRate < MIN_SAMPLE_RATE || sampleRate > MAX_SAMPLE_RATE) {
+    throw new Error(`Unsupported sample rate: ${sampleRate} Hz.`);
+  }
+
+  return {
+    blob,
+    name: getTrackNameFromFile(file.name),
+    duration,
+    channels,
+    sampleRate,
+  };
+};
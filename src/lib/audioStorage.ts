@@ -0,0 +1,128 @@
+import { supabase } from './supabase';
+
+export const AUDIO_BUCKET = 'audio-files';
+// Rendered exports; same folder layout as AUDIO_BUCKET
+export const EXPORTS_BUCKET = 'exports';
+
+// Signed URLs are refreshed on every loadTracks, so one hour is plenty
+const SIGNED_URL_EXPIRY_SECONDS = 3600;
+
+const EXTENSIONS_BY_MIME: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+};
+
+class AudioStorage {
+  // MediaRecorder types carry codec parameters, e.g. "audio/webm;codecs=opus",
+  // which the bucket's allowed_mime_types check does not accept
+  getMimeType(blob: Blob): string {
+    return blob.type.split(';')[0].trim().toLowerCase() || 'audio/webm';
+  }
+
+  getExtension(blob: Blob): string {
+    return EXTENSIONS_BY_MIME[this.getMimeType(blob)] || 'webm';
+  }
+
+  // Paths are laid out as <user-id>/<project-id>/<file>; the bucket's RLS
+  // policies rely on the first two folders to match the tracks table policies.
+  getTrackAudioPath(userId: string, projectId: string, trackId: string, blob: Blob): string {
+    return `${userId}/${projectId}/${trackId}.${this.getExtension(blob)}`;
+  }
+
+  // Takes recorded over part of a track get their own file, so the track's
+  // recording and earlier takes stay untouched
+  getTakeAudioPath(userId: string, projectId: string, trackId: string, blob: Blob): string {
+    return `${userId}/${projectId}/${trackId}-take-${Date.now()}.${this.getExtension(blob)}`;
+  }
+
+  getExportPath(userId: string, projectId: string, exportId: string, extension: string): string {
+    return `${userId}/${projectId}/${exportId}.${extension}`;
+  }
+
+  async uploadAudio(path: string, blob: Blob, bucket: string = AUDIO_BUCKET): Promise<string> {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(path, blob, {
+        cacheControl: '3600',
+        contentType: this.getMimeType(blob),
+        upsert: false,
+      });
+
+    if (error) {
+      throw new Error(`Audio upload failed: ${error.message}`);
+    }
+
+    return path;
+  }
+
+  async getSignedUrls(paths: string[]): Promise<Map<string, string>> {
+    const urls = new Map<string, string>();
+    if (paths.length === 0) return urls;
+
+    const { data, error } = await supabase.storage
+      .from(AUDIO_BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_EXPIRY_SECONDS);
+
+    if (error) {
+      throw new Error(`Failed to sign audio URLs: ${error.message}`);
+    }
+
+    (data as { path: string | null; signedUrl: string; error: string | null }[]).forEach(entry => {
+      if (entry.path && entry.signedUrl && !entry.error) {
+        urls.set(entry.path, entry.signedUrl);
+      }
+    });
+
+    return urls;
+  }
+
+  async downloadAudio(path: string, bucket: string = AUDIO_BUCKET): Promise<Blob> {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .download(path);
+
+    if (error || !data) {
+      throw new Error(`Audio download failed: ${error?.message || 'No data returned'}`);
+    }
+
+    return data as Blob;
+  }
+
+  async deleteAudio(paths: string[], bucket: string = AUDIO_BUCKET): Promise<void> {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage
+      .from(bucket)
+      .remove(paths);
+
+    if (error) {
+      throw new Error(`Failed to delete audio files: ${error.message}`);
+    }
+  }
+
+  async deleteProjectAudio(userId: string, projectId: string, bucket: string = AUDIO_BUCKET): Promise<void> {
+    const folder = `${userId}/${projectId}`;
+
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: 1000 });
+
+    if (error) {
+      throw new Error(`Failed to list project audio: ${error.message}`);
+    }
+
+    const paths = (data as { name: string }[]).map(file => `${folder}/${file.name}`);
+    await this.deleteAudio(paths, bucket);
+  }
+}
+
+export const audioStorage = new AudioStorage();
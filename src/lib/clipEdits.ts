@@ -0,0 +1,97 @@
+import { generateClipId, getClipEnd } from './clips';
+import type { Clip } from './clips';
+
+/**
+ * Edit operations on a track's clip list. Each returns a new list and never
+ * touches the source audio: cutting and splitting only change which part of
+ * a recording a clip plays and where.
+ */
+
+// Times closer than this are treated as equal, so edits at a clip boundary
+// don't leave slivers behind
+const EPSILON = 1e-6;
+
+// Clips copied from one or more tracks, positioned relative to the start of
+// the copied range
+export interface ClipClipboard {
+  length: number;
+  lanes: Clip[][];
+}
+
+const sortClips = (clips: Clip[]) => [...clips].sort((a, b) => a.start - b.start);
+
+/**
+ * Splits a clip at a timeline time inside it. The left part keeps the clip's
+ * id and fade-in, the right part gets a new id and the fade-out.
+ */
+export const splitClip = (clip: Clip, time: number): [Clip, Clip] | null => {
+  if (time <= clip.start + EPSILON || time >= getClipEnd(clip) - EPSILON) return null;
+
+  const cut = clip.source_in + (time - clip.start);
+  const left: Clip = {
+    ...clip,
+    source_out: cut,
+    fade_in: Math.min(clip.fade_in, cut - clip.source_in),
+    fade_out: 0,
+  };
+  const right: Clip = {
+    ...clip,
+    id: generateClipId(),
+    start: time,
+    source_in: cut,
+    fade_in: 0,
+    fade_out: Math.min(clip.fade_out, clip.source_out - cut),
+  };
+  return [left, right];
+};
+
+export const splitClipsAt = (clips: Clip[], time: number): Clip[] => {
+  return sortClips(clips.flatMap(clip => splitClip(clip, time) ?? [clip]));
+};
+
+// Clips that lie entirely within [start, end] once split at its edges
+const isInRange = (clip: Clip, start: number, end: number) => {
+  return clip.start >= start - EPSILON && getClipEnd(clip) <= end + EPSILON;
+};
+
+/**
+ * Removes [start, end) from the track. With ripple, everything after the
+ * range moves left to close the gap.
+ */
+export const removeRange = (clips: Clip[], start: number, end: number, ripple: boolean = true): Clip[] => {
+  if (end - start <= EPSILON) return clips;
+
+  const length = end - start;
+  return splitClipsAt(splitClipsAt(clips, start), end)
+    .filter(clip => !isInRange(clip, start, end))
+    .map(clip => ripple && clip.start >= end - EPSILON ? { ...clip, start: clip.start - length } : clip);
+};
+
+// The parts of clips within [start, end), with `start` as their new zero
+export const copyRange = (clips: Clip[], start: number, end: number): Clip[] => {
+  if (end - start <= EPSILON) return [];
+
+  return splitClipsAt(splitClipsAt(clips, start), end)
+    .filter(clip => isInRange(clip, start, end))
+    .map(clip => ({ ...clip, start: clip.start - start }));
+};
+
+/**
+ * Opens a gap of `length` at `time`, moving everything after it right, and
+ * places `inserted` (positioned relative to the gap) inside it.
+ */
+export const insertClips = (clips: Clip[], time: number, inserted: Clip[], length: number): Clip[] => {
+  const shifted = splitClipsAt(clips, time)
+    .map(clip => clip.start >= time - EPSILON ? { ...clip, start: clip.start + length } : clip);
+  const placed = inserted.map(clip => ({ ...clip, id: generateClipId(), start: clip.start + time }));
+  return sortClips([...shifted, ...placed]);
+};
+
+export const insertSilence = (clips: Clip[], time: number, length: number): Clip[] => {
+  return insertClips(clips, time, [], length);
+};
+
+// Places a clip on the track, removing whatever played under it
+export const overwriteClip = (clips: Clip[], clip: Clip): Clip[] => {
+  return sortClips([...removeRange(clips, clip.start, getClipEnd(clip), false), clip]);
+};
@@ -0,0 +1,162 @@
+/**
+ * A region of source audio placed on a track's timeline. Times are in
+ * seconds; `source_in`/`source_out` select the part of the asset that plays,
+ * starting at `start` on the timeline. Editing a clip never touches the
+ * source audio.
+ */
+export interface Clip {
+  id: string;
+  // Object in the audio bucket holding the source recording
+  asset_path: string;
+  start: number;
+  source_in: number;
+  source_out: number;
+  gain: number;
+  fade_in: number;
+  fade_out: number;
+}
+
+// A stretch of the timeline, e.g. the loop region
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Shortest a clip can be trimmed to
+export const MIN_CLIP_SECONDS = 0.01;
+
+interface ClipSource {
+  clips?: Clip[] | null;
+  audio_path?: string;
+  duration_seconds: number;
+}
+
+export const generateClipId = () => `clip-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const createClip = (assetPath: string, sourceDuration: number, start: number = 0): Clip => ({
+  id: generateClipId(),
+  asset_path: assetPath,
+  start,
+  source_in: 0,
+  source_out: sourceDuration,
+  gain: 1,
+  fade_in: 0,
+  fade_out: 0,
+});
+
+export const getClipDuration = (clip: Clip) => clip.source_out - clip.source_in;
+
+export const getClipEnd = (clip: Clip) => clip.start + getClipDuration(clip);
+
+// Where the last clip ends, i.e. the length of the track on the timeline
+export const getClipsEnd = (clips: Clip[]) => Math.max(0, ...clips.map(getClipEnd));
+
+/**
+ * A clip playing a recording whose first sample belongs at timeline position
+ * `recordedAt`, which can be before the start once latency compensation moves
+ * it earlier. Only the part within `range` plays.
+ */
+export const createRecordedClip = (
+  assetPath: string,
+  sourceDuration: number,
+  recordedAt: number,
+  range: TimeRange = { start: 0, end: Infinity }
+): Clip => {
+  const start = Math.max(0, range.start, recordedAt);
+  return normalizeClip({
+    ...createClip(assetPath, sourceDuration, start),
+    source_in: start - recordedAt,
+    source_out: Math.min(sourceDuration, range.end - recordedAt),
+  }, sourceDuration);
+};
+
+/**
+ * The track's clips, or a single clip covering its recording for tracks
+ * saved before clips existed.
+ */
+export const getTrackClips = (track: ClipSource): Clip[] => {
+  if (track.clips && track.clips.length > 0) return track.clips;
+  if (!track.audio_path || track.duration_seconds <= 0) return [];
+  return [{ ...createClip(track.audio_path, track.duration_seconds), id: `clip-${track.audio_path}` }];
+};
+
+/**
+ * Keeps an edited clip inside its source and the timeline, at least
+ * MIN_CLIP_SECONDS long, with fades that fit.
+ */
+export const normalizeClip = (clip: Clip, sourceDuration: number): Clip => {
+  const sourceIn = Math.max(0, Math.min(clip.source_in, sourceDuration - MIN_CLIP_SECONDS));
+  const sourceOut = Math.max(sourceIn + MIN_CLIP_SECONDS, Math.min(clip.source_out, sourceDuration));
+  const duration = sourceOut - sourceIn;
+  const fadeIn = Math.max(0, Math.min(clip.fade_in, duration));
+  const fadeOut = Math.max(0, Math.min(clip.fade_out, duration - fadeIn));
+
+  return {
+    ...clip,
+    start: Math.max(0, clip.start),
+    source_in: sourceIn,
+    source_out: sourceOut,
+    gain: Math.max(0, clip.gain),
+    fade_in: fadeIn,
+    fade_out: fadeOut,
+  };
+};
+
+// Clip gain including fades, `time` seconds into the clip
+export const getClipGainAt = (clip: Clip, time: number) => {
+  const duration = getClipDuration(clip);
+  const fadeIn = clip.fade_in > 0 ? Math.min(1, time / clip.fade_in) : 1;
+  const fadeOut = clip.fade_out > 0 ? Math.min(1, (duration - time) / clip.fade_out) : 1;
+  return clip.gain * Math.max(0, fadeIn) * Math.max(0, fadeOut);
+};
+
+/**
+ * Schedules a clip so that timeline position `offset` plays at context time
+ * `when`, with its gain and fades, stopping at timeline position `until`
+ * (e.g. the end of a loop). Shared by live playback and offline rendering so
+ * both sound the same. Returns null when nothing of the clip plays between
+ * `offset` and `until`.
+ */
+export const scheduleClip = (
+  context: BaseAudioContext,
+  clip: Clip,
+  buffer: AudioBuffer,
+  destination: AudioNode,
+  when: number,
+  offset: number = 0,
+  until: number = Infinity
+): AudioBufferSourceNode | null => {
+  const duration = Math.min(getClipDuration(clip), buffer.duration - clip.source_in);
+  const skip = Math.max(0, offset - clip.start);
+  const length = Math.min(duration - skip, until - Math.max(offset, clip.start));
+  if (duration <= 0 || length <= 0) return null;
+
+  const startAt = when + Math.max(0, clip.start - offset);
+  // Fades follow the whole clip, even when it's cut short
+  const endAt = startAt + duration - skip;
+
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(getClipGainAt(clip, skip), startAt);
+  if (clip.fade_in > skip) {
+    gain.gain.linearRampToValueAtTime(getClipGainAt(clip, clip.fade_in), startAt + clip.fade_in - skip);
+  }
+  if (clip.fade_out > 0) {
+    const fadeOutStart = duration - clip.fade_out;
+    if (fadeOutStart > skip) {
+      gain.gain.setValueAtTime(clip.gain, startAt + fadeOutStart - skip);
+    }
+    gain.gain.linearRampToValueAtTime(0, endAt);
+  }
+  gain.connect(destination);
+
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(gain);
+  source.addEventListener('ended', () => {
+    source.disconnect();
+    gain.disconnect();
+  });
+  source.start(startAt, clip.source_in + skip, length);
+
+  return source;
+};
@@ -0,0 +1,8 @@
+/**
+ * Decodes an encoded file at `sampleRate`. Decoding only needs a context for
+ * its sample-rate conversion, so a one-frame offline context is used, which
+ * unlike an AudioContext holds no audio device and needs no closing. The
+ * buffer is detached by decoding; read any headers from it first.
+ */
+export const decodeAudio = (data: ArrayBuffer, sampleRate: number): Promise<AudioBuffer> =>
+  new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
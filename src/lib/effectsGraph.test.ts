@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_EFFECT_PARAMETERS,
+  EFFECTS_SETTINGS_VERSION,
+  getEffectsLayoutKey,
+  getEffectsTailSeconds,
+  parseEffectsSettings,
+  readEffectsSettings,
+  serializeEffectsSettings,
+} from './effectsGraph';
+
+describe('readEffectsSettings', () => {
+  it('gives an empty chain with default parameters for rows without settings', () => {
+    expect(readEffectsSettings(null)).toEqual({ activeEffects: [], parameters: DEFAULT_EFFECT_PARAMETERS });
+    expect(readEffectsSettings({})).toEqual({ activeEffects: [], parameters: DEFAULT_EFFECT_PARAMETERS });
+  });
+
+  it('clamps out-of-range parameters to their ranges', () => {
+    const { parameters } = readEffectsSettings({
+      activeEffects: ['delay'],
+      parameters: { delay: { feedback: 5, delayTime: 0 }, equalizer: { lowGain: -40, highGain: 40 } },
+    });
+
+    expect(parameters.delay.feedback).toBe(0.8);
+    expect(parameters.delay.delayTime).toBe(0.05);
+    expect(parameters.equalizer.lowGain).toBe(-12);
+    expect(parameters.equalizer.highGain).toBe(12);
+  });
+
+  it('replaces missing and non-numeric parameters with defaults', () => {
+    const { parameters } = readEffectsSettings({
+      activeEffects: ['reverb'],
+      parameters: { reverb: { roomSize: 'large', damping: NaN, wetLevel: 0.5 } },
+    });
+
+    expect(parameters.reverb).toEqual({
+      ...DEFAULT_EFFECT_PARAMETERS.reverb,
+      wetLevel: 0.5,
+    });
+    expect(parameters.chorus).toEqual(DEFAULT_EFFECT_PARAMETERS.chorus);
+  });
+
+  it('keeps known effects once each, in order', () => {
+    const { activeEffects } = readEffectsSettings({
+      activeEffects: ['delay', 'flanger', 'reverb', 'delay', 3],
+    });
+
+    expect(activeEffects).toEqual(['delay', 'reverb']);
+  });
+
+  it('drops parameters this version does not know', () => {
+    const { parameters } = readEffectsSettings({
+      version: EFFECTS_SETTINGS_VERSION + 1,
+      parameters: { chorus: { rate: 2, shimmer: 1 } },
+    });
+
+    expect(parameters.chorus).toEqual({ ...DEFAULT_EFFECT_PARAMETERS.chorus, rate: 2 });
+  });
+});
+
+describe('parseEffectsSettings', () => {
+  it('returns null when no effect is active', () => {
+    expect(parseEffectsSettings({ activeEffects: [] })).toBeNull();
+    expect(parseEffectsSettings({ activeEffects: ['unknown'] })).toBeNull();
+    expect(parseEffectsSettings(undefined)).toBeNull();
+  });
+});
+
+describe('serializeEffectsSettings', () => {
+  it('stores the current version and reads back the same settings', () => {
+    const settings = { activeEffects: ['compressor', 'equalizer'], parameters: DEFAULT_EFFECT_PARAMETERS };
+    const stored = serializeEffectsSettings(settings);
+
+    expect(stored.version).toBe(EFFECTS_SETTINGS_VERSION);
+    expect(readEffectsSettings({ ...stored })).toEqual(settings);
+  });
+});
+
+describe('getEffectsLayoutKey', () => {
+  const settings = { activeEffects: ['reverb', 'delay'], parameters: DEFAULT_EFFECT_PARAMETERS };
+
+  it('ignores parameters that can change in place', () => {
+    const louder = {
+      ...settings,
+      parameters: {
+        ...DEFAULT_EFFECT_PARAMETERS,
+        reverb: { ...DEFAULT_EFFECT_PARAMETERS.reverb, wetLevel: 0.9 },
+        delay: { ...DEFAULT_EFFECT_PARAMETERS.delay, delayTime: 0.6 },
+      },
+    };
+
+    expect(getEffectsLayoutKey(louder)).toBe(getEffectsLayoutKey(settings));
+  });
+
+  it('changes with the order of effects and the reverb impulse', () => {
+    const reordered = { ...settings, activeEffects: ['delay', 'reverb'] };
+    const biggerRoom = {
+      ...settings,
+      parameters: { ...DEFAULT_EFFECT_PARAMETERS, reverb: { ...DEFAULT_EFFECT_PARAMETERS.reverb, roomSize: 0.9 } },
+    };
+
+    expect(getEffectsLayoutKey(reordered)).not.toBe(getEffectsLayoutKey(settings));
+    expect(getEffectsLayoutKey(biggerRoom)).not.toBe(getEffectsLayoutKey(settings));
+  });
+});
+
+describe('getEffectsTailSeconds', () => {
+  it('is zero without reverb or delay', () => {
+    expect(getEffectsTailSeconds(null)).toBe(0);
+    expect(getEffectsTailSeconds({ activeEffects: ['equalizer', 'compressor'], parameters: DEFAULT_EFFECT_PARAMETERS })).toBe(0);
+  });
+
+  it('adds the reverb length and the delay repeats down to -60 dB', () => {
+    const parameters = {
+      ...DEFAULT_EFFECT_PARAMETERS,
+      reverb: { ...DEFAULT_EFFECT_PARAMETERS.reverb, roomSize: 0.5 },
+      delay: { ...DEFAULT_EFFECT_PARAMETERS.delay, delayTime: 0.25, feedback: 0.5 },
+    };
+
+    // 0.5 room size is 2 s of impulse; 0.5 feedback needs 10 repeats to fall 60 dB
+    expect(getEffectsTailSeconds({ activeEffects: ['reverb'], parameters })).toBeCloseTo(2);
+    expect(getEffectsTailSeconds({ activeEffects: ['delay'], parameters })).toBeCloseTo(2.5);
+    expect(getEffectsTailSeconds({ activeEffects: ['reverb', 'delay'], parameters })).toBeCloseTo(4.5);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Effect chains: a serializable description of which effects run, in what
+ * order and with which parameters, and the one builder that turns it into
+ * Web Audio nodes. Live monitoring, playback, the effects preview and export
+ * all build their graphs here, so they sound the same.
+ */
+
+export interface EffectParameters {
+  reverb: {
+    roomSize: number;
+    damping: number;
+    wetLevel: number;
+    dryLevel: number;
+  };
+  delay: {
+    delayTime: number;
+    feedback: number;
+    wetLevel: number;
+    dryLevel: number;
+  };
+  chorus: {
+    rate: number;
+    depth: number;
+    wetLevel: number;
+    dryLevel: number;
+  };
+  equalizer: {
+    lowGain: number;
+    midGain: number;
+    highGain: number;
+  };
+  compressor: {
+    threshold: number;
+    ratio: number;
+    attack: number;
+    release: number;
+  };
+}
+
+export type EffectType = keyof EffectParameters;
+
+export const EFFECT_TYPES: EffectType[] = ['equalizer', 'compressor', 'reverb', 'delay', 'chorus'];
+
+// Version of the stored settings. Bump it when their shape changes, and
+// upgrade older versions in readEffectsSettings.
+export const EFFECTS_SETTINGS_VERSION = 1;
+
+// An effect chain: the active effects run in the order listed
+export interface EffectsSettings {
+  activeEffects: string[];
+  parameters: EffectParameters;
+}
+
+// Shape stored in Track.effects_settings and Project.effects_settings (master)
+export interface StoredEffectsSettings extends EffectsSettings {
+  version: number;
+}
+
+export interface EffectsChain {
+  output: AudioNode;
+  // Moves the chain's parameters to new values in place, for settings with
+  // the same getEffectsLayoutKey as the ones it was built from
+  setParameters: (parameters: EffectParameters) => void;
+  // Tears the chain down, e.g. to rebuild it with new settings; the input
+  // is left connected for the caller to detach
+  disconnect: () => void;
+}
+
+// Time constant for parameter changes on running graphs, short enough to
+// feel immediate but long enough to avoid zipper noise while dragging sliders
+export const PARAM_SMOOTHING_SECONDS = 0.015;
+
+// Length of the reverb's impulse response at full room size
+const REVERB_MAX_SECONDS = 4;
+// Level, relative to the input, below which an echo counts as gone (-60 dB)
+const TAIL_SILENCE = 0.001;
+
+export interface ParameterRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Values each parameter can take, for controls and for checking stored settings
+export const EFFECT_PARAMETER_RANGES: { [Effect in EffectType]: { [Name in keyof EffectParameters[Effect]]: ParameterRange } } = {
+  reverb: {
+    roomSize: { min: 0.1, max: 1, step: 0.05 },
+    damping: { min: 0, max: 1, step: 0.05 },
+    wetLevel: { min: 0, max: 1, step: 0.05 },
+    dryLevel: { min: 0, max: 1, step: 0.05 },
+  },
+  delay: {
+    delayTime: { min: 0.05, max: 1, step: 0.05 },
+    feedback: { min: 0, max: 0.8, step: 0.05 },
+    wetLevel: { min: 0, max: 1, step: 0.05 },
+    dryLevel: { min: 0, max: 1, step: 0.05 },
+  },
+  chorus: {
+    rate: { min: 0.1, max: 5, step: 0.1 },
+    depth: { min: 0, max: 1, step: 0.05 },
+    wetLevel: { min: 0, max: 1, step: 0.05 },
+    dryLevel: { min: 0, max: 1, step: 0.05 },
+  },
+  equalizer: {
+    lowGain: { min: -12, max: 12, step: 0.5 },
+    midGain: { min: -12, max: 12, step: 0.5 },
+    highGain: { min: -12, max: 12, step: 0.5 },
+  },
+  compressor: {
+    threshold: { min: -60, max: 0, step: 1 },
+    ratio: { min: 1, max: 20, step: 0.5 },
+    attack: { min: 0.001, max: 0.1, step: 0.001 },
+    release: { min: 0.01, max: 1, step: 0.01 },
+  },
+};
+
+export const DEFAULT_EFFECT_PARAMETERS: EffectParameters = {
+  reverb: {
+    roomSize: 0.3,
+    damping: 0.5,
+    wetLevel: 0.3,
+    dryLevel: 0.7,
+  },
+  delay: {
+    delayTime: 0.3,
+    feedback: 0.25,
+    wetLevel: 0.3,
+    dryLevel: 0.7,
+  },
+  chorus: {
+    rate: 1.5,
+    depth: 0.3,
+    wetLevel: 0.4,
+    dryLevel: 0.6,
+  },
+  equalizer: {
+    lowGain: 0,
+    midGain: 0,
+    highGain: 0,
+  },
+  compressor: {
+    threshold: -24,
+    ratio: 3,
+    attack: 0.003,
+    release: 0.25,
+  },
+};
+
+/**
+ * Reads effects settings from a database row for editing. Missing or invalid
+ * parameters get their defaults and out-of-range ones are clamped, so a bad
+ * row can't build a broken graph. Rows without settings get an empty chain.
+ *
+ * Rows saved before settings were versioned have the same shape as version
+ * 1; settings from a newer version are read as far as they match this one.
+ */
+export const readEffectsSettings = (raw: Record<string, unknown> | null | undefined): EffectsSettings => {
+  const stored = (raw?.parameters ?? {}) as Partial<Record<EffectType, Record<string, unknown>>>;
+  const parameters = Object.fromEntries(EFFECT_TYPES.map(effect => {
+    const defaults = DEFAULT_EFFECT_PARAMETERS[effect] as Record<string, number>;
+    const ranges = EFFECT_PARAMETER_RANGES[effect] as Record<string, ParameterRange>;
+    return [effect, Object.fromEntries(Object.entries(ranges).map(([name, { min, max }]) => {
+      const value = stored[effect]?.[name];
+      return [name, typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : defaults[name]];
+    }))];
+  })) as unknown as EffectParameters;
+
+  // Known effects only, each once
+  const activeEffects = Array.isArray(raw?.activeEffects)
+    ? raw.activeEffects.filter((effect, index, all): effect is string =>
+      EFFECT_TYPES.includes(effect as EffectType) && all.indexOf(effect) === index)
+    : [];
+
+  return { activeEffects, parameters };
+};
+
+/**
+ * Reads effects settings from a database row for processing. Returns null
+ * when there are no active effects.
+ */
+export const parseEffectsSettings = (raw: Record<string, unknown> | null | undefined): EffectsSettings | null => {
+  const settings = readEffectsSettings(raw);
+  return settings.activeEffects.length > 0 ? settings : null;
+};
+
+// Settings as saved to a track or project row
+export const serializeEffectsSettings = ({ activeEffects, parameters }: EffectsSettings): StoredEffectsSettings => ({
+  version: EFFECTS_SETTINGS_VERSION,
+  activeEffects: [...activeEffects],
+  parameters,
+});
+
+/**
+ * What a built chain can't change in place: which effects run and in what
+ * order, and the reverb's room size and damping, which shape its impulse
+ * response. Settings with the same key differ only in parameters that
+ * setParameters can update.
+ */
+export const getEffectsLayoutKey = ({ activeEffects, parameters }: EffectsSettings): string =>
+  JSON.stringify({
+    activeEffects,
+    reverb: activeEffects.includes('reverb')
+      ? [parameters.reverb.roomSize, parameters.reverb.damping]
+      : null,
+  });
+
+/**
+ * How long the effects keep sounding after their input stops, so offline
+ * renders can run past the end of the audio instead of cutting the reverb
+ * and delay tails off. Effects in series add their tails.
+ */
+export const getEffectsTailSeconds = (settings: EffectsSettings | null | undefined): number => {
+  if (!settings) return 0;
+  const { reverb, delay } = settings.parameters;
+
+  return settings.activeEffects.reduce((tail, effect) => {
+    switch (effect) {
+      case 'reverb':
+        return tail + reverb.roomSize * REVERB_MAX_SECONDS;
+      case 'delay': {
+        // Each repeat is `feedback` times quieter than the one before
+        const repeats = delay.feedback > 0
+          ? Math.ceil(Math.log(TAIL_SILENCE) / Math.log(delay.feedback))
+          : 1;
+        return tail + delay.delayTime * repeats;
+      }
+      default:
+        return tail;
+    }
+  }, 0);
+};
+
+/**
+ * Connects `input` through the active effects, in order, and returns the last
+ * node of the chain. Works on any BaseAudioContext, so the same graph is used
+ * for live playback, offline processing and mixdown.
+ */
+export const connectEffects = (
+  context: BaseAudioContext,
+  input: AudioNode,
+  settings: EffectsSettings
+): EffectsChain => {
+  const { parameters } = settings;
+  let currentNode: AudioNode = input;
+  const nodes: AudioNode[] = [];
+  const oscillators: OscillatorNode[] = [];
+  const updates: ((parameters: EffectParameters) => void)[] = [];
+
+  const glide = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, context.currentTime, PARAM_SMOOTHING_SECONDS);
+  };
+
+  settings.activeEffects.forEach(effectType => {
+    switch (effectType) {
+      case 'equalizer': {
+        const lowShelf = context.createBiquadFilter();
+        const midPeaking = context.createBiquadFilter();
+        const highShelf = context.createBiquadFilter();
+
+        lowShelf.type = 'lowshelf';
+        lowShelf.frequency.value = 320;
+        lowShelf.gain.value = parameters.equalizer.lowGain;
+
+        midPeaking.type = 'peaking';
+        midPeaking.frequency.value = 1000;
+        midPeaking.Q.value = 1;
+        midPeaking.gain.value = parameters.equalizer.midGain;
+
+        highShelf.type = 'highshelf';
+        highShelf.frequency.value = 3200;
+        highShelf.gain.value = parameters.equalizer.highGain;
+
+        currentNode.connect(lowShelf);
+        lowShelf.connect(midPeaking);
+        midPeaking.connect(highShelf);
+        nodes.push(lowShelf, midPeaking, highShelf);
+        updates.push(({ equalizer }) => {
+          glide(lowShelf.gain, equalizer.lowGain);
+          glide(midPeaking.gain, equalizer.midGain);
+          glide(highShelf.gain, equalizer.highGain);
+        });
+        currentNode = highShelf;
+        break;
+      }
+
+      case 'compressor': {
+        const compressor = context.createDynamicsCompressor();
+        compressor.threshold.value = parameters.compressor.threshold;
+        compressor.ratio.value = parameters.compressor.ratio;
+        compressor.attack.value = parameters.compressor.attack;
+        compressor.release.value = parameters.compressor.release;
+
+        currentNode.connect(compressor);
+        nodes.push(compressor);
+        updates.push(({ compressor: values }) => {
+          glide(compressor.threshold, values.threshold);
+          glide(compressor.ratio, values.ratio);
+          glide(compressor.attack, values.attack);
+          glide(compressor.release, values.release);
+        });
+        currentNode = compressor;
+        break;
+      }
+
+      case 'reverb': {
+        const convolver = context.createConvolver();
+        const wetGain = context.createGain();
+        const dryGain = context.createGain();
+        const outputGain = context.createGain();
+
+        // Create simple impulse response. The noise has a fixed seed, so
+        // playback and export sound the same.
+        const length = Math.max(1, Math.floor(context.sampleRate * parameters.reverb.roomSize * REVERB_MAX_SECONDS));
+        const impulse = context.createBuffer(2, length, context.sampleRate);
+        let seed = 1;
+
+        for (let channel = 0; channel < 2; channel++) {
+          const channelData = impulse.getChannelData(channel);
+          for (let i = 0; i < length; i++) {
+            const decay = Math.pow(1 - i / length, parameters.reverb.damping * 10);
+            seed = (seed * 1664525 + 1013904223) >>> 0;
+            channelData[i] = ((seed / 0x100000000) * 2 - 1) * decay;
+          }
+        }
+
+        convolver.buffer = impulse;
+        wetGain.gain.value = parameters.reverb.wetLevel;
+        dryGain.gain.value = parameters.reverb.dryLevel;
+
+        // Wet path
+        currentNode.connect(convolver);
+        convolver.connect(wetGain);
+        wetGain.connect(outputGain);
+
+        // Dry path
+        currentNode.connect(dryGain);
+        dryGain.connect(outputGain);
+
+        nodes.push(convolver, wetGain, dryGain, outputGain);
+        updates.push(({ reverb }) => {
+          glide(wetGain.gain, reverb.wetLevel);
+          glide(dryGain.gain, reverb.dryLevel);
+        });
+        currentNode = outputGain;
+        break;
+      }
+
+      case 'delay': {
+        const delay = context.createDelay(1.0);
+        const feedback = context.createGain();
+        const wetGain = context.createGain();
+        const dryGain = context.createGain();
+        const outputGain = context.createGain();
+
+        delay.delayTime.value = parameters.delay.delayTime;
+        feedback.gain.value = parameters.delay.feedback;
+        wetGain.gain.value = parameters.delay.wetLevel;
+        dryGain.gain.value = parameters.delay.dryLevel;
+
+        // Wet path with feedback
+        currentNode.connect(delay);
+        delay.connect(feedback);
+        feedback.connect(delay);
+        delay.connect(wetGain);
+        wetGain.connect(outputGain);
+
+        // Dry path
+        currentNode.connect(dryGain);
+        dryGain.connect(outputGain);
+
+        nodes.push(delay, feedback, wetGain, dryGain, outputGain);
+        updates.push(({ delay: values }) => {
+          glide(delay.delayTime, values.delayTime);
+          glide(feedback.gain, values.feedback);
+          glide(wetGain.gain, values.wetLevel);
+          glide(dryGain.gain, values.dryLevel);
+        });
+        currentNode = outputGain;
+        break;
+      }
+
+      case 'chorus': {
+        const delay = context.createDelay(0.05);
+        const lfo = context.createOscillator();
+        const lfoGain = context.createGain();
+        const wetGain = context.createGain();
+        const dryGain = context.createGain();
+        const outputGain = context.createGain();
+
+        lfo.frequency.value = parameters.chorus.rate;
+        lfoGain.gain.value = parameters.chorus.depth * 0.01;
+        delay.delayTime.value = 0.02;
+        wetGain.gain.value = parameters.chorus.wetLevel;
+        dryGain.gain.value = parameters.chorus.dryLevel;
+
+        lfo.connect(lfoGain);
+        lfoGain.connect(delay.delayTime);
+        lfo.start();
+
+        // Wet path
+        currentNode.connect(delay);
+        delay.connect(wetGain);
+        wetGain.connect(outputGain);
+
+        // Dry path
+        currentNode.connect(dryGain);
+        dryGain.connect(outputGain);
+
+        nodes.push(delay, lfo, lfoGain, wetGain, dryGain, outputGain);
+        oscillators.push(lfo);
+        updates.push(({ chorus }) => {
+          glide(lfo.frequency, chorus.rate);
+          glide(lfoGain.gain, chorus.depth * 0.01);
+          glide(wetGain.gain, chorus.wetLevel);
+          glide(dryGain.gain, chorus.dryLevel);
+        });
+        currentNode = outputGain;
+        break;
+      }
+    }
+  });
+
+  return {
+    output: currentNode,
+    setParameters: (parameters: EffectParameters) => {
+      updates.forEach(update => update(parameters));
+    },
+    disconnect: () => {
+      oscillators.forEach(oscillator => oscillator.stop());
+      nodes.forEach(node => node.disconnect());
+    },
+  };
+};
@@ -0,0 +1,87 @@
+/**
+ * MSB-first bit writer backed by a growable byte buffer. Values are handled
+ * as plain numbers so fields up to 32 bits wide can be written safely.
+ */
+export class BitWriter {
+  private bytes: Uint8Array;
+  private length = 0;
+  private accumulator = 0;
+  private accumulatorBits = 0;
+
+  constructor(initialSize = 4096) {
+    this.bytes = new Uint8Array(initialSize);
+  }
+
+  get bitLength(): number {
+    return this.length * 8 + this.accumulatorBits;
+  }
+
+  writeBits(value: number, bits: number): void {
+    if (bits === 0) return;
+    if (bits > 24) {
+      const lowBits = bits - 16;
+      this.writeBits(Math.floor(value / 2 ** lowBits), 16);
+      this.writeBits(value % 2 ** lowBits, lowBits);
+      return;
+    }
+
+    this.accumulator = this.accumulator * 2 ** bits + value;
+    this.accumulatorBits += bits;
+
+    while (this.accumulatorBits >= 8) {
+      this.accumulatorBits -= 8;
+      const divisor = 2 ** this.accumulatorBits;
+      this.pushByte(Math.floor(this.accumulator / divisor) & 0xff);
+      this.accumulator %= divisor;
+    }
+  }
+
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  // `count` zero bits followed by a single one bit
+  writeUnary(count: number): void {
+    let remaining = count;
+    while (remaining >= 24) {
+      this.writeBits(0, 24);
+      remaining -= 24;
+    }
+    this.writeBits(1, remaining + 1);
+  }
+
+  writeBytes(data: Uint8Array): void {
+    if (this.accumulatorBits === 0) {
+      this.ensureCapacity(data.length);
+      this.bytes.set(data, this.length);
+      this.length += data.length;
+    } else {
+      data.forEach(byte => this.writeBits(byte, 8));
+    }
+  }
+
+  alignToByte(): void {
+    if (this.accumulatorBits > 0) {
+      this.writeBits(0, 8 - this.accumulatorBits);
+    }
+  }
+
+  // Bytes written so far; call alignToByte() first to include trailing bits
+  getBytes(): Uint8Array {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    this.ensureCapacity(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  private ensureCapacity(extra: number): void {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Quantizer } from './dither';
+
+// A quiet 1 kHz tone at 44.1 kHz, a few LSBs above 16-bit silence
+const quietTone = (length: number, amplitude: number) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * 1000 * i) / 44100));
+
+describe('Quantizer', () => {
+  it('rounds to the nearest step without dither', () => {
+    const quantizer = new Quantizer(16, 1);
+
+    expect(quantizer.quantize(0, 0)).toBe(0);
+    expect(quantizer.quantize(0.5, 0)).toBe(16384);
+    expect(quantizer.quantize(1, 0)).toBe(32767);
+    expect(quantizer.quantize(-1, 0)).toBe(-32767);
+    expect(quantizer.quantize(1.5, 0)).toBe(32767);
+    expect(quantizer.quantize(-3, 0)).toBe(-32767);
+  });
+
+  it('scales to the bit depth', () => {
+    expect(new Quantizer(24, 1).quantize(1, 0)).toBe(8388607);
+    expect(new Quantizer(24, 1).quantize(-0.25, 0)).toBe(-2097152);
+  });
+
+  it('keeps TPDF dither within one step of the exact value and unbiased', () => {
+    const quantizer = new Quantizer(16, 1, 'tpdf');
+    const target = 0.3 / 32767 * 100;
+    let sum = 0;
+    const count = 20000;
+
+    for (let i = 0; i < count; i++) {
+      const value = quantizer.quantize(target, 0);
+      expect(Math.abs(value - target * 32767)).toBeLessThanOrEqual(1.5);
+      sum += value;
+    }
+
+    expect(sum / count).toBeCloseTo(target * 32767, 0);
+  });
+
+  it('never exceeds full scale with dither', () => {
+    for (const mode of ['tpdf', 'shaped'] as const) {
+      const quantizer = new Quantizer(16, 2, mode);
+      for (let i = 0; i < 5000; i++) {
+        const value = quantizer.quantize(i % 2 ? 1 : -1, i % 2);
+        expect(value).toBeLessThanOrEqual(32767);
+        expect(value).toBeGreaterThanOrEqual(-32767);
+      }
+    }
+  });
+
+  it('keeps dithered audio close to the signal', () => {
+    const signal = quietTone(44100, 8 / 32767);
+
+    for (const mode of ['tpdf', 'shaped'] as const) {
+      const quantizer = new Quantizer(16, 1, mode);
+      let errorPower = 0;
+      signal.forEach(sample => {
+        errorPower += (quantizer.quantize(sample, 0) - sample * 32767) ** 2;
+      });
+
+      // TPDF adds about 0.25 LSB² of noise power to the 1/12 of rounding;
+      // shaping raises the total but moves it out of the audible band
+      expect(errorPower / signal.length).toBeLessThan(mode === 'tpdf' ? 0.6 : 3);
+    }
+  });
+
+  it('keeps the error feedback of each channel separate', () => {
+    const quantizer = new Quantizer(16, 2, 'shaped');
+    const silence = [];
+
+    for (let i = 0; i < 1000; i++) {
+      quantizer.quantize(0.9, 0);
+      silence.push(quantizer.quantize(0, 1));
+    }
+
+    // Silence on the second channel only gets its own dither, a few LSBs at most
+    expect(Math.max(...silence.map(Math.abs))).toBeLessThanOrEqual(4);
+  });
+});
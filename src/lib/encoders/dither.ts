@@ -0,0 +1,51 @@
+export type DitherMode = 'none' | 'tpdf' | 'shaped';
+
+// Wannamaker's 3-tap F-weighted error filter: pushes requantization noise
+// towards frequencies the ear is least sensitive to. Designed for 44.1 kHz,
+// it still moves noise upwards at higher rates.
+const SHAPING_COEFFICIENTS = [1.623, -0.982, 0.109];
+
+/**
+ * Converts float samples to signed integers of the given bit depth. With
+ * dither off it rounds exactly like the original exporters; TPDF adds
+ * triangular noise of ±1 LSB, and 'shaped' also feeds the quantization
+ * error back through SHAPING_COEFFICIENTS.
+ */
+export class Quantizer {
+  private readonly maxValue: number;
+  private readonly minValue: number;
+  // Last three errors per channel, newest first
+  private readonly errors: Float64Array[];
+
+  constructor(bitDepth: number, channels: number, private readonly mode: DitherMode = 'none') {
+    this.maxValue = 2 ** (bitDepth - 1) - 1;
+    this.minValue = -this.maxValue;
+    this.errors = Array.from({ length: channels }, () => new Float64Array(SHAPING_COEFFICIENTS.length));
+  }
+
+  quantize(sample: number, channel: number): number {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    if (this.mode === 'none') {
+      return Math.round(clamped * this.maxValue);
+    }
+
+    let target = clamped * this.maxValue;
+    const errors = this.errors[channel];
+    if (this.mode === 'shaped') {
+      target -= SHAPING_COEFFICIENTS[0] * errors[0] +
+        SHAPING_COEFFICIENTS[1] * errors[1] +
+        SHAPING_COEFFICIENTS[2] * errors[2];
+    }
+
+    const noise = Math.random() - Math.random();
+    const value = Math.max(this.minValue, Math.min(this.maxValue, Math.round(target + noise)));
+
+    if (this.mode === 'shaped') {
+      errors[2] = errors[1];
+      errors[1] = errors[0];
+      // Limit the fed-back error so clipping can't make the loop unstable
+      errors[0] = Math.max(-1, Math.min(1, value - target));
+    }
+    return value;
+  }
+}
@@ -0,0 +1,250 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { encodeFlac } from './flac';
+import { Quantizer } from './dither';
+import { parseFlac } from '../probe/flac';
+
+// MSB-first reader for the decoder below
+class BitReader {
+  position = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  readBits(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.data[this.position >> 3];
+      if (byte === undefined) throw new Error('Read past the end of the stream');
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.readBits(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let count = 0;
+    while (this.readBits(1) === 0) count++;
+    return count;
+  }
+
+  alignToByte(): void {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+const crc = (data: Uint8Array, polynomial: number, width: number): number => {
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  data.forEach(byte => {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = (value & topBit ? (value << 1) ^ polynomial : value << 1) & mask;
+    }
+  });
+  return value;
+};
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const readResidual = (reader: BitReader, blockSize: number, order: number): number[] => {
+  const parameterBits = reader.readBits(2) === 1 ? 5 : 4;
+  const partitionOrder = reader.readBits(4);
+  const partitionSize = blockSize >> partitionOrder;
+  const residual: number[] = [];
+
+  for (let partition = 0; partition < 2 ** partitionOrder; partition++) {
+    const parameter = reader.readBits(parameterBits);
+    const count = partition === 0 ? partitionSize - order : partitionSize;
+    for (let i = 0; i < count; i++) {
+      const value = reader.readUnary() * 2 ** parameter + reader.readBits(parameter);
+      residual.push(value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+    }
+  }
+  return residual;
+};
+
+const predict = (warmUp: number[], coefficients: number[], shift: number, residual: number[]): Int32Array => {
+  const samples = new Int32Array(warmUp.length + residual.length);
+  samples.set(warmUp);
+  residual.forEach((value, index) => {
+    const i = warmUp.length + index;
+    let sum = 0;
+    coefficients.forEach((coefficient, j) => {
+      sum += coefficient * samples[i - 1 - j];
+    });
+    samples[i] = Math.floor(sum / 2 ** shift) + value;
+  });
+  return samples;
+};
+
+const readSubframe = (reader: BitReader, blockSize: number, bitsPerSample: number): Int32Array => {
+  const header = reader.readBits(8);
+  expect(header & 0x81).toBe(0);
+  const type = header >> 1;
+
+  if (type === 0) return new Int32Array(blockSize).fill(reader.readSigned(bitsPerSample));
+  if (type === 1) {
+    return Int32Array.from({ length: blockSize }, () => reader.readSigned(bitsPerSample));
+  }
+
+  const order = type >= 0x20 ? (type & 0x1f) + 1 : type & 0x07;
+  const warmUp = Array.from({ length: order }, () => reader.readSigned(bitsPerSample));
+
+  if (type >= 0x20) {
+    const precision = reader.readBits(4) + 1;
+    const shift = reader.readSigned(5);
+    const coefficients = Array.from({ length: order }, () => reader.readSigned(precision));
+    return predict(warmUp, coefficients, shift, readResidual(reader, blockSize, order));
+  }
+  return predict(warmUp, FIXED_COEFFICIENTS[order], 0, readResidual(reader, blockSize, order));
+};
+
+const BLOCK_SIZES: Record<number, number> = { 1: 192, 2: 576, 3: 1152, 4: 2304, 5: 4608 };
+
+// Just enough of a decoder for what the encoder writes: fixed block sizes,
+// sample rates and bit depths from STREAMINFO, no wasted bits
+const decodeFlac = (data: Uint8Array, channels: number, bitsPerSample: number): Int32Array[] => {
+  const reader = new BitReader(data);
+  reader.position = 42 * 8;
+  const output: number[][] = Array.from({ length: channels }, () => []);
+
+  while (reader.position < data.length * 8) {
+    const frameStart = reader.position / 8;
+    expect(reader.readBits(16)).toBe(0xfff8);
+    const blockSizeCode = reader.readBits(4);
+    const sampleRateCode = reader.readBits(4);
+    const assignment = reader.readBits(4);
+    reader.readBits(4);
+
+    // UTF-8 style frame number: the leading ones give the extra byte count
+    const first = reader.readBits(8);
+    let extraBytes = 0;
+    while (first & (0x80 >> extraBytes)) extraBytes++;
+    reader.readBits(8 * Math.max(0, extraBytes - 1));
+
+    let blockSize = BLOCK_SIZES[blockSizeCode] ?? 256 << (blockSizeCode - 8);
+    if (blockSizeCode === 6) blockSize = reader.readBits(8) + 1;
+    if (blockSizeCode === 7) blockSize = reader.readBits(16) + 1;
+    if (sampleRateCode === 12) reader.readBits(8);
+    if (sampleRateCode === 13 || sampleRateCode === 14) reader.readBits(16);
+
+    const headerEnd = reader.position / 8;
+    expect(reader.readBits(8)).toBe(crc(data.subarray(frameStart, headerEnd), 0x07, 8));
+
+    const sideChannel = assignment === 8 ? 1 : assignment === 9 ? 0 : assignment === 10 ? 1 : -1;
+    const subframes = Array.from({ length: channels }, (_, channel) =>
+      readSubframe(reader, blockSize, bitsPerSample + (channel === sideChannel ? 1 : 0))
+    );
+
+    reader.alignToByte();
+    const frameEnd = reader.position / 8;
+    expect(reader.readBits(16)).toBe(crc(data.subarray(frameStart, frameEnd), 0x8005, 16));
+
+    for (let i = 0; i < blockSize; i++) {
+      const [a, b] = subframes.map(subframe => subframe[i]);
+      if (assignment === 8) {
+        output[0].push(a);
+        output[1].push(a - b);
+      } else if (assignment === 9) {
+        output[0].push(a + b);
+        output[1].push(b);
+      } else if (assignment === 10) {
+        const mid = a * 2 + (b & 1);
+        output[0].push((mid + b) >> 1);
+        output[1].push((mid - b) >> 1);
+      } else {
+        subframes.forEach((subframe, channel) => output[channel].push(subframe[i]));
+      }
+    }
+  }
+
+  return output.map(samples => Int32Array.from(samples));
+};
+
+const quantize = (channelData: Float32Array[], bitDepth: 16 | 24) => {
+  const quantizer = new Quantizer(bitDepth, channelData.length);
+  return channelData.map((samples, channel) => Int32Array.from(samples, value => quantizer.quantize(value, channel)));
+};
+
+// A chord that turns noisy halfway through, so frames pick different predictors
+const testSignal = (length: number, sampleRate: number, phase = 0) => {
+  let seed = 1 + phase;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  return Float32Array.from({ length }, (_, i) => {
+    const t = i / sampleRate;
+    const tone = 0.3 * Math.sin(2 * Math.PI * 220 * t + phase) + 0.2 * Math.sin(2 * Math.PI * 331 * t);
+    return i > length / 2 ? tone + 0.05 * noise() : tone;
+  });
+};
+
+describe('encodeFlac', () => {
+  it('decodes back to the exact quantised samples', async () => {
+    // Not a multiple of the block size, so the last frame is short
+    const left = testSignal(10000, 44100);
+    const right = testSignal(10000, 44100, 1);
+    const flac = await encodeFlac([left, right], 44100, { bitDepth: 16 });
+
+    const decoded = decodeFlac(flac, 2, 16);
+    const expected = quantize([left, right], 16);
+    expect(decoded[0]).toEqual(expected[0]);
+    expect(decoded[1]).toEqual(expected[1]);
+  });
+
+  it('is lossless at 24 bits and for silence, mono and uncoded rates', async () => {
+    const tone = testSignal(5000, 44000);
+    const silence = new Float32Array(5000);
+    const flac = await encodeFlac([tone, silence, tone.map(value => -value)], 44000, { bitDepth: 24 });
+
+    expect(decodeFlac(flac, 3, 24)).toEqual(quantize([tone, silence, tone.map(value => -value)], 24));
+
+    const mono = await encodeFlac([tone], 44000, { bitDepth: 16 });
+    expect(decodeFlac(mono, 1, 16)).toEqual(quantize([tone], 16));
+  });
+
+  it('writes STREAMINFO that the FLAC probe reads', async () => {
+    const channel = testSignal(48000 * 2 + 100, 48000);
+    const flac = await encodeFlac([channel, channel], 48000, { bitDepth: 24 });
+
+    expect(parseFlac(flac)).toEqual({
+      container: 'flac',
+      codec: 'flac',
+      duration: (48000 * 2 + 100) / 48000,
+      sampleRate: 48000,
+      channels: 2,
+      bitDepth: 24,
+    });
+  });
+
+  it('signs the interleaved PCM with its MD5', async () => {
+    const left = testSignal(6000, 44100);
+    const right = testSignal(6000, 44100, 2);
+    const flac = await encodeFlac([left, right], 44100, { bitDepth: 16 });
+
+    const [quantisedLeft, quantisedRight] = quantize([left, right], 16);
+    const pcm = new DataView(new ArrayBuffer(6000 * 4));
+    for (let i = 0; i < 6000; i++) {
+      pcm.setInt16(i * 4, quantisedLeft[i], true);
+      pcm.setInt16(i * 4 + 2, quantisedRight[i], true);
+    }
+    const md5 = createHash('md5').update(new Uint8Array(pcm.buffer)).digest();
+
+    expect(Buffer.from(flac.subarray(26, 42)).equals(md5)).toBe(true);
+  });
+
+  it('reports progress up to 1', async () => {
+    const progress: number[] = [];
+    await encodeFlac([new Float32Array(200000)], 44100, { bitDepth: 16 }, value => progress.push(value));
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
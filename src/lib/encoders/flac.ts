@@ -0,0 +1,656 @@
+import { BitWriter } from './bitWriter';
+import { Quantizer } from './dither';
+import type { DitherMode } from './dither';
+import { Md5 } from './md5';
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacEncodeOptions {
+  bitDepth: FlacBitDepth;
+  dither?: DitherMode;
+}
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_LPC_ORDER = 12;
+const MAX_PARTITION_ORDER = 8;
+const MAX_RICE_PARAMETER = 30;
+
+// Channel assignments from the frame header; independent stereo is simply 1
+const LEFT_SIDE = 8;
+const RIGHT_SIDE = 9;
+const MID_SIDE = 10;
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+  24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+
+const SAMPLE_SIZE_CODES: Record<number, number> = {
+  8: 1, 12: 2, 16: 4, 20: 5, 24: 6, 32: 7,
+};
+
+const buildCrcTable = (polynomial: number, width: number): Uint16Array => {
+  const table = new Uint16Array(256);
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+    }
+    table[i] = crc & mask;
+  }
+  return table;
+};
+
+const CRC8_TABLE = buildCrcTable(0x07, 8);
+const CRC16_TABLE = buildCrcTable(0x8005, 16);
+
+const crc8 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC8_TABLE[crc ^ data[i]];
+  }
+  return crc;
+};
+
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ data[i]]) & 0xffff;
+  }
+  return crc;
+};
+
+// Frame numbers use the same variable-length coding as UTF-8
+const encodeFrameNumber = (value: number): number[] => {
+  if (value < 0x80) return [value];
+
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+  } while (remaining >= 2 ** (6 - bytes.length));
+
+  const prefix = (0xff << (7 - bytes.length)) & 0xff;
+  bytes.unshift(prefix | remaining);
+  return bytes;
+};
+
+const getBlockSizeCode = (blockSize: number): number => {
+  if (blockSize === 192) return 1;
+  for (let code = 2; code <= 5; code++) {
+    if (blockSize === 576 << (code - 2)) return code;
+  }
+  for (let code = 8; code <= 15; code++) {
+    if (blockSize === 256 << (code - 8)) return code;
+  }
+  return blockSize <= 256 ? 6 : 7;
+};
+
+const getSampleRateCode = (sampleRate: number): number => {
+  if (SAMPLE_RATE_CODES[sampleRate]) return SAMPLE_RATE_CODES[sampleRate];
+  if (sampleRate % 1000 === 0 && sampleRate / 1000 <= 255) return 12;
+  if (sampleRate <= 65535) return 13;
+  if (sampleRate % 10 === 0 && sampleRate / 10 <= 65535) return 14;
+  return 0;
+};
+
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+interface SubframePlan {
+  type: 'constant' | 'verbatim' | 'fixed' | 'lpc';
+  order: number;
+  bits: number;
+  residual?: Float64Array;
+  rice?: RicePlan;
+  coefficients?: Int32Array;
+  precision?: number;
+  shift?: number;
+}
+
+const bestRiceParameter = (sum: number, count: number): { parameter: number; bits: number } => {
+  if (count === 0) return { parameter: 0, bits: 0 };
+
+  const mean = sum / count;
+  const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  let best = { parameter: 0, bits: Infinity };
+
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAMETER, estimate + 1); k++) {
+    // Upper bound on sum(u >> k), close enough to pick the parameter
+    const bits = count * (k + 1) + Math.floor(sum / 2 ** k);
+    if (bits < best.bits) best = { parameter: k, bits };
+  }
+  return best;
+};
+
+/**
+ * Picks the Rice partition order and per-partition parameters that minimise
+ * the estimated residual size.
+ */
+const planRice = (residual: Float64Array, predictorOrder: number, blockSize: number): RicePlan => {
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    (blockSize >> (maxOrder + 1)) > predictorOrder
+  ) {
+    maxOrder++;
+  }
+
+  const partitionSize = blockSize >> maxOrder;
+  let sums = new Float64Array(1 << maxOrder);
+  let counts = new Float64Array(1 << maxOrder);
+  for (let partition = 0; partition < sums.length; partition++) {
+    const start = partition === 0 ? predictorOrder : partition * partitionSize;
+    const end = (partition + 1) * partitionSize;
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += zigzag(residual[i]);
+    sums[partition] = sum;
+    counts[partition] = end - start;
+  }
+
+  let best: RicePlan = { partitionOrder: 0, parameters: [0], bits: Infinity };
+
+  for (let order = maxOrder; order >= 0; order--) {
+    const parameters: number[] = [];
+    let bits = 0;
+    for (let partition = 0; partition < sums.length; partition++) {
+      const choice = bestRiceParameter(sums[partition], counts[partition]);
+      parameters.push(choice.parameter);
+      bits += choice.bits;
+    }
+    const parameterBits = parameters.some(k => k > 14) ? 5 : 4;
+    bits += 2 + 4 + parameterBits * parameters.length;
+
+    if (bits < best.bits) best = { partitionOrder: order, parameters, bits };
+
+    if (order > 0) {
+      const mergedSums = new Float64Array(sums.length / 2);
+      const mergedCounts = new Float64Array(sums.length / 2);
+      for (let i = 0; i < mergedSums.length; i++) {
+        mergedSums[i] = sums[i * 2] + sums[i * 2 + 1];
+        mergedCounts[i] = counts[i * 2] + counts[i * 2 + 1];
+      }
+      sums = mergedSums;
+      counts = mergedCounts;
+    }
+  }
+
+  return best;
+};
+
+const fixedResidual = (samples: Int32Array, order: number): Float64Array => {
+  const residual = new Float64Array(samples.length);
+  for (let i = order; i < samples.length; i++) {
+    switch (order) {
+      case 0:
+        residual[i] = samples[i];
+        break;
+      case 1:
+        residual[i] = samples[i] - samples[i - 1];
+        break;
+      case 2:
+        residual[i] = samples[i] - 2 * samples[i - 1] + samples[i - 2];
+        break;
+      case 3:
+        residual[i] = samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3];
+        break;
+      default:
+        residual[i] = samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4];
+    }
+  }
+  return residual;
+};
+
+const planFixed = (samples: Int32Array, bitsPerSample: number): SubframePlan => {
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+  let bestOrder = 0;
+  let bestResidual = fixedResidual(samples, 0);
+  let bestSum = Infinity;
+
+  for (let order = 0; order <= maxOrder; order++) {
+    const residual = order === 0 ? bestResidual : fixedResidual(samples, order);
+    let sum = 0;
+    for (let i = order; i < residual.length; i++) sum += Math.abs(residual[i]);
+    if (sum < bestSum) {
+      bestSum = sum;
+      bestOrder = order;
+      bestResidual = residual;
+    }
+  }
+
+  const rice = planRice(bestResidual, bestOrder, samples.length);
+  return {
+    type: 'fixed',
+    order: bestOrder,
+    bits: 8 + bestOrder * bitsPerSample + rice.bits,
+    residual: bestResidual,
+    rice,
+  };
+};
+
+const windowCache = new Map<number, Float64Array>();
+
+// Tukey(0.5) window, as used by the reference encoder
+const getWindow = (length: number): Float64Array => {
+  const cached = windowCache.get(length);
+  if (cached) return cached;
+
+  const window = new Float64Array(length).fill(1);
+  const taper = Math.floor(0.25 * length);
+  for (let i = 0; i < taper; i++) {
+    const value = 0.5 - 0.5 * Math.cos(Math.PI * i / taper);
+    window[i] = value;
+    window[length - 1 - i] = value;
+  }
+  windowCache.set(length, window);
+  return window;
+};
+
+/**
+ * Levinson-Durbin recursion. Returns the predictor coefficients and the
+ * remaining prediction error for every order up to `maxOrder`.
+ */
+const computeLpcCoefficients = (autocorrelation: Float64Array, maxOrder: number) => {
+  const lpc = new Float64Array(maxOrder);
+  const coefficients: Float64Array[] = [];
+  const errors: number[] = [];
+  let error = autocorrelation[0];
+
+  for (let i = 0; i < maxOrder && error > 0; i++) {
+    let reflection = -autocorrelation[i + 1];
+    for (let j = 0; j < i; j++) reflection -= lpc[j] * autocorrelation[i - j];
+    reflection /= error;
+
+    lpc[i] = reflection;
+    for (let j = 0; j < i >> 1; j++) {
+      const tmp = lpc[j];
+      lpc[j] += reflection * lpc[i - 1 - j];
+      lpc[i - 1 - j] += reflection * tmp;
+    }
+    if (i & 1) lpc[i >> 1] += lpc[i >> 1] * reflection;
+
+    error *= 1 - reflection * reflection;
+    coefficients.push(lpc.slice(0, i + 1).map(value => -value));
+    errors.push(error);
+  }
+
+  return { coefficients, errors };
+};
+
+const quantizeCoefficients = (lpc: Float64Array, precision: number) => {
+  let maxCoefficient = 0;
+  lpc.forEach(value => {
+    maxCoefficient = Math.max(maxCoefficient, Math.abs(value));
+  });
+  if (!Number.isFinite(maxCoefficient) || maxCoefficient <= 0) return null;
+
+  const shift = Math.min(15, precision - 2 - Math.floor(Math.log2(maxCoefficient)));
+  if (shift < 0) return null;
+
+  const limit = 2 ** (precision - 1);
+  const quantized = new Int32Array(lpc.length);
+  let error = 0;
+  for (let i = 0; i < lpc.length; i++) {
+    error += lpc[i] * 2 ** shift;
+    const value = Math.max(-limit, Math.min(limit - 1, Math.round(error)));
+    quantized[i] = value;
+    error -= value;
+  }
+
+  return { coefficients: quantized, shift };
+};
+
+const planLpc = (samples: Int32Array, bitsPerSample: number): SubframePlan | null => {
+  const length = samples.length;
+  const maxOrder = Math.min(MAX_LPC_ORDER, length - 1);
+  if (maxOrder < 1) return null;
+
+  const window = getWindow(length);
+  const windowed = new Float64Array(length);
+  for (let i = 0; i < length; i++) windowed[i] = samples[i] * window[i];
+
+  const autocorrelation = new Float64Array(maxOrder + 1);
+  for (let lag = 0; lag <= maxOrder; lag++) {
+    let sum = 0;
+    for (let i = lag; i < length; i++) sum += windowed[i] * windowed[i - lag];
+    autocorrelation[lag] = sum;
+  }
+  if (autocorrelation[0] === 0) return null;
+
+  const precision = bitsPerSample <= 16 ? 12 : 15;
+  const { coefficients, errors } = computeLpcCoefficients(autocorrelation, maxOrder);
+
+  // Choose the order from the prediction error before computing any residual
+  if (coefficients.length === 0) return null;
+
+  let order = 1;
+  let bestEstimate = Infinity;
+  for (let i = 0; i < coefficients.length; i++) {
+    const error = Math.max(errors[i], 1e-10) / length;
+    const estimate = (length - i - 1) * Math.max(0, 0.5 * Math.log2(error)) + (i + 1) * (bitsPerSample + precision);
+    if (estimate < bestEstimate) {
+      bestEstimate = estimate;
+      order = i + 1;
+    }
+  }
+
+  const quantized = quantizeCoefficients(coefficients[order - 1], precision);
+  if (!quantized) return null;
+
+  const { coefficients: qlp, shift } = quantized;
+  const divisor = 2 ** shift;
+  const residual = new Float64Array(length);
+  for (let i = order; i < length; i++) {
+    let prediction = 0;
+    for (let j = 0; j < order; j++) prediction += qlp[j] * samples[i - j - 1];
+    const value = samples[i] - Math.floor(prediction / divisor);
+    // Residuals must fit in a signed 32-bit integer for decoders
+    if (Math.abs(value) >= 2 ** 30) return null;
+    residual[i] = value;
+  }
+
+  const rice = planRice(residual, order, length);
+  return {
+    type: 'lpc',
+    order,
+    bits: 8 + order * bitsPerSample + 4 + 5 + order * precision + rice.bits,
+    residual,
+    rice,
+    coefficients: qlp,
+    precision,
+    shift,
+  };
+};
+
+const planSubframe = (samples: Int32Array, bitsPerSample: number): SubframePlan => {
+  const verbatim: SubframePlan = { type: 'verbatim', order: 0, bits: 8 + samples.length * bitsPerSample };
+
+  if (samples.every(value => value === samples[0])) {
+    return { type: 'constant', order: 0, bits: 8 + bitsPerSample };
+  }
+
+  let best = verbatim;
+  const fixed = planFixed(samples, bitsPerSample);
+  if (fixed.bits < best.bits) best = fixed;
+  const lpc = planLpc(samples, bitsPerSample);
+  if (lpc && lpc.bits < best.bits) best = lpc;
+  return best;
+};
+
+const writeResidual = (writer: BitWriter, residual: Float64Array, order: number, rice: RicePlan) => {
+  const parameterBits = rice.parameters.some(k => k > 14) ? 5 : 4;
+  writer.writeBits(parameterBits === 5 ? 1 : 0, 2);
+  writer.writeBits(rice.partitionOrder, 4);
+
+  const partitionSize = residual.length >> rice.partitionOrder;
+  rice.parameters.forEach((parameter, partition) => {
+    writer.writeBits(parameter, parameterBits);
+    const divisor = 2 ** parameter;
+    const start = partition === 0 ? order : partition * partitionSize;
+    const end = (partition + 1) * partitionSize;
+    for (let i = start; i < end; i++) {
+      const value = zigzag(residual[i]);
+      const quotient = Math.floor(value / divisor);
+      writer.writeUnary(quotient);
+      writer.writeBits(value - quotient * divisor, parameter);
+    }
+  });
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, plan: SubframePlan, bitsPerSample: number) => {
+  switch (plan.type) {
+    case 'constant':
+      writer.writeBits(0x00, 8);
+      writer.writeSigned(samples[0], bitsPerSample);
+      break;
+    case 'verbatim':
+      writer.writeBits(0x02, 8);
+      samples.forEach(value => writer.writeSigned(value, bitsPerSample));
+      break;
+    case 'fixed':
+      writer.writeBits((0x08 | plan.order) << 1, 8);
+      for (let i = 0; i < plan.order; i++) writer.writeSigned(samples[i], bitsPerSample);
+      writeResidual(writer, plan.residual!, plan.order, plan.rice!);
+      break;
+    case 'lpc':
+      writer.writeBits((0x20 | (plan.order - 1)) << 1, 8);
+      for (let i = 0; i < plan.order; i++) writer.writeSigned(samples[i], bitsPerSample);
+      writer.writeBits(plan.precision! - 1, 4);
+      writer.writeSigned(plan.shift!, 5);
+      plan.coefficients!.forEach(value => writer.writeSigned(value, plan.precision!));
+      writeResidual(writer, plan.residual!, plan.order, plan.rice!);
+      break;
+  }
+};
+
+/**
+ * Streaming FLAC encoder. Feed planar float PCM through encode() and collect
+ * the returned frames; after finalize(), getHeader() returns the "fLaC"
+ * marker and STREAMINFO block (with the MD5 of the decoded PCM) that must be
+ * placed in front of them.
+ */
+export class FlacEncoder {
+  private readonly md5 = new Md5();
+  private readonly quantizer: Quantizer;
+  private readonly pending: Int32Array[];
+  private pendingLength = 0;
+  private frameNumber = 0;
+  private totalSamples = 0;
+  private minFrameSize = Infinity;
+  private maxFrameSize = 0;
+  private md5Digest: Uint8Array | null = null;
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly channels: number,
+    private readonly bitDepth: FlacBitDepth,
+    private readonly blockSize = BLOCK_SIZE,
+    dither: DitherMode = 'none'
+  ) {
+    if (channels < 1 || channels > 8) {
+      throw new Error(`FLAC supports 1 to 8 channels, got ${channels}`);
+    }
+    this.quantizer = new Quantizer(bitDepth, channels, dither);
+    this.pending = Array.from({ length: channels }, () => new Int32Array(blockSize));
+  }
+
+  encode(channelData: Float32Array[]): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+    const length = channelData[0]?.length ?? 0;
+    let offset = 0;
+
+    while (offset < length) {
+      const take = Math.min(this.blockSize - this.pendingLength, length - offset);
+      for (let channel = 0; channel < this.channels; channel++) {
+        const source = channelData[channel];
+        const target = this.pending[channel];
+        for (let i = 0; i < take; i++) {
+          target[this.pendingLength + i] = this.quantizer.quantize(source[offset + i], channel);
+        }
+      }
+      this.pendingLength += take;
+      offset += take;
+
+      if (this.pendingLength === this.blockSize) {
+        frames.push(this.encodeFrame(this.blockSize));
+      }
+    }
+
+    return frames;
+  }
+
+  finalize(): Uint8Array[] {
+    const frames = this.pendingLength > 0 ? [this.encodeFrame(this.pendingLength)] : [];
+    this.md5Digest = this.md5.digest();
+    return frames;
+  }
+
+  getHeader(): Uint8Array {
+    if (!this.md5Digest) {
+      throw new Error('FLAC header is only available after finalize()');
+    }
+
+    const writer = new BitWriter(42);
+    writer.writeBytes(new Uint8Array([0x66, 0x4c, 0x61, 0x43])); // "fLaC"
+
+    // Metadata block header: last block, type 0 (STREAMINFO), 34 bytes
+    writer.writeBits(1, 1);
+    writer.writeBits(0, 7);
+    writer.writeBits(34, 24);
+
+    writer.writeBits(this.blockSize, 16);
+    writer.writeBits(this.blockSize, 16);
+    writer.writeBits(this.frameNumber > 0 ? this.minFrameSize : 0, 24);
+    writer.writeBits(this.maxFrameSize, 24);
+    writer.writeBits(this.sampleRate, 20);
+    writer.writeBits(this.channels - 1, 3);
+    writer.writeBits(this.bitDepth - 1, 5);
+    writer.writeBits(this.totalSamples, 36);
+    writer.writeBytes(this.md5Digest);
+
+    return writer.getBytes().slice();
+  }
+
+  private encodeFrame(blockSize: number): Uint8Array {
+    const samples = this.pending.map(channel => channel.subarray(0, blockSize));
+    this.updateMd5(samples, blockSize);
+
+    const writer = new BitWriter(blockSize * this.channels * 4);
+    const blockSizeCode = getBlockSizeCode(blockSize);
+    const sampleRateCode = getSampleRateCode(this.sampleRate);
+
+    const { assignment, subframes } = this.planChannels(samples);
+
+    writer.writeBits(0xfff8, 16);
+    writer.writeBits(blockSizeCode, 4);
+    writer.writeBits(sampleRateCode, 4);
+    writer.writeBits(assignment, 4);
+    writer.writeBits(SAMPLE_SIZE_CODES[this.bitDepth], 3);
+    writer.writeBits(0, 1);
+    writer.writeBytes(new Uint8Array(encodeFrameNumber(this.frameNumber)));
+
+    if (blockSizeCode === 6) writer.writeBits(blockSize - 1, 8);
+    if (blockSizeCode === 7) writer.writeBits(blockSize - 1, 16);
+    if (sampleRateCode === 12) writer.writeBits(this.sampleRate / 1000, 8);
+    if (sampleRateCode === 13) writer.writeBits(this.sampleRate, 16);
+    if (sampleRateCode === 14) writer.writeBits(this.sampleRate / 10, 16);
+
+    writer.writeBits(crc8(writer.getBytes()), 8);
+
+    subframes.forEach(({ samples: data, plan, bitsPerSample }) => {
+      writeSubframe(writer, data, plan, bitsPerSample);
+    });
+
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.getBytes()), 16);
+
+    const frame = writer.getBytes().slice();
+    this.minFrameSize = Math.min(this.minFrameSize, frame.length);
+    this.maxFrameSize = Math.max(this.maxFrameSize, frame.length);
+    this.frameNumber++;
+    this.totalSamples += blockSize;
+    this.pendingLength = 0;
+    return frame;
+  }
+
+  /**
+   * For stereo, tries left/side, right/side and mid/side decorrelation and
+   * keeps whichever pair of subframes comes out smallest.
+   */
+  private planChannels(samples: Int32Array[]) {
+    const bitsPerSample = this.bitDepth;
+
+    if (this.channels !== 2) {
+      return {
+        assignment: this.channels - 1,
+        subframes: samples.map(data => ({ samples: data, plan: planSubframe(data, bitsPerSample), bitsPerSample })),
+      };
+    }
+
+    const [left, right] = samples;
+    const mid = new Int32Array(left.length);
+    const side = new Int32Array(left.length);
+    for (let i = 0; i < left.length; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+
+    const leftFrame = { samples: left, plan: planSubframe(left, bitsPerSample), bitsPerSample };
+    const rightFrame = { samples: right, plan: planSubframe(right, bitsPerSample), bitsPerSample };
+    const midFrame = { samples: mid, plan: planSubframe(mid, bitsPerSample), bitsPerSample };
+    const sideFrame = { samples: side, plan: planSubframe(side, bitsPerSample + 1), bitsPerSample: bitsPerSample + 1 };
+
+    const options = [
+      { assignment: 1, subframes: [leftFrame, rightFrame] },
+      { assignment: LEFT_SIDE, subframes: [leftFrame, sideFrame] },
+      { assignment: RIGHT_SIDE, subframes: [sideFrame, rightFrame] },
+      { assignment: MID_SIDE, subframes: [midFrame, sideFrame] },
+    ];
+
+    return options.reduce((best, option) => {
+      const size = option.subframes[0].plan.bits + option.subframes[1].plan.bits;
+      const bestSize = best.subframes[0].plan.bits + best.subframes[1].plan.bits;
+      return size < bestSize ? option : best;
+    });
+  }
+
+  // The STREAMINFO signature covers interleaved little-endian PCM
+  private updateMd5(samples: Int32Array[], blockSize: number) {
+    const bytesPerSample = this.bitDepth / 8;
+    const bytes = new Uint8Array(blockSize * this.channels * bytesPerSample);
+    let offset = 0;
+    for (let i = 0; i < blockSize; i++) {
+      for (let channel = 0; channel < this.channels; channel++) {
+        const value = samples[channel][i];
+        bytes[offset++] = value & 0xff;
+        bytes[offset++] = (value >> 8) & 0xff;
+        if (bytesPerSample === 3) bytes[offset++] = (value >> 16) & 0xff;
+      }
+    }
+    this.md5.update(bytes);
+  }
+}
+
+/**
+ * Encodes planar float PCM to a FLAC file. Samples are quantised (and
+ * optionally dithered) by the same Quantizer as the WAV exporter.
+ * `onProgress` receives values between 0 and 1.
+ */
+export const encodeFlac = async (
+  channelData: Float32Array[],
+  sampleRate: number,
+  options: FlacEncodeOptions,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const encoder = new FlacEncoder(sampleRate, channelData.length, options.bitDepth, BLOCK_SIZE, options.dither);
+  const length = channelData[0]?.length ?? 0;
+  const chunkSize = BLOCK_SIZE * 16;
+  const frames: Uint8Array[] = [];
+
+  for (let start = 0; start < length; start += chunkSize) {
+    const end = Math.min(length, start + chunkSize);
+    frames.push(...encoder.encode(channelData.map(data => data.subarray(start, end))));
+    onProgress?.(end / length);
+  }
+  frames.push(...encoder.finalize());
+
+  const header = encoder.getHeader();
+  const output = new Uint8Array(header.length + frames.reduce((total, frame) => total + frame.length, 0));
+  output.set(header, 0);
+  let offset = header.length;
+  frames.forEach(frame => {
+    output.set(frame, offset);
+    offset += frame.length;
+  });
+  return output;
+};
@@ -0,0 +1,103 @@
+// Incremental MD5 (RFC 1321). WebCrypto has no MD5, and FLAC's STREAMINFO
+// signature has to be computed over the whole stream as it is encoded.
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+export class Md5 {
+  private state = new Int32Array([0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Int32Array(16);
+
+  update(data: Uint8Array): void {
+    let offset = 0;
+    this.totalLength += data.length;
+
+    while (offset < data.length) {
+      const take = Math.min(64 - this.blockLength, data.length - offset);
+      this.block.set(data.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+
+      if (this.blockLength === 64) {
+        this.processBlock();
+        this.blockLength = 0;
+      }
+    }
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+
+    // Padding: 0x80, zeros up to 56 mod 64, then the 64-bit little-endian length
+    const padding = new Uint8Array(((this.blockLength < 56 ? 56 : 120) - this.blockLength));
+    padding[0] = 0x80;
+    const lengthBytes = new Uint8Array(8);
+    const view = new DataView(lengthBytes.buffer);
+    view.setUint32(0, bitLength >>> 0, true);
+    view.setUint32(4, Math.floor(bitLength / 0x100000000), true);
+
+    const savedLength = this.totalLength;
+    this.update(padding);
+    this.update(lengthBytes);
+    this.totalLength = savedLength;
+
+    const result = new Uint8Array(16);
+    const resultView = new DataView(result.buffer);
+    for (let i = 0; i < 4; i++) {
+      resultView.setInt32(i * 4, this.state[i], true);
+    }
+    return result;
+  }
+
+  private processBlock(): void {
+    const w = this.words;
+    const b = this.block;
+    for (let i = 0; i < 16; i++) {
+      w[i] = b[i * 4] | (b[i * 4 + 1] << 8) | (b[i * 4 + 2] << 16) | (b[i * 4 + 3] << 24);
+    }
+
+    let a = this.state[0];
+    let bb = this.state[1];
+    let c = this.state[2];
+    let d = this.state[3];
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (bb & c) | (~bb & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & bb) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = bb ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (bb | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const temp = d;
+      d = c;
+      c = bb;
+      const sum = (a + f + CONSTANTS[i] + w[g]) | 0;
+      bb = (bb + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+      a = temp;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + bb) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { encodeMp3 } from './mp3';
+import { parseMpeg } from '../probe/mpeg';
+
+const readAscii = (data: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...data.subarray(offset, offset + length));
+
+// Reflected CRC-16 (0xa001), as LAME computes it for the tag and the music
+const crc16 = (data: Uint8Array): number => {
+  let crc = 0;
+  data.forEach(byte => {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  });
+  return crc;
+};
+
+const sine = (length: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / sampleRate));
+
+// MPEG-1 Layer III frame length from its header, for walking the stream
+const frameLength = (data: Uint8Array, offset: number) => {
+  const bitrates = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+  const sampleRates = [44100, 48000, 32000];
+  const bitrate = bitrates[data[offset + 2] >> 4] * 1000;
+  const sampleRate = sampleRates[(data[offset + 2] >> 2) & 0x03];
+  return Math.floor((144 * bitrate) / sampleRate) + ((data[offset + 2] >> 1) & 0x01);
+};
+
+describe('encodeMp3', () => {
+  const sampleRate = 44100;
+  const length = 44100 * 2 + 123;
+  const channel = sine(length, sampleRate);
+
+  it('starts with an Info frame describing the stream', async () => {
+    const mp3 = await encodeMp3([channel, channel], sampleRate, { bitrate: 192, outputSampleRate: 44100 });
+    const view = new DataView(mp3.buffer, mp3.byteOffset);
+
+    // Stereo MPEG-1: 32 bytes of side information after the header
+    const xing = 4 + 32;
+    const lame = xing + 120;
+    expect(readAscii(mp3, xing, 4)).toBe('Info');
+    expect(view.getUint32(xing + 4)).toBe(0x0f);
+    expect(view.getUint32(xing + 12)).toBe(mp3.length);
+    expect(readAscii(mp3, lame, 9)).toBe('LAME3.100');
+
+    // Walking the audio frames gives the count and size the tag claims
+    const infoLength = frameLength(mp3, 0);
+    let frames = 0;
+    for (let offset = infoLength; offset < mp3.length; offset += frameLength(mp3, offset)) {
+      expect(mp3[offset]).toBe(0xff);
+      frames++;
+    }
+    expect(view.getUint32(xing + 8)).toBe(frames);
+
+    const delay = (mp3[lame + 21] << 4) | (mp3[lame + 22] >> 4);
+    const padding = ((mp3[lame + 22] & 0x0f) << 8) | mp3[lame + 23];
+    expect(delay).toBe(576);
+    expect(frames * 1152 - delay - padding).toBe(length);
+
+    expect(view.getUint32(lame + 28)).toBe(mp3.length);
+    expect(view.getUint16(lame + 32)).toBe(crc16(mp3.subarray(infoLength)));
+    expect(view.getUint16(lame + 34)).toBe(crc16(mp3.subarray(0, lame + 34)));
+  });
+
+  it('keeps the TOC increasing and within the file', async () => {
+    const mp3 = await encodeMp3([channel], sampleRate, { bitrate: 128, outputSampleRate: 44100 });
+    // Mono MPEG-1: 17 bytes of side information
+    const toc = Array.from(mp3.subarray(4 + 17 + 16, 4 + 17 + 116));
+
+    expect(toc[0]).toBeLessThan(5);
+    expect(toc).toEqual([...toc].sort((a, b) => a - b));
+  });
+
+  it('gives the probe the exact duration after resampling', async () => {
+    const mp3 = await encodeMp3([channel, channel], sampleRate, { bitrate: 320, outputSampleRate: 48000 });
+
+    expect(parseMpeg(mp3)).toEqual({
+      container: 'mp3',
+      codec: 'mp3',
+      duration: Math.round((length * 48000) / sampleRate) / 48000,
+      sampleRate: 48000,
+      channels: 2,
+    });
+  });
+
+  it('reports progress up to 1', async () => {
+    const progress: number[] = [];
+    await encodeMp3([channel], sampleRate, { bitrate: 128, outputSampleRate: 44100 }, value => progress.push(value));
+
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+});
@@ -0,0 +1,225 @@
+import { createMp3Encoder } from 'wasm-media-encoders';
+
+export type Mp3Bitrate = 128 | 160 | 192 | 224 | 256 | 320;
+export type Mp3SampleRate = 32000 | 44100 | 48000;
+
+export interface Mp3EncodeOptions {
+  bitrate: Mp3Bitrate;
+  outputSampleRate: Mp3SampleRate;
+}
+
+// Samples handed to LAME per encode() call; also the progress granularity
+const ENCODE_CHUNK_SIZE = 1152 * 32;
+
+// LAME's own encoder delay in samples; decoders add their 529-sample delay on top
+const LAME_ENCODER_DELAY = 576;
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+interface FrameHeader {
+  versionBits: number;
+  bitrateIndex: number;
+  sampleRate: number;
+  isMono: boolean;
+  samplesPerFrame: number;
+  size: number;
+}
+
+const parseFrameHeader = (data: Uint8Array, offset: number): FrameHeader | null => {
+  if (offset + 4 > data.length) return null;
+  if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (data[offset + 1] >> 3) & 0x03;
+  const layerBits = (data[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (data[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  const channelMode = (data[offset + 3] >> 6) & 0x03;
+
+  // Layer III only, no free-format or reserved values
+  if (versionBits === 1 || layerBits !== 1) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const isMpeg1 = versionBits === 3;
+  const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+  const samplesPerFrame = isMpeg1 ? 1152 : 576;
+  const size = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+
+  return {
+    versionBits,
+    bitrateIndex,
+    sampleRate,
+    isMono: channelMode === 3,
+    samplesPerFrame,
+    size,
+  };
+};
+
+// CRC-16 as used by the LAME tag (polynomial 0x8005, reflected)
+const crc16 = (data: Uint8Array, start: number, end: number, initial = 0): number => {
+  let crc = initial;
+  for (let i = start; i < end; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc & 0xffff;
+};
+
+/**
+ * Builds a CBR "Info" frame (Xing header plus LAME extension) for the given
+ * stream so players can show the exact duration, seek via the TOC and trim
+ * the encoder delay/padding for gapless playback.
+ */
+const buildInfoFrame = (audio: Uint8Array, frameOffsets: number[], totalSamples: number): Uint8Array => {
+  const first = parseFrameHeader(audio, frameOffsets[0])!;
+  const isMpeg1 = first.versionBits === 3;
+  const sideInfoSize = isMpeg1 ? (first.isMono ? 17 : 32) : (first.isMono ? 9 : 17);
+  const xingOffset = 4 + sideInfoSize;
+  const lameOffset = xingOffset + 120;
+  const requiredSize = lameOffset + 36;
+
+  // Use the stream's own bitrate unless the tag does not fit in such a frame
+  let bitrateIndex = first.bitrateIndex;
+  const frameSizeFor = (index: number) => {
+    const bitrate = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[index] * 1000;
+    return Math.floor((first.samplesPerFrame / 8) * bitrate / first.sampleRate);
+  };
+  while (frameSizeFor(bitrateIndex) < requiredSize && bitrateIndex < 14) {
+    bitrateIndex++;
+  }
+
+  const frameSize = frameSizeFor(bitrateIndex);
+  const frame = new Uint8Array(frameSize);
+  const view = new DataView(frame.buffer);
+
+  // Header copied from the first audio frame, padding bit cleared, no CRC
+  frame[0] = 0xff;
+  frame[1] = audio[frameOffsets[0] + 1] | 0x01;
+  frame[2] = (bitrateIndex << 4) | (audio[frameOffsets[0] + 2] & 0x0c);
+  frame[3] = audio[frameOffsets[0] + 3];
+
+  const audioBytes = audio.length;
+  const totalBytes = audioBytes + frameSize;
+  const frameCount = frameOffsets.length;
+
+  // Xing/Info tag: frames, bytes, TOC and quality fields present
+  frame.set([0x49, 0x6e, 0x66, 0x6f], xingOffset); // "Info" (CBR)
+  view.setUint32(xingOffset + 4, 0x0000000f);
+  view.setUint32(xingOffset + 8, frameCount);
+  view.setUint32(xingOffset + 12, totalBytes);
+  for (let i = 0; i < 100; i++) {
+    const frameIndex = Math.min(frameCount - 1, Math.floor((i / 100) * frameCount));
+    const byteOffset = frameSize + frameOffsets[frameIndex];
+    frame[xingOffset + 16 + i] = Math.min(255, Math.floor((byteOffset / totalBytes) * 256));
+  }
+  view.setUint32(xingOffset + 116, 0);
+
+  // LAME extension
+  const encoder = 'LAME3.100';
+  for (let i = 0; i < encoder.length; i++) {
+    frame[lameOffset + i] = encoder.charCodeAt(i);
+  }
+  frame[lameOffset + 9] = 0x01; // tag revision 0, CBR
+  const bitrateKbps = (isMpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[first.bitrateIndex];
+  frame[lameOffset + 20] = Math.min(255, bitrateKbps);
+
+  const padding = Math.max(0, frameCount * first.samplesPerFrame - totalSamples - LAME_ENCODER_DELAY);
+  const delay = Math.min(LAME_ENCODER_DELAY, 0xfff);
+  const pad = Math.min(padding, 0xfff);
+  frame[lameOffset + 21] = delay >> 4;
+  frame[lameOffset + 22] = ((delay & 0x0f) << 4) | (pad >> 8);
+  frame[lameOffset + 23] = pad & 0xff;
+
+  view.setUint32(lameOffset + 28, totalBytes);
+  view.setUint16(lameOffset + 32, crc16(audio, 0, audioBytes));
+  view.setUint16(lameOffset + 34, crc16(frame, 0, lameOffset + 34));
+
+  return frame;
+};
+
+const findFrameOffsets = (data: Uint8Array): number[] => {
+  const offsets: number[] = [];
+  let offset = 0;
+
+  while (offset < data.length) {
+    const header = parseFrameHeader(data, offset);
+    if (!header) {
+      offset++;
+      continue;
+    }
+    offsets.push(offset);
+    offset += header.size;
+  }
+
+  return offsets;
+};
+
+/**
+ * Encodes planar float PCM to a CBR MP3 with LAME, prefixed with a Xing/LAME
+ * Info frame. `onProgress` receives values between 0 and 1.
+ */
+export const encodeMp3 = async (
+  channelData: Float32Array[],
+  sampleRate: number,
+  options: Mp3EncodeOptions,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const encoder = await createMp3Encoder();
+  const channels = Math.min(2, channelData.length) as 1 | 2;
+  const length = channelData[0]?.length ?? 0;
+
+  encoder.configure({
+    channels,
+    sampleRate,
+    bitrate: options.bitrate,
+    outputSampleRate: options.outputSampleRate,
+  });
+
+  // encode() returns a view into WASM memory, so every chunk must be copied
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+
+  for (let start = 0; start < length; start += ENCODE_CHUNK_SIZE) {
+    const end = Math.min(length, start + ENCODE_CHUNK_SIZE);
+    const pcm = channelData.slice(0, channels).map(data => data.subarray(start, end));
+    const encoded = encoder.encode(pcm);
+    if (encoded.length > 0) {
+      chunks.push(encoded.slice());
+      byteLength += encoded.length;
+    }
+    onProgress?.(end / length);
+  }
+
+  const tail = encoder.finalize();
+  chunks.push(tail.slice());
+  byteLength += tail.length;
+
+  const audio = new Uint8Array(byteLength);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    audio.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  const frameOffsets = findFrameOffsets(audio);
+  if (frameOffsets.length === 0) {
+    throw new Error('MP3 encoder produced no audio frames');
+  }
+
+  const totalSamples = Math.round(length * options.outputSampleRate / sampleRate);
+  const infoFrame = buildInfoFrame(audio, frameOffsets, totalSamples);
+
+  const output = new Uint8Array(infoFrame.length + audio.length);
+  output.set(infoFrame, 0);
+  output.set(audio, infoFrame.length);
+  return output;
+};
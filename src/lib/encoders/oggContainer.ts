@@ -0,0 +1,139 @@
+// Ogg pages are flushed once their body reaches this size, as libogg does
+const TARGET_PAGE_SIZE = 4096;
+const MAX_SEGMENTS = 255;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 as used by Ogg: polynomial 0x04c11db7, no reflection, no final XOR
+export const oggCrc32 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+export const randomSerialNumber = (): number => Math.floor(Math.random() * 0xffffffff);
+
+/**
+ * Packs codec packets into a single logical Ogg bitstream. Each packet is
+ * given the granule position reached once it has been decoded; a page
+ * carries the granule of the last packet that completes on it.
+ */
+export class OggPageWriter {
+  private readonly pages: Uint8Array[] = [];
+  private segments: number[] = [];
+  private payload: Uint8Array[] = [];
+  private payloadLength = 0;
+  private granule = -1;
+  private lastGranule = 0;
+  private sequence = 0;
+  private continued = false;
+  private ended = false;
+
+  constructor(private readonly serialNumber: number = randomSerialNumber()) {}
+
+  addPacket(packet: Uint8Array, granule: number, { flush = false, endOfStream = false } = {}): void {
+    const lacing: number[] = [];
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+
+    // Start a new page rather than split a packet that would fit on one
+    if (this.segments.length > 0 && this.segments.length + lacing.length > MAX_SEGMENTS) {
+      this.emitPage(false);
+    }
+
+    let offset = 0;
+    lacing.forEach(value => {
+      if (this.segments.length === MAX_SEGMENTS) {
+        this.emitPage(false);
+        this.continued = true;
+      }
+      this.segments.push(value);
+      this.payload.push(packet.subarray(offset, offset + value));
+      this.payloadLength += value;
+      offset += value;
+    });
+
+    this.granule = granule;
+    this.lastGranule = granule;
+
+    if (flush || endOfStream || this.payloadLength >= TARGET_PAGE_SIZE) {
+      this.emitPage(endOfStream);
+    }
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  // Closes the stream (if no packet was marked endOfStream) and returns all
+  // pages; pass endOfStream: false when more pages will be appended later
+  finish({ endOfStream = true } = {}): Uint8Array {
+    if (!endOfStream) {
+      if (this.segments.length > 0) this.emitPage(false);
+    } else if (!this.ended) {
+      if (this.segments.length === 0) this.granule = this.lastGranule;
+      this.emitPage(true);
+    }
+
+    const output = new Uint8Array(this.pages.reduce((total, page) => total + page.length, 0));
+    let offset = 0;
+    this.pages.forEach(page => {
+      output.set(page, offset);
+      offset += page.length;
+    });
+    return output;
+  }
+
+  private emitPage(endOfStream: boolean): void {
+    const headerSize = 27 + this.segments.length;
+    const page = new Uint8Array(headerSize + this.payloadLength);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+    page[4] = 0;
+    page[5] = (this.continued ? 0x01 : 0) | (this.sequence === 0 ? 0x02 : 0) | (endOfStream ? 0x04 : 0);
+    if (this.granule < 0) {
+      view.setUint32(6, 0xffffffff, true);
+      view.setUint32(10, 0xffffffff, true);
+    } else {
+      view.setUint32(6, this.granule % 0x100000000, true);
+      view.setUint32(10, Math.floor(this.granule / 0x100000000), true);
+    }
+    view.setUint32(14, this.serialNumber, true);
+    view.setUint32(18, this.sequence, true);
+    page[26] = this.segments.length;
+    page.set(this.segments, 27);
+
+    let offset = headerSize;
+    this.payload.forEach(part => {
+      page.set(part, offset);
+      offset += part.length;
+    });
+    view.setUint32(22, oggCrc32(page), true);
+
+    this.pages.push(page);
+    this.segments = [];
+    this.payload = [];
+    this.payloadLength = 0;
+    this.granule = -1;
+    this.sequence++;
+    this.continued = false;
+    if (endOfStream) this.ended = true;
+  }
+}
@@ -0,0 +1,196 @@
+import { OggPageWriter } from './oggContainer';
+
+export type OggCodec = 'opus' | 'vorbis';
+
+export interface OggEncodeOptions {
+  codec: OggCodec;
+  bitrate: number; // kbit/s
+}
+
+// Opus always runs at 48 kHz; granule positions count 48 kHz samples
+export const OPUS_SAMPLE_RATE = 48000;
+
+// libopus lookahead at 48 kHz, used when the encoder doesn't report its own
+const DEFAULT_PRE_SKIP = 312;
+
+// Samples fed to the encoder per AudioData
+const ENCODE_CHUNK_SIZE = OPUS_SAMPLE_RATE;
+const MAX_ENCODE_QUEUE = 4;
+
+const VENDOR = 'Wave2Music';
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Whether this context can encode Opus through WebCodecs. Firefox and Safari
+ * expose AudioEncoder in different contexts than Chrome, so workers should
+ * check for themselves.
+ */
+export const isOpusEncodingSupported = async (numberOfChannels: number, bitrate: number): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+
+  try {
+    const support = await AudioEncoder.isConfigSupported({
+      codec: 'opus',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels,
+      bitrate: bitrate * 1000,
+    });
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+};
+
+const toBytes = (source: BufferSource): Uint8Array => {
+  if (source instanceof ArrayBuffer) return new Uint8Array(source);
+  return new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+};
+
+// Chrome reports an OpusHead as the decoder description; take its pre-skip
+const readPreSkip = (description: BufferSource): number | null => {
+  const bytes = toBytes(description);
+  const magic = String.fromCharCode(...bytes.subarray(0, 8));
+  if (magic !== 'OpusHead' || bytes.length < 12) return null;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+const buildOpusHead = (channels: number, preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(textEncoder.encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // mapping family: mono/stereo
+  return head;
+};
+
+const buildOpusTags = (): Uint8Array => {
+  const vendor = textEncoder.encode(VENDOR);
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(textEncoder.encode('OpusTags'), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // no user comments
+  return tags;
+};
+
+// Decoded length of an Opus packet at 48 kHz, from its TOC byte (RFC 6716 3.1)
+const getPacketSamples = (packet: Uint8Array): number => {
+  if (packet.length === 0) return 0;
+
+  const config = packet[0] >> 3;
+  let frameSize: number;
+  if (config < 12) {
+    frameSize = [480, 960, 1920, 2880][config & 0x03]; // SILK
+  } else if (config < 16) {
+    frameSize = [480, 960][config & 0x01]; // hybrid
+  } else {
+    frameSize = [120, 240, 480, 960][config & 0x03]; // CELT
+  }
+
+  const frameCountCode = packet[0] & 0x03;
+  const frameCount = frameCountCode === 0 ? 1 : frameCountCode === 3 ? (packet[1] ?? 0) & 0x3f : 2;
+  return frameSize * frameCount;
+};
+
+/**
+ * Encodes 48 kHz planar float PCM to Ogg Opus (RFC 7845) using the browser's
+ * WebCodecs AudioEncoder. `onProgress` receives values between 0 and 1.
+ */
+export const encodeOpus = async (
+  channelData: Float32Array[],
+  sampleRate: number,
+  bitrate: number,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  if (sampleRate !== OPUS_SAMPLE_RATE) {
+    throw new Error(`Opus encoding requires ${OPUS_SAMPLE_RATE} Hz input, got ${sampleRate} Hz`);
+  }
+
+  const channels = Math.min(2, channelData.length);
+  const length = channelData[0]?.length ?? 0;
+  const packets: Uint8Array[] = [];
+  const state = { preSkip: DEFAULT_PRE_SKIP, error: null as DOMException | null };
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        state.preSkip = readPreSkip(description) ?? state.preSkip;
+      }
+
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      packets.push(packet);
+
+      if (length > 0) {
+        onProgress?.(Math.min(1, (chunk.timestamp / 1_000_000) * sampleRate / length));
+      }
+    },
+    error: (error) => {
+      state.error = error;
+    },
+  });
+
+  encoder.configure({
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels: channels,
+    bitrate: bitrate * 1000,
+  });
+
+  for (let start = 0; start < length; start += ENCODE_CHUNK_SIZE) {
+    if (state.error) break;
+
+    const frames = Math.min(ENCODE_CHUNK_SIZE, length - start);
+    const planar = new Float32Array(frames * channels);
+    for (let channel = 0; channel < channels; channel++) {
+      planar.set(channelData[channel].subarray(start, start + frames), channel * frames);
+    }
+
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((start / sampleRate) * 1_000_000),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+
+    // Let the encoder drain so the whole song isn't queued up in memory
+    while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  if (!state.error) {
+    await encoder.flush();
+  }
+  encoder.close();
+
+  if (state.error) {
+    throw new Error(`Opus encoding failed: ${state.error.message}`);
+  }
+
+  const writer = new OggPageWriter();
+  writer.addPacket(buildOpusHead(channels, state.preSkip, sampleRate), 0, { flush: true });
+  writer.addPacket(buildOpusTags(), 0, { flush: true });
+
+  // The final granule trims the encoder's padding from the last packet
+  const finalGranule = state.preSkip + length;
+  let granule = 0;
+  packets.forEach((packet, index) => {
+    granule += getPacketSamples(packet);
+    const isLast = index === packets.length - 1;
+    writer.addPacket(packet, isLast ? finalGranule : Math.min(granule, finalGranule), { endOfStream: isLast });
+  });
+
+  return writer.finish();
+};
@@ -0,0 +1,67 @@
+import { createOggEncoder } from 'wasm-media-encoders';
+
+// Samples handed to libvorbis per encode() call; also the progress granularity
+const ENCODE_CHUNK_SIZE = 1024 * 32;
+
+// Approximate nominal bitrates (kbit/s, stereo 44.1 kHz) of the Vorbis quality levels
+const QUALITY_BITRATES: [number, number][] = [
+  [64, 0], [80, 1], [96, 2], [112, 3], [128, 4], [160, 5],
+  [192, 6], [224, 7], [256, 8], [320, 9], [500, 10],
+];
+
+export const getVorbisQuality = (bitrate: number): number => {
+  let quality = QUALITY_BITRATES[0][1];
+  QUALITY_BITRATES.forEach(([nominal, level]) => {
+    if (bitrate >= nominal) quality = level;
+  });
+  return quality;
+};
+
+/**
+ * Encodes planar float PCM to Ogg Vorbis with the WASM build of libvorbis,
+ * for browsers without a WebCodecs Opus encoder. `onProgress` receives values
+ * between 0 and 1.
+ */
+export const encodeVorbis = async (
+  channelData: Float32Array[],
+  sampleRate: number,
+  bitrate: number,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const encoder = await createOggEncoder();
+  const channels = Math.min(2, channelData.length) as 1 | 2;
+  const length = channelData[0]?.length ?? 0;
+
+  encoder.configure({
+    channels,
+    sampleRate,
+    vbrQuality: getVorbisQuality(bitrate),
+  });
+
+  // encode() returns a view into WASM memory, so every chunk must be copied
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+
+  for (let start = 0; start < length; start += ENCODE_CHUNK_SIZE) {
+    const end = Math.min(length, start + ENCODE_CHUNK_SIZE);
+    const pcm = channelData.slice(0, channels).map(data => data.subarray(start, end));
+    const encoded = encoder.encode(pcm);
+    if (encoded.length > 0) {
+      chunks.push(encoded.slice());
+      byteLength += encoded.length;
+    }
+    onProgress?.(end / length);
+  }
+
+  const tail = encoder.finalize();
+  chunks.push(tail.slice());
+  byteLength += tail.length;
+
+  const output = new Uint8Array(byteLength);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
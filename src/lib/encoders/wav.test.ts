@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wav';
+import { parseWav } from '../probe/riff';
+
+const readAscii = (data: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...data.subarray(offset, offset + length));
+
+describe('encodeWav', () => {
+  it('writes a canonical 16-bit PCM header', async () => {
+    const left = new Float32Array(100);
+    const right = new Float32Array(100);
+    const wav = await encodeWav([left, right], 48000, { bitDepth: 16 });
+    const view = new DataView(wav.buffer);
+
+    expect(wav.length).toBe(44 + 100 * 4);
+    expect(readAscii(wav, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(wav.length - 8);
+    expect(readAscii(wav, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readAscii(wav, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(400);
+  });
+
+  it('interleaves channels and rounds 16-bit samples without dither', async () => {
+    const left = Float32Array.from([0, 0.5, -0.5, 1]);
+    const right = Float32Array.from([1, -1, 0.25, 2]);
+    const wav = await encodeWav([left, right], 44100, { bitDepth: 16, dither: 'none' });
+    const view = new DataView(wav.buffer, 44);
+
+    const samples = Array.from({ length: 8 }, (_, i) => view.getInt16(i * 2, true));
+    // Halves round up, as in the original exporters: -16383.5 becomes -16383
+    expect(samples).toEqual([0, 32767, 16384, -32767, -16383, 8192, 32767, 32767]);
+  });
+
+  it('writes 24-bit samples as three little-endian bytes', async () => {
+    const wav = await encodeWav([Float32Array.from([-1, 0.5])], 44100, { bitDepth: 24 });
+    const data = wav.subarray(44);
+    const read24 = (offset: number) => ((data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16)) << 8) >> 8;
+
+    expect(wav.length).toBe(44 + 6);
+    expect(read24(0)).toBe(-8388607);
+    expect(read24(3)).toBe(4194304);
+  });
+
+  it('stores 32-bit samples as IEEE float, clipped to full scale', async () => {
+    const wav = await encodeWav([Float32Array.from([0.123, -1.5])], 44100, { bitDepth: 32 });
+    const view = new DataView(wav.buffer);
+
+    expect(view.getUint16(20, true)).toBe(3);
+    expect(view.getFloat32(44, true)).toBeCloseTo(0.123, 6);
+    expect(view.getFloat32(48, true)).toBe(-1);
+  });
+
+  it('is read back by the WAV probe', async () => {
+    const channel = new Float32Array(22050);
+    const wav = await encodeWav([channel, channel], 22050, { bitDepth: 24, dither: 'tpdf' });
+
+    expect(parseWav(wav)).toEqual({
+      container: 'wav',
+      codec: 'pcm',
+      duration: 1,
+      sampleRate: 22050,
+      channels: 2,
+      bitDepth: 24,
+    });
+  });
+});
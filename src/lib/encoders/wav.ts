@@ -0,0 +1,85 @@
+import { Quantizer } from './dither';
+import type { DitherMode } from './dither';
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavEncodeOptions {
+  bitDepth: WavBitDepth;
+  // Integer formats only; float samples are written as they are
+  dither?: DitherMode;
+}
+
+const PCM_FORMAT = 1;
+const IEEE_FLOAT_FORMAT = 3;
+
+/**
+ * Writes interleaved PCM in a canonical 44-byte-header WAV file. 16 and
+ * 24-bit samples are integers; 32-bit samples are stored as float.
+ */
+export const encodeWav = async (
+  channelData: Float32Array[],
+  sampleRate: number,
+  options: WavEncodeOptions,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> => {
+  const { bitDepth } = options;
+  const length = channelData[0]?.length ?? 0;
+  const numberOfChannels = channelData.length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+
+  const output = new Uint8Array(44 + dataSize);
+  const view = new DataView(output.buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, output.length - 8, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? IEEE_FLOAT_FORMAT : PCM_FORMAT, true);
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  const quantizer = new Quantizer(bitDepth, numberOfChannels, options.dither);
+  const progressInterval = Math.max(1, Math.floor(sampleRate * 10));
+
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const sample = channelData[channel][i];
+
+      if (bitDepth === 32) {
+        view.setFloat32(offset, Math.max(-1, Math.min(1, sample)), true);
+      } else {
+        const intSample = quantizer.quantize(sample, channel);
+        if (bitDepth === 16) {
+          view.setInt16(offset, intSample, true);
+        } else {
+          output[offset] = intSample & 0xff;
+          output[offset + 1] = (intSample >> 8) & 0xff;
+          output[offset + 2] = (intSample >> 16) & 0xff;
+        }
+      }
+      offset += bytesPerSample;
+    }
+
+    if (i % progressInterval === 0) {
+      onProgress?.(i / length);
+    }
+  }
+  onProgress?.(1);
+
+  return output;
+};
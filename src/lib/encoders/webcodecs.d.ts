@@ -0,0 +1,76 @@
+// The subset of the WebCodecs audio API used by the Opus encoder. TypeScript's
+// DOM lib only ships the video half of WebCodecs so far.
+
+interface AudioEncoderConfig {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate?: number;
+  bitrateMode?: 'constant' | 'variable';
+  opus?: {
+    frameDuration?: number;
+    complexity?: number;
+  };
+}
+
+interface AudioEncoderSupport {
+  supported?: boolean;
+  config?: AudioEncoderConfig;
+}
+
+interface AudioDataInit {
+  format: 'f32-planar' | 'f32' | 's16' | 's16-planar' | 's32' | 's32-planar' | 'u8' | 'u8-planar';
+  sampleRate: number;
+  numberOfFrames: number;
+  numberOfChannels: number;
+  timestamp: number;
+  data: BufferSource;
+  transfer?: ArrayBuffer[];
+}
+
+interface AudioData {
+  readonly numberOfFrames: number;
+  readonly timestamp: number;
+  close(): void;
+}
+
+declare const AudioData: {
+  prototype: AudioData;
+  new (init: AudioDataInit): AudioData;
+};
+
+interface EncodedAudioChunk {
+  readonly type: 'key' | 'delta';
+  readonly timestamp: number;
+  readonly duration: number | null;
+  readonly byteLength: number;
+  copyTo(destination: BufferSource): void;
+}
+
+interface EncodedAudioChunkMetadata {
+  decoderConfig?: {
+    codec: string;
+    sampleRate: number;
+    numberOfChannels: number;
+    description?: BufferSource;
+  };
+}
+
+interface AudioEncoderInit {
+  output: (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => void;
+  error: (error: DOMException) => void;
+}
+
+interface AudioEncoder {
+  readonly encodeQueueSize: number;
+  configure(config: AudioEncoderConfig): void;
+  encode(data: AudioData): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+declare const AudioEncoder: {
+  prototype: AudioEncoder;
+  new (init: AudioEncoderInit): AudioEncoder;
+  isConfigSupported(config: AudioEncoderConfig): Promise<AudioEncoderSupport>;
+};
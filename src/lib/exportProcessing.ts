@@ -0,0 +1,73 @@
+import { resample } from './resampler';
+import type { ResamplingMode } from './resampler';
+
+export interface ProcessingSettings {
+  sampleRate: number;
+  resampling: ResamplingMode;
+  normalize: boolean;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+// Peak level normalization aims for, leaving a little headroom
+const NORMALIZE_PEAK = 0.95;
+
+/**
+ * Converts to the export sample rate, then applies normalization and fades.
+ * Channels already at the target rate are processed in place.
+ */
+export const processChannels = (
+  channelData: Float32Array[],
+  sampleRate: number,
+  settings: ProcessingSettings,
+  onProgress?: (progress: number) => void
+): Float32Array[] => {
+  // Resampling dominates the work, so it gets most of the progress range
+  const resampleWeight = settings.sampleRate === sampleRate ? 0 : 0.8;
+  const stageWeight = (1 - resampleWeight) / 2;
+
+  const output = channelData.map((data, channel) =>
+    resample(data, sampleRate, settings.sampleRate, settings.resampling, (progress) => {
+      onProgress?.(((channel + progress) / channelData.length) * resampleWeight);
+    })
+  );
+  onProgress?.(resampleWeight);
+
+  // Apply normalization
+  if (settings.normalize) {
+    let maxValue = 0;
+    output.forEach(data => {
+      for (let i = 0; i < data.length; i++) {
+        maxValue = Math.max(maxValue, Math.abs(data[i]));
+      }
+    });
+
+    if (maxValue > 0) {
+      const normalizeGain = NORMALIZE_PEAK / maxValue;
+      output.forEach(data => {
+        for (let i = 0; i < data.length; i++) {
+          data[i] *= normalizeGain;
+        }
+      });
+    }
+  }
+  onProgress?.(resampleWeight + stageWeight);
+
+  // Apply fade in/out
+  if (settings.fadeIn > 0 || settings.fadeOut > 0) {
+    const fadeInSamples = Math.floor(settings.fadeIn * settings.sampleRate);
+    const fadeOutSamples = Math.floor(settings.fadeOut * settings.sampleRate);
+
+    output.forEach(data => {
+      for (let i = 0; i < Math.min(fadeInSamples, data.length); i++) {
+        data[i] *= i / fadeInSamples;
+      }
+      for (let i = Math.max(0, data.length - fadeOutSamples); i < data.length; i++) {
+        data[i] *= (data.length - i) / fadeOutSamples;
+      }
+    });
+  }
+  onProgress?.(1);
+
+  return output;
+};
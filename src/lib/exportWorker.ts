@@ -0,0 +1,112 @@
+import type { FlacEncodeOptions } from './encoders/flac';
+import type { Mp3EncodeOptions } from './encoders/mp3';
+import type { OggEncodeOptions } from './encoders/opus';
+import type { WavEncodeOptions } from './encoders/wav';
+import type { ProcessingSettings } from './exportProcessing';
+import type { AudioTags } from './tags';
+
+export type ExportWorkerRequest = {
+  id: string;
+  channelData: Float32Array[];
+  sampleRate: number;
+  processing: ProcessingSettings;
+  tags: AudioTags;
+} & (
+  | { format: 'wav'; options: WavEncodeOptions }
+  | { format: 'mp3'; options: Mp3EncodeOptions }
+  | { format: 'flac'; options: FlacEncodeOptions }
+  | { format: 'ogg'; options: OggEncodeOptions }
+);
+
+export type ExportWorkerResponse =
+  | { id: string; type: 'progress'; progress: number }
+  | { id: string; type: 'done'; data: Uint8Array }
+  | { id: string; type: 'error'; error: string };
+
+export type ExportWorkerParams = Omit<ExportWorkerRequest, 'id' | 'channelData' | 'sampleRate'>;
+
+export interface ExportWorkerOptions {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Reason passed to AbortController.abort() when the user cancels an export
+export const createAbortError = () => new DOMException('Export cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Processes and encodes audio in a dedicated worker so long exports don't
+ * block the UI. The channel arrays are transferred, so they are unusable
+ * afterwards; pass copies if the caller still needs the audio. Aborting
+ * the signal terminates the worker and rejects with the signal's reason.
+ */
+export const runExportWorker = (
+  channelData: Float32Array[],
+  sampleRate: number,
+  params: ExportWorkerParams,
+  { onProgress, signal }: ExportWorkerOptions = {}
+): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/export.worker.ts', import.meta.url), { type: 'module' });
+    const id = `export-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    const handleAbort = () => {
+      worker.terminate();
+      reject(signal?.reason);
+    };
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          finish();
+          resolve(message.data);
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.error));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Export worker failed'));
+    };
+
+    const request = {
+      ...params,
+      id,
+      channelData,
+      sampleRate,
+    } as ExportWorkerRequest;
+
+    worker.postMessage(request, channelData.map(data => data.buffer));
+  });
+};
+
+// Copies of an AudioBuffer's channels, ready to be transferred to the worker
+export const getTransferableChannels = (buffer: AudioBuffer): Float32Array[] => {
+  const channelData: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    channelData.push(buffer.getChannelData(channel).slice());
+  }
+  return channelData;
+};
@@ -0,0 +1,158 @@
+import { waitForContextTime } from './metronome';
+
+/**
+ * Loopback calibration of the round trip from the speakers back into the
+ * microphone. Short test pulses are played at known times on the audio clock
+ * and found again in the captured input; the delay between the two is how far
+ * behind the playback a recording lands.
+ */
+
+const PULSE_COUNT = 6;
+const PULSE_INTERVAL_SECONDS = 0.4;
+const PULSE_SECONDS = 0.005;
+const PULSE_FREQUENCY = 2000;
+// Quiet time before the first pulse, used to measure the noise floor
+const LEAD_IN_SECONDS = 0.4;
+// Pulses must arrive within this long to count; less than the interval, so an
+// echo of one pulse is never taken for the next
+const MAX_LATENCY_SECONDS = 0.35;
+// A pulse must stand this far above the noise floor to be detected
+const DETECTION_RATIO = 6;
+const MIN_PULSE_LEVEL = 0.01;
+// The onset is where the input first reaches this share of the pulse's peak
+const ONSET_RATIO = 0.5;
+const MIN_DETECTIONS = 3;
+
+// Copies every input block to the main thread with the frame it started at,
+// so the captured samples line up with the context's clock
+const CAPTURE_PROCESSOR = `
+registerProcessor('latency-capture', class extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage({ frame: currentFrame, samples: channel.slice(0) });
+    return true;
+  }
+});
+`;
+
+interface CapturedBlock {
+  frame: number;
+  samples: Float32Array;
+}
+
+// A short Hann-windowed tone burst, which speakers reproduce more cleanly than
+// a single-sample click
+const createPulse = (context: BaseAudioContext): AudioBuffer => {
+  const { sampleRate } = context;
+  const length = Math.round(sampleRate * PULSE_SECONDS);
+  const buffer = context.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  for (let i = 0; i < length; i++) {
+    const envelope = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (length - 1));
+    data[i] = 0.9 * envelope * Math.sin(2 * Math.PI * PULSE_FREQUENCY * i / sampleRate);
+  }
+
+  return buffer;
+};
+
+const getPeak = (samples: Float32Array, from: number, to: number) => {
+  let peak = 0;
+  for (let i = Math.max(0, from); i < Math.min(samples.length, to); i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak;
+};
+
+const getMedian = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Measures the round-trip latency in seconds. Needs the microphone to hear the
+ * speakers, so it fails with headphones on or in a very noisy room. Browser
+ * echo cancellation and noise suppression are turned off for the measurement,
+ * since they would remove the pulses.
+ */
+export const measureRoundTripLatency = async (): Promise<number> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+  const context = new AudioContext({ latencyHint: 'interactive' });
+  const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'application/javascript' }));
+
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    const blocks: CapturedBlock[] = [];
+    const input = context.createMediaStreamSource(stream);
+    const capture = new AudioWorkletNode(context, 'latency-capture');
+    capture.port.onmessage = (event: MessageEvent<CapturedBlock>) => blocks.push(event.data);
+    // Silent path to the output, so the capture node keeps being processed
+    const mute = context.createGain();
+    mute.gain.value = 0;
+    input.connect(capture);
+    capture.connect(mute);
+    mute.connect(context.destination);
+
+    const pulse = createPulse(context);
+    const firstPulse = context.currentTime + LEAD_IN_SECONDS;
+    const pulseTimes = Array.from({ length: PULSE_COUNT }, (_, i) => firstPulse + i * PULSE_INTERVAL_SECONDS);
+    pulseTimes.forEach(time => {
+      const source = context.createBufferSource();
+      source.buffer = pulse;
+      source.connect(context.destination);
+      source.start(time);
+    });
+
+    await waitForContextTime(context, pulseTimes[pulseTimes.length - 1] + PULSE_INTERVAL_SECONDS);
+    capture.port.onmessage = null;
+    input.disconnect();
+    capture.disconnect();
+
+    if (blocks.length === 0) {
+      throw new Error('No input was captured from the microphone');
+    }
+
+    // Stitch the blocks into one signal, starting at the first captured frame
+    const firstFrame = blocks[0].frame;
+    const lastBlock = blocks[blocks.length - 1];
+    const samples = new Float32Array(lastBlock.frame + lastBlock.samples.length - firstFrame);
+    blocks.forEach(block => samples.set(block.samples, block.frame - firstFrame));
+    const toIndex = (time: number) => Math.round(time * context.sampleRate) - firstFrame;
+
+    const noiseFloor = getPeak(samples, 0, toIndex(firstPulse));
+    const latencies = pulseTimes.flatMap(time => {
+      const from = toIndex(time);
+      const to = toIndex(time + MAX_LATENCY_SECONDS);
+      const peak = getPeak(samples, from, to);
+      if (peak < Math.max(MIN_PULSE_LEVEL, noiseFloor * DETECTION_RATIO)) return [];
+
+      for (let i = Math.max(0, from); i < Math.min(samples.length, to); i++) {
+        if (Math.abs(samples[i]) >= peak * ONSET_RATIO) {
+          return [(i + firstFrame) / context.sampleRate - time];
+        }
+      }
+      return [];
+    });
+
+    if (latencies.length < MIN_DETECTIONS) {
+      throw new Error('Could not hear the test pulses. Take off headphones, turn the speakers up and try again somewhere quieter.');
+    }
+
+    return getMedian(latencies);
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    URL.revokeObjectURL(moduleUrl);
+    context.close();
+  }
+};
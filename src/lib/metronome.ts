@@ -0,0 +1,203 @@
+// Tempo range allowed by the projects table
+export const MIN_BPM = 60;
+export const MAX_BPM = 200;
+
+export type ClickSound = 'beep' | 'woodblock' | 'tick';
+
+export const CLICK_SOUNDS: { id: ClickSound; label: string }[] = [
+  { id: 'beep', label: 'Beep' },
+  { id: 'woodblock', label: 'Woodblock' },
+  { id: 'tick', label: 'Tick' },
+];
+
+export interface MetronomeSettings {
+  bpm: number;
+  beatsPerBar: number;
+  sound: ClickSound;
+  volume: number;
+}
+
+export interface MetronomeOptions {
+  // Context time before which beats are skipped; defaults to now
+  from?: number;
+  // Beat to stop before, e.g. the end of a count-in
+  toBeat?: number;
+  // Context time to stop before, e.g. the end of a loop pass
+  until?: number;
+  // Called as each beat is scheduled, ahead of the time it sounds at
+  onBeat?: (beat: number, time: number) => void;
+}
+
+// Clicks are scheduled this far ahead on the audio clock, topped up by a
+// timer that runs much more often, so a late timer never delays a click
+const LOOKAHEAD_SECONDS = 0.1;
+const SCHEDULER_INTERVAL_MS = 25;
+const CLICK_SECONDS = 0.05;
+const ACCENT_GAIN = 1;
+const BEAT_GAIN = 0.6;
+const EPSILON = 1e-9;
+
+export const clampBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(bpm)));
+
+/**
+ * Context time of a beat counted from `origin`, rounded to a whole sample so
+ * every click starts exactly on the grid rather than drifting with floating
+ * point error over a long take.
+ */
+export const getBeatTime = (origin: number, beat: number, bpm: number, sampleRate: number) => {
+  return Math.round((origin + beat * (60 / bpm)) * sampleRate) / sampleRate;
+};
+
+// One click, synthesized so it sounds the same at any sample rate
+const createClick = (context: BaseAudioContext, sound: ClickSound, accent: boolean): AudioBuffer => {
+  const { sampleRate } = context;
+  const length = Math.round(sampleRate * CLICK_SECONDS);
+  const buffer = context.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+  const gain = accent ? ACCENT_GAIN : BEAT_GAIN;
+  // Fixed noise seed, so every tick is identical
+  let seed = 1;
+
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    switch (sound) {
+      case 'beep': {
+        const frequency = accent ? 1500 : 1000;
+        data[i] = gain * Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t / 0.012);
+        break;
+      }
+      case 'woodblock': {
+        const frequency = accent ? 1200 : 800;
+        const tone = 0.7 * Math.sin(2 * Math.PI * frequency * t) + 0.3 * Math.sin(2 * Math.PI * frequency * 2.7 * t);
+        data[i] = gain * tone * Math.exp(-t / 0.006);
+        break;
+      }
+      case 'tick': {
+        seed = (seed * 1664525 + 1013904223) >>> 0;
+        const noise = (seed / 0x100000000) * 2 - 1;
+        data[i] = gain * noise * Math.exp(-t / (accent ? 0.004 : 0.0025));
+        break;
+      }
+    }
+  }
+
+  return buffer;
+};
+
+/**
+ * Resolves once the audio clock reaches `time`, or with false if `isCancelled`
+ * turns true first.
+ */
+export const waitForContextTime = (context: BaseAudioContext, time: number, isCancelled: () => boolean = () => false) => {
+  return new Promise<boolean>(resolve => {
+    const check = () => {
+      if (isCancelled()) {
+        resolve(false);
+        return;
+      }
+      const remaining = time - context.currentTime;
+      if (remaining <= 0) {
+        resolve(true);
+        return;
+      }
+      setTimeout(check, Math.min(remaining * 1000, SCHEDULER_INTERVAL_MS));
+    };
+    check();
+  });
+};
+
+/**
+ * Click track scheduled on an audio context's clock. Beats fall on a fixed
+ * grid from an origin time, with beat 0 of every bar accented, so restarting
+ * mid-way (e.g. after a seek) stays in time.
+ */
+export class Metronome {
+  private output: GainNode;
+  private clicks = new Map<string, AudioBuffer>();
+  private sources = new Set<AudioBufferSourceNode>();
+  private timers = new Set<ReturnType<typeof setInterval>>();
+
+  constructor(private context: BaseAudioContext, destination: AudioNode) {
+    this.output = context.createGain();
+    this.output.connect(destination);
+  }
+
+  start(settings: MetronomeSettings, origin: number, options: MetronomeOptions = {}) {
+    this.stop();
+    this.add(settings, origin, options);
+  }
+
+  /**
+   * Clicks on another grid alongside the ones already running, e.g. for the
+   * next pass of a loop, which restarts the grid where the last pass ends.
+   */
+  add(settings: MetronomeSettings, origin: number, options: MetronomeOptions = {}) {
+    const { from = this.context.currentTime, toBeat = Infinity, until = Infinity, onBeat } = options;
+    const beatSeconds = 60 / settings.bpm;
+    let beat = Math.max(0, Math.ceil((from - origin) / beatSeconds - EPSILON));
+    let done = false;
+    this.output.gain.value = settings.volume;
+
+    const schedule = () => {
+      const horizon = this.context.currentTime + LOOKAHEAD_SECONDS;
+      while (beat < toBeat) {
+        const time = getBeatTime(origin, beat, settings.bpm, this.context.sampleRate);
+        if (time >= until - EPSILON) {
+          done = true;
+          break;
+        }
+        if (time > horizon) break;
+
+        this.playClick(settings.sound, beat % settings.beatsPerBar === 0, time);
+        onBeat?.(beat, time);
+        beat++;
+      }
+      if (beat >= toBeat) {
+        done = true;
+      }
+      if (done && timer) {
+        clearInterval(timer);
+        this.timers.delete(timer);
+      }
+    };
+
+    let timer: ReturnType<typeof setInterval> | null = null;
+    schedule();
+    if (!done) {
+      timer = setInterval(schedule, SCHEDULER_INTERVAL_MS);
+      this.timers.add(timer);
+    }
+  }
+
+  stop() {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers.clear();
+    this.sources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already finished
+      }
+    });
+    this.sources.clear();
+  }
+
+  private playClick(sound: ClickSound, accent: boolean, time: number) {
+    const key = `${sound}:${accent}`;
+    let buffer = this.clicks.get(key);
+    if (!buffer) {
+      buffer = createClick(this.context, sound, accent);
+      this.clicks.set(key, buffer);
+    }
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.output);
+    source.onended = () => {
+      source.disconnect();
+      this.sources.delete(source);
+    };
+    source.start(time);
+    this.sources.add(source);
+  }
+}
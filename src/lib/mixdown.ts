@@ -0,0 +1,230 @@
+import { connectEffects, getEffectsTailSeconds, parseEffectsSettings } from './effectsGraph';
+import type { EffectsSettings } from './effectsGraph';
+import { audioStorage } from './audioStorage';
+import { decodeAudio } from './decode';
+import { getClipsEnd, scheduleClip } from './clips';
+import { multiTrackEngine } from './multiTrackEngine';
+import type { Track } from '../stores/trackStore';
+
+export interface MixdownOptions {
+  sampleRate: number;
+  masterEffects?: EffectsSettings | null;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Number of progress reports while the offline context renders
+const PROGRESS_STEPS = 10;
+
+/**
+ * Decoded source audio for one of a track's clips: the engine's buffer when
+ * it is loaded for playback, otherwise decoded from the track's blob or
+ * signed URL, or downloaded for takes that aren't the track's own recording.
+ */
+export const getAssetBuffer = async (
+  track: Track,
+  assetPath: string,
+  sampleRate: number,
+  signal?: AbortSignal
+): Promise<AudioBuffer | null> => {
+  const loaded = multiTrackEngine.getAssetBuffer(assetPath);
+  if (loaded) return loaded;
+
+  let blob: Blob | undefined;
+  if (assetPath === track.audio_path) {
+    blob = track.audio_blob;
+    if (!blob && track.audio_url) {
+      const response = await fetch(track.audio_url, { signal });
+      if (!response.ok) {
+        throw new Error(`Failed to download audio for "${track.name}"`);
+      }
+      blob = await response.blob();
+    }
+  } else {
+    blob = await audioStorage.downloadAudio(assetPath);
+  }
+  if (!blob) return null;
+
+  return decodeAudio(await blob.arrayBuffer(), sampleRate);
+};
+
+// Rate of the audio already decoded for playback, so a mixdown can be
+// rendered without resampling and converted with the export resampler
+export const getSourceSampleRate = (tracks: Track[]): number | null => {
+  for (const track of tracks) {
+    for (const clip of track.clips) {
+      const buffer = multiTrackEngine.getAssetBuffer(clip.asset_path);
+      if (buffer) return buffer.sampleRate;
+    }
+  }
+  return null;
+};
+
+// Same mute/solo rules as live playback in the engine
+export const getAudibleTracks = (tracks: Track[]): Track[] => {
+  const anySolo = tracks.some(t => t.is_solo);
+  return tracks.filter(track => !track.is_muted && (!anySolo || track.is_solo));
+};
+
+export interface LoadedTrack {
+  track: Track;
+  // Decoded audio by asset path, for every clip on the track
+  assets: Map<string, AudioBuffer>;
+}
+
+/**
+ * Loads decoded audio for every track that has any, decoding missing ones
+ * at `sampleRate`.
+ */
+export const loadTrackBuffers = async (
+  tracks: Track[],
+  sampleRate: number,
+  signal?: AbortSignal
+): Promise<LoadedTrack[]> => {
+  const sources = await Promise.all(tracks.map(async track => {
+    const assets = new Map<string, AudioBuffer>();
+    const assetPaths = Array.from(new Set(track.clips.map(clip => clip.asset_path)));
+    await Promise.all(assetPaths.map(async assetPath => {
+      const buffer = await getAssetBuffer(track, assetPath, sampleRate, signal);
+      if (buffer) assets.set(assetPath, buffer);
+    }));
+    return { track, assets };
+  }));
+  signal?.throwIfAborted();
+  return sources.filter(source => source.assets.size > 0);
+};
+
+/**
+ * Length in samples of a render covering the end of the last clip and the
+ * effect tails after it: each track's own when `includeEffects` is set, then
+ * the master effects'.
+ */
+export const getRenderLength = (
+  sources: LoadedTrack[],
+  sampleRate: number,
+  includeEffects: boolean,
+  masterEffects: EffectsSettings | null = null
+): number => {
+  const duration = Math.max(0, ...sources.map(({ track, assets }) => {
+    const end = getClipsEnd(track.clips.filter(clip => assets.has(clip.asset_path)));
+    return includeEffects ? end + getEffectsTailSeconds(parseEffectsSettings(track.effects_settings)) : end;
+  })) + getEffectsTailSeconds(masterEffects);
+  return Math.max(1, Math.ceil(duration * sampleRate));
+};
+
+// Plays every clip of a track into `destination` from the start of the render
+const scheduleTrackClips = (context: BaseAudioContext, { track, assets }: LoadedTrack, destination: AudioNode) => {
+  track.clips.forEach(clip => {
+    const buffer = assets.get(clip.asset_path);
+    if (buffer) {
+      scheduleClip(context, clip, buffer, destination, 0);
+    }
+  });
+};
+
+interface RenderControl {
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Renders with progress reports at fixed suspend points, since
+ * OfflineAudioContext has no progress events. A started render can't be
+ * stopped; on abort it is left suspended at the next point and dropped.
+ */
+const renderOffline = async (context: OfflineAudioContext, { onProgress, signal }: RenderControl): Promise<AudioBuffer> => {
+  signal?.throwIfAborted();
+
+  if (onProgress || signal) {
+    const duration = context.length / context.sampleRate;
+    for (let step = 1; step < PROGRESS_STEPS; step++) {
+      context.suspend((duration * step) / PROGRESS_STEPS).then(() => {
+        if (signal?.aborted) return;
+        onProgress?.(step / PROGRESS_STEPS);
+        context.resume();
+      }).catch(() => {
+        // Suspend points too close together are rejected; skip them
+      });
+    }
+  }
+
+  const rendered = await new Promise<AudioBuffer>((resolve, reject) => {
+    const handleAbort = () => reject(signal?.reason);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    context.startRendering()
+      .then(resolve, reject)
+      .finally(() => signal?.removeEventListener('abort', handleAbort));
+  });
+  onProgress?.(1);
+  return rendered;
+};
+
+/**
+ * Renders the audible tracks into a single stereo buffer, each through its
+ * own effects, volume and pan, then through the master effects.
+ */
+export const renderMixdown = async (tracks: Track[], options: MixdownOptions): Promise<AudioBuffer> => {
+  const { sampleRate, masterEffects } = options;
+  const audible = getAudibleTracks(tracks);
+  if (audible.length === 0) {
+    throw new Error('No audible tracks to export');
+  }
+
+  const loaded = await loadTrackBuffers(audible, sampleRate, options.signal);
+  if (loaded.length === 0) {
+    throw new Error('None of the tracks have audio to export');
+  }
+
+  const context = new OfflineAudioContext(2, getRenderLength(loaded, sampleRate, true, masterEffects), sampleRate);
+
+  const masterInput = context.createGain();
+  const masterOutput = masterEffects ? connectEffects(context, masterInput, masterEffects).output : masterInput;
+  masterOutput.connect(context.destination);
+
+  loaded.forEach(loadedTrack => {
+    const { track } = loadedTrack;
+    const trackInput = context.createGain();
+    scheduleTrackClips(context, loadedTrack, trackInput);
+
+    const trackEffects = parseEffectsSettings(track.effects_settings);
+    const effectsOutput = trackEffects ? connectEffects(context, trackInput, trackEffects).output : trackInput;
+
+    const gain = context.createGain();
+    gain.gain.value = track.volume;
+    const panner = context.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, track.pan));
+
+    effectsOutput.connect(gain);
+    gain.connect(panner);
+    panner.connect(masterInput);
+  });
+
+  return renderOffline(context, options);
+};
+
+export interface StemOptions {
+  sampleRate: number;
+  length: number;
+  includeEffects: boolean;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Renders a single track as a stereo stem of exactly `length` samples.
+ * Volume and pan are left for the mixing engineer (they go in the manifest),
+ * so only the track's own effects are optionally applied.
+ */
+export const renderStem = async (loadedTrack: LoadedTrack, options: StemOptions): Promise<AudioBuffer> => {
+  const { sampleRate, length, includeEffects } = options;
+  const context = new OfflineAudioContext(2, length, sampleRate);
+
+  const trackInput = context.createGain();
+  scheduleTrackClips(context, loadedTrack, trackInput);
+
+  const trackEffects = includeEffects ? parseEffectsSettings(loadedTrack.track.effects_settings) : null;
+  const output = trackEffects ? connectEffects(context, trackInput, trackEffects).output : trackInput;
+  output.connect(context.destination);
+
+  return renderOffline(context, options);
+};
@@ -0,0 +1,615 @@
+import { getClipEnd, getClipGainAt, scheduleClip } from './clips';
+import type { Clip, TimeRange } from './clips';
+import { GrainScrubber } from './scrub';
+import type { ScrubTarget } from './scrub';
+import { Metronome } from './metronome';
+import type { MetronomeSettings } from './metronome';
+import { PARAM_SMOOTHING_SECONDS, connectEffects, getEffectsLayoutKey, parseEffectsSettings } from './effectsGraph';
+import type { EffectsChain } from './effectsGraph';
+
+export interface TrackMix {
+  id: string;
+  volume: number;
+  pan: number;
+  is_muted: boolean;
+  is_solo: boolean;
+  clips: Clip[];
+  effects_settings: Record<string, unknown>;
+}
+
+export interface TransportState {
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  // Set when only a subset of tracks is playing (single-track preview)
+  playingTrackIds: string[] | null;
+}
+
+// One time through the loop region: timeline position `offset` plays at
+// context time `when`, up to the end of the region at `end`
+interface LoopPass {
+  when: number;
+  offset: number;
+  end: number;
+}
+
+type TransportListener = (state: TransportState) => void;
+
+// Where an effects chain sits in the graph: `input` feeds the effects, or
+// goes straight on when there are none
+interface EffectsInsert {
+  input: GainNode;
+  effects: EffectsChain | null;
+  // The settings the effects were built from and last updated to, to tell
+  // whether a change needs a rebuild or just new parameter values
+  effectsLayoutKey: string;
+  effectsKey: string;
+}
+
+// Clips play into `input`, then through the track's effects, gain and pan
+interface TrackChannel extends EffectsInsert {
+  clips: Clip[];
+  gain: GainNode;
+  panner: StereoPannerNode;
+  sources: AudioBufferSourceNode[];
+}
+
+// Decoded source audio, shared by every clip that plays from it
+interface Asset {
+  blob: Blob;
+  buffer?: AudioBuffer;
+  decoding?: Promise<AudioBuffer>;
+}
+
+// Small lookahead so every source is scheduled against the same future
+// context time instead of whenever its start() call happens to run
+const SCHEDULE_AHEAD_SECONDS = 0.05;
+
+// How far ahead of the end of a loop pass the next one is scheduled
+const LOOP_SCHEDULE_AHEAD_SECONDS = 0.2;
+// Shorter loops than this play straight through instead
+export const MIN_LOOP_SECONDS = 0.1;
+
+class MultiTrackEngine {
+  private context: AudioContext | null = null;
+  // Every channel mixes into the master effects, then the master volume
+  private master: EffectsInsert | null = null;
+  private masterGain: GainNode | null = null;
+  private masterEffectsSettings: Record<string, unknown> | null = null;
+  private channels = new Map<string, TrackChannel>();
+  private assets = new Map<string, Asset>();
+  private listeners = new Set<TransportListener>();
+
+  private isPlaying = false;
+  private playingTrackIds: string[] | null = null;
+  private startContextTime = 0;
+  private startOffset = 0;
+  private pausedAt = 0;
+  private masterVolume = 1;
+  private scrubber = new GrainScrubber();
+  private metronome: Metronome | null = null;
+  private clickSettings: MetronomeSettings | null = null;
+  private loop: TimeRange | null = null;
+  // The loop the current playback follows, and its latest pass
+  private activeLoop: TimeRange | null = null;
+  private loopPass: LoopPass | null = null;
+  private loopTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Bumped on every start/stop so late onended callbacks from a previous
+  // playback pass are ignored
+  private generation = 0;
+  private activeSources = 0;
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.masterGain = this.context.createGain();
+      this.masterGain.gain.value = this.masterVolume;
+      this.masterGain.connect(this.context.destination);
+      this.master = { input: this.context.createGain(), effects: null, effectsLayoutKey: '', effectsKey: '' };
+      this.master.input.connect(this.masterGain);
+      this.syncEffects(this.master, this.masterGain, this.masterEffectsSettings);
+    }
+    return this.context;
+  }
+
+  private getChannel(trackId: string): TrackChannel {
+    let channel = this.channels.get(trackId);
+    if (!channel) {
+      const context = this.getContext();
+      const input = context.createGain();
+      const gain = context.createGain();
+      const panner = context.createStereoPanner();
+      input.connect(gain);
+      gain.connect(panner);
+      panner.connect(this.master!.input);
+      channel = { clips: [], input, effects: null, effectsLayoutKey: '', effectsKey: '', gain, panner, sources: [] };
+      this.channels.set(trackId, channel);
+    }
+    return channel;
+  }
+
+  // Decodes a clip's source audio; each blob is decoded once and shared by
+  // every clip that plays from it. A new blob for the same path replaces it.
+  async loadAsset(assetPath: string, blob: Blob): Promise<AudioBuffer> {
+    const existing = this.assets.get(assetPath);
+    if (existing?.blob === blob) {
+      if (existing.buffer) return existing.buffer;
+      if (existing.decoding) return existing.decoding;
+    }
+
+    const asset: Asset = { blob };
+    this.assets.set(assetPath, asset);
+    asset.decoding = blob.arrayBuffer()
+      .then(arrayBuffer => this.getContext().decodeAudioData(arrayBuffer))
+      .then(buffer => {
+        if (this.assets.get(assetPath) === asset) {
+          asset.buffer = buffer;
+          asset.decoding = undefined;
+        }
+        this.notify();
+        return buffer;
+      });
+
+    return asset.decoding;
+  }
+
+  unloadTrack(trackId: string) {
+    const channel = this.channels.get(trackId);
+    if (!channel) return;
+
+    if (channel.sources.length > 0) {
+      this.activeSources = Math.max(0, this.activeSources - channel.sources.length);
+      this.stopSources(channel);
+      if (this.isPlaying && this.activeSources === 0 && !this.activeLoop) {
+        this.pausedAt = this.getCurrentTime();
+        this.isPlaying = false;
+      }
+    }
+    channel.input.disconnect();
+    channel.effects?.disconnect();
+    channel.gain.disconnect();
+    channel.panner.disconnect();
+    this.channels.delete(trackId);
+
+    // Drop audio no remaining clip plays from
+    const inUse = new Set<string>();
+    this.channels.forEach(other => other.clips.forEach(clip => inUse.add(clip.asset_path)));
+    channel.clips.forEach(clip => {
+      if (!inUse.has(clip.asset_path)) {
+        this.assets.delete(clip.asset_path);
+      }
+    });
+    this.notify();
+  }
+
+  unloadAll() {
+    this.stop();
+    Array.from(this.channels.keys()).forEach(trackId => this.unloadTrack(trackId));
+    this.assets.clear();
+  }
+
+  hasTrack(trackId: string): boolean {
+    const channel = this.channels.get(trackId);
+    return !!channel && channel.clips.some(clip => this.assets.get(clip.asset_path)?.buffer);
+  }
+
+  // Decoded source audio, e.g. for offline rendering
+  getAssetBuffer(assetPath: string): AudioBuffer | null {
+    return this.assets.get(assetPath)?.buffer ?? null;
+  }
+
+  syncMix(tracks: TrackMix[]) {
+    const anySolo = tracks.some(t => t.is_solo);
+    let clipsChanged = false;
+
+    // Tracks that are gone (deleted, or another project loaded)
+    Array.from(this.channels.keys())
+      .filter(trackId => !tracks.some(track => track.id === trackId))
+      .forEach(trackId => this.unloadTrack(trackId));
+
+    tracks.forEach(track => {
+      const channel = this.getChannel(track.id);
+      if (channel.clips !== track.clips) {
+        channel.clips = track.clips;
+        clipsChanged = true;
+      }
+
+      this.syncEffects(channel, channel.gain, track.effects_settings);
+
+      const audible = !track.is_muted && (!anySolo || track.is_solo);
+      this.setParam(channel.gain.gain, audible ? track.volume : 0);
+      this.setParam(channel.panner.pan, Math.max(-1, Math.min(1, track.pan)));
+    });
+
+    // Moved or trimmed clips take effect right away
+    if (clipsChanged && this.isPlaying) {
+      this.restart(this.getCurrentTime(), this.playingTrackIds);
+    } else if (clipsChanged) {
+      this.notify();
+    }
+  }
+
+  /**
+   * Brings a track's or the master effects up to date with their settings,
+   * using the same graph as mixdown and stems export so playback sounds like
+   * the export. Parameter changes are applied to the running chain; adding,
+   * removing or reordering effects rebuilds it, and playing sources keep going
+   * into the new chain.
+   */
+  private syncEffects(
+    insert: EffectsInsert,
+    output: AudioNode,
+    effectsSettings: Record<string, unknown> | null | undefined
+  ) {
+    const settings = parseEffectsSettings(effectsSettings);
+    const effectsKey = settings ? JSON.stringify(settings) : '';
+    if (effectsKey === insert.effectsKey) return;
+    insert.effectsKey = effectsKey;
+
+    const effectsLayoutKey = settings ? getEffectsLayoutKey(settings) : '';
+    if (settings && insert.effects && effectsLayoutKey === insert.effectsLayoutKey) {
+      insert.effects.setParameters(settings.parameters);
+      return;
+    }
+
+    insert.input.disconnect();
+    insert.effects?.disconnect();
+    insert.effects = settings ? connectEffects(this.getContext(), insert.input, settings) : null;
+    (insert.effects?.output ?? insert.input).connect(output);
+    insert.effectsLayoutKey = effectsLayoutKey;
+  }
+
+  // The project's master effects, applied to the whole mix as on export
+  setMasterEffects(effectsSettings: Record<string, unknown> | null | undefined) {
+    this.masterEffectsSettings = effectsSettings ?? null;
+    if (this.master && this.masterGain) {
+      this.syncEffects(this.master, this.masterGain, this.masterEffectsSettings);
+    }
+  }
+
+  setMasterVolume(volume: number) {
+    this.masterVolume = volume;
+    if (this.masterGain) {
+      this.setParam(this.masterGain.gain, volume);
+    }
+  }
+
+  // End of the last clip that has audio loaded
+  getDuration(trackIds: string[] | null = this.playingTrackIds): number {
+    let duration = 0;
+    this.channels.forEach((channel, trackId) => {
+      if (trackIds && !trackIds.includes(trackId)) return;
+      channel.clips.forEach(clip => {
+        if (this.assets.get(clip.asset_path)?.buffer) {
+          duration = Math.max(duration, getClipEnd(clip));
+        }
+      });
+    });
+    return duration;
+  }
+
+  getCurrentTime(): number {
+    if (!this.isPlaying || !this.context) return this.pausedAt;
+    const elapsed = Math.max(0, this.context.currentTime - this.startContextTime);
+    const position = this.startOffset + elapsed;
+
+    const loop = this.activeLoop;
+    if (loop && position >= loop.end) {
+      return loop.start + (position - loop.end) % (loop.end - loop.start);
+    }
+    return loop ? position : Math.min(position, this.getDuration());
+  }
+
+  /**
+   * performance.now() time at which playback reaches a timeline position,
+   * e.g. to start recording there. Null unless the mix is playing straight
+   * through, not looping.
+   */
+  getPerformanceTime(position: number): number | null {
+    if (!this.isPlaying || !this.context || this.activeLoop) return null;
+    const contextTime = this.startContextTime + position - this.startOffset;
+    return performance.now() + (contextTime - this.context.currentTime) * 1000;
+  }
+
+  getState(): TransportState {
+    return {
+      isPlaying: this.isPlaying,
+      currentTime: this.getCurrentTime(),
+      duration: this.getDuration(),
+      playingTrackIds: this.playingTrackIds,
+    };
+  }
+
+  async play(offset: number = this.getCurrentTime(), trackIds: string[] | null = null) {
+    const context = this.getContext();
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+
+    this.stopAllSources();
+    this.playingTrackIds = trackIds;
+
+    // No clip has audio loaded yet, so there's nothing to play or loop over
+    const duration = this.getDuration(trackIds);
+    if (duration === 0) {
+      this.playingTrackIds = null;
+      this.notify();
+      return;
+    }
+
+    const startOffset = offset >= duration ? 0 : Math.max(0, offset);
+    const when = context.currentTime + SCHEDULE_AHEAD_SECONDS;
+    const generation = ++this.generation;
+
+    // The full mix loops once playback reaches the region; previews and
+    // playback past its end run straight through
+    const loop = this.loop;
+    if (!trackIds && loop && startOffset < loop.end) {
+      this.activeLoop = loop;
+      this.startContextTime = when;
+      this.startOffset = startOffset;
+      this.isPlaying = true;
+      this.scheduleLoopPass(context, { when, offset: startOffset, end: loop.end }, generation);
+      this.notify();
+      return;
+    }
+
+    this.channels.forEach((channel, trackId) => {
+      if (trackIds && !trackIds.includes(trackId)) return;
+
+      channel.clips.forEach(clip => {
+        const buffer = this.assets.get(clip.asset_path)?.buffer;
+        if (!buffer) return;
+
+        const source = scheduleClip(context, clip, buffer, channel.input, when, startOffset);
+        if (!source) return;
+
+        source.onended = () => {
+          channel.sources = channel.sources.filter(other => other !== source);
+          this.handleSourceEnded(generation);
+        };
+        channel.sources.push(source);
+        this.activeSources++;
+      });
+    });
+
+    if (this.activeSources === 0) {
+      this.playingTrackIds = null;
+      this.notify();
+      return;
+    }
+
+    this.startContextTime = when;
+    this.startOffset = startOffset;
+    this.isPlaying = true;
+    this.startClick();
+    this.notify();
+  }
+
+  pause() {
+    if (!this.isPlaying) return;
+
+    this.pausedAt = this.getCurrentTime();
+    this.stopAllSources();
+    this.isPlaying = false;
+    this.notify();
+  }
+
+  stop() {
+    this.stopAllSources();
+    this.isPlaying = false;
+    this.playingTrackIds = null;
+    this.pausedAt = 0;
+    this.notify();
+  }
+
+  seek(time: number) {
+    const clamped = Math.max(0, Math.min(time, this.getDuration()));
+
+    if (this.isPlaying) {
+      // Reschedule every source from the new position
+      this.restart(clamped, this.playingTrackIds);
+    } else {
+      this.pausedAt = clamped;
+      this.notify();
+    }
+  }
+
+  // Audible scrubbing: plays a short snippet of every track at the given
+  // position through the track's mix, without moving the transport
+  scrub(time: number) {
+    const context = this.getContext();
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+
+    const targets: ScrubTarget[] = [];
+    this.channels.forEach(channel => {
+      channel.clips.forEach(clip => {
+        const buffer = this.assets.get(clip.asset_path)?.buffer;
+        if (!buffer || time < clip.start || time >= getClipEnd(clip)) return;
+        targets.push({
+          buffer,
+          destination: channel.input,
+          offset: clip.source_in + time - clip.start,
+          gain: getClipGainAt(clip, time - clip.start),
+        });
+      });
+    });
+    this.scrubber.play(context, targets);
+  }
+
+  stopScrub() {
+    this.scrubber.stop();
+  }
+
+  // Region the full mix loops over, or null to play straight through
+  setLoop(loop: TimeRange | null) {
+    const next = loop && loop.end - loop.start >= MIN_LOOP_SECONDS ? loop : null;
+    if (next?.start === this.loop?.start && next?.end === this.loop?.end) return;
+
+    this.loop = next;
+    if (this.isPlaying && !this.playingTrackIds) {
+      this.restart(this.getCurrentTime(), null);
+    }
+  }
+
+  /**
+   * Plays again from `offset` after a change to what's playing. Nothing
+   * waits on it, so if the context can't resume (e.g. autoplay is blocked)
+   * playback is stopped rather than left looking like it's still going.
+   */
+  private restart(offset: number, trackIds: string[] | null) {
+    this.play(offset, trackIds).catch(error => {
+      console.error('Error restarting playback:', error);
+      this.pausedAt = offset;
+      this.stopAllSources();
+      this.isPlaying = false;
+      this.notify();
+    });
+  }
+
+  // Click along with playback, or null for none. The click goes straight to
+  // the speakers, never through the mix.
+  setClick(settings: MetronomeSettings | null) {
+    this.clickSettings = settings;
+    if (this.isPlaying) {
+      this.startClick();
+    } else {
+      this.metronome?.stop();
+    }
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private handleSourceEnded(generation: number) {
+    if (generation !== this.generation) return;
+
+    this.activeSources = Math.max(0, this.activeSources - 1);
+    if (this.activeSources === 0) {
+      // Every clip has played to its end
+      this.channels.forEach(channel => {
+        channel.sources = [];
+      });
+      this.metronome?.stop();
+      this.isPlaying = false;
+      this.playingTrackIds = null;
+      this.pausedAt = 0;
+      this.notify();
+    }
+  }
+
+  private stopSources(channel: TrackChannel) {
+    channel.sources.forEach(source => {
+      try {
+        source.onended = null;
+        source.stop();
+      } catch {
+        // Source was never started or has already stopped
+      }
+      source.disconnect();
+    });
+    channel.sources = [];
+  }
+
+  private stopAllSources() {
+    this.generation++;
+    this.activeSources = 0;
+    this.channels.forEach(channel => this.stopSources(channel));
+    this.metronome?.stop();
+
+    if (this.loopTimer) {
+      clearTimeout(this.loopTimer);
+      this.loopTimer = null;
+    }
+    this.activeLoop = null;
+    this.loopPass = null;
+  }
+
+  /**
+   * Schedules one pass through the loop region, then the next one shortly
+   * before this one ends, so passes join up on the audio clock. Looping
+   * playback only stops when asked to, so ended sources aren't counted.
+   */
+  private scheduleLoopPass(context: AudioContext, pass: LoopPass, generation: number) {
+    this.channels.forEach(channel => {
+      channel.clips.forEach(clip => {
+        const buffer = this.assets.get(clip.asset_path)?.buffer;
+        if (!buffer) return;
+
+        const source = scheduleClip(context, clip, buffer, channel.input, pass.when, pass.offset, pass.end);
+        if (!source) return;
+
+        source.onended = () => {
+          channel.sources = channel.sources.filter(other => other !== source);
+        };
+        channel.sources.push(source);
+      });
+    });
+
+    this.loopPass = pass;
+    this.addClickPass(pass);
+
+    const loop = this.activeLoop!;
+    const passEnd = pass.when + pass.end - pass.offset;
+    this.loopTimer = setTimeout(() => {
+      if (generation !== this.generation) return;
+      this.scheduleLoopPass(context, { when: passEnd, offset: loop.start, end: loop.end }, generation);
+    }, Math.max(0, (passEnd - context.currentTime - LOOP_SCHEDULE_AHEAD_SECONDS) * 1000));
+  }
+
+  // The click restarts with each pass, so bar 1 of the grid stays where the
+  // timeline puts it however long the region is
+  private addClickPass(pass: LoopPass, from: number = pass.when) {
+    if (!this.clickSettings) return;
+
+    const context = this.getContext();
+    if (!this.metronome) {
+      this.metronome = new Metronome(context, context.destination);
+    }
+    this.metronome.add(this.clickSettings, pass.when - pass.offset, {
+      from,
+      until: pass.when + pass.end - pass.offset,
+    });
+  }
+
+  // Beat 0 falls on the start of the timeline, whatever the playback offset
+  private startClick() {
+    this.metronome?.stop();
+    if (!this.clickSettings || !this.isPlaying) return;
+
+    if (this.loopPass) {
+      this.addClickPass(this.loopPass, Math.max(this.loopPass.when, this.getContext().currentTime));
+      return;
+    }
+
+    const context = this.getContext();
+    if (!this.metronome) {
+      this.metronome = new Metronome(context, context.destination);
+    }
+    this.metronome.start(this.clickSettings, this.startContextTime - this.startOffset, {
+      from: Math.max(this.startContextTime, context.currentTime),
+    });
+  }
+
+  private setParam(param: AudioParam, value: number) {
+    if (!this.context) {
+      param.value = value;
+      return;
+    }
+    param.setTargetAtTime(value, this.context.currentTime, PARAM_SMOOTHING_SECONDS);
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const multiTrackEngine = new MultiTrackEngine();
@@ -0,0 +1,121 @@
+/**
+ * Musical time on the timeline: bars, beats and ticks at the project's tempo.
+ * The tempo counts beats of the time signature's beat unit, so 6/8 at 120 BPM
+ * has 120 eighth notes a minute, matching the metronome's clicks.
+ */
+
+export interface TimeSignature {
+  beatsPerBar: number;
+  beatUnit: number;
+}
+
+export interface MusicalGrid {
+  bpm: number;
+  timeSignature: TimeSignature;
+}
+
+export interface MusicalPosition {
+  // 1-based, as musicians count
+  bar: number;
+  beat: number;
+  tick: number;
+}
+
+export type SnapDivision = 'off' | 'bar' | 'beat' | 'half-beat' | 'quarter-beat';
+
+export type TimeDisplay = 'musical' | 'clock';
+
+// Resolution of a beat, as in MIDI sequencers
+export const TICKS_PER_BEAT = 960;
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { beatsPerBar: 4, beatUnit: 4 };
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beatsPerBar: 2, beatUnit: 4 },
+  { beatsPerBar: 3, beatUnit: 4 },
+  { beatsPerBar: 4, beatUnit: 4 },
+  { beatsPerBar: 5, beatUnit: 4 },
+  { beatsPerBar: 6, beatUnit: 8 },
+  { beatsPerBar: 7, beatUnit: 8 },
+  { beatsPerBar: 9, beatUnit: 8 },
+  { beatsPerBar: 12, beatUnit: 8 },
+];
+
+export const SNAP_DIVISIONS: { id: SnapDivision; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'bar', label: 'Bar' },
+  { id: 'beat', label: 'Beat' },
+  { id: 'half-beat', label: '1/2 beat' },
+  { id: 'quarter-beat', label: '1/4 beat' },
+];
+
+const BEAT_UNITS = [2, 4, 8, 16];
+const MAX_BEATS_PER_BAR = 16;
+
+// Times closer to a grid line than this count as on it, so floating point
+// error doesn't push a position into the previous beat
+const EPSILON = 1e-6;
+
+/**
+ * The time signature kept in a project's settings, or 4/4 for projects that
+ * never set one or hold an invalid value.
+ */
+export const getTimeSignature = (projectSettings: Record<string, unknown> | null | undefined): TimeSignature => {
+  const value = projectSettings?.time_signature as Partial<TimeSignature> | undefined;
+  if (
+    !value ||
+    !Number.isInteger(value.beatsPerBar) ||
+    value.beatsPerBar! < 1 ||
+    value.beatsPerBar! > MAX_BEATS_PER_BAR ||
+    !BEAT_UNITS.includes(value.beatUnit!)
+  ) {
+    return DEFAULT_TIME_SIGNATURE;
+  }
+  return { beatsPerBar: value.beatsPerBar!, beatUnit: value.beatUnit! };
+};
+
+export const formatTimeSignature = ({ beatsPerBar, beatUnit }: TimeSignature) => `${beatsPerBar}/${beatUnit}`;
+
+export const getBeatSeconds = (grid: MusicalGrid) => 60 / grid.bpm;
+
+export const getBarSeconds = (grid: MusicalGrid) => grid.timeSignature.beatsPerBar * getBeatSeconds(grid);
+
+export const toMusicalPosition = (seconds: number, grid: MusicalGrid): MusicalPosition => {
+  const totalTicks = Math.floor(Math.max(0, seconds) / getBeatSeconds(grid) * TICKS_PER_BEAT + EPSILON);
+  const totalBeats = Math.floor(totalTicks / TICKS_PER_BEAT);
+  const { beatsPerBar } = grid.timeSignature;
+
+  return {
+    bar: Math.floor(totalBeats / beatsPerBar) + 1,
+    beat: (totalBeats % beatsPerBar) + 1,
+    tick: totalTicks % TICKS_PER_BEAT,
+  };
+};
+
+// bars:beats:ticks, e.g. 12:3:480
+export const formatMusicalTime = (seconds: number, grid: MusicalGrid) => {
+  const { bar, beat, tick } = toMusicalPosition(seconds, grid);
+  return `${bar}:${beat}:${tick.toString().padStart(3, '0')}`;
+};
+
+// Spacing of the snap grid in seconds; 0 when snapping is off
+export const getSnapSeconds = (division: SnapDivision, grid: MusicalGrid) => {
+  switch (division) {
+    case 'off':
+      return 0;
+    case 'bar':
+      return getBarSeconds(grid);
+    case 'beat':
+      return getBeatSeconds(grid);
+    case 'half-beat':
+      return getBeatSeconds(grid) / 2;
+    case 'quarter-beat':
+      return getBeatSeconds(grid) / 4;
+  }
+};
+
+// Nearest grid line to `time`, never before the timeline starts
+export const snapTime = (time: number, step: number) => {
+  if (step <= 0) return time;
+  return Math.max(0, Math.round(time / step) * step);
+};
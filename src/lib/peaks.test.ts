@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { PEAKS_VERSION, computePeakPyramid, getPeakColumns, getSampleColumns, isPeakPyramid } from './peaks';
+
+// Silence with single-sample spikes at the given positions
+const spikes = (length: number, values: Record<number, number>) => {
+  const samples = new Float32Array(length);
+  Object.entries(values).forEach(([index, value]) => {
+    samples[Number(index)] = value;
+  });
+  return samples;
+};
+
+// A stored int8 peak as getPeakColumns returns it
+const peak = (value: number) => Math.fround(value / 127);
+
+describe('computePeakPyramid', () => {
+  it('adds coarser levels while they keep enough peaks', () => {
+    // 1024 peaks at the finest level, 256 at the next, then too few
+    const pyramid = computePeakPyramid([new Float32Array(256 * 1024)], 44100);
+
+    expect(pyramid.levels.map(level => level.samplesPerPeak)).toEqual([256, 1024]);
+    expect(pyramid).toMatchObject({ version: PEAKS_VERSION, sampleRate: 44100, length: 262144, channels: 1 });
+    expect(pyramid.duration).toBeCloseTo(262144 / 44100);
+  });
+
+  it('keeps a single level for short recordings', () => {
+    const pyramid = computePeakPyramid([new Float32Array(1000), new Float32Array(1000)], 48000);
+
+    expect(pyramid.levels).toHaveLength(1);
+    expect(pyramid.levels[0].data).toHaveLength(2);
+  });
+
+  it('stores the extremes of each block, rounded outwards', () => {
+    const pyramid = computePeakPyramid([spikes(1024, { 300: 0.5, 700: -0.25, 900: 0.001 })], 1024);
+    // One column per finest peak
+    const { min, max } = getPeakColumns(pyramid, 0, 1, 4);
+
+    expect(Array.from(max)).toEqual([0, peak(64), 0, peak(1)]);
+    expect(Array.from(min)).toEqual([0, 0, peak(-32), 0]);
+  });
+
+  it('carries the extremes up to the coarser levels', () => {
+    const pyramid = computePeakPyramid([spikes(256 * 1024, { 5000: 1, 200000: -1 })], 256 * 1024);
+    // Four columns over one second only look at the coarsest level
+    const { min, max } = getPeakColumns(pyramid, 0, 1, 4);
+
+    expect(Array.from(max)).toEqual([1, 0, 0, 0]);
+    expect(Array.from(min)).toEqual([0, 0, 0, -1]);
+  });
+});
+
+describe('isPeakPyramid', () => {
+  it('accepts a pyramid read back from JSON', () => {
+    const pyramid = computePeakPyramid([new Float32Array(512)], 44100);
+
+    expect(isPeakPyramid(JSON.parse(JSON.stringify(pyramid)))).toBe(true);
+  });
+
+  it('rejects missing, outdated and empty data', () => {
+    const pyramid = computePeakPyramid([new Float32Array(512)], 44100);
+
+    expect(isPeakPyramid(null)).toBe(false);
+    expect(isPeakPyramid([0.1, 0.5, 0.2])).toBe(false);
+    expect(isPeakPyramid({ ...pyramid, version: PEAKS_VERSION + 1 })).toBe(false);
+    expect(isPeakPyramid({ ...pyramid, levels: [] })).toBe(false);
+  });
+});
+
+describe('getPeakColumns', () => {
+  const left = spikes(1024, { 10: 0.5 });
+  const right = spikes(1024, { 600: -0.5 });
+  const pyramid = computePeakPyramid([left, right], 1024);
+
+  it('combines channels unless one is given', () => {
+    expect(Array.from(getPeakColumns(pyramid, 0, 1, 2).max)).toEqual([peak(64), 0]);
+    expect(Array.from(getPeakColumns(pyramid, 0, 1, 2).min)).toEqual([0, peak(-64)]);
+    expect(Array.from(getPeakColumns(pyramid, 0, 1, 2, 1).max)).toEqual([0, 0]);
+  });
+
+  it('spreads a peak over several columns when zoomed in past the finest level', () => {
+    const { max } = getPeakColumns(pyramid, 0, 0.25, 4);
+
+    expect(Array.from(max)).toEqual(Array(4).fill(peak(64)));
+  });
+
+  it('leaves columns past the end, and empty ranges, at zero', () => {
+    expect(Array.from(getPeakColumns(pyramid, 1, 2, 2).min)).toEqual([0, 0]);
+    expect(Array.from(getPeakColumns(pyramid, 1, 1, 3).max)).toEqual([0, 0, 0]);
+    expect(getPeakColumns(pyramid, 0, 1, 0).max).toHaveLength(0);
+  });
+});
+
+describe('getSampleColumns', () => {
+  it('reads exact extremes from decoded audio', () => {
+    const samples = spikes(100, { 5: 0.3, 60: -0.7 });
+    const buffer = {
+      sampleRate: 100,
+      numberOfChannels: 1,
+      getChannelData: () => samples,
+    } as unknown as AudioBuffer;
+    const { min, max } = getSampleColumns(buffer, 0, 1, 2);
+
+    expect(Array.from(max)).toEqual([Math.fround(0.3), 0]);
+    expect(Array.from(min)).toEqual([0, Math.fround(-0.7)]);
+  });
+});
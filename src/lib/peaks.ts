@@ -0,0 +1,230 @@
+// Bumped whenever the layout changes, so stale caches are recomputed
+export const PEAKS_VERSION = 1;
+
+// Samples per peak at the finest level, and the step between levels
+const BASE_SAMPLES_PER_PEAK = 256;
+const LEVEL_FACTOR = 4;
+// Coarser levels stop once a level has fewer peaks than this
+const MIN_LEVEL_PEAKS = 256;
+const MAX_LEVELS = 8;
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  // Base64, one string per channel: interleaved [min, max] int8 pairs
+  // scaled so that 127 is full scale
+  data: string[];
+}
+
+/**
+ * Min/max peaks of a recording at several zoom levels, as stored in
+ * `tracks.waveform_data` and `projects.waveform_data`. Level 0 is the finest;
+ * each following level covers LEVEL_FACTOR times as many samples per peak.
+ */
+export interface PeakPyramid {
+  version: number;
+  sampleRate: number;
+  // Samples per channel
+  length: number;
+  duration: number;
+  channels: number;
+  levels: PeakLevel[];
+}
+
+export interface PeakColumns {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export const isPeakPyramid = (value: unknown): value is PeakPyramid => {
+  const pyramid = value as PeakPyramid | null | undefined;
+  return !!pyramid && pyramid.version === PEAKS_VERSION && Array.isArray(pyramid.levels) && pyramid.levels.length > 0;
+};
+
+const toBase64 = (bytes: Int8Array) => {
+  const view = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let binary = '';
+  // Chunked to stay under the argument limit of fromCharCode
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => {
+  const binary = atob(data);
+  const bytes = new Int8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) << 24 >> 24;
+  }
+  return bytes;
+};
+
+// Rounded outwards so quiet transients still show
+const quantizeMin = (value: number) => Math.max(-127, Math.min(127, Math.floor(value * 127)));
+const quantizeMax = (value: number) => Math.max(-127, Math.min(127, Math.ceil(value * 127)));
+
+const computeBaseLevel = (samples: Float32Array): Int8Array => {
+  const count = Math.ceil(samples.length / BASE_SAMPLES_PER_PEAK);
+  const peaks = new Int8Array(count * 2);
+  for (let peak = 0; peak < count; peak++) {
+    const start = peak * BASE_SAMPLES_PER_PEAK;
+    const end = Math.min(start + BASE_SAMPLES_PER_PEAK, samples.length);
+    let min = 1;
+    let max = -1;
+    for (let i = start; i < end; i++) {
+      const sample = samples[i];
+      if (sample < min) min = sample;
+      if (sample > max) max = sample;
+    }
+    peaks[peak * 2] = quantizeMin(min);
+    peaks[peak * 2 + 1] = quantizeMax(max);
+  }
+  return peaks;
+};
+
+const reduceLevel = (peaks: Int8Array): Int8Array => {
+  const count = Math.ceil(peaks.length / 2 / LEVEL_FACTOR);
+  const reduced = new Int8Array(count * 2);
+  for (let peak = 0; peak < count; peak++) {
+    const start = peak * LEVEL_FACTOR * 2;
+    const end = Math.min(start + LEVEL_FACTOR * 2, peaks.length);
+    let min = 127;
+    let max = -127;
+    for (let i = start; i < end; i += 2) {
+      if (peaks[i] < min) min = peaks[i];
+      if (peaks[i + 1] > max) max = peaks[i + 1];
+    }
+    reduced[peak * 2] = min;
+    reduced[peak * 2 + 1] = max;
+  }
+  return reduced;
+};
+
+export const computePeakPyramid = (channelData: Float32Array[], sampleRate: number): PeakPyramid => {
+  let channelLevels = channelData.map(samples => computeBaseLevel(samples));
+  const levels: PeakLevel[] = [];
+  let samplesPerPeak = BASE_SAMPLES_PER_PEAK;
+
+  for (;;) {
+    levels.push({ samplesPerPeak, data: channelLevels.map(toBase64) });
+    const peakCount = channelLevels[0]?.length / 2 || 0;
+    if (levels.length >= MAX_LEVELS || peakCount / LEVEL_FACTOR < MIN_LEVEL_PEAKS) break;
+
+    channelLevels = channelLevels.map(reduceLevel);
+    samplesPerPeak *= LEVEL_FACTOR;
+  }
+
+  const length = channelData[0]?.length ?? 0;
+  return {
+    version: PEAKS_VERSION,
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    channels: channelData.length,
+    levels,
+  };
+};
+
+// Decoded levels, kept for as long as the pyramid object is alive
+const decodedLevels = new WeakMap<PeakLevel, Int8Array[]>();
+
+const getLevelData = (level: PeakLevel) => {
+  let data = decodedLevels.get(level);
+  if (!data) {
+    data = level.data.map(fromBase64);
+    decodedLevels.set(level, data);
+  }
+  return data;
+};
+
+/**
+ * Min/max per column for the time range [startTime, endTime), from the
+ * coarsest level that still has at least one peak per column. Channels are
+ * combined unless one is given. Values are in -1..1.
+ */
+export const getPeakColumns = (
+  pyramid: PeakPyramid,
+  startTime: number,
+  endTime: number,
+  columns: number,
+  channel?: number
+): PeakColumns => {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  if (columns <= 0 || endTime <= startTime) return { min, max };
+
+  const samplesPerColumn = ((endTime - startTime) * pyramid.sampleRate) / columns;
+  let level = pyramid.levels[0];
+  for (const candidate of pyramid.levels) {
+    if (candidate.samplesPerPeak <= samplesPerColumn) level = candidate;
+  }
+
+  const data = getLevelData(level);
+  const sources = channel === undefined ? data : [data[channel]].filter(Boolean);
+  const peaksPerColumn = samplesPerColumn / level.samplesPerPeak;
+  const firstPeak = (startTime * pyramid.sampleRate) / level.samplesPerPeak;
+
+  for (let column = 0; column < columns; column++) {
+    const start = Math.floor(firstPeak + column * peaksPerColumn);
+    // Zoomed in past the finest level, a peak spans several columns
+    const end = Math.max(start + 1, Math.floor(firstPeak + (column + 1) * peaksPerColumn));
+    let columnMin = 127;
+    let columnMax = -127;
+
+    for (const peaks of sources) {
+      const last = Math.min(end, peaks.length / 2);
+      for (let peak = Math.max(0, start); peak < last; peak++) {
+        if (peaks[peak * 2] < columnMin) columnMin = peaks[peak * 2];
+        if (peaks[peak * 2 + 1] > columnMax) columnMax = peaks[peak * 2 + 1];
+      }
+    }
+
+    if (columnMax >= columnMin) {
+      min[column] = columnMin / 127;
+      max[column] = columnMax / 127;
+    }
+  }
+
+  return { min, max };
+};
+
+/**
+ * Same as getPeakColumns, read straight from decoded audio. Used when zoomed
+ * in past the finest cached level.
+ */
+export const getSampleColumns = (
+  buffer: AudioBuffer,
+  startTime: number,
+  endTime: number,
+  columns: number
+): PeakColumns => {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  if (columns <= 0 || endTime <= startTime) return { min, max };
+
+  const samplesPerColumn = ((endTime - startTime) * buffer.sampleRate) / columns;
+  const firstSample = startTime * buffer.sampleRate;
+  const sources = Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+
+  for (let column = 0; column < columns; column++) {
+    const start = Math.floor(firstSample + column * samplesPerColumn);
+    const end = Math.max(start + 1, Math.floor(firstSample + (column + 1) * samplesPerColumn));
+    let columnMin = 1;
+    let columnMax = -1;
+
+    for (const samples of sources) {
+      const last = Math.min(end, samples.length);
+      for (let i = Math.max(0, start); i < last; i++) {
+        if (samples[i] < columnMin) columnMin = samples[i];
+        if (samples[i] > columnMax) columnMax = samples[i];
+      }
+    }
+
+    if (columnMax >= columnMin) {
+      min[column] = columnMin;
+      max[column] = columnMax;
+    }
+  }
+
+  return { min, max };
+};
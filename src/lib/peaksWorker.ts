@@ -0,0 +1,52 @@
+import { decodeAudio } from './decode';
+import { getTransferableChannels } from './exportWorker';
+import type { PeakPyramid } from './peaks';
+
+export interface PeaksWorkerRequest {
+  id: string;
+  channelData: Float32Array[];
+  sampleRate: number;
+}
+
+export type PeaksWorkerResponse =
+  | { id: string; type: 'done'; pyramid: PeakPyramid }
+  | { id: string; type: 'error'; error: string };
+
+/**
+ * Computes the peak pyramid for decoded audio in a worker. The buffer's
+ * channels are copied, so it stays usable for playback.
+ */
+export const computePeaksInWorker = (buffer: AudioBuffer): Promise<PeakPyramid> => {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/peaks.worker.ts', import.meta.url), { type: 'module' });
+    const id = `peaks-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+    worker.onmessage = (event: MessageEvent<PeaksWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return;
+
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.pyramid);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Peaks worker failed'));
+    };
+
+    const channelData = getTransferableChannels(buffer);
+    const request: PeaksWorkerRequest = { id, channelData, sampleRate: buffer.sampleRate };
+    worker.postMessage(request, channelData.map(data => data.buffer));
+  });
+};
+
+// For audio that isn't decoded for playback yet, e.g. a fresh recording.
+// Peaks don't need the source rate, so it's decoded at a fixed one.
+export const computePeaksFromBlob = async (blob: Blob): Promise<PeakPyramid> => {
+  const buffer = await decodeAudio(await blob.arrayBuffer(), 44100);
+  return computePeaksInWorker(buffer);
+};
@@ -0,0 +1,34 @@
+import { readAscii } from './types';
+import type { AudioProbe, HeaderParser } from './types';
+
+// Reads the fields of a STREAMINFO block body. The total sample count is
+// zero when the encoder didn't know it, e.g. for a live stream.
+export const readStreamInfo = (data: Uint8Array, offset: number): Omit<AudioProbe, 'container'> | null => {
+  if (offset + 18 > data.length) return null;
+
+  // Bytes 10-17: 20-bit rate, 3-bit channels-1, 5-bit bits-1, 36-bit samples
+  const sampleRate = (data[offset + 10] << 12) | (data[offset + 11] << 4) | (data[offset + 12] >> 4);
+  const channels = ((data[offset + 12] >> 1) & 0x07) + 1;
+  const bitDepth = (((data[offset + 12] & 0x01) << 4) | (data[offset + 13] >> 4)) + 1;
+  const totalSamples = (data[offset + 13] & 0x0f) * 2 ** 32 +
+    ((data[offset + 14] << 24) >>> 0) + (data[offset + 15] << 16) + (data[offset + 16] << 8) + data[offset + 17];
+
+  if (!sampleRate) return null;
+
+  return {
+    codec: 'flac',
+    duration: totalSamples / sampleRate,
+    sampleRate,
+    channels,
+    bitDepth,
+  };
+};
+
+// Native FLAC: STREAMINFO is always the first metadata block
+export const parseFlac: HeaderParser = (data) => {
+  if (readAscii(data, 0, 4) !== 'fLaC') return null;
+  if ((data[4] & 0x7f) !== 0) return null;
+
+  const info = readStreamInfo(data, 8);
+  return info && { container: 'flac', ...info };
+};
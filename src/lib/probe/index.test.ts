@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseAudioHeader } from './index';
+import { encodeFlac } from '../encoders/flac';
+import { encodeMp3 } from '../encoders/mp3';
+import { encodeVorbis } from '../encoders/vorbis';
+import { encodeWav } from '../encoders/wav';
+
+const concat = (...parts: (Uint8Array | number[])[]) => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    output.set(part, offset);
+    offset += part.length;
+  });
+  return output;
+};
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const uint = (value: number, bytes: number) =>
+  Array.from({ length: bytes }, (_, i) => Math.floor(value / 256 ** (bytes - 1 - i)) % 256);
+
+// EBML element with a one- or two-byte size, or an unknown size for the
+// streaming Segment and Cluster that MediaRecorder writes
+const element = (id: number[], ...children: (Uint8Array | number[])[]) => {
+  const body = concat(...children);
+  const size = body.length < 0x7f ? [0x80 | body.length] : [0x40 | (body.length >> 8), body.length & 0xff];
+  return concat(id, size, body);
+};
+const unknownSize = (id: number[], ...children: (Uint8Array | number[])[]) =>
+  concat(id, [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff], ...children);
+
+const float64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value, false);
+  return bytes;
+};
+
+const EBML_HEADER = element([0x1a, 0x45, 0xdf, 0xa3], element([0x42, 0x82], ascii('webm')));
+
+const audioTrack = (codec: string, codecDelayNs = 0) => element([0x16, 0x54, 0xae, 0x6b],
+  element([0xae],
+    element([0xd7], [1]),
+    element([0x83], [2]),
+    element([0x86], ascii(codec)),
+    codecDelayNs ? element([0x56, 0xaa], uint(codecDelayNs, 4)) : [],
+    element([0xe1], element([0xb5], float64(48000)), element([0x9f], [2]))
+  )
+);
+
+// Unlaced block on track 1 holding one 20 ms CELT Opus packet
+const opusBlock = (timecode: number) => element([0xa3], [0x81, ...uint(timecode, 2), 0x80, 0xf8, 0x00]);
+
+const box = (type: string, ...children: (Uint8Array | number[])[]) => {
+  const body = concat(...children);
+  return concat(uint(body.length + 8, 4), ascii(type), body);
+};
+
+const mp4AudioTrack = (timescale: number, duration: number) => box('trak',
+  box('tkhd', new Uint8Array(12), uint(1, 4), new Uint8Array(8)),
+  box('mdia',
+    box('mdhd', new Uint8Array(12), uint(timescale, 4), uint(duration, 4), new Uint8Array(4)),
+    box('hdlr', new Uint8Array(8), ascii('soun'), new Uint8Array(13)),
+    box('minf', box('stbl', box('stsd', new Uint8Array(4), uint(1, 4),
+      box('mp4a', new Uint8Array(16), uint(2, 2), uint(16, 2), new Uint8Array(4), uint(timescale, 2), new Uint8Array(2))
+    )))
+  )
+);
+
+const FTYP = box('ftyp', ascii('M4A '), uint(0, 4), ascii('isomM4A '));
+
+const tone = (length: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => 0.5 * Math.sin((2 * Math.PI * 440 * i) / sampleRate));
+
+describe('parseAudioHeader', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads WAV, FLAC and MP3 files written by the exporters', async () => {
+    const channel = tone(44100, 44100);
+
+    expect(parseAudioHeader(await encodeWav([channel], 44100, { bitDepth: 16 }))).toEqual({
+      container: 'wav', codec: 'pcm', duration: 1, sampleRate: 44100, channels: 1, bitDepth: 16,
+    });
+    expect(parseAudioHeader(await encodeFlac([channel, channel], 44100, { bitDepth: 16 }))).toEqual({
+      container: 'flac', codec: 'flac', duration: 1, sampleRate: 44100, channels: 2, bitDepth: 16,
+    });
+    expect(parseAudioHeader(await encodeMp3([channel], 44100, { bitrate: 128, outputSampleRate: 44100 }))).toEqual({
+      container: 'mp3', codec: 'mp3', duration: 1, sampleRate: 44100, channels: 1,
+    });
+  });
+
+  it('reads Ogg Vorbis from the last granule position', async () => {
+    const channel = tone(48000 * 2, 48000);
+    const probe = parseAudioHeader(await encodeVorbis([channel, channel], 48000, 128));
+
+    expect(probe).toMatchObject({ container: 'ogg', codec: 'vorbis', sampleRate: 48000, channels: 2 });
+    expect(probe?.duration).toBeCloseTo(2, 2);
+  });
+
+  it('finds MP3 audio after an ID3v2 tag', async () => {
+    const mp3 = await encodeMp3([tone(44100, 44100)], 44100, { bitrate: 128, outputSampleRate: 44100 });
+    // 200 tag bytes, stored as a syncsafe integer: 1 << 7 | 72
+    const tag = concat(ascii('ID3'), [4, 0, 0, 0, 0, 1, 72], new Uint8Array(200).fill(0xff));
+
+    expect(parseAudioHeader(concat(tag, mp3))?.duration).toBe(1);
+  });
+
+  it('uses the Matroska Info duration when it is there', () => {
+    const webm = concat(
+      EBML_HEADER,
+      element([0x18, 0x53, 0x80, 0x67],
+        element([0x15, 0x49, 0xa9, 0x66], element([0x44, 0x89], float64(2500))),
+        audioTrack('A_VORBIS')
+      )
+    );
+
+    expect(parseAudioHeader(webm)).toEqual({
+      container: 'webm', codec: 'vorbis', duration: 2.5, sampleRate: 48000, channels: 2, bitDepth: undefined,
+    });
+  });
+
+  it('measures MediaRecorder WebM from its last Opus block, less the codec delay', () => {
+    const webm = concat(
+      EBML_HEADER,
+      unknownSize([0x18, 0x53, 0x80, 0x67],
+        audioTrack('A_OPUS', 6_500_000),
+        unknownSize([0x1f, 0x43, 0xb6, 0x75], element([0xe7], [0]), opusBlock(0), opusBlock(20)),
+        unknownSize([0x1f, 0x43, 0xb6, 0x75], element([0xe7], [40]), opusBlock(0))
+      )
+    );
+
+    const probe = parseAudioHeader(webm);
+    expect(probe).toMatchObject({ container: 'webm', codec: 'opus', sampleRate: 48000, channels: 2 });
+    expect(probe?.duration).toBeCloseTo(0.0535, 6);
+  });
+
+  it('reads MP4 duration from the media header', () => {
+    const m4a = concat(FTYP, box('moov', mp4AudioTrack(44100, 44100 * 3)));
+
+    expect(parseAudioHeader(m4a)).toEqual({
+      container: 'mp4', codec: 'aac', duration: 3, sampleRate: 44100, channels: 2,
+    });
+  });
+
+  it('adds up the fragment runs of fragmented MP4', () => {
+    const m4a = concat(
+      FTYP,
+      box('moov',
+        mp4AudioTrack(48000, 0),
+        box('mvex', box('trex', new Uint8Array(4), uint(1, 4), uint(1, 4), uint(1024, 4), new Uint8Array(8)))
+      ),
+      // Default duration from trex, then from tfhd, then per sample
+      box('moof', box('traf',
+        box('tfhd', uint(0, 4), uint(1, 4)),
+        box('trun', uint(0, 4), uint(10, 4))
+      )),
+      box('moof', box('traf',
+        box('tfhd', uint(0x08, 4), uint(1, 4), uint(960, 4)),
+        box('trun', uint(0, 4), uint(5, 4))
+      )),
+      box('moof', box('traf',
+        box('tfhd', uint(0, 4), uint(1, 4)),
+        box('trun', uint(0x100, 4), uint(2, 4), uint(1024, 4), uint(512, 4))
+      ))
+    );
+
+    expect(parseAudioHeader(m4a)?.duration).toBe((10 * 1024 + 5 * 960 + 1024 + 512) / 48000);
+  });
+
+  it('returns null for data in no known format', () => {
+    expect(parseAudioHeader(new Uint8Array(0))).toBeNull();
+    expect(parseAudioHeader(new Uint8Array(4096).fill(0x20))).toBeNull();
+    expect(parseAudioHeader(Uint8Array.from(ascii('<!DOCTYPE html><html></html>')))).toBeNull();
+  });
+
+  it('does not throw on truncated headers', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const channel = tone(4410, 44100);
+    const files = [
+      await encodeWav([channel], 44100, { bitDepth: 16 }),
+      await encodeFlac([channel], 44100, { bitDepth: 16 }),
+      await encodeMp3([channel], 44100, { bitrate: 128, outputSampleRate: 44100 }),
+      concat(FTYP, box('moov', mp4AudioTrack(44100, 4410))),
+    ];
+
+    files.forEach(file => {
+      for (const length of [3, 8, 12, 20, 30, 40, 60, 100]) {
+        expect(() => parseAudioHeader(file.subarray(0, length))).not.toThrow();
+      }
+    });
+  });
+});
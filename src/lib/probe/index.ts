@@ -0,0 +1,75 @@
+import { decodeAudio } from '../decode';
+import { parseFlac } from './flac';
+import { parseMatroska } from './matroska';
+import { parseMp4 } from './mp4';
+import { parseMpeg } from './mpeg';
+import { parseOgg } from './ogg';
+import { parseWav } from './riff';
+import type { AudioProbe, HeaderParser } from './types';
+
+export type { AudioContainer, AudioProbe } from './types';
+
+// MPEG last: it has no magic number and scans for a frame sync
+const PARSERS: HeaderParser[] = [parseWav, parseFlac, parseOgg, parseMatroska, parseMp4, parseMpeg];
+
+/**
+ * Reads duration, sample rate, channel count and codec from the container
+ * headers, without decoding. Returns null for unrecognized data.
+ */
+export const parseAudioHeader = (data: Uint8Array): AudioProbe | null => {
+  for (const parse of PARSERS) {
+    try {
+      const probe = parse(data);
+      if (probe) return probe;
+    } catch (error) {
+      // Truncated or malformed headers can read past the end of the data
+      console.warn('Could not parse audio header:', error);
+    }
+  }
+  return null;
+};
+
+const readAudioProbe = async (blob: Blob): Promise<AudioProbe> => {
+  const arrayBuffer = await blob.arrayBuffer();
+
+  const parsed = parseAudioHeader(new Uint8Array(arrayBuffer));
+  if (parsed && parsed.duration > 0 && parsed.sampleRate > 0 && parsed.channels > 0) {
+    return parsed;
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudio(arrayBuffer, 44100);
+  } catch {
+    throw new Error('Could not determine audio duration');
+  }
+
+  return {
+    container: parsed?.container ?? 'unknown',
+    codec: parsed?.codec ?? 'unknown',
+    duration: buffer.duration,
+    sampleRate: parsed?.sampleRate || buffer.sampleRate,
+    channels: parsed?.channels || buffer.numberOfChannels,
+    bitDepth: parsed?.bitDepth,
+  };
+};
+
+// Probes by blob, so an imported file checked before its track is created
+// isn't read again by createTrack
+const probes = new WeakMap<Blob, Promise<AudioProbe>>();
+
+/**
+ * Describes an audio file. Header parsing gives exact values for every
+ * format we record or import; anything it can't measure is decoded instead,
+ * in which case the sample rate is the decoding context's.
+ */
+export const probeAudio = (blob: Blob): Promise<AudioProbe> => {
+  let probe = probes.get(blob);
+  if (!probe) {
+    probe = readAudioProbe(blob);
+    probes.set(blob, probe);
+    // Let a failed probe be retried
+    probe.catch(() => probes.delete(blob));
+  }
+  return probe;
+};
@@ -0,0 +1,256 @@
+import { getView } from './types';
+import type { HeaderParser } from './types';
+
+const EBML_HEADER = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_TYPE = 0x83;
+const CODEC_ID = 0x86;
+const CODEC_DELAY = 0x56aa;
+const AUDIO = 0xe1;
+const SAMPLING_FREQUENCY = 0xb5;
+const CHANNELS = 0x9f;
+const BIT_DEPTH = 0x6264;
+const CUES = 0x1c53bb6b;
+const CUE_POINT = 0xbb;
+const CUE_TIME = 0xb3;
+const CLUSTER = 0x1f43b675;
+const CLUSTER_TIMECODE = 0xe7;
+const BLOCK_GROUP = 0xa0;
+const BLOCK = 0xa1;
+const SIMPLE_BLOCK = 0xa3;
+const BLOCK_DURATION = 0x9b;
+
+// Elements whose children are read in place rather than skipped. Walking the
+// file flat like this also copes with the unknown-size Segment and Cluster
+// elements that MediaRecorder writes while streaming.
+const MASTER_ELEMENTS = new Set([SEGMENT, INFO, TRACKS, TRACK_ENTRY, AUDIO, CUES, CUE_POINT, CLUSTER, BLOCK_GROUP]);
+
+const TRACK_TYPE_AUDIO = 2;
+const DEFAULT_TIMECODE_SCALE = 1_000_000;
+
+const CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_FLAC: 'flac',
+  A_AAC: 'aac',
+  'A_MPEG/L3': 'mp3',
+  'A_PCM/INT/LIT': 'pcm',
+  'A_PCM/INT/BIG': 'pcm',
+  'A_PCM/FLOAT/IEEE': 'float',
+};
+
+interface AudioTrack {
+  number: number;
+  type: number;
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  bitDepth?: number;
+  codecDelay: number;
+}
+
+// EBML variable-length integer; IDs keep their length marker, sizes don't
+const readVint = (data: Uint8Array, offset: number, keepMarker: boolean) => {
+  const first = data[offset];
+  if (first === undefined || first === 0) return null;
+
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > data.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + data[offset + i];
+    if (data[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+const readUint = (data: Uint8Array, offset: number, size: number) => {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + data[offset + i];
+  return value;
+};
+
+const readFloat = (data: Uint8Array, offset: number, size: number) => {
+  const view = getView(data);
+  if (size === 4) return view.getFloat32(offset, false);
+  if (size === 8) return view.getFloat64(offset, false);
+  return 0;
+};
+
+// Length of an Opus packet from its TOC byte (RFC 6716 section 3.1), in ms
+const getOpusPacketDuration = (data: Uint8Array, offset: number, size: number) => {
+  if (size < 1) return 0;
+  const toc = data[offset];
+  const config = toc >> 3;
+  const frameMs = config < 12
+    ? [10, 20, 40, 60][config & 0x03]
+    : config < 16
+      ? [10, 20][config & 0x01]
+      : [2.5, 5, 10, 20][config & 0x03];
+  const code = toc & 0x03;
+  const frames = code === 0 ? 1 : code === 3 ? (size > 1 ? data[offset + 1] & 0x3f : 0) : 2;
+  return frameMs * frames;
+};
+
+/**
+ * WebM/Matroska. Uses the Info Duration when it's there; MediaRecorder
+ * output usually has none, so otherwise the end of the last audio block is
+ * found from the cluster and block timecodes, falling back to the last cue.
+ */
+export const parseMatroska: HeaderParser = (data) => {
+  const header = readVint(data, 0, true);
+  if (!header || header.value !== EBML_HEADER) return null;
+
+  let timecodeScale = DEFAULT_TIMECODE_SCALE;
+  let infoDuration = 0;
+  let lastCueTime = 0;
+  const tracks: AudioTrack[] = [];
+  let track: AudioTrack | null = null;
+
+  let clusterTimecode = 0;
+  // End of the last block of the audio track, in nanoseconds
+  let lastBlockEnd = 0;
+  let lastBlockStart = -1;
+  let blockSpacing = 0;
+  let pendingBlockStart = -1;
+
+  const audioTrack = () => tracks.find(t => t.type === TRACK_TYPE_AUDIO) ?? null;
+
+  const recordBlock = (offset: number, size: number) => {
+    const number = readVint(data, offset, false);
+    const audio = audioTrack();
+    if (!number || !audio || number.value !== audio.number || size < number.length + 3) return -1;
+
+    const relative = getView(data).getInt16(offset + number.length, false);
+    const start = (clusterTimecode + relative) * timecodeScale;
+    if (lastBlockStart >= 0 && start > lastBlockStart) {
+      blockSpacing = start - lastBlockStart;
+    }
+    lastBlockStart = Math.max(lastBlockStart, start);
+
+    let durationNs = blockSpacing;
+    if (audio.codec === 'opus') {
+      const payload = offset + number.length + 3;
+      // Laced blocks hold several packets; only unlaced ones are measured
+      const lacing = (data[offset + number.length + 2] >> 1) & 0x03;
+      if (lacing === 0) {
+        durationNs = getOpusPacketDuration(data, payload, offset + size - payload) * 1_000_000;
+      }
+    }
+    lastBlockEnd = Math.max(lastBlockEnd, start + durationNs);
+    return start;
+  };
+
+  let offset = header.length;
+  // Skip the EBML header body
+  const headerSize = readVint(data, offset, false);
+  if (!headerSize) return null;
+  offset += headerSize.length + headerSize.value;
+
+  while (offset < data.length) {
+    const id = readVint(data, offset, true);
+    if (!id) break;
+    const size = readVint(data, offset + id.length, false);
+    if (!size) break;
+
+    const body = offset + id.length + size.length;
+    if (MASTER_ELEMENTS.has(id.value)) {
+      if (id.value === TRACK_ENTRY) {
+        track = { number: 0, type: 0, codec: '', sampleRate: 8000, channels: 1, codecDelay: 0 };
+        tracks.push(track);
+      } else if (id.value === BLOCK_GROUP) {
+        pendingBlockStart = -1;
+      }
+      offset = body;
+      continue;
+    }
+
+    // Only master elements may have an unknown size
+    if (size.unknown) break;
+    const end = body + size.value;
+    if (end > data.length && id.value !== SIMPLE_BLOCK && id.value !== BLOCK) break;
+
+    switch (id.value) {
+      case TIMECODE_SCALE:
+        timecodeScale = readUint(data, body, size.value);
+        break;
+      case DURATION:
+        infoDuration = readFloat(data, body, size.value);
+        break;
+      case TRACK_NUMBER:
+        if (track) track.number = readUint(data, body, size.value);
+        break;
+      case TRACK_TYPE:
+        if (track) track.type = readUint(data, body, size.value);
+        break;
+      case CODEC_ID:
+        if (track) {
+          const codecId = String.fromCharCode(...data.subarray(body, end)).replace(/\0+$/, '');
+          track.codec = CODECS[codecId] ?? codecId.toLowerCase();
+        }
+        break;
+      case CODEC_DELAY:
+        if (track) track.codecDelay = readUint(data, body, size.value);
+        break;
+      case SAMPLING_FREQUENCY:
+        if (track) track.sampleRate = readFloat(data, body, size.value);
+        break;
+      case CHANNELS:
+        if (track) track.channels = readUint(data, body, size.value);
+        break;
+      case BIT_DEPTH:
+        if (track) track.bitDepth = readUint(data, body, size.value);
+        break;
+      case CUE_TIME:
+        lastCueTime = Math.max(lastCueTime, readUint(data, body, size.value));
+        break;
+      case CLUSTER_TIMECODE:
+        clusterTimecode = readUint(data, body, size.value);
+        break;
+      case SIMPLE_BLOCK:
+        recordBlock(body, Math.min(size.value, data.length - body));
+        break;
+      case BLOCK:
+        pendingBlockStart = recordBlock(body, Math.min(size.value, data.length - body));
+        break;
+      case BLOCK_DURATION:
+        // A BlockGroup's duration is exact, whatever the codec
+        if (pendingBlockStart >= 0) {
+          lastBlockEnd = Math.max(lastBlockEnd, pendingBlockStart + readUint(data, body, size.value) * timecodeScale);
+        }
+        break;
+    }
+
+    offset = end;
+  }
+
+  const audio = audioTrack();
+  if (!audio) return null;
+
+  let durationNs = 0;
+  if (infoDuration > 0) {
+    durationNs = infoDuration * timecodeScale;
+  } else if (lastBlockEnd > 0) {
+    durationNs = lastBlockEnd - audio.codecDelay;
+  } else {
+    durationNs = lastCueTime * timecodeScale;
+  }
+
+  return {
+    container: 'webm',
+    codec: audio.codec,
+    duration: Math.max(0, durationNs) / 1e9,
+    sampleRate: Math.round(audio.sampleRate),
+    channels: audio.channels,
+    bitDepth: audio.codec === 'pcm' ? audio.bitDepth : undefined,
+  };
+};
@@ -0,0 +1,145 @@
+import { getView, readAscii, readUint64 } from './types';
+import type { HeaderParser } from './types';
+
+// Boxes on the path to the sample description and the fragment run tables
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'mvex', 'moof', 'traf']);
+
+const CODECS: Record<string, string> = {
+  mp4a: 'aac',
+  alac: 'alac',
+  Opus: 'opus',
+  fLaC: 'flac',
+  '.mp3': 'mp3',
+};
+
+interface TrackInfo {
+  id: number;
+  handler: string;
+  timescale: number;
+  duration: number;
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  // trex default, overridden per fragment by tfhd
+  defaultSampleDuration: number;
+  fragmentDuration: number;
+}
+
+/**
+ * MP4/M4A. The length comes from the audio track's media header; fragmented
+ * files (Safari's MediaRecorder output) record none there, so the sample
+ * durations of every fragment run are added up instead.
+ */
+export const parseMp4: HeaderParser = (data) => {
+  if (readAscii(data, 4, 4) !== 'ftyp') return null;
+
+  const view = getView(data);
+  const tracks: TrackInfo[] = [];
+  let track: TrackInfo | null = null;
+  // Track the current fragment belongs to, and its default sample duration
+  let fragmentTrack: TrackInfo | null = null;
+  let fragmentDefaultDuration = 0;
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset, false);
+      const type = readAscii(data, offset + 4, 4);
+      let header = 8;
+      if (size === 1 && offset + 16 <= end) {
+        size = readUint64(view, offset + 8, false);
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) return;
+
+      const body = offset + header;
+      const boxEnd = Math.min(offset + size, end);
+
+      if (type === 'trak') {
+        track = {
+          id: 0, handler: '', timescale: 0, duration: 0, codec: '', sampleRate: 0, channels: 0,
+          defaultSampleDuration: 0, fragmentDuration: 0,
+        };
+        tracks.push(track);
+      }
+
+      if (CONTAINER_BOXES.has(type)) {
+        walk(body, boxEnd);
+      } else if (type === 'tkhd' && track && body + 24 <= boxEnd) {
+        track.id = view.getUint32(body + (data[body] === 1 ? 20 : 12), false);
+      } else if (type === 'mdhd' && track && body + (data[body] === 1 ? 32 : 20) <= boxEnd) {
+        if (data[body] === 1) {
+          track.timescale = view.getUint32(body + 20, false);
+          track.duration = readUint64(view, body + 24, false);
+        } else {
+          track.timescale = view.getUint32(body + 12, false);
+          track.duration = view.getUint32(body + 16, false);
+        }
+      } else if (type === 'hdlr' && track) {
+        track.handler = readAscii(data, body + 8, 4);
+      } else if (type === 'stsd' && track && body + 44 <= boxEnd) {
+        // First sample entry: 8-byte box header, 8 reserved/reference bytes,
+        // 8 version/vendor bytes, then channels, sample size, 4 reserved
+        // bytes and a 16.16 sample rate
+        const entry = body + 8;
+        const format = readAscii(data, entry + 4, 4);
+        track.codec = CODECS[format] ?? format.trim().toLowerCase();
+        track.channels = view.getUint16(entry + 24, false);
+        track.sampleRate = view.getUint16(entry + 32, false);
+      } else if (type === 'trex' && body + 16 <= boxEnd) {
+        const trackId = view.getUint32(body + 4, false);
+        const target = tracks.find(t => t.id === trackId);
+        if (target) target.defaultSampleDuration = view.getUint32(body + 12, false);
+      } else if (type === 'tfhd' && body + 8 <= boxEnd) {
+        const flags = view.getUint32(body, false) & 0xffffff;
+        fragmentTrack = tracks.find(t => t.id === view.getUint32(body + 4, false)) ?? null;
+        fragmentDefaultDuration = fragmentTrack?.defaultSampleDuration ?? 0;
+
+        // Optional fields in order: base data offset (8), description index
+        // (4), default sample duration (4)
+        let field = body + 8;
+        if (flags & 0x01) field += 8;
+        if (flags & 0x02) field += 4;
+        if (flags & 0x08 && field + 4 <= boxEnd) {
+          fragmentDefaultDuration = view.getUint32(field, false);
+        }
+      } else if (type === 'trun' && fragmentTrack && body + 8 <= boxEnd) {
+        const flags = view.getUint32(body, false) & 0xffffff;
+        const sampleCount = view.getUint32(body + 4, false);
+        let field = body + 8;
+        if (flags & 0x01) field += 4;
+        if (flags & 0x04) field += 4;
+
+        if (flags & 0x100) {
+          // Per-sample records of duration, size, flags and composition offset
+          const recordSize = 4 * (1 + (flags & 0x200 ? 1 : 0) + (flags & 0x400 ? 1 : 0) + (flags & 0x800 ? 1 : 0));
+          for (let i = 0; i < sampleCount && field + 4 <= boxEnd; i++, field += recordSize) {
+            fragmentTrack.fragmentDuration += view.getUint32(field, false);
+          }
+        } else {
+          fragmentTrack.fragmentDuration += sampleCount * fragmentDefaultDuration;
+        }
+      }
+
+      offset += size;
+    }
+  };
+
+  walk(0, data.length);
+
+  const audio = tracks.find(t => t.handler === 'soun');
+  if (!audio || !audio.timescale) return null;
+
+  const units = audio.duration || audio.fragmentDuration;
+  return {
+    container: 'mp4',
+    codec: audio.codec,
+    duration: units / audio.timescale,
+    // The 16.16 rate field overflows above 65535 Hz; the media timescale is
+    // the sample rate for audio tracks in practice
+    sampleRate: audio.sampleRate || audio.timescale,
+    channels: audio.channels,
+  };
+};
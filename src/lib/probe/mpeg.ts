@@ -0,0 +1,167 @@
+import { getView, readAscii } from './types';
+import type { HeaderParser } from './types';
+
+interface FrameHeader {
+  version: 1 | 2 | 2.5;
+  layer: 1 | 2 | 3;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  frameLength: number;
+}
+
+// Kbit/s by bitrate index, for MPEG-1 and MPEG-2/2.5 layers 1-3
+const BITRATES: Record<string, number[]> = {
+  'v1l1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  'v1l2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  'v1l3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  'v2l1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  'v2l2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  'v2l3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const SAMPLE_RATES: Record<number, number[]> = {
+  1: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  2.5: [11025, 12000, 8000],
+};
+
+// Frames checked after a candidate sync word before it is trusted
+const SYNC_CONFIRM_FRAMES = 2;
+
+const readFrameHeader = (data: Uint8Array, offset: number): FrameHeader | null => {
+  if (offset + 4 > data.length) return null;
+  const b1 = data[offset + 1];
+  const b2 = data[offset + 2];
+  const b3 = data[offset + 3];
+  if (data[offset] !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const versionBits = (b1 >> 3) & 0x03;
+  const layerBits = (b1 >> 1) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = BITRATES[`v${version === 1 ? 1 : 2}l${layer}`][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (b2 >> 1) & 0x01;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+  const frameLength = layer === 1
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding;
+
+  return {
+    version,
+    layer,
+    sampleRate,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    samplesPerFrame,
+    frameLength,
+  };
+};
+
+// Size of an ID3v2 tag at the start of the file, including its footer
+const getId3v2Size = (data: Uint8Array) => {
+  if (readAscii(data, 0, 3) !== 'ID3' || data.length < 10) return 0;
+  const size = ((data[6] & 0x7f) << 21) | ((data[7] & 0x7f) << 14) | ((data[8] & 0x7f) << 7) | (data[9] & 0x7f);
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+};
+
+const findFirstFrame = (data: Uint8Array, start: number): { offset: number; header: FrameHeader } | null => {
+  // Junk between the tag and the audio is rare; don't scan a whole non-MP3 file
+  const limit = Math.min(data.length - 4, start + 64 * 1024);
+  for (let offset = start; offset < limit; offset++) {
+    const header = readFrameHeader(data, offset);
+    if (!header) continue;
+
+    let next = offset + header.frameLength;
+    let confirmed = 0;
+    while (confirmed < SYNC_CONFIRM_FRAMES) {
+      const following = readFrameHeader(data, next);
+      if (!following || following.sampleRate !== header.sampleRate || following.layer !== header.layer) break;
+      next += following.frameLength;
+      confirmed++;
+    }
+    // A very short file may not have enough frames to confirm
+    if (confirmed === SYNC_CONFIRM_FRAMES || next >= data.length) {
+      return { offset, header };
+    }
+  }
+  return null;
+};
+
+// Total samples from a Xing/Info or VBRI header in the first frame, after
+// removing the LAME encoder delay and padding when they are recorded
+const readVbrSamples = (data: Uint8Array, offset: number, header: FrameHeader): number | null => {
+  const view = getView(data);
+
+  const sideInfoSize = header.version === 1
+    ? (header.channels === 1 ? 17 : 32)
+    : (header.channels === 1 ? 9 : 17);
+  const xing = offset + 4 + sideInfoSize;
+  const xingId = readAscii(data, xing, 4);
+  if ((xingId === 'Xing' || xingId === 'Info') && xing + 8 <= data.length) {
+    const flags = view.getUint32(xing + 4, false);
+    if (!(flags & 0x01) || xing + 12 > data.length) return null;
+
+    const frames = view.getUint32(xing + 8, false);
+    let samples = frames * header.samplesPerFrame;
+
+    // LAME extension: 12-bit encoder delay and padding after the encoder version
+    const lame = xing + 8 + (flags & 0x01 ? 4 : 0) + (flags & 0x02 ? 4 : 0) + (flags & 0x04 ? 100 : 0) + (flags & 0x08 ? 4 : 0);
+    const encoder = readAscii(data, lame, 4);
+    if ((encoder === 'LAME' || encoder === 'Lavf' || encoder === 'Lavc') && lame + 24 <= data.length) {
+      const delay = (data[lame + 21] << 4) | (data[lame + 22] >> 4);
+      const padding = ((data[lame + 22] & 0x0f) << 8) | data[lame + 23];
+      if (delay + padding < samples) {
+        samples -= delay + padding;
+      }
+    }
+    return samples;
+  }
+
+  const vbri = offset + 4 + 32;
+  if (readAscii(data, vbri, 4) === 'VBRI' && vbri + 18 <= data.length) {
+    return view.getUint32(vbri + 14, false) * header.samplesPerFrame;
+  }
+
+  return null;
+};
+
+/**
+ * MPEG audio (MP3 and layers 1/2). VBR files carry their frame count in a
+ * Xing/Info or VBRI header; otherwise every frame is walked and counted,
+ * which is exact for CBR files and for VBR files missing the header.
+ */
+export const parseMpeg: HeaderParser = (data) => {
+  const first = findFirstFrame(data, getId3v2Size(data));
+  if (!first) return null;
+
+  const { header } = first;
+  let samples = readVbrSamples(data, first.offset, header);
+
+  if (samples === null) {
+    samples = 0;
+    let offset = first.offset;
+    while (offset < data.length) {
+      const frame = readFrameHeader(data, offset);
+      // Stops at a trailing ID3v1/APE tag or at garbage
+      if (!frame || offset + frame.frameLength > data.length) break;
+      samples += frame.samplesPerFrame;
+      offset += frame.frameLength;
+    }
+  }
+
+  return {
+    container: 'mp3',
+    codec: `mp${header.layer}`,
+    duration: samples / header.sampleRate,
+    sampleRate: header.sampleRate,
+    channels: header.channels,
+  };
+};
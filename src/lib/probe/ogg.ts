@@ -0,0 +1,95 @@
+import { readStreamInfo } from './flac';
+import { getView, readAscii, readUint64 } from './types';
+import type { AudioProbe, HeaderParser } from './types';
+
+const PAGE_HEADER_SIZE = 27;
+// Granule position of a page on which no packet ends
+const NO_GRANULE = 2 ** 64 - 1;
+// Opus always decodes at 48 kHz and counts granules at that rate
+const OPUS_RATE = 48000;
+
+interface StreamHeader {
+  codec: string;
+  sampleRate: number;
+  channels: number;
+  bitDepth?: number;
+  // Samples at the start of the stream that are decoded but not played
+  preSkip: number;
+}
+
+// Identifies the codec from the first packet of a logical stream
+const readStreamHeader = (data: Uint8Array, offset: number): StreamHeader | null => {
+  const view = getView(data);
+
+  if (readAscii(data, offset, 8) === 'OpusHead' && offset + 19 <= data.length) {
+    return {
+      codec: 'opus',
+      sampleRate: OPUS_RATE,
+      channels: data[offset + 9],
+      preSkip: view.getUint16(offset + 10, true),
+    };
+  }
+
+  if (data[offset] === 0x01 && readAscii(data, offset + 1, 6) === 'vorbis' && offset + 16 <= data.length) {
+    return {
+      codec: 'vorbis',
+      sampleRate: view.getUint32(offset + 12, true),
+      channels: data[offset + 11],
+      preSkip: 0,
+    };
+  }
+
+  // Ogg FLAC mapping: 0x7F "FLAC", version, header count, then native "fLaC"
+  // and a STREAMINFO block with its 4-byte block header
+  if (data[offset] === 0x7f && readAscii(data, offset + 1, 4) === 'FLAC' && readAscii(data, offset + 9, 4) === 'fLaC') {
+    const info = readStreamInfo(data, offset + 17);
+    return info && {
+      codec: 'flac',
+      sampleRate: info.sampleRate,
+      channels: info.channels,
+      bitDepth: info.bitDepth,
+      preSkip: 0,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Ogg (Opus, Vorbis or FLAC): the stream parameters come from the first
+ * packet, the length from the granule position of the stream's last page.
+ */
+export const parseOgg: HeaderParser = (data) => {
+  if (readAscii(data, 0, 4) !== 'OggS' || data.length < PAGE_HEADER_SIZE) return null;
+
+  const view = getView(data);
+  const serial = view.getUint32(14, true);
+  const segmentCount = data[26];
+  const header = readStreamHeader(data, PAGE_HEADER_SIZE + segmentCount);
+  if (!header) return null;
+
+  // Walk back from the end to the last page of this stream that has a granule
+  let lastGranule = 0;
+  for (let offset = data.length - PAGE_HEADER_SIZE; offset >= 0; offset--) {
+    if (data[offset] !== 0x4f || readAscii(data, offset, 4) !== 'OggS') continue;
+    if (view.getUint32(offset + 14, true) !== serial) continue;
+
+    const granule = readUint64(view, offset + 6, true);
+    if (granule !== NO_GRANULE) {
+      lastGranule = granule;
+      break;
+    }
+  }
+
+  const probe: AudioProbe = {
+    container: 'ogg',
+    codec: header.codec,
+    duration: Math.max(0, lastGranule - header.preSkip) / header.sampleRate,
+    sampleRate: header.sampleRate,
+    channels: header.channels,
+  };
+  if (header.bitDepth) {
+    probe.bitDepth = header.bitDepth;
+  }
+  return probe;
+};
@@ -0,0 +1,86 @@
+import { getView, readAscii } from './types';
+import type { HeaderParser } from './types';
+
+const FORMAT_PCM = 0x0001;
+const FORMAT_FLOAT = 0x0003;
+const FORMAT_MPEG = 0x0050;
+const FORMAT_MPEG_LAYER3 = 0x0055;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+const getCodec = (formatTag: number) => {
+  switch (formatTag) {
+    case FORMAT_PCM: return 'pcm';
+    case FORMAT_FLOAT: return 'float';
+    case FORMAT_MPEG: return 'mp2';
+    case FORMAT_MPEG_LAYER3: return 'mp3';
+    default: return `wav-0x${formatTag.toString(16).padStart(4, '0')}`;
+  }
+};
+
+/**
+ * RIFF/WAVE: channels, rate and bit depth from `fmt `, length from the
+ * `data` chunk size (or the `fact` sample count for compressed formats).
+ */
+export const parseWav: HeaderParser = (data) => {
+  if (readAscii(data, 0, 4) !== 'RIFF' || readAscii(data, 8, 4) !== 'WAVE') return null;
+
+  const view = getView(data);
+  let formatTag = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let byteRate = 0;
+  let blockAlign = 0;
+  let bitDepth = 0;
+  let factSamples = 0;
+  let dataSize = -1;
+
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = readAscii(data, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= data.length) {
+      formatTag = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      byteRate = view.getUint32(body + 8, true);
+      blockAlign = view.getUint16(body + 12, true);
+      bitDepth = view.getUint16(body + 14, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the first two
+      // bytes of the sub-format GUID
+      if (formatTag === FORMAT_EXTENSIBLE && size >= 40 && body + 26 <= data.length) {
+        formatTag = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'fact' && body + 4 <= data.length) {
+      factSamples = view.getUint32(body, true);
+    } else if (id === 'data') {
+      // Streamed WAVs may leave the size unset or larger than the file
+      dataSize = Math.min(size, data.length - body);
+      break;
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size & 1);
+  }
+
+  if (!sampleRate || !channels || dataSize < 0) return null;
+
+  let duration = 0;
+  if ((formatTag === FORMAT_PCM || formatTag === FORMAT_FLOAT) && blockAlign) {
+    duration = Math.floor(dataSize / blockAlign) / sampleRate;
+  } else if (factSamples) {
+    duration = factSamples / sampleRate;
+  } else if (byteRate) {
+    duration = dataSize / byteRate;
+  }
+
+  return {
+    container: 'wav',
+    codec: getCodec(formatTag),
+    duration,
+    sampleRate,
+    channels,
+    bitDepth: formatTag === FORMAT_PCM ? bitDepth : undefined,
+  };
+};
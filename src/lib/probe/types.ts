@@ -0,0 +1,30 @@
+export type AudioContainer = 'wav' | 'mp3' | 'flac' | 'ogg' | 'webm' | 'mp4';
+
+// Codec names use the lowercase short form: pcm, float, mp3, mp2, mp1,
+// flac, vorbis, opus, aac, alac. Anything unrecognized is passed through.
+export interface AudioProbe {
+  container: AudioContainer | 'unknown';
+  codec: string;
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  // Bits per sample, for formats that store integer PCM
+  bitDepth?: number;
+}
+
+// A header parser returns null when the data isn't its format, and a probe
+// without a usable duration (0) when the format is right but the length isn't
+// recorded, so the caller can fall back to decoding
+export type HeaderParser = (data: Uint8Array) => AudioProbe | null;
+
+export const readAscii = (data: Uint8Array, offset: number, length: number) =>
+  offset + length > data.length ? '' : String.fromCharCode(...data.subarray(offset, offset + length));
+
+export const getView = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+// 64-bit unsigned integers as a number; exact up to 2^53
+export const readUint64 = (view: DataView, offset: number, littleEndian: boolean) => {
+  const first = view.getUint32(offset, littleEndian);
+  const second = view.getUint32(offset + 4, littleEndian);
+  return littleEndian ? second * 2 ** 32 + first : first * 2 ** 32 + second;
+};
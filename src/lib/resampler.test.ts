@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { getResampledLength, resample, resampleLinear, resampleSinc } from './resampler';
+
+const sine = (frequency: number, sampleRate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// RMS over the middle of a signal, away from the edges the filter can't see past
+const middleRms = (samples: Float32Array) => {
+  const start = Math.floor(samples.length / 4);
+  const end = Math.floor((samples.length * 3) / 4);
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] ** 2;
+  return Math.sqrt(sum / (end - start));
+};
+
+describe('getResampledLength', () => {
+  it('scales the length by the rate ratio, rounding down', () => {
+    expect(getResampledLength(44100, 44100, 48000)).toBe(48000);
+    expect(getResampledLength(1000, 48000, 44100)).toBe(918);
+    expect(getResampledLength(0, 44100, 96000)).toBe(0);
+  });
+});
+
+describe('resample', () => {
+  it('returns the input unchanged at the same rate', () => {
+    const input = sine(440, 44100, 1000);
+    expect(resample(input, 44100, 44100, 'sinc')).toBe(input);
+  });
+
+  it('produces exactly the resampled length in every mode', () => {
+    const input = sine(440, 44100, 12345);
+    const length = getResampledLength(input.length, 44100, 48000);
+
+    expect(resample(input, 44100, 48000, 'sinc')).toHaveLength(length);
+    expect(resample(input, 44100, 48000, 'linear')).toHaveLength(length);
+  });
+});
+
+describe('resampleSinc', () => {
+  it('keeps DC at unity gain', () => {
+    const output = resampleSinc(new Float32Array(4800).fill(0.25), 48000, 44100);
+    const middle = output.subarray(1000, output.length - 1000);
+
+    middle.forEach(sample => expect(sample).toBeCloseTo(0.25, 4));
+  });
+
+  it('matches the same tone generated at the output rate', () => {
+    const output = resampleSinc(sine(1000, 44100, 44100), 44100, 48000);
+    const expected = sine(1000, 48000, output.length);
+
+    let maxError = 0;
+    for (let i = 2000; i < output.length - 2000; i++) {
+      maxError = Math.max(maxError, Math.abs(output[i] - expected[i]));
+    }
+    expect(maxError).toBeLessThan(1e-3);
+  });
+
+  it('removes content above the output Nyquist frequency when downsampling', () => {
+    // 30 kHz can't be represented at 44.1 kHz; it must not fold back to 14.1 kHz
+    const output = resampleSinc(sine(30000, 96000, 48000), 96000, 44100);
+
+    expect(middleRms(output)).toBeLessThan(0.5 / Math.SQRT2 * 1e-3);
+  });
+
+  it('passes tones below the cutoff at full level', () => {
+    const output = resampleSinc(sine(15000, 48000, 24000), 48000, 44100);
+
+    expect(middleRms(output)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('handles ratios too large to tabulate', () => {
+    // 44100 -> 44101 has 44101 phases, so the kernel is computed per sample
+    const output = resampleSinc(sine(500, 44100, 4410), 44100, 44101);
+    const expected = sine(500, 44101, output.length);
+
+    for (let i = 500; i < output.length - 500; i += 97) {
+      expect(output[i]).toBeCloseTo(expected[i], 3);
+    }
+  });
+
+  it('reports progress up to 1', () => {
+    const progress: number[] = [];
+    resampleSinc(sine(440, 44100, 4410), 44100, 48000, value => progress.push(value));
+
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+});
+
+describe('resampleLinear', () => {
+  it('interpolates between neighbouring samples', () => {
+    const output = resampleLinear(Float32Array.from([0, 1, 0, -1]), 1, 2);
+
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -1]);
+  });
+});
@@ -0,0 +1,160 @@
+export type ResamplingMode = 'sinc' | 'linear';
+
+// Zero crossings of the windowed sinc on each side, at the lower of the two rates
+const ZERO_CROSSINGS = 48;
+// Cutoff as a fraction of the lower Nyquist frequency, leaving room for the transition band
+const ROLLOFF = 0.92;
+// Kaiser window shape; about 85 dB of stopband attenuation
+const KAISER_BETA = 8.6;
+// Above this many phases the kernel is computed per output sample instead of tabulated
+const MAX_TABLE_PHASES = 4096;
+
+// Output length of a conversion; every resampling mode produces exactly this many samples
+export const getResampledLength = (length: number, inputRate: number, outputRate: number) =>
+  Math.floor((length * outputRate) / inputRate);
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b));
+
+// Zeroth-order modified Bessel function of the first kind, for the Kaiser window
+const besselI0 = (x: number): number => {
+  let sum = 1;
+  let term = 1;
+  const quarterSquare = (x * x) / 4;
+  for (let k = 1; k < 50; k++) {
+    term *= quarterSquare / (k * k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+};
+
+interface Kernel {
+  // Taps either side of the centre, in input samples
+  halfLength: number;
+  // Kernel value at `offset` input samples from the centre
+  at: (offset: number) => number;
+}
+
+const createKernel = (inputRate: number, outputRate: number): Kernel => {
+  // Below 1 when downsampling: the filter stretches to cut at the output Nyquist
+  const scale = Math.min(1, outputRate / inputRate) * ROLLOFF;
+  const halfWidth = ZERO_CROSSINGS / scale;
+  const windowNorm = besselI0(KAISER_BETA);
+
+  return {
+    halfLength: Math.ceil(halfWidth),
+    at: (offset: number) => {
+      const ratio = offset / halfWidth;
+      if (ratio <= -1 || ratio >= 1) return 0;
+      const x = Math.PI * scale * offset;
+      const sinc = x === 0 ? 1 : Math.sin(x) / x;
+      return scale * sinc * (besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / windowNorm);
+    },
+  };
+};
+
+/**
+ * Band-limited sample-rate conversion with a Kaiser-windowed sinc. For a
+ * rational ratio L/M (e.g. 160/147 for 44.1 -> 48 kHz) each output sample
+ * uses one of L precomputed filter phases, normalized to unity DC gain.
+ */
+export const resampleSinc = (
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+  onProgress?: (progress: number) => void
+): Float32Array => {
+  const divisor = greatestCommonDivisor(inputRate, outputRate);
+  const up = outputRate / divisor;
+  const down = inputRate / divisor;
+  const outputLength = getResampledLength(input.length, inputRate, outputRate);
+  const output = new Float32Array(outputLength);
+  const kernel = createKernel(inputRate, outputRate);
+  const taps = kernel.halfLength * 2 + 1;
+
+  // Phase p holds the taps for an output sample p/up input samples past an
+  // input sample; tap k multiplies input[index - halfLength + k]
+  const buildPhase = (phase: number, target: Float32Array) => {
+    const fraction = phase / up;
+    let sum = 0;
+    for (let k = 0; k < taps; k++) {
+      const value = kernel.at(fraction + kernel.halfLength - k);
+      target[k] = value;
+      sum += value;
+    }
+    if (sum !== 0) {
+      for (let k = 0; k < taps; k++) target[k] /= sum;
+    }
+  };
+
+  const table = up <= MAX_TABLE_PHASES ? new Float32Array(up * taps) : null;
+  if (table) {
+    for (let phase = 0; phase < up; phase++) {
+      buildPhase(phase, table.subarray(phase * taps, (phase + 1) * taps));
+    }
+  }
+  const scratch = new Float32Array(taps);
+  const progressInterval = Math.max(1, Math.floor(outputLength / 100));
+
+  for (let n = 0; n < outputLength; n++) {
+    const position = n * down;
+    const index = Math.floor(position / up);
+    const phase = position - index * up;
+
+    let coefficients: Float32Array;
+    if (table) {
+      coefficients = table.subarray(phase * taps, (phase + 1) * taps);
+    } else {
+      buildPhase(phase, scratch);
+      coefficients = scratch;
+    }
+
+    const start = index - kernel.halfLength;
+    const first = Math.max(0, -start);
+    const last = Math.min(taps, input.length - start);
+    let sample = 0;
+    for (let k = first; k < last; k++) {
+      sample += coefficients[k] * input[start + k];
+    }
+    output[n] = sample;
+
+    if (n % progressInterval === 0) {
+      onProgress?.(n / outputLength);
+    }
+  }
+  onProgress?.(1);
+
+  return output;
+};
+
+// The original exporter's interpolation: fast, but aliases and dulls the top end
+export const resampleLinear = (input: Float32Array, inputRate: number, outputRate: number): Float32Array => {
+  const length = getResampledLength(input.length, inputRate, outputRate);
+  const output = new Float32Array(length);
+  const ratio = input.length / length;
+  for (let i = 0; i < length; i++) {
+    const sourceIndex = i * ratio;
+    const index = Math.floor(sourceIndex);
+    const fraction = sourceIndex - index;
+
+    if (index + 1 < input.length) {
+      output[i] = input[index] * (1 - fraction) + input[index + 1] * fraction;
+    } else {
+      output[i] = input[index] || 0;
+    }
+  }
+  return output;
+};
+
+export const resample = (
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+  mode: ResamplingMode,
+  onProgress?: (progress: number) => void
+): Float32Array => {
+  if (inputRate === outputRate) return input;
+  return mode === 'linear'
+    ? resampleLinear(input, inputRate, outputRate)
+    : resampleSinc(input, inputRate, outputRate, onProgress);
+};
@@ -0,0 +1,141 @@
+// Length of each snippet played while scrubbing, and the fade at either end
+// so consecutive snippets don't click
+const GRAIN_SECONDS = 0.08;
+const GRAIN_FADE_SECONDS = 0.01;
+// Fast drags fire far more pointer events than grains can be heard
+const GRAIN_INTERVAL_SECONDS = 0.04;
+
+export interface ScrubTarget {
+  buffer: AudioBuffer;
+  destination: AudioNode;
+  // Position in the buffer to play from
+  offset: number;
+  gain?: number;
+}
+
+/**
+ * Plays short faded snippets of audio at the position under the pointer, so
+ * dragging the playhead is audible in either direction.
+ */
+export class GrainScrubber {
+  private lastGrainTime = -Infinity;
+  private grains = new Set<AudioBufferSourceNode>();
+
+  play(context: BaseAudioContext, targets: ScrubTarget[]) {
+    const now = context.currentTime;
+    if (now - this.lastGrainTime < GRAIN_INTERVAL_SECONDS) return;
+    this.lastGrainTime = now;
+
+    targets.forEach(({ buffer, destination, offset, gain = 1 }) => {
+      if (offset < 0 || offset >= buffer.duration) return;
+
+      const envelope = context.createGain();
+      envelope.gain.setValueAtTime(0, now);
+      envelope.gain.linearRampToValueAtTime(gain, now + GRAIN_FADE_SECONDS);
+      envelope.gain.setValueAtTime(gain, now + GRAIN_SECONDS - GRAIN_FADE_SECONDS);
+      envelope.gain.linearRampToValueAtTime(0, now + GRAIN_SECONDS);
+      envelope.connect(destination);
+
+      const source = context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(envelope);
+      source.onended = () => {
+        source.disconnect();
+        envelope.disconnect();
+        this.grains.delete(source);
+      };
+      source.start(now, offset, GRAIN_SECONDS);
+      this.grains.add(source);
+    });
+  }
+
+  stop() {
+    this.grains.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        // Already finished
+      }
+    });
+    this.grains.clear();
+    this.lastGrainTime = -Infinity;
+  }
+}
+
+/**
+ * Scrubbing for a single recording that plays through a media element rather
+ * than the multi-track engine. Decodes the blob once and keeps the buffer,
+ * which the timeline also uses to draw individual samples.
+ */
+export class BlobScrubber {
+  private context: AudioContext | null = null;
+  private output: GainNode | null = null;
+  private blob: Blob | null = null;
+  private buffer: AudioBuffer | null = null;
+  private decoding: Promise<AudioBuffer> | null = null;
+  private grains = new GrainScrubber();
+  private volume = 1;
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.output = this.context.createGain();
+      this.output.gain.value = this.volume;
+      this.output.connect(this.context.destination);
+    }
+    return this.context;
+  }
+
+  async load(blob: Blob): Promise<AudioBuffer> {
+    if (this.blob === blob) {
+      if (this.buffer) return this.buffer;
+      if (this.decoding) return this.decoding;
+    }
+
+    this.grains.stop();
+    this.blob = blob;
+    this.buffer = null;
+    this.decoding = blob.arrayBuffer()
+      .then(arrayBuffer => this.getContext().decodeAudioData(arrayBuffer))
+      .then(buffer => {
+        if (this.blob === blob) {
+          this.buffer = buffer;
+          this.decoding = null;
+        }
+        return buffer;
+      });
+
+    return this.decoding;
+  }
+
+  setVolume(volume: number) {
+    this.volume = volume;
+    if (this.output) {
+      this.output.gain.value = volume;
+    }
+  }
+
+  scrub(time: number) {
+    if (!this.buffer) return;
+
+    const context = this.getContext();
+    if (context.state === 'suspended') {
+      context.resume();
+    }
+    this.grains.play(context, [{ buffer: this.buffer, destination: this.output!, offset: time }]);
+  }
+
+  stop() {
+    this.grains.stop();
+  }
+
+  close() {
+    this.grains.stop();
+    this.context?.close();
+    this.context = null;
+    this.output = null;
+    this.blob = null;
+    this.buffer = null;
+    this.decoding = null;
+  }
+}
@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+import { formatTimeSignature, getTimeSignature } from './musicalTime';
+import type { Project } from '../stores/projectStore';
+import type { Track } from '../stores/trackStore';
+
+// Project fields a snapshot captures and restores
+export const SNAPSHOT_PROJECT_FIELDS = [
+  'title',
+  'description',
+  'genre',
+  'tags',
+  'sample_rate',
+  'effects_settings',
+  'metronome_bpm',
+  'project_settings',
+] as const;
+
+// Track fields needed to put a track back exactly as it was, or to re-create
+// it if it has been deleted since. Peaks are left out and recomputed.
+export const SNAPSHOT_TRACK_FIELDS = [
+  'id',
+  'name',
+  'description',
+  'audio_path',
+  'duration_seconds',
+  'sample_rate',
+  'effects_settings',
+  'clips',
+  'volume',
+  'pan',
+  'is_muted',
+  'is_solo',
+  'track_order',
+] as const;
+
+export type SnapshotProject = Pick<Project, typeof SNAPSHOT_PROJECT_FIELDS[number]>;
+export type SnapshotTrack = Pick<Track, typeof SNAPSHOT_TRACK_FIELDS[number]>;
+
+export interface SnapshotContent {
+  project: SnapshotProject;
+  tracks: SnapshotTrack[];
+  // Objects in the audio bucket the tracks play from; kept in storage for as
+  // long as a snapshot refers to them
+  asset_paths: string[];
+}
+
+export interface ProjectSnapshot extends SnapshotContent {
+  id: string;
+  user_id: string;
+  project_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface TrackDiff {
+  id: string;
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  changes: FieldChange[];
+}
+
+export interface SnapshotDiff {
+  project: FieldChange[];
+  tracks: TrackDiff[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  genre: 'Genre',
+  tags: 'Tags',
+  sample_rate: 'Sample rate',
+  effects_settings: 'Effects',
+  metronome_bpm: 'BPM',
+  project_settings: 'Time signature',
+  name: 'Name',
+  audio_path: 'Recording',
+  duration_seconds: 'Length',
+  clips: 'Clips',
+  volume: 'Volume',
+  pan: 'Pan',
+  is_muted: 'Muted',
+  is_solo: 'Solo',
+  track_order: 'Position',
+};
+
+const pick = <T extends object, K extends keyof T>(source: T, fields: readonly K[]) => (
+  Object.fromEntries(fields.map(field => [field, source[field]])) as Pick<T, K>
+);
+
+export const getAssetPaths = (tracks: Pick<Track, 'audio_path' | 'clips'>[]) => Array.from(new Set(
+  tracks.flatMap(track => [
+    ...(track.audio_path ? [track.audio_path] : []),
+    ...track.clips.map(clip => clip.asset_path),
+  ])
+));
+
+export const captureSnapshot = (project: Project, tracks: Track[]): SnapshotContent => {
+  const projectTracks = tracks
+    .filter(track => track.project_id === project.id)
+    .sort((a, b) => a.track_order - b.track_order);
+
+  return {
+    project: pick(project, SNAPSHOT_PROJECT_FIELDS),
+    tracks: projectTracks.map(track => pick(track, SNAPSHOT_TRACK_FIELDS)),
+    asset_paths: getAssetPaths(projectTracks),
+  };
+};
+
+// Every audio object any snapshot of the project still needs
+export const getSnapshotAssetPaths = async (projectId: string): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('project_snapshots')
+    .select('asset_paths')
+    .eq('project_id', projectId);
+
+  if (error) throw error;
+
+  return new Set((data as Pick<ProjectSnapshot, 'asset_paths'>[]).flatMap(row => row.asset_paths));
+};
+
+// A field's value as shown in previews and diffs
+export const formatSnapshotField = (field: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+
+  switch (field) {
+    case 'volume':
+      return `${Math.round((value as number) * 100)}%`;
+    case 'pan': {
+      const pan = value as number;
+      if (Math.abs(pan) < 0.005) return 'Center';
+      return `${Math.round(Math.abs(pan) * 100)}% ${pan < 0 ? 'L' : 'R'}`;
+    }
+    case 'is_muted':
+    case 'is_solo':
+      return value ? 'Yes' : 'No';
+    case 'duration_seconds':
+      return `${(value as number).toFixed(1)}s`;
+    case 'sample_rate':
+      return `${value} Hz`;
+    case 'track_order':
+      return `#${value}`;
+    case 'clips': {
+      const count = (value as unknown[]).length;
+      return `${count} clip${count === 1 ? '' : 's'}`;
+    }
+    case 'tags':
+      return (value as string[]).join(', ') || '—';
+    case 'audio_path':
+      return (value as string).split('/').pop() ?? '';
+    case 'effects_settings': {
+      const activeEffects = (value as { activeEffects?: string[] }).activeEffects;
+      return activeEffects && activeEffects.length > 0 ? activeEffects.join(', ') : 'None';
+    }
+    case 'project_settings':
+      return formatTimeSignature(getTimeSignature(value as Record<string, unknown>));
+    default:
+      return String(value);
+  }
+};
+
+// Fields that differ, compared by value
+const diffFields = <T extends object>(from: T, to: T, fields: readonly (keyof T & string)[]): FieldChange[] => (
+  fields
+    .filter(field => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+    .map(field => ({
+      field,
+      label: FIELD_LABELS[field] ?? field,
+      from: formatSnapshotField(field, from[field]),
+      to: formatSnapshotField(field, to[field]),
+    }))
+);
+
+/**
+ * What changed going from one snapshot (or the current state) to another:
+ * project settings, and tracks added, removed or changed, matched by id.
+ */
+export const diffSnapshots = (from: SnapshotContent, to: SnapshotContent): SnapshotDiff => {
+  const trackFields = SNAPSHOT_TRACK_FIELDS.filter(field => field !== 'id');
+  const fromTracks = new Map(from.tracks.map(track => [track.id, track]));
+  const toIds = new Set(to.tracks.map(track => track.id));
+
+  const tracks: TrackDiff[] = [
+    ...to.tracks.map((track): TrackDiff => {
+      const previous = fromTracks.get(track.id);
+      if (!previous) {
+        return { id: track.id, name: track.name, status: 'added', changes: [] };
+      }
+      const changes = diffFields(previous, track, trackFields);
+      return { id: track.id, name: track.name, status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+    }),
+    ...from.tracks
+      .filter(track => !toIds.has(track.id))
+      .map((track): TrackDiff => ({ id: track.id, name: track.name, status: 'removed', changes: [] })),
+  ];
+
+  return {
+    project: diffFields(from.project, to.project, SNAPSHOT_PROJECT_FIELDS),
+    tracks,
+  };
+};
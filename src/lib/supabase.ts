@@ -24,7 +24,16 @@ if (!supabaseUrl || !supabaseAnonKey) {
       insert: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.')),
       update: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.')),
       delete: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.'))
-    })
+    }),
+    storage: {
+      from: () => ({
+        upload: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.')),
+        download: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.')),
+        createSignedUrls: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.')),
+        remove: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.')),
+        list: () => Promise.reject(new Error('Supabase not configured. Please set up your database connection.'))
+      })
+    }
   };
 } else {
   supabase = createClient(supabaseUrl, supabaseAnonKey, {
@@ -0,0 +1,83 @@
+import { concatBytes } from './bytes';
+import { getTextTags } from './types';
+import type { AudioTags } from './types';
+
+const textEncoder = new TextEncoder();
+
+// ID3v2.4 text encoding byte for UTF-8
+const UTF8 = 0x03;
+const FRONT_COVER = 0x03;
+
+// 28-bit integer with the high bit of every byte cleared
+const writeSyncsafe = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = (value >>> 21) & 0x7f;
+  target[offset + 1] = (value >>> 14) & 0x7f;
+  target[offset + 2] = (value >>> 7) & 0x7f;
+  target[offset + 3] = value & 0x7f;
+};
+
+const frame = (id: string, body: Uint8Array): Uint8Array => {
+  if (body.length > 0x0fffffff) {
+    throw new Error(`ID3 frame ${id} is too large`);
+  }
+  const header = new Uint8Array(10);
+  header.set(textEncoder.encode(id), 0);
+  writeSyncsafe(header, 4, body.length);
+  return concatBytes([header, body]);
+};
+
+const textFrame = (id: string, value: string) =>
+  frame(id, concatBytes([new Uint8Array([UTF8]), textEncoder.encode(value)]));
+
+// Comment-style frames: encoding, language, short description, text
+const commentFrame = (value: string) =>
+  frame('COMM', concatBytes([new Uint8Array([UTF8]), textEncoder.encode('eng'), new Uint8Array([0]), textEncoder.encode(value)]));
+
+const userTextFrame = (description: string, value: string) =>
+  frame('TXXX', concatBytes([new Uint8Array([UTF8]), textEncoder.encode(description), new Uint8Array([0]), textEncoder.encode(value)]));
+
+/**
+ * Builds an ID3v2.4 tag. It goes in front of the first MPEG frame, so
+ * players that ignore it still find the audio.
+ */
+export const buildId3v2Tag = (tags: AudioTags): Uint8Array | null => {
+  const text = getTextTags(tags);
+  const frames: Uint8Array[] = [];
+
+  if (text.title) frames.push(textFrame('TIT2', text.title));
+  if (text.artist) frames.push(textFrame('TPE1', text.artist));
+  if (text.album) frames.push(textFrame('TALB', text.album));
+  if (text.year) frames.push(textFrame('TDRC', text.year));
+  if (text.genre) frames.push(textFrame('TCON', text.genre));
+  if (text.bpm) frames.push(textFrame('TBPM', text.bpm));
+  if (text.comment) frames.push(commentFrame(text.comment));
+  if (text.keywords) frames.push(userTextFrame('KEYWORDS', text.keywords));
+
+  if (tags.coverArt) {
+    frames.push(frame('APIC', concatBytes([
+      new Uint8Array([UTF8]),
+      textEncoder.encode(tags.coverArt.mimeType),
+      new Uint8Array([0, FRONT_COVER, 0]), // MIME terminator, picture type, empty description
+      tags.coverArt.data,
+    ])));
+  }
+
+  if (frames.length === 0) return null;
+
+  const body = concatBytes(frames);
+  if (body.length > 0x0fffffff) {
+    throw new Error('ID3 tag is too large');
+  }
+  const header = new Uint8Array(10);
+  header.set(textEncoder.encode('ID3'), 0);
+  header[3] = 4; // version 2.4.0
+  header[4] = 0;
+  header[5] = 0; // no flags
+  writeSyncsafe(header, 6, body.length);
+  return concatBytes([header, body]);
+};
+
+export const writeMp3Tags = (data: Uint8Array, tags: AudioTags): Uint8Array => {
+  const tag = buildId3v2Tag(tags);
+  return tag ? concatBytes([tag, data]) : data;
+};
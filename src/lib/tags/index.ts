@@ -0,0 +1,27 @@
+import { writeMp3Tags } from './id3v2';
+import { writeWavTags } from './riffInfo';
+import { writeFlacTags, writeOggTags } from './vorbisComment';
+import type { AudioTags } from './types';
+
+export type { AudioTags, CoverArt } from './types';
+
+export type TaggableFormat = 'wav' | 'mp3' | 'flac' | 'ogg';
+
+/**
+ * Adds metadata to an encoded file in the format's native tag structure:
+ * ID3v2.4 for MP3, Vorbis comments for FLAC and Ogg, LIST/INFO for WAV.
+ */
+export const writeTags = (data: Uint8Array, format: TaggableFormat, tags: AudioTags): Uint8Array => {
+  switch (format) {
+    case 'mp3':
+      return writeMp3Tags(data, tags);
+    case 'flac':
+      return writeFlacTags(data, tags);
+    case 'ogg':
+      return writeOggTags(data, tags);
+    case 'wav':
+      return writeWavTags(data, tags);
+    default:
+      return data;
+  }
+};
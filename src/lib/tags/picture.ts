@@ -0,0 +1,69 @@
+import { concatBytes } from './bytes';
+import type { CoverArt } from './types';
+
+const textEncoder = new TextEncoder();
+
+const FRONT_COVER = 3;
+
+interface ImageInfo {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Dimensions from the PNG header or the JPEG start-of-frame; zeros if unreadable
+const readImageInfo = ({ mimeType, data }: CoverArt): ImageInfo => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (mimeType === 'image/png' && data.length >= 26) {
+    return {
+      width: view.getUint32(16),
+      height: view.getUint32(20),
+      depth: data[24] * (PNG_CHANNELS[data[25]] ?? 1),
+    };
+  }
+
+  if (mimeType === 'image/jpeg') {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          height: view.getUint16(offset + 5),
+          width: view.getUint16(offset + 7),
+          depth: data[offset + 4] * data[offset + 9],
+        };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  }
+
+  return { width: 0, height: 0, depth: 0 };
+};
+
+/**
+ * FLAC PICTURE block body (without the metadata block header). Ogg streams
+ * carry the same structure base64-encoded as METADATA_BLOCK_PICTURE.
+ */
+export const buildPictureBlock = (cover: CoverArt): Uint8Array => {
+  const mime = textEncoder.encode(cover.mimeType);
+  const { width, height, depth } = readImageInfo(cover);
+
+  const header = new Uint8Array(8 + mime.length + 4 + 20);
+  const view = new DataView(header.buffer);
+  let offset = 0;
+  view.setUint32(offset, FRONT_COVER);
+  view.setUint32(offset += 4, mime.length);
+  header.set(mime, offset += 4);
+  view.setUint32(offset += mime.length, 0); // empty description
+  view.setUint32(offset += 4, width);
+  view.setUint32(offset += 4, height);
+  view.setUint32(offset += 4, depth);
+  view.setUint32(offset += 4, 0); // not an indexed-color image
+  view.setUint32(offset += 4, cover.data.length);
+
+  return concatBytes([header, cover.data]);
+};
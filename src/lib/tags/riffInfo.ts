@@ -0,0 +1,70 @@
+import { concatBytes } from './bytes';
+import { getTextTags, TAG_SOFTWARE } from './types';
+import type { AudioTags } from './types';
+
+const textEncoder = new TextEncoder();
+
+const readId = (data: Uint8Array, offset: number) =>
+  String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+
+// INFO values are NUL-terminated strings, padded to an even length
+const infoChunk = (id: string, value: string): Uint8Array => {
+  const text = textEncoder.encode(value);
+  const size = text.length + 1;
+  const chunk = new Uint8Array(8 + size + (size % 2));
+  const view = new DataView(chunk.buffer);
+  chunk.set(textEncoder.encode(id), 0);
+  view.setUint32(4, size, true);
+  chunk.set(text, 8);
+  return chunk;
+};
+
+/**
+ * Builds a LIST/INFO chunk. INFO has no fields for tempo or artwork, so
+ * BPM and cover art are only written to the other formats.
+ */
+export const buildInfoChunk = (tags: AudioTags): Uint8Array | null => {
+  const text = getTextTags(tags);
+  const entries: [string, string][] = [
+    ['INAM', text.title],
+    ['IART', text.artist],
+    ['IPRD', text.album],
+    ['ICRD', text.year],
+    ['IGNR', text.genre],
+    ['ICMT', text.comment],
+    ['IKEY', text.keywords],
+  ];
+  const chunks = entries.filter(([, value]) => value).map(([id, value]) => infoChunk(id, value));
+  if (chunks.length === 0) return null;
+  chunks.push(infoChunk('ISFT', TAG_SOFTWARE));
+
+  const body = concatBytes([textEncoder.encode('INFO'), ...chunks]);
+  const header = new Uint8Array(8);
+  header.set(textEncoder.encode('LIST'), 0);
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concatBytes([header, body]);
+};
+
+// Inserts the INFO list before the data chunk, where streaming readers see it first
+export const writeWavTags = (data: Uint8Array, tags: AudioTags): Uint8Array => {
+  const list = buildInfoChunk(tags);
+  if (!list) return data;
+
+  if (data.length < 12 || readId(data, 0) !== 'RIFF' || readId(data, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 12;
+  while (offset + 8 <= data.length && readId(data, offset) !== 'data') {
+    const size = view.getUint32(offset + 4, true);
+    offset += 8 + size + (size % 2);
+  }
+  if (offset + 8 > data.length) {
+    throw new Error('WAV file has no data chunk');
+  }
+
+  const output = concatBytes([data.subarray(0, offset), list, data.subarray(offset)]);
+  new DataView(output.buffer).setUint32(4, output.length - 8, true);
+  return output;
+};
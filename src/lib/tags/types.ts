@@ -0,0 +1,37 @@
+export interface CoverArt {
+  mimeType: 'image/jpeg' | 'image/png';
+  data: Uint8Array;
+}
+
+// Tag values shared by every export format; empty values are not written
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  comment?: string;
+  bpm?: number;
+  keywords?: string[];
+  coverArt?: CoverArt;
+}
+
+// Software name written where a format has a field for it
+export const TAG_SOFTWARE = 'Wave2Music';
+
+// Text tags as [field, value] pairs, skipping anything empty
+export const getTextTags = (tags: AudioTags) => {
+  const text = (value: string | number | undefined) =>
+    value === undefined || value === null || Number.isNaN(value) ? '' : String(value).trim();
+
+  return {
+    title: text(tags.title),
+    artist: text(tags.artist),
+    album: text(tags.album),
+    year: tags.year && tags.year > 0 ? String(Math.round(tags.year)) : '',
+    genre: text(tags.genre),
+    comment: text(tags.comment),
+    bpm: tags.bpm && tags.bpm > 0 ? String(Math.round(tags.bpm)) : '',
+    keywords: (tags.keywords ?? []).map(keyword => keyword.trim()).filter(Boolean).join(', '),
+  };
+};
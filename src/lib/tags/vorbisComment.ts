@@ -0,0 +1,212 @@
+import { concatBytes } from './bytes';
+import { buildPictureBlock } from './picture';
+import { getTextTags, TAG_SOFTWARE } from './types';
+import type { AudioTags } from './types';
+import { OggPageWriter, oggCrc32 } from '../encoders/oggContainer';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const FLAC_STREAMINFO = 0;
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+const toBase64 = (data: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < data.length; i += chunkSize) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+// FIELD=value pairs; names follow the common Xiph conventions
+const getComments = (tags: AudioTags, includePicture: boolean): string[] => {
+  const text = getTextTags(tags);
+  const fields: [string, string][] = [
+    ['TITLE', text.title],
+    ['ARTIST', text.artist],
+    ['ALBUM', text.album],
+    ['DATE', text.year],
+    ['GENRE', text.genre],
+    ['BPM', text.bpm],
+    ['COMMENT', text.comment],
+    ['KEYWORDS', text.keywords],
+  ];
+  const comments = fields.filter(([, value]) => value).map(([field, value]) => `${field}=${value}`);
+
+  if (includePicture && tags.coverArt) {
+    comments.push(`METADATA_BLOCK_PICTURE=${toBase64(buildPictureBlock(tags.coverArt))}`);
+  }
+  return comments;
+};
+
+// Vendor string and comment list, all lengths little-endian
+const buildCommentBody = (vendor: string, comments: string[]): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  const pushString = (value: string) => {
+    const bytes = textEncoder.encode(value);
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, bytes.length, true);
+    parts.push(length, bytes);
+  };
+
+  pushString(vendor);
+  const count = new Uint8Array(4);
+  new DataView(count.buffer).setUint32(0, comments.length, true);
+  parts.push(count);
+  comments.forEach(pushString);
+  return concatBytes(parts);
+};
+
+const flacBlock = (type: number, body: Uint8Array, isLast: boolean): Uint8Array => {
+  if (body.length > 0xffffff) {
+    throw new Error('FLAC metadata block is too large');
+  }
+  const header = new Uint8Array([
+    (isLast ? 0x80 : 0) | type,
+    (body.length >>> 16) & 0xff,
+    (body.length >>> 8) & 0xff,
+    body.length & 0xff,
+  ]);
+  return concatBytes([header, body]);
+};
+
+/**
+ * Replaces any Vorbis comment, picture and padding blocks after STREAMINFO
+ * with ones built from `tags`; other metadata blocks are kept.
+ */
+export const writeFlacTags = (data: Uint8Array, tags: AudioTags): Uint8Array => {
+  if (textDecoder.decode(data.subarray(0, 4)) !== 'fLaC') {
+    throw new Error('Not a FLAC file');
+  }
+
+  const kept: { type: number; body: Uint8Array }[] = [];
+  let offset = 4;
+  let isLast = false;
+  while (!isLast) {
+    if (offset + 4 > data.length) {
+      throw new Error('FLAC metadata is truncated');
+    }
+    isLast = (data[offset] & 0x80) !== 0;
+    const type = data[offset] & 0x7f;
+    const length = (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3];
+    const body = data.subarray(offset + 4, offset + 4 + length);
+    if (type !== FLAC_PADDING && type !== FLAC_VORBIS_COMMENT && type !== FLAC_PICTURE) {
+      kept.push({ type, body });
+    }
+    offset += 4 + length;
+  }
+  if (kept[0]?.type !== FLAC_STREAMINFO) {
+    throw new Error('FLAC file has no STREAMINFO block');
+  }
+
+  kept.push({ type: FLAC_VORBIS_COMMENT, body: buildCommentBody(TAG_SOFTWARE, getComments(tags, false)) });
+  if (tags.coverArt) {
+    kept.push({ type: FLAC_PICTURE, body: buildPictureBlock(tags.coverArt) });
+  }
+
+  return concatBytes([
+    data.subarray(0, 4),
+    ...kept.map((block, index) => flacBlock(block.type, block.body, index === kept.length - 1)),
+    data.subarray(offset),
+  ]);
+};
+
+interface OggPage {
+  offset: number;
+  length: number;
+  segments: Uint8Array;
+  body: Uint8Array;
+}
+
+const readOggPage = (data: Uint8Array, offset: number): OggPage => {
+  if (offset + 27 > data.length || textDecoder.decode(data.subarray(offset, offset + 4)) !== 'OggS') {
+    throw new Error('Invalid Ogg page');
+  }
+  const segmentCount = data[offset + 26];
+  const segments = data.subarray(offset + 27, offset + 27 + segmentCount);
+  const bodyLength = segments.reduce((total, value) => total + value, 0);
+  const bodyStart = offset + 27 + segmentCount;
+  return {
+    offset,
+    length: 27 + segmentCount + bodyLength,
+    segments,
+    body: data.subarray(bodyStart, bodyStart + bodyLength),
+  };
+};
+
+const readVendor = (packet: Uint8Array, start: number): string => {
+  if (packet.length < start + 4) return TAG_SOFTWARE;
+  const length = new DataView(packet.buffer, packet.byteOffset, packet.byteLength).getUint32(start, true);
+  return textDecoder.decode(packet.subarray(start + 4, start + 4 + length));
+};
+
+/**
+ * Rewrites the comment header of an Opus or Vorbis stream. The header pages
+ * are rebuilt; audio pages are copied as-is apart from their sequence
+ * numbers and checksums.
+ */
+export const writeOggTags = (data: Uint8Array, tags: AudioTags): Uint8Array => {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let offset = 0;
+  let headerCount = Infinity;
+
+  // Collect header packets; they always end on a page boundary
+  while (packets.length < headerCount) {
+    const page = readOggPage(data, offset);
+    let bodyOffset = 0;
+    page.segments.forEach(value => {
+      pending.push(page.body.subarray(bodyOffset, bodyOffset + value));
+      bodyOffset += value;
+      if (value < 255) {
+        packets.push(concatBytes(pending));
+        pending = [];
+      }
+    });
+    offset += page.length;
+
+    if (headerCount === Infinity && packets.length > 0) {
+      const magic = textDecoder.decode(packets[0].subarray(0, 8));
+      if (magic === 'OpusHead') headerCount = 2;
+      else if (magic.slice(1, 7) === 'vorbis') headerCount = 3;
+      else throw new Error('Unsupported Ogg codec');
+    }
+  }
+  if (packets.length !== headerCount || pending.length > 0) {
+    throw new Error('Ogg headers do not end on a page boundary');
+  }
+
+  const serialNumber = new DataView(data.buffer, data.byteOffset + 14, 4).getUint32(0, true);
+  const writer = new OggPageWriter(serialNumber);
+  writer.addPacket(packets[0], 0, { flush: true });
+
+  if (headerCount === 2) {
+    const vendor = readVendor(packets[1], 8);
+    const comments = buildCommentBody(vendor, getComments(tags, true));
+    writer.addPacket(concatBytes([textEncoder.encode('OpusTags'), comments]), 0, { flush: true });
+  } else {
+    const vendor = readVendor(packets[1], 7);
+    const comments = buildCommentBody(vendor, getComments(tags, true));
+    // Packet type 3, "vorbis", comments, framing bit
+    writer.addPacket(concatBytes([packets[1].subarray(0, 7), comments, new Uint8Array([1])]), 0);
+    writer.addPacket(packets[2], 0, { flush: true });
+  }
+
+  const headers = writer.finish({ endOfStream: false });
+  const audio = data.slice(offset);
+  let sequence = writer.pageCount;
+  for (let pageOffset = 0; pageOffset < audio.length; sequence++) {
+    const page = readOggPage(audio, pageOffset);
+    const bytes = audio.subarray(pageOffset, pageOffset + page.length);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint32(18, sequence, true);
+    view.setUint32(22, 0, true);
+    view.setUint32(22, oggCrc32(bytes), true);
+    pageOffset += page.length;
+  }
+
+  return concatBytes([headers, audio]);
+};
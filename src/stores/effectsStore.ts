@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import { DEFAULT_EFFECT_PARAMETERS } from '../lib/effectsGraph';
+import type { EffectParameters, EffectsSettings } from '../lib/effectsGraph';
+import { useHistoryStore } from './historyStore';
+
+interface EffectsState extends EffectsSettings {
+  toggleEffect: (effectName: string) => void;
+  updateParameter: (effectType: keyof EffectParameters, parameterName: string, value: number) => void;
+  resetParameters: () => void;
+}
+
+/**
+ * The effects panel's settings. Kept outside the panel so they, and the
+ * history that can undo them, survive switching tabs.
+ */
+export const useEffectsStore = create<EffectsState>((set, get) => {
+  // Records the change as one undoable step, then applies it
+  const change = (label: string, updates: Partial<EffectsSettings>, coalesceKey?: string) => {
+    const { activeEffects, parameters } = get();
+    const previous = { activeEffects, parameters };
+
+    useHistoryStore.getState().record({
+      label,
+      coalesceKey,
+      undo: () => set(previous),
+      redo: () => set(updates),
+    });
+    set(updates);
+  };
+
+  return {
+    activeEffects: [],
+    parameters: DEFAULT_EFFECT_PARAMETERS,
+
+    toggleEffect: (effectName: string) => {
+      const { activeEffects } = get();
+      change(
+        activeEffects.includes(effectName) ? 'Disable effect' : 'Enable effect',
+        {
+          activeEffects: activeEffects.includes(effectName)
+            ? activeEffects.filter(name => name !== effectName)
+            : [...activeEffects, effectName],
+        }
+      );
+    },
+
+    updateParameter: (effectType: keyof EffectParameters, parameterName: string, value: number) => {
+      const { parameters } = get();
+      change('Change effect parameter', {
+        parameters: {
+          ...parameters,
+          [effectType]: {
+            ...parameters[effectType],
+            [parameterName]: value,
+          },
+        },
+      }, `effect:${effectType}.${parameterName}`);
+    },
+
+    resetParameters: () => {
+      change('Reset effects', { activeEffects: [], parameters: DEFAULT_EFFECT_PARAMETERS });
+    },
+  };
+});
@@ -0,0 +1,292 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { audioStorage, EXPORTS_BUCKET } from '../lib/audioStorage';
+import { useAuthStore } from './authStore';
+import type { ExportJob, ExportSettings } from '../hooks/useAudioExporter';
+
+export interface ExportRecord {
+  id: string;
+  user_id: string;
+  project_id: string;
+  source: ExportJob['source'];
+  format: ExportSettings['format'];
+  quality: ExportSettings['quality'];
+  settings: Omit<ExportSettings, 'metadata'> & { metadata?: Partial<ExportSettings['metadata']> };
+  storage_path: string;
+  file_size_bytes: number;
+  duration_seconds: number;
+  sample_rate: number;
+  created_at: string;
+  // Client-side only: object URL of a file exported in this session
+  local_url?: string;
+}
+
+// Presets cover how to export, not what; tags always come from the project
+export type ExportPresetSettings = Omit<ExportSettings, 'metadata'>;
+
+export interface ExportPreset {
+  id: string;
+  user_id: string;
+  name: string;
+  settings: ExportPresetSettings;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ExportState {
+  exports: ExportRecord[];
+  presets: ExportPreset[];
+  loading: boolean;
+  error: string | null;
+
+  // Export history
+  loadExports: (projectId: string) => Promise<void>;
+  recordExport: (projectId: string, job: ExportJob, blob: Blob) => Promise<ExportRecord | null>;
+  downloadExport: (record: ExportRecord) => Promise<void>;
+  deleteExport: (id: string) => Promise<boolean>;
+
+  // Presets
+  loadPresets: () => Promise<void>;
+  savePreset: (name: string, settings: ExportSettings) => Promise<ExportPreset | null>;
+  deletePreset: (id: string) => Promise<boolean>;
+}
+
+const EXTENSIONS: Record<ExportSettings['format'], string> = {
+  mp3: 'mp3',
+  wav: 'wav',
+  flac: 'flac',
+  ogg: 'ogg',
+};
+
+export const getExportFileName = (record: Pick<ExportRecord, 'source' | 'format' | 'created_at'>) => {
+  const extension = record.source === 'stems' ? 'zip' : EXTENSIONS[record.format];
+  return `export-${new Date(record.created_at).getTime()}.${extension}`;
+};
+
+const stripPresetSettings = (settings: ExportSettings): ExportPresetSettings => {
+  const preset: Partial<ExportSettings> = { ...settings };
+  delete preset.metadata;
+  return preset as ExportPresetSettings;
+};
+
+const triggerDownload = (url: string, fileName: string) => {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+};
+
+export const useExportStore = create<ExportState>((set, get) => ({
+  exports: [],
+  presets: [],
+  loading: false,
+  error: null,
+
+  loadExports: async (projectId: string) => {
+    const { user } = useAuthStore.getState();
+    if (!user) return;
+
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('exports')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Keep session URLs for exports that are already in memory
+      const localUrls = new Map(get().exports.map(record => [record.id, record.local_url]));
+      const exports = (data as ExportRecord[]).map(record => ({
+        ...record,
+        local_url: localUrls.get(record.id),
+      }));
+
+      set({ exports, loading: false });
+    } catch (error) {
+      console.error('Error loading exports:', error);
+      set({ error: 'Failed to load export history', loading: false });
+    }
+  },
+
+  recordExport: async (projectId: string, job: ExportJob, blob: Blob) => {
+    const { user } = useAuthStore.getState();
+    if (!user) return null;
+
+    set({ error: null });
+
+    const exportId = crypto.randomUUID();
+    const extension = job.source === 'stems' ? 'zip' : EXTENSIONS[job.settings.format];
+    const storagePath = audioStorage.getExportPath(user.id, projectId, exportId, extension);
+
+    try {
+      await audioStorage.uploadAudio(storagePath, blob, EXPORTS_BUCKET);
+
+      // Cover art is already embedded in the file
+      const metadata = { ...job.settings.metadata };
+      delete metadata.coverArt;
+      const { data, error } = await supabase
+        .from('exports')
+        .insert([{
+          id: exportId,
+          user_id: user.id,
+          project_id: projectId,
+          source: job.source,
+          format: job.settings.format,
+          quality: job.settings.quality,
+          settings: { ...job.settings, metadata },
+          storage_path: storagePath,
+          file_size_bytes: blob.size,
+          duration_seconds: job.durationSeconds ?? 0,
+          sample_rate: job.sampleRate ?? job.settings.sampleRate,
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        await audioStorage.deleteAudio([storagePath], EXPORTS_BUCKET).catch(() => undefined);
+        throw error;
+      }
+
+      const record: ExportRecord = { ...(data as ExportRecord), local_url: URL.createObjectURL(blob) };
+      set(state => ({ exports: [record, ...state.exports] }));
+      return record;
+    } catch (error) {
+      console.error('Error saving export:', error);
+      set({ error: 'Failed to save export to history' });
+      return null;
+    }
+  },
+
+  downloadExport: async (record: ExportRecord) => {
+    const fileName = getExportFileName(record);
+    if (record.local_url) {
+      triggerDownload(record.local_url, fileName);
+      return;
+    }
+
+    set({ error: null });
+
+    try {
+      const blob = await audioStorage.downloadAudio(record.storage_path, EXPORTS_BUCKET);
+      const url = URL.createObjectURL(blob);
+      triggerDownload(url, fileName);
+
+      set(state => ({
+        exports: state.exports.map(e => e.id === record.id ? { ...e, local_url: url } : e),
+      }));
+    } catch (error) {
+      console.error('Error downloading export:', error);
+      set({ error: 'Failed to download export' });
+    }
+  },
+
+  deleteExport: async (id: string) => {
+    const record = get().exports.find(e => e.id === id);
+    if (!record) return false;
+
+    set({ error: null });
+
+    try {
+      const { error } = await supabase
+        .from('exports')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      try {
+        await audioStorage.deleteAudio([record.storage_path], EXPORTS_BUCKET);
+      } catch (storageError) {
+        console.error('Error deleting export file:', storageError);
+      }
+
+      if (record.local_url) {
+        URL.revokeObjectURL(record.local_url);
+      }
+      set(state => ({ exports: state.exports.filter(e => e.id !== id) }));
+      return true;
+    } catch (error) {
+      console.error('Error deleting export:', error);
+      set({ error: 'Failed to delete export' });
+      return false;
+    }
+  },
+
+  loadPresets: async () => {
+    const { user } = useAuthStore.getState();
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('export_presets')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      set({ presets: data as ExportPreset[] });
+    } catch (error) {
+      console.error('Error loading export presets:', error);
+      set({ error: 'Failed to load export presets' });
+    }
+  },
+
+  savePreset: async (name: string, settings: ExportSettings) => {
+    const { user } = useAuthStore.getState();
+    if (!user) return null;
+
+    set({ error: null });
+
+    try {
+      // Saving under an existing name replaces that preset
+      const { data, error } = await supabase
+        .from('export_presets')
+        .upsert(
+          [{ user_id: user.id, name: name.trim(), settings: stripPresetSettings(settings) }],
+          { onConflict: 'user_id,name' }
+        )
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const preset = data as ExportPreset;
+      set(state => ({
+        presets: [...state.presets.filter(p => p.id !== preset.id), preset]
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+      return preset;
+    } catch (error) {
+      console.error('Error saving export preset:', error);
+      set({ error: 'Failed to save export preset' });
+      return null;
+    }
+  },
+
+  deletePreset: async (id: string) => {
+    set({ error: null });
+
+    try {
+      const { error } = await supabase
+        .from('export_presets')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      set(state => ({ presets: state.presets.filter(p => p.id !== id) }));
+      return true;
+    } catch (error) {
+      console.error('Error deleting export preset:', error);
+      set({ error: 'Failed to delete export preset' });
+      return false;
+    }
+  },
+}));
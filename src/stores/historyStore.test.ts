@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useHistoryStore } from './historyStore';
+
+// A value changed through recorded commands, the way the stores use history
+const createCounter = () => {
+  let value = 0;
+  const set = (next: number, coalesceKey?: string) => {
+    const previous = value;
+    useHistoryStore.getState().record({
+      label: 'Set value',
+      coalesceKey,
+      undo: () => { value = previous; },
+      redo: () => { value = next; },
+    });
+    value = next;
+  };
+  return { set, get: () => value };
+};
+
+describe('useHistoryStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useHistoryStore.getState().clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('undoes and redoes changes in order', async () => {
+    const counter = createCounter();
+    counter.set(1);
+    counter.set(2);
+
+    await useHistoryStore.getState().undo();
+    expect(counter.get()).toBe(1);
+    await useHistoryStore.getState().undo();
+    expect(counter.get()).toBe(0);
+    await useHistoryStore.getState().redo();
+    expect(counter.get()).toBe(1);
+    expect(useHistoryStore.getState().future).toHaveLength(1);
+  });
+
+  it('coalesces quick changes with the same key into one step', async () => {
+    const counter = createCounter();
+    counter.set(1, 'drag');
+    vi.advanceTimersByTime(200);
+    counter.set(2, 'drag');
+    vi.advanceTimersByTime(200);
+    counter.set(3, 'drag');
+
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+
+    // Undo goes back to before the first step, redo to after the last
+    await useHistoryStore.getState().undo();
+    expect(counter.get()).toBe(0);
+    await useHistoryStore.getState().redo();
+    expect(counter.get()).toBe(3);
+  });
+
+  it('measures the coalescing window from the latest change', () => {
+    const counter = createCounter();
+    for (let step = 1; step <= 5; step++) {
+      counter.set(step, 'drag');
+      vi.advanceTimersByTime(900);
+    }
+
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+  });
+
+  it('starts a new step after a pause, or for a different key', () => {
+    const counter = createCounter();
+    counter.set(1, 'drag');
+    vi.advanceTimersByTime(1500);
+    counter.set(2, 'drag');
+    counter.set(3, 'other');
+    counter.set(4);
+    counter.set(5);
+
+    expect(useHistoryStore.getState().past).toHaveLength(5);
+  });
+
+  it('does not coalesce into a step that was undone', async () => {
+    const counter = createCounter();
+    counter.set(1, 'drag');
+    counter.set(2, 'other');
+    await useHistoryStore.getState().undo();
+    counter.set(3, 'drag');
+
+    expect(useHistoryStore.getState().past).toHaveLength(2);
+    expect(useHistoryStore.getState().future).toHaveLength(0);
+  });
+
+  it('records nothing while a step is being applied', async () => {
+    const { record } = useHistoryStore.getState();
+    record({
+      label: 'Nested',
+      // Store actions record as usual; history must ignore it during undo
+      undo: () => record({ label: 'Inner', undo: () => {}, redo: () => {} }),
+      redo: () => {},
+    });
+
+    await useHistoryStore.getState().undo();
+
+    expect(useHistoryStore.getState().past).toHaveLength(0);
+    expect(useHistoryStore.getState().future).toHaveLength(1);
+  });
+
+  it('keeps a step and reports an error when undoing it fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useHistoryStore.getState().record({
+      label: 'Delete track',
+      undo: () => Promise.reject(new Error('offline')),
+      redo: () => {},
+    });
+
+    await useHistoryStore.getState().undo();
+
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+    expect(useHistoryStore.getState().error).toBe('Failed to undo delete track');
+    expect(useHistoryStore.getState().isApplying).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+
+// Changes with the same coalesce key closer together than this (e.g. the
+// steps of one slider drag) undo as a single step
+const COALESCE_MS = 1000;
+const MAX_HISTORY = 100;
+
+/**
+ * An undoable change. `undo` and `redo` go through the normal store actions,
+ * which record nothing while history is being applied.
+ */
+export interface HistoryCommand {
+  label: string;
+  undo: () => Promise<void> | void;
+  redo: () => Promise<void> | void;
+  coalesceKey?: string;
+}
+
+interface HistoryEntry extends HistoryCommand {
+  timestamp: number;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  isApplying: boolean;
+  error: string | null;
+
+  record: (command: HistoryCommand) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clear: () => void;
+}
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  past: [],
+  future: [],
+  isApplying: false,
+  error: null,
+
+  record: (command: HistoryCommand) => {
+    if (get().isApplying) return;
+
+    const now = Date.now();
+    const { past, future } = get();
+    const last = past[past.length - 1];
+
+    // Keep the first step's undo and take the latest redo
+    if (command.coalesceKey && future.length === 0 && last?.coalesceKey === command.coalesceKey && now - last.timestamp < COALESCE_MS) {
+      set({ past: [...past.slice(0, -1), { ...last, redo: command.redo, timestamp: now }] });
+      return;
+    }
+
+    set({
+      past: [...past, { ...command, timestamp: now }].slice(-MAX_HISTORY),
+      future: [],
+    });
+  },
+
+  undo: async () => {
+    const { past, future, isApplying } = get();
+    const entry = past[past.length - 1];
+    if (!entry || isApplying) return;
+
+    set({ isApplying: true, error: null });
+
+    try {
+      await entry.undo();
+      set({ past: past.slice(0, -1), future: [...future, entry], isApplying: false });
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      set({ error: `Failed to undo ${entry.label.toLowerCase()}`, isApplying: false });
+    }
+  },
+
+  redo: async () => {
+    const { past, future, isApplying } = get();
+    const entry = future[future.length - 1];
+    if (!entry || isApplying) return;
+
+    set({ isApplying: true, error: null });
+
+    try {
+      await entry.redo();
+      set({ past: [...past, entry], future: future.slice(0, -1), isApplying: false });
+    } catch (error) {
+      console.error('Error redoing change:', error);
+      set({ error: `Failed to redo ${entry.label.toLowerCase()}`, isApplying: false });
+    }
+  },
+
+  clear: () => {
+    set({ past: [], future: [], error: null });
+  },
+}));
@@ -0,0 +1,56 @@
+import { create } from 'zustand';
+import { measureRoundTripLatency } from '../lib/latency';
+
+// The measurement belongs to this device's audio hardware, not to a project or
+// account, so it's kept in the browser
+const STORAGE_KEY = 'wave2music:round-trip-latency';
+
+const loadLatency = (): number | null => {
+  try {
+    const value = parseFloat(localStorage.getItem(STORAGE_KEY) ?? '');
+    return isFinite(value) && value >= 0 ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveLatency = (latency: number) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(latency));
+  } catch {
+    // Storage unavailable, e.g. in a private window; keep it for this session
+  }
+};
+
+interface LatencyState {
+  // Seconds from playback leaving the speakers to it arriving in a recording;
+  // null until calibrated
+  roundTripLatency: number | null;
+  isCalibrating: boolean;
+  error: string | null;
+
+  calibrate: () => Promise<void>;
+}
+
+export const useLatencyStore = create<LatencyState>((set, get) => ({
+  roundTripLatency: loadLatency(),
+  isCalibrating: false,
+  error: null,
+
+  calibrate: async () => {
+    if (get().isCalibrating) return;
+    set({ isCalibrating: true, error: null });
+
+    try {
+      const roundTripLatency = await measureRoundTripLatency();
+      saveLatency(roundTripLatency);
+      set({ roundTripLatency, isCalibrating: false });
+    } catch (error) {
+      console.error('Error calibrating latency:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to measure latency',
+        isCalibrating: false,
+      });
+    }
+  },
+}));
@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { multiTrackEngine } from '../lib/multiTrackEngine';
+import type { ClickSound, MetronomeSettings } from '../lib/metronome';
+import { getTimeSignature } from '../lib/musicalTime';
+import { useProjectStore } from './projectStore';
+
+interface MetronomeState {
+  // Click along with playback and recording
+  enabled: boolean;
+  sound: ClickSound;
+  volume: number;
+  // Bars of click before recording starts; 0 for none
+  countInBars: number;
+
+  setEnabled: (enabled: boolean) => void;
+  setSound: (sound: ClickSound) => void;
+  setVolume: (volume: number) => void;
+  setCountInBars: (countInBars: number) => void;
+}
+
+export const useMetronomeStore = create<MetronomeState>((set) => ({
+  enabled: false,
+  sound: 'beep',
+  volume: 0.8,
+  countInBars: 0,
+
+  setEnabled: (enabled: boolean) => set({ enabled }),
+  setSound: (sound: ClickSound) => set({ sound }),
+  setVolume: (volume: number) => set({ volume }),
+  setCountInBars: (countInBars: number) => set({ countInBars }),
+}));
+
+// Click settings at the current project's tempo and time signature, or null
+// without a project
+export const getMetronomeSettings = (): MetronomeSettings | null => {
+  const { currentProject } = useProjectStore.getState();
+  if (!currentProject?.metronome_bpm) return null;
+
+  const { sound, volume } = useMetronomeStore.getState();
+  const { beatsPerBar } = getTimeSignature(currentProject.project_settings);
+  return { bpm: currentProject.metronome_bpm, beatsPerBar, sound, volume };
+};
+
+// Keep the playback click in step with the settings and the project's tempo
+// and time signature
+const syncEngineClick = () => {
+  multiTrackEngine.setClick(useMetronomeStore.getState().enabled ? getMetronomeSettings() : null);
+};
+
+useMetronomeStore.subscribe(syncEngineClick);
+useProjectStore.subscribe((state, prevState) => {
+  if (
+    state.currentProject?.metronome_bpm !== prevState.currentProject?.metronome_bpm ||
+    state.currentProject?.project_settings !== prevState.currentProject?.project_settings
+  ) {
+    syncEngineClick();
+  }
+});
@@ -1,5 +1,9 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import { audioStorage, EXPORTS_BUCKET } from '../lib/audioStorage';
+import { probeAudio } from '../lib/probe';
+import type { PeakPyramid } from '../lib/peaks';
+import { computePeaksFromBlob } from '../lib/peaksWorker';
 import { useAuthStore } from './authStore';
 
 export interface Project {
@@ -11,10 +15,7 @@ export interface Project {
   tags: string[];
   original_audio_path?: string;
   processed_audio_path?: string;
-  waveform_data?: {
-    peaks: number[];
-    duration: number;
-  };
+  waveform_data?: PeakPyramid | null;
   duration_seconds?: number;
   sample_rate: number;
   effects_settings: Record<string, any>;
@@ -36,13 +37,13 @@ export interface AudioSession {
   projectId: string;
   audioBlob?: Blob;
   audioUrl?: string;
-  waveformData?: {
-    peaks: number[];
-    duration: number;
-  };
+  waveformData?: PeakPyramid;
   isPlaying: boolean;
   currentTime: number;
   duration: number;
+  // Where an overdub's first sample belongs on the project timeline, already
+  // shifted for latency; unset for recordings made on their own
+  recordedAt?: number;
 }
 
 interface ProjectState {
@@ -60,7 +61,7 @@ interface ProjectState {
   setCurrentProject: (project: Project | null) => void;
   
   // Audio session management
-  createSession: (projectId: string, audioBlob: Blob) => Promise<void>;
+  createSession: (projectId: string, audioBlob: Blob, recordedAt?: number) => Promise<void>;
   updateSession: (updates: Partial<AudioSession>) => void;
   clearSession: () => void;
   
@@ -70,141 +71,6 @@ interface ProjectState {
   seekAudio: (time: number) => void;
 }
 
-// Improved audio duration detection with multiple fallback methods
-const getAudioDuration = (audioBlob: Blob): Promise<number> => {
-  return new Promise((resolve, reject) => {
-    console.log('Starting audio analysis for blob:', audioBlob.size, 'bytes');
-    
-    // Method 1: Try using Audio element
-    const tryAudioElement = () => {
-      const audio = new Audio();
-      const url = URL.createObjectURL(audioBlob);
-      let resolved = false;
-      
-      const cleanup = () => {
-        if (!resolved) {
-          URL.revokeObjectURL(url);
-          audio.removeEventListener('loadedmetadata', onLoadedMetadata);
-          audio.removeEventListener('durationchange', onDurationChange);
-          audio.removeEventListener('canplaythrough', onCanPlayThrough);
-          audio.removeEventListener('error', onError);
-        }
-      };
-      
-      const resolveWithDuration = (duration: number) => {
-        if (resolved) return;
-        resolved = true;
-        cleanup();
-        
-        console.log('Audio element method succeeded, duration:', duration);
-        
-        // Accept any finite positive duration, including very short ones
-        if (isFinite(duration) && duration > 0) {
-          resolve(duration);
-        } else {
-          console.warn('Invalid duration from audio element:', duration);
-          tryWebAudioAPI();
-        }
-      };
-      
-      const onLoadedMetadata = () => {
-        console.log('Audio metadata loaded, duration:', audio.duration);
-        if (audio.duration && isFinite(audio.duration) && audio.duration > 0) {
-          resolveWithDuration(audio.duration);
-        }
-      };
-      
-      const onDurationChange = () => {
-        console.log('Audio duration changed:', audio.duration);
-        if (audio.duration && isFinite(audio.duration) && audio.duration > 0) {
-          resolveWithDuration(audio.duration);
-        }
-      };
-      
-      const onCanPlayThrough = () => {
-        console.log('Audio can play through, duration:', audio.duration);
-        if (audio.duration && isFinite(audio.duration) && audio.duration > 0) {
-          resolveWithDuration(audio.duration);
-        }
-      };
-      
-      const onError = (e: Event) => {
-        console.error('Audio element error:', e);
-        if (!resolved) {
-          cleanup();
-          tryWebAudioAPI();
-        }
-      };
-      
-      // Set timeout for this method
-      const timeout = setTimeout(() => {
-        if (!resolved) {
-          console.log('Audio element method timed out, trying Web Audio API');
-          cleanup();
-          tryWebAudioAPI();
-        }
-      }, 5000);
-      
-      audio.addEventListener('loadedmetadata', onLoadedMetadata);
-      audio.addEventListener('durationchange', onDurationChange);
-      audio.addEventListener('canplaythrough', onCanPlayThrough);
-      audio.addEventListener('error', onError);
-      
-      audio.preload = 'metadata';
-      audio.src = url;
-      audio.load();
-    };
-
-    // Method 2: Try using Web Audio API
-    const tryWebAudioAPI = () => {
-      console.log('Trying Web Audio API method');
-      
-      audioBlob.arrayBuffer()
-        .then(buffer => {
-          const audioContext = new AudioContext();
-          return audioContext.decodeAudioData(buffer)
-            .then(audioBuffer => {
-              const duration = audioBuffer.duration;
-              console.log('Web Audio API method succeeded, duration:', duration);
-              
-              audioContext.close();
-              
-              if (isFinite(duration) && duration > 0) {
-                resolve(duration);
-              } else {
-                console.warn('Invalid duration from Web Audio API:', duration);
-                tryEstimateFromSize();
-              }
-            });
-        })
-        .catch(error => {
-          console.error('Web Audio API failed:', error);
-          tryEstimateFromSize();
-        });
-    };
-
-    // Method 3: Estimate from file size (very rough fallback)
-    const tryEstimateFromSize = () => {
-      console.log('Trying size estimation method');
-      
-      // Very rough estimation: assume ~128kbps encoding
-      // This is just a fallback and won't be very accurate
-      const estimatedDuration = (audioBlob.size * 8) / (128 * 1000); // Convert to seconds
-      
-      console.log('Estimated duration from size:', estimatedDuration);
-      
-      if (estimatedDuration > 0 && estimatedDuration < 3600) { // Sanity check: less than 1 hour
-        resolve(estimatedDuration);
-      } else {
-        reject(new Error('Could not determine audio duration'));
-      }
-    };
-
-    // Start with the most reliable method
-    tryAudioElement();
-  });
-};
-
 export const useProjectStore = create<ProjectState>((set, get) => ({
   projects: [],
   currentProject: null,
@@ -289,6 +155,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 
   deleteProject: async (id: string) => {
+    const { user } = useAuthStore.getState();
     set({ loading: true, error: null });
 
     try {
@@ -299,6 +166,16 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
       if (error) throw error;
 
+      // Track and export rows cascade with the project; their files have to be removed explicitly
+      if (user) {
+        try {
+          await audioStorage.deleteProjectAudio(user.id, id);
+          await audioStorage.deleteProjectAudio(user.id, id, EXPORTS_BUCKET);
+        } catch (storageError) {
+          console.error('Error deleting project audio:', storageError);
+        }
+      }
+
       set(state => ({
         projects: state.projects.filter(p => p.id !== id),
         currentProject: state.currentProject?.id === id ? null : state.currentProject,
@@ -339,10 +216,9 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     set({ currentProject: project });
   },
 
-  createSession: async (projectId: string, audioBlob: Blob) => {
+  createSession: async (projectId: string, audioBlob: Blob, recordedAt?: number) => {
     try {
-      // Use the robust audio duration detection
-      const duration = await getAudioDuration(audioBlob);
+      const { duration } = await probeAudio(audioBlob);
       
       // Create the audio URL
       const audioUrl = URL.createObjectURL(audioBlob);
@@ -354,7 +230,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         audioUrl,
         isPlaying: false,
         currentTime: 0,
-        duration, // Use the reliably detected duration
+        duration,
+        recordedAt,
       };
 
       set({ currentSession: session });
@@ -363,12 +240,10 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     } catch (error) {
       console.error('Error creating session:', error);
       
-      // Fallback: create session with estimated duration
+      // Keep the session usable; the player fills in the duration once the
+      // audio element has loaded it
       const audioUrl = URL.createObjectURL(audioBlob);
       
-      // Rough estimation based on file size (fallback)
-      const estimatedDuration = Math.max(1, (audioBlob.size * 8) / (128 * 1000));
-      
       const session: AudioSession = {
         id: `session-${Date.now()}`,
         projectId,
@@ -376,11 +251,38 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         audioUrl,
         isPlaying: false,
         currentTime: 0,
-        duration: estimatedDuration, // Use estimated duration as fallback
+        duration: 0,
+        recordedAt,
       };
 
       set({ currentSession: session });
-      console.log('Session created with estimated duration:', estimatedDuration);
+    }
+
+    // Peaks for the player, also cached on the project row
+    try {
+      const waveformData = await computePeaksFromBlob(audioBlob);
+
+      set(state => ({
+        currentSession: state.currentSession?.audioBlob === audioBlob
+          ? { ...state.currentSession, waveformData }
+          : state.currentSession,
+      }));
+
+      const { error } = await supabase
+        .from('projects')
+        .update({ waveform_data: waveformData })
+        .eq('id', projectId);
+
+      if (error) throw error;
+
+      set(state => ({
+        projects: state.projects.map(p => p.id === projectId ? { ...p, waveform_data: waveformData } : p),
+        currentProject: state.currentProject?.id === projectId
+          ? { ...state.currentProject, waveform_data: waveformData }
+          : state.currentProject,
+      }));
+    } catch (error) {
+      console.error('Error computing session waveform:', error);
     }
   },
 
@@ -0,0 +1,194 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { audioStorage } from '../lib/audioStorage';
+import { captureSnapshot, getAssetPaths } from '../lib/snapshots';
+import type { ProjectSnapshot } from '../lib/snapshots';
+import type { Clip } from '../lib/clips';
+import { useAuthStore } from './authStore';
+import { useProjectStore } from './projectStore';
+import { useTrackStore } from './trackStore';
+import { useHistoryStore } from './historyStore';
+
+interface SnapshotState {
+  snapshots: ProjectSnapshot[];
+  loading: boolean;
+  error: string | null;
+
+  loadSnapshots: (projectId: string) => Promise<void>;
+  // Snapshots the current project as it is now
+  createSnapshot: (name: string) => Promise<ProjectSnapshot | null>;
+  restoreSnapshot: (id: string) => Promise<boolean>;
+  deleteSnapshot: (id: string) => Promise<boolean>;
+}
+
+export const useSnapshotStore = create<SnapshotState>((set, get) => ({
+  snapshots: [],
+  loading: false,
+  error: null,
+
+  loadSnapshots: async (projectId: string) => {
+    const { user } = useAuthStore.getState();
+    if (!user) return;
+
+    set({ loading: true, error: null });
+
+    try {
+      const { data, error } = await supabase
+        .from('project_snapshots')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      set({ snapshots: data as ProjectSnapshot[], loading: false });
+    } catch (error) {
+      console.error('Error loading snapshots:', error);
+      set({ error: 'Failed to load snapshots', loading: false });
+    }
+  },
+
+  createSnapshot: async (name: string) => {
+    const { user } = useAuthStore.getState();
+    const { currentProject } = useProjectStore.getState();
+    if (!user || !currentProject) return null;
+
+    set({ error: null });
+
+    try {
+      const content = captureSnapshot(currentProject, useTrackStore.getState().tracks);
+      const { data, error } = await supabase
+        .from('project_snapshots')
+        .insert([{
+          user_id: user.id,
+          project_id: currentProject.id,
+          name,
+          ...content,
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const snapshot = data as ProjectSnapshot;
+      set(state => ({ snapshots: [snapshot, ...state.snapshots] }));
+      return snapshot;
+    } catch (error) {
+      console.error('Error creating snapshot:', error);
+      set({ error: 'Failed to create snapshot' });
+      return null;
+    }
+  },
+
+  restoreSnapshot: async (id: string) => {
+    const { user } = useAuthStore.getState();
+    const { currentProject, updateProject } = useProjectStore.getState();
+    const snapshot = get().snapshots.find(s => s.id === id);
+    if (!user || !currentProject || snapshot?.project_id !== currentProject.id) return false;
+
+    // The current state is snapshotted first, which also keeps the audio of
+    // tracks the restore removes, so restoring can itself be reverted
+    const backup = await get().createSnapshot(`Before restoring "${snapshot.name}"`.slice(0, 80));
+    if (!backup) return false;
+
+    set({ loading: true, error: null });
+
+    try {
+      const { tracks, clearAllSessions, loadTracks } = useTrackStore.getState();
+      const currentIds = new Set(tracks.filter(t => t.project_id === currentProject.id).map(t => t.id));
+      const snapshotIds = new Set(snapshot.tracks.map(track => track.id));
+
+      // Tracks added since go first, so re-created ones fit the track limit
+      const removedIds = Array.from(currentIds).filter(trackId => !snapshotIds.has(trackId));
+      if (removedIds.length > 0) {
+        const { error } = await supabase
+          .from('tracks')
+          .delete()
+          .in('id', removedIds);
+
+        if (error) throw error;
+      }
+
+      for (const track of snapshot.tracks) {
+        const { id: trackId, ...fields } = track;
+        if (currentIds.has(trackId)) {
+          const { error } = await supabase
+            .from('tracks')
+            .update(fields)
+            .eq('id', trackId);
+
+          if (error) throw error;
+        } else {
+          // Deleted since; its audio was kept for this snapshot
+          const { error } = await supabase
+            .from('tracks')
+            .insert([{ ...track, project_id: currentProject.id, user_id: user.id }]);
+
+          if (error) throw error;
+        }
+      }
+
+      if (!await updateProject(currentProject.id, snapshot.project)) {
+        throw new Error('Failed to restore project settings');
+      }
+
+      // Undo history refers to the state that was just replaced
+      useHistoryStore.getState().clear();
+      clearAllSessions();
+      await loadTracks(currentProject.id);
+
+      set({ loading: false });
+      return true;
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      set({ error: 'Failed to restore snapshot', loading: false });
+      return false;
+    }
+  },
+
+  deleteSnapshot: async (id: string) => {
+    const snapshot = get().snapshots.find(s => s.id === id);
+    if (!snapshot) return false;
+
+    set({ error: null });
+
+    try {
+      const { error } = await supabase
+        .from('project_snapshots')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      set(state => ({ snapshots: state.snapshots.filter(s => s.id !== id) }));
+
+      // Remove audio that only this snapshot still needed
+      try {
+        const [{ data: trackRows, error: tracksError }, { data: snapshotRows, error: snapshotsError }] = await Promise.all([
+          supabase.from('tracks').select('audio_path, clips').eq('project_id', snapshot.project_id),
+          supabase.from('project_snapshots').select('asset_paths').eq('project_id', snapshot.project_id),
+        ]);
+        if (tracksError) throw tracksError;
+        if (snapshotsError) throw snapshotsError;
+
+        const inUse = new Set([
+          ...getAssetPaths(trackRows as { audio_path?: string; clips: Clip[] }[]),
+          ...(snapshotRows as Pick<ProjectSnapshot, 'asset_paths'>[]).flatMap(row => row.asset_paths),
+        ]);
+        const unused = snapshot.asset_paths.filter(path => !inUse.has(path));
+        if (unused.length > 0) {
+          await audioStorage.deleteAudio(unused);
+        }
+      } catch (storageError) {
+        console.error('Error deleting snapshot audio:', storageError);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+      set({ error: 'Failed to delete snapshot' });
+      return false;
+    }
+  },
+}));
@@ -1,6 +1,21 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
+import { audioStorage } from '../lib/audioStorage';
+import { probeAudio } from '../lib/probe';
+import { isPeakPyramid } from '../lib/peaks';
+import type { PeakPyramid } from '../lib/peaks';
+import { computePeaksInWorker } from '../lib/peaksWorker';
+import { createRecordedClip, getTrackClips } from '../lib/clips';
+import { getSnapshotAssetPaths } from '../lib/snapshots';
+import { serializeEffectsSettings } from '../lib/effectsGraph';
+import type { EffectsSettings } from '../lib/effectsGraph';
+import type { Clip, TimeRange } from '../lib/clips';
+import { copyRange, insertClips, insertSilence, overwriteClip, removeRange, splitClipsAt } from '../lib/clipEdits';
+import type { ClipClipboard } from '../lib/clipEdits';
+import { multiTrackEngine, TransportState } from '../lib/multiTrackEngine';
 import { useAuthStore } from './authStore';
+import { useHistoryStore } from './historyStore';
+import { useProjectStore } from './projectStore';
 
 export interface Track {
   id: string;
@@ -11,13 +26,13 @@ export interface Track {
   audio_blob?: Blob;
   audio_url?: string;
   audio_path?: string;
-  waveform_data?: {
-    peaks: number[];
-    duration: number;
-  };
+  waveform_data?: PeakPyramid | null;
   duration_seconds: number;
   sample_rate: number;
   effects_settings: Record<string, any>;
+  // Never empty once loaded: tracks saved without clips get one covering
+  // the whole recording
+  clips: Clip[];
   volume: number;
   pan: number;
   is_muted: boolean;
@@ -31,10 +46,6 @@ export interface TrackSession {
   trackId: string;
   audioBlob?: Blob;
   audioUrl?: string;
-  waveformData?: {
-    peaks: number[];
-    duration: number;
-  };
   isPlaying: boolean;
   currentTime: number;
   duration: number;
@@ -44,11 +55,15 @@ interface TrackState {
   tracks: Track[];
   currentTrack: Track | null;
   trackSessions: Map<string, TrackSession>;
+  transport: TransportState;
+  clipboard: ClipClipboard | null;
   loading: boolean;
   error: string | null;
   
   // Track management
-  createTrack: (projectId: string, name: string, audioBlob: Blob, description?: string) => Promise<Track | null>;
+  // `recordedAt` places the recording on the timeline, e.g. an overdub shifted
+  // to make up for latency; without it the recording starts at 0
+  createTrack: (projectId: string, name: string, audioBlob: Blob, description?: string, recordedAt?: number) => Promise<Track | null>;
   updateTrack: (id: string, updates: Partial<Track>) => Promise<boolean>;
   deleteTrack: (id: string) => Promise<boolean>;
   loadTracks: (projectId: string) => Promise<void>;
@@ -60,136 +75,50 @@ interface TrackState {
   clearTrackSession: (trackId: string) => void;
   clearAllSessions: () => void;
   
-  // Track playback
+  // Track playback (single-track preview through the shared engine)
   playTrack: (trackId: string) => void;
   pauseTrack: (trackId: string) => void;
   seekTrack: (trackId: string, time: number) => void;
+
+  // Multi-track transport
+  playAll: () => void;
+  pauseAll: () => void;
+  seekAll: (time: number) => void;
+  stopAll: () => void;
   
   // Track controls
   setTrackVolume: (trackId: string, volume: number) => Promise<void>;
   setTrackPan: (trackId: string, pan: number) => Promise<void>;
+  // Replaces the track's effect chain; changes with the same `coalesceKey`,
+  // e.g. from one slider drag, undo as a single step
+  setTrackEffects: (trackId: string, settings: EffectsSettings, coalesceKey?: string) => Promise<void>;
+  setTrackClips: (trackId: string, clips: Clip[]) => Promise<void>;
+
+  // Clip editing on a time range of one or more tracks
+  splitClips: (trackIds: string[], time: number) => Promise<void>;
+  copyRange: (trackIds: string[], start: number, end: number) => void;
+  cutRange: (trackIds: string[], start: number, end: number) => Promise<void>;
+  deleteRange: (trackIds: string[], start: number, end: number) => Promise<void>;
+  pasteClips: (trackIds: string[], time: number) => Promise<void>;
+  insertSilence: (trackIds: string[], time: number, length: number) => Promise<void>;
+  // Uploads a take whose first sample belongs at `recordedAt` and places the
+  // part of it within `range` on the track, over whatever played there
+  insertTake: (trackId: string, audioBlob: Blob, recordedAt: number, range: TimeRange) => Promise<boolean>;
   muteTrack: (trackId: string, muted: boolean) => Promise<void>;
   soloTrack: (trackId: string, solo: boolean) => Promise<void>;
   reorderTracks: (projectId: string, trackIds: string[]) => Promise<void>;
 }
 
-// Improved audio duration detection
-const getAudioDuration = (audioBlob: Blob): Promise<number> => {
-  return new Promise((resolve, reject) => {
-    console.log('Analyzing audio duration for blob:', audioBlob.size, 'bytes');
-    
-    const tryAudioElement = () => {
-      const audio = new Audio();
-      const url = URL.createObjectURL(audioBlob);
-      let resolved = false;
-      
-      const cleanup = () => {
-        if (!resolved) {
-          URL.revokeObjectURL(url);
-          audio.removeEventListener('loadedmetadata', onLoadedMetadata);
-          audio.removeEventListener('durationchange', onDurationChange);
-          audio.removeEventListener('canplaythrough', onCanPlayThrough);
-          audio.removeEventListener('error', onError);
-        }
-      };
-      
-      const resolveWithDuration = (duration: number) => {
-        if (resolved) return;
-        resolved = true;
-        cleanup();
-        
-        if (isFinite(duration) && duration > 0) {
-          resolve(duration);
-        } else {
-          tryWebAudioAPI();
-        }
-      };
-      
-      const onLoadedMetadata = () => {
-        if (audio.duration && isFinite(audio.duration) && audio.duration > 0) {
-          resolveWithDuration(audio.duration);
-        }
-      };
-      
-      const onDurationChange = () => {
-        if (audio.duration && isFinite(audio.duration) && audio.duration > 0) {
-          resolveWithDuration(audio.duration);
-        }
-      };
-      
-      const onCanPlayThrough = () => {
-        if (audio.duration && isFinite(audio.duration) && audio.duration > 0) {
-          resolveWithDuration(audio.duration);
-        }
-      };
-      
-      const onError = () => {
-        if (!resolved) {
-          cleanup();
-          tryWebAudioAPI();
-        }
-      };
-      
-      const timeout = setTimeout(() => {
-        if (!resolved) {
-          cleanup();
-          tryWebAudioAPI();
-        }
-      }, 5000);
-      
-      audio.addEventListener('loadedmetadata', onLoadedMetadata);
-      audio.addEventListener('durationchange', onDurationChange);
-      audio.addEventListener('canplaythrough', onCanPlayThrough);
-      audio.addEventListener('error', onError);
-      
-      audio.preload = 'metadata';
-      audio.src = url;
-      audio.load();
-    };
-
-    const tryWebAudioAPI = () => {
-      audioBlob.arrayBuffer()
-        .then(buffer => {
-          const audioContext = new AudioContext();
-          return audioContext.decodeAudioData(buffer)
-            .then(audioBuffer => {
-              const duration = audioBuffer.duration;
-              audioContext.close();
-              
-              if (isFinite(duration) && duration > 0) {
-                resolve(duration);
-              } else {
-                tryEstimateFromSize();
-              }
-            });
-        })
-        .catch(() => {
-          tryEstimateFromSize();
-        });
-    };
-
-    const tryEstimateFromSize = () => {
-      const estimatedDuration = (audioBlob.size * 8) / (128 * 1000);
-      
-      if (estimatedDuration > 0 && estimatedDuration < 3600) {
-        resolve(estimatedDuration);
-      } else {
-        reject(new Error('Could not determine audio duration'));
-      }
-    };
-
-    tryAudioElement();
-  });
-};
-
 export const useTrackStore = create<TrackState>((set, get) => ({
   tracks: [],
   currentTrack: null,
   trackSessions: new Map(),
+  transport: multiTrackEngine.getState(),
+  clipboard: null,
   loading: false,
   error: null,
 
-  createTrack: async (projectId: string, name: string, audioBlob: Blob, description?: string) => {
+  createTrack: async (projectId: string, name: string, audioBlob: Blob, description?: string, recordedAt?: number) => {
     const { user } = useAuthStore.getState();
     if (!user) return null;
 
@@ -202,8 +131,7 @@ export const useTrackStore = create<TrackState>((set, get) => ({
         throw new Error('Maximum of 10 tracks per project allowed');
       }
 
-      // Get audio duration
-      const duration = await getAudioDuration(audioBlob);
+      const { duration, sampleRate } = await probeAudio(audioBlob);
       
       // Create audio URL for immediate playback
       const audioUrl = URL.createObjectURL(audioBlob);
@@ -217,7 +145,7 @@ export const useTrackStore = create<TrackState>((set, get) => ({
         name,
         description: description || '',
         duration_seconds: duration,
-        sample_rate: 44100,
+        sample_rate: sampleRate,
         effects_settings: {},
         volume: 1.0,
         pan: 0.0,
@@ -234,7 +162,32 @@ export const useTrackStore = create<TrackState>((set, get) => ({
 
       if (error) throw error;
 
-      const track = data as Track;
+      const insertedTrack = data as Track;
+
+      // Upload the recording now that the row id is known, then point the row at it
+      const audioPath = audioStorage.getTrackAudioPath(user.id, projectId, insertedTrack.id, audioBlob);
+      let track: Track;
+      try {
+        await audioStorage.uploadAudio(audioPath, audioBlob);
+
+        const { data: updatedData, error: updateError } = await supabase
+          .from('tracks')
+          .update(recordedAt === undefined
+            ? { audio_path: audioPath }
+            : { audio_path: audioPath, clips: [createRecordedClip(audioPath, duration, recordedAt)] })
+          .eq('id', insertedTrack.id)
+          .select()
+          .single();
+
+        if (updateError) throw updateError;
+        track = updatedData as Track;
+        track.clips = getTrackClips(track);
+      } catch (uploadError) {
+        // Don't leave a row behind that has no playable audio
+        await supabase.from('tracks').delete().eq('id', insertedTrack.id);
+        await audioStorage.deleteAudio([audioPath]).catch(() => undefined);
+        throw uploadError;
+      }
       
       // Add audio blob and URL to the track object for immediate use
       track.audio_blob = audioBlob;
@@ -258,37 +211,37 @@ export const useTrackStore = create<TrackState>((set, get) => ({
   },
 
   updateTrack: async (id: string, updates: Partial<Track>) => {
-    set({ loading: true, error: null });
-
-    try {
-      const { data, error } = await supabase
-        .from('tracks')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      const updatedTrack = data as Track;
-      set(state => ({
-        tracks: state.tracks.map(t => t.id === id ? { ...t, ...updatedTrack } : t),
-        currentTrack: state.currentTrack?.id === id ? { ...state.currentTrack, ...updatedTrack } : state.currentTrack,
-        loading: false,
-      }));
-
-      return true;
-    } catch (error) {
-      console.error('Error updating track:', error);
-      set({ error: 'Failed to update track', loading: false });
-      return false;
-    }
+    recordTrackUpdates('Edit track', [{ trackId: id, updates }]);
+    return saveTrackUpdates(id, updates);
   },
 
   deleteTrack: async (id: string) => {
     set({ loading: true, error: null });
 
     try {
+      // The track's own recording plus any takes only its clips play from
+      const track = get().tracks.find(t => t.id === id);
+      // Snapshots keep the audio they refer to; if they can't be checked,
+      // the files are left in place
+      const snapshotAssets = track
+        ? await getSnapshotAssetPaths(track.project_id).catch(snapshotError => {
+          console.error('Error checking snapshot audio:', snapshotError);
+          return null;
+        })
+        : new Set<string>();
+      const otherAssets = new Set(get().tracks
+        .filter(t => t.id !== id)
+        .flatMap(t => t.clips.map(clip => clip.asset_path)));
+      const audioPaths = Array.from(new Set([
+        ...(track?.audio_path ? [track.audio_path] : []),
+        ...(track?.clips ?? []).map(clip => clip.asset_path),
+      ])).filter(path => !otherAssets.has(path) && snapshotAssets !== null && !snapshotAssets.has(path));
+
+      // Keep the audio so the deletion can be undone
+      const assets = track && !useHistoryStore.getState().isApplying
+        ? await fetchTrackAudio(track, audioPaths)
+        : null;
+
       const { error } = await supabase
         .from('tracks')
         .delete()
@@ -296,6 +249,15 @@ export const useTrackStore = create<TrackState>((set, get) => ({
 
       if (error) throw error;
 
+      // The row is gone, so a failed file removal only leaves an orphan behind
+      if (audioPaths.length > 0) {
+        try {
+          await audioStorage.deleteAudio(audioPaths);
+        } catch (storageError) {
+          console.error('Error deleting track audio:', storageError);
+        }
+      }
+
       // Clean up session
       get().clearTrackSession(id);
 
@@ -305,6 +267,16 @@ export const useTrackStore = create<TrackState>((set, get) => ({
         loading: false,
       }));
 
+      if (track && assets) {
+        useHistoryStore.getState().record({
+          label: 'Delete track',
+          undo: () => restoreTrack(track, assets),
+          redo: async () => {
+            if (!await get().deleteTrack(id)) throw new Error('Failed to delete track');
+          },
+        });
+      }
+
       return true;
     } catch (error) {
       console.error('Error deleting track:', error);
@@ -320,6 +292,9 @@ export const useTrackStore = create<TrackState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
+      // Mix changes still waiting to be saved would be loaded back as they were
+      await flushControlSaves();
+
       const { data, error } = await supabase
         .from('tracks')
         .select('*')
@@ -329,7 +304,48 @@ export const useTrackStore = create<TrackState>((set, get) => ({
 
       if (error) throw error;
 
-      set({ tracks: data as Track[], loading: false });
+      const loadedTracks = data as Track[];
+
+      // Resolve playable URLs for every stored recording in one request
+      const audioPaths = loadedTracks
+        .map(t => t.audio_path)
+        .filter((path): path is string => !!path);
+      const signedUrls = await audioStorage.getSignedUrls(audioPaths);
+
+      const tracks = loadedTracks.map(track => ({
+        ...track,
+        clips: getTrackClips(track),
+        audio_url: track.audio_path ? signedUrls.get(track.audio_path) : undefined,
+      }));
+
+      set({ tracks, loading: false });
+
+      // Takes placed on a track besides its own recording
+      const extraAssets = new Set<string>();
+      tracks.forEach(track => {
+        track.clips
+          .filter(clip => clip.asset_path !== track.audio_path && !multiTrackEngine.getAssetBuffer(clip.asset_path))
+          .forEach(clip => extraAssets.add(clip.asset_path));
+      });
+      extraAssets.forEach(assetPath => {
+        audioStorage.downloadAudio(assetPath)
+          .then(blob => multiTrackEngine.loadAsset(assetPath, blob))
+          .catch(assetError => {
+            console.error('Error fetching clip audio:', assetPath, assetError);
+          });
+      });
+
+      // Fetch audio for tracks that have no session yet (e.g. after a reload)
+      const { trackSessions } = get();
+      tracks
+        .filter(track => track.audio_path && track.audio_url && !trackSessions.has(track.id))
+        .forEach(track => {
+          audioStorage.downloadAudio(track.audio_path!)
+            .then(blob => get().createTrackSession(track.id, blob))
+            .catch(sessionError => {
+              console.error('Error fetching track audio:', track.id, sessionError);
+            });
+        });
     } catch (error) {
       console.error('Error loading tracks:', error);
       set({ error: 'Failed to load tracks', loading: false });
@@ -342,7 +358,7 @@ export const useTrackStore = create<TrackState>((set, get) => ({
 
   createTrackSession: async (trackId: string, audioBlob: Blob) => {
     try {
-      const duration = await getAudioDuration(audioBlob);
+      const { duration } = await probeAudio(audioBlob);
       const audioUrl = URL.createObjectURL(audioBlob);
       
       const session: TrackSession = {
@@ -357,6 +373,31 @@ export const useTrackStore = create<TrackState>((set, get) => ({
       set(state => ({
         trackSessions: new Map(state.trackSessions.set(trackId, session))
       }));
+
+      // Decode once up front so playback can start without waiting on the file
+      const track = get().tracks.find(t => t.id === trackId);
+      const buffer = await multiTrackEngine.loadAsset(track?.audio_path ?? trackId, audioBlob);
+      multiTrackEngine.syncMix(get().tracks);
+
+      // Peaks are computed once per recording and cached on the row, so the
+      // players can draw it on later loads without decoding
+      if (track && !isPeakPyramid(track.waveform_data)) {
+        const waveformData = await computePeaksInWorker(buffer);
+
+        const { error } = await supabase
+          .from('tracks')
+          .update({ waveform_data: waveformData })
+          .eq('id', trackId);
+
+        if (error) throw error;
+
+        set(state => ({
+          tracks: state.tracks.map(t => t.id === trackId ? { ...t, waveform_data: waveformData } : t),
+          currentTrack: state.currentTrack?.id === trackId
+            ? { ...state.currentTrack, waveform_data: waveformData }
+            : state.currentTrack,
+        }));
+      }
     } catch (error) {
       console.error('Error creating track session:', error);
     }
@@ -379,6 +420,7 @@ export const useTrackStore = create<TrackState>((set, get) => ({
     if (session?.audioUrl) {
       URL.revokeObjectURL(session.audioUrl);
     }
+    multiTrackEngine.unloadTrack(trackId);
     
     set(state => {
       const newSessions = new Map(state.trackSessions);
@@ -394,53 +436,187 @@ export const useTrackStore = create<TrackState>((set, get) => ({
         URL.revokeObjectURL(session.audioUrl);
       }
     });
+    multiTrackEngine.unloadAll();
     
     set({ trackSessions: new Map() });
   },
 
   playTrack: (trackId: string) => {
+    const session = get().trackSessions.get(trackId);
+    if (!session) return;
+
+    // Only one preview plays at a time
+    get().trackSessions.forEach((other, id) => {
+      if (id !== trackId && other.isPlaying) {
+        get().updateTrackSession(id, { isPlaying: false });
+      }
+    });
+
     get().updateTrackSession(trackId, { isPlaying: true });
+    multiTrackEngine.play(session.currentTime, [trackId]).catch(error => {
+      console.error('Error playing track:', error);
+      get().updateTrackSession(trackId, { isPlaying: false });
+      set({ error: 'Playback could not start' });
+    });
   },
 
   pauseTrack: (trackId: string) => {
-    get().updateTrackSession(trackId, { isPlaying: false });
+    const { transport } = get();
+    if (transport.playingTrackIds?.includes(trackId)) {
+      multiTrackEngine.pause();
+    }
+    get().updateTrackSession(trackId, {
+      isPlaying: false,
+      currentTime: multiTrackEngine.getCurrentTime(),
+    });
   },
 
   seekTrack: (trackId: string, time: number) => {
     get().updateTrackSession(trackId, { currentTime: time });
+
+    const { transport } = get();
+    if (transport.playingTrackIds?.includes(trackId)) {
+      multiTrackEngine.seek(time);
+    }
+  },
+
+  playAll: () => {
+    const { transport } = get();
+    // Switching from a single-track preview to the full mix restarts from the top
+    const offset = transport.playingTrackIds ? 0 : multiTrackEngine.getCurrentTime();
+    multiTrackEngine.play(offset).catch(error => {
+      console.error('Error playing tracks:', error);
+      set({ error: 'Playback could not start' });
+    });
+  },
+
+  pauseAll: () => {
+    multiTrackEngine.pause();
+  },
+
+  seekAll: (time: number) => {
+    multiTrackEngine.seek(time);
+  },
+
+  stopAll: () => {
+    multiTrackEngine.stop();
   },
 
   setTrackVolume: async (trackId: string, volume: number) => {
-    await get().updateTrack(trackId, { volume });
+    // A slider drag records a single step
+    recordTrackUpdates('Change volume', [{ trackId, updates: { volume } }], `volume:${trackId}`);
+    applyControlUpdates(trackId, { volume });
   },
 
   setTrackPan: async (trackId: string, pan: number) => {
-    await get().updateTrack(trackId, { pan });
+    recordTrackUpdates('Change pan', [{ trackId, updates: { pan } }], `pan:${trackId}`);
+    applyControlUpdates(trackId, { pan });
+  },
+
+  setTrackEffects: async (trackId: string, settings: EffectsSettings, coalesceKey?: string) => {
+    const effects_settings = serializeEffectsSettings(settings);
+    recordTrackUpdates('Change track effects', [{ trackId, updates: { effects_settings } }], coalesceKey);
+    applyControlUpdates(trackId, { effects_settings });
+  },
+
+  setTrackClips: async (trackId: string, clips: Clip[]) => {
+    recordTrackUpdates('Edit clips', [{ trackId, updates: { clips } }]);
+    await applyTrackUpdates(trackId, { clips });
+  },
+
+  splitClips: async (trackIds: string[], time: number) => {
+    await editTrackClips('Split clips', trackIds, clips => splitClipsAt(clips, time));
+  },
+
+  copyRange: (trackIds: string[], start: number, end: number) => {
+    // Lanes keep the tracks' top-to-bottom order for pasting
+    const lanes = get().tracks
+      .filter(t => trackIds.includes(t.id))
+      .map(track => copyRange(track.clips, start, end));
+    set({ clipboard: { length: end - start, lanes } });
+  },
+
+  cutRange: async (trackIds: string[], start: number, end: number) => {
+    get().copyRange(trackIds, start, end);
+    await editTrackClips('Cut', trackIds, clips => removeRange(clips, start, end));
+  },
+
+  deleteRange: async (trackIds: string[], start: number, end: number) => {
+    await editTrackClips('Delete range', trackIds, clips => removeRange(clips, start, end));
+  },
+
+  pasteClips: async (trackIds: string[], time: number) => {
+    const { clipboard } = get();
+    if (!clipboard) return;
+
+    // The first copied lane goes to the topmost target, and so on down
+    const targetIds = get().tracks
+      .filter(t => trackIds.includes(t.id))
+      .slice(0, clipboard.lanes.length)
+      .map(t => t.id);
+    await editTrackClips('Paste', targetIds, (clips, index) => (
+      insertClips(clips, time, clipboard.lanes[index], clipboard.length)
+    ));
+  },
+
+  insertSilence: async (trackIds: string[], time: number, length: number) => {
+    await editTrackClips('Insert silence', trackIds, clips => insertSilence(clips, time, length));
+  },
+
+  insertTake: async (trackId: string, audioBlob: Blob, recordedAt: number, range: TimeRange) => {
+    const { user } = useAuthStore.getState();
+    const track = get().tracks.find(t => t.id === trackId);
+    if (!user || !track) return false;
+
+    set({ error: null });
+
+    try {
+      const assetPath = audioStorage.getTakeAudioPath(user.id, track.project_id, trackId, audioBlob);
+      await audioStorage.uploadAudio(assetPath, audioBlob);
+      const buffer = await multiTrackEngine.loadAsset(assetPath, audioBlob);
+
+      const take = createRecordedClip(assetPath, buffer.duration, recordedAt, range);
+      await editTrackClips('Record take', [trackId], clips => overwriteClip(clips, take));
+      return true;
+    } catch (error) {
+      console.error('Error inserting take:', error);
+      set({ error: 'Failed to save take' });
+      return false;
+    }
   },
 
   muteTrack: async (trackId: string, muted: boolean) => {
-    await get().updateTrack(trackId, { is_muted: muted });
+    recordTrackUpdates(muted ? 'Mute track' : 'Unmute track', [{ trackId, updates: { is_muted: muted } }]);
+    await applyTrackUpdates(trackId, { is_muted: muted });
   },
 
   soloTrack: async (trackId: string, solo: boolean) => {
-    const tracks = get().tracks;
-    
-    if (solo) {
-      // When soloing a track, unmute it and mute all others
-      for (const track of tracks) {
-        if (track.id === trackId) {
-          await get().updateTrack(track.id, { is_solo: true, is_muted: false });
-        } else {
-          await get().updateTrack(track.id, { is_solo: false });
-        }
-      }
-    } else {
-      // When unsoloing, just remove solo status
-      await get().updateTrack(trackId, { is_solo: false });
+    // When soloing a track, unmute it and unsolo all others; when
+    // unsoloing, just remove solo status
+    const changes = solo
+      ? get().tracks.map(track => ({
+        trackId: track.id,
+        updates: track.id === trackId ? { is_solo: true, is_muted: false } : { is_solo: false },
+      }))
+      : [{ trackId, updates: { is_solo: false } }];
+
+    recordTrackUpdates(solo ? 'Solo track' : 'Unsolo track', changes);
+    for (const change of changes) {
+      await applyTrackUpdates(change.trackId, change.updates);
     }
   },
 
   reorderTracks: async (projectId: string, trackIds: string[]) => {
+    const previousIds = get().tracks
+      .filter(t => t.project_id === projectId)
+      .sort((a, b) => a.track_order - b.track_order)
+      .map(t => t.id);
+    useHistoryStore.getState().record({
+      label: 'Reorder tracks',
+      undo: () => get().reorderTracks(projectId, previousIds),
+      redo: () => get().reorderTracks(projectId, trackIds),
+    });
+
     try {
       // Update track orders in database
       const updates = trackIds.map((trackId, index) => ({
@@ -449,7 +625,7 @@ export const useTrackStore = create<TrackState>((set, get) => ({
       }));
 
       for (const update of updates) {
-        await get().updateTrack(update.id, { track_order: update.track_order });
+        await saveTrackUpdates(update.id, { track_order: update.track_order });
       }
 
       // Reload tracks to get updated order
@@ -459,4 +635,238 @@ export const useTrackStore = create<TrackState>((set, get) => ({
       set({ error: 'Failed to reorder tracks' });
     }
   },
-}));
\ No newline at end of file
+}));
+
+// Saves changes to a track row and merges the saved row into the store
+const saveTrackUpdates = async (id: string, updates: Partial<Track>) => {
+  useTrackStore.setState({ loading: true, error: null });
+
+  try {
+    // Saved along with any pending mix changes, which the returned row would
+    // otherwise put back to their saved values
+    const { data, error } = await supabase
+      .from('tracks')
+      .update({ ...takeControlSave(id), ...updates })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Keep the loaded clip list (and its identity, which the engine
+    // compares) unless the clips themselves were updated
+    const updatedTrack = { ...(data as Track) };
+    delete (updatedTrack as Partial<Track>).clips;
+    if (updates.clips) updatedTrack.clips = updates.clips;
+
+    useTrackStore.setState(state => ({
+      tracks: state.tracks.map(t => t.id === id ? { ...t, ...updatedTrack } : t),
+      currentTrack: state.currentTrack?.id === id ? { ...state.currentTrack, ...updatedTrack } : state.currentTrack,
+      loading: false,
+    }));
+
+    return true;
+  } catch (error) {
+    console.error('Error updating track:', error);
+    useTrackStore.setState({ error: 'Failed to update track', loading: false });
+    return false;
+  }
+};
+
+// Applies changes locally, so playback follows them right away, then saves them
+const applyTrackUpdates = async (id: string, updates: Partial<Track>) => {
+  useTrackStore.setState(state => ({
+    tracks: state.tracks.map(t => t.id === id ? { ...t, ...updates } : t),
+  }));
+  await saveTrackUpdates(id, updates);
+};
+
+// Mix control changes arrive on every slider input event. They're applied
+// locally at once and saved when the control has been still this long.
+const CONTROL_SAVE_DELAY_MS = 500;
+
+interface PendingControlSave {
+  updates: Partial<Track>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingControlSaves = new Map<string, PendingControlSave>();
+
+// Removes a track's pending mix changes, for saving them some other way
+const takeControlSave = (id: string): Partial<Track> | undefined => {
+  const pending = pendingControlSaves.get(id);
+  if (!pending) return undefined;
+  clearTimeout(pending.timer);
+  pendingControlSaves.delete(id);
+  return pending.updates;
+};
+
+// Saves in the background: the store already has the values, and the
+// loading flag is left alone so a slider drag doesn't flicker the UI
+const saveControlUpdates = async (id: string, updates: Partial<Track>) => {
+  const { error } = await supabase
+    .from('tracks')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error saving track mix:', error);
+    useTrackStore.setState({ error: 'Failed to save track changes' });
+  }
+};
+
+const applyControlUpdates = (id: string, updates: Partial<Track>) => {
+  useTrackStore.setState(state => ({
+    tracks: state.tracks.map(t => t.id === id ? { ...t, ...updates } : t),
+  }));
+
+  const merged = { ...takeControlSave(id), ...updates };
+  pendingControlSaves.set(id, {
+    updates: merged,
+    timer: setTimeout(() => {
+      pendingControlSaves.delete(id);
+      saveControlUpdates(id, merged);
+    }, CONTROL_SAVE_DELAY_MS),
+  });
+};
+
+const flushControlSaves = async () => {
+  const ids = Array.from(pendingControlSaves.keys());
+  await Promise.all(ids.map(id => saveControlUpdates(id, takeControlSave(id)!)));
+};
+
+interface TrackChange {
+  trackId: string;
+  updates: Partial<Track>;
+}
+
+// Records changes about to be made to tracks, undone by putting back the
+// values the changed fields have now
+const recordTrackUpdates = (label: string, changes: TrackChange[], coalesceKey?: string) => {
+  const { tracks } = useTrackStore.getState();
+  const previous = changes.flatMap(({ trackId, updates }): TrackChange[] => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return [];
+    const fields = Object.keys(updates) as (keyof Track)[];
+    return [{ trackId, updates: Object.fromEntries(fields.map(field => [field, track[field]])) }];
+  });
+  if (previous.length === 0) return;
+
+  const apply = async (trackChanges: TrackChange[]) => {
+    await Promise.all(trackChanges.map(({ trackId, updates }) => applyTrackUpdates(trackId, updates)));
+  };
+  useHistoryStore.getState().record({
+    label,
+    coalesceKey,
+    undo: () => apply(previous),
+    redo: () => apply(changes),
+  });
+};
+
+// Applies a clip edit to each track and saves the tracks it changed, as one
+// undoable step. `index` is the track's position among the edited tracks.
+const editTrackClips = async (label: string, trackIds: string[], edit: (clips: Clip[], index: number) => Clip[]) => {
+  const changes = useTrackStore.getState().tracks
+    .filter(track => trackIds.includes(track.id))
+    .map((track, index) => ({ track, clips: edit(track.clips, index) }))
+    .filter(({ track, clips }) => JSON.stringify(clips) !== JSON.stringify(track.clips))
+    .map(({ track, clips }) => ({ trackId: track.id, updates: { clips } }));
+  if (changes.length === 0) return;
+
+  recordTrackUpdates(label, changes);
+  await Promise.all(changes.map(({ trackId, updates }) => applyTrackUpdates(trackId, updates)));
+};
+
+// The audio a deleted track needs back: its recording, which its session
+// already holds, and any takes only it used
+const fetchTrackAudio = async (track: Track, audioPaths: string[]) => {
+  const session = useTrackStore.getState().trackSessions.get(track.id);
+  const assets = new Map<string, Blob>();
+  await Promise.all(audioPaths.map(async path => {
+    try {
+      const blob = path === track.audio_path && session?.audioBlob
+        ? session.audioBlob
+        : await audioStorage.downloadAudio(path);
+      assets.set(path, blob);
+    } catch (error) {
+      // The track can still come back, just without this audio
+      console.error('Error fetching track audio:', path, error);
+    }
+  }));
+  return assets;
+};
+
+// Undoes a deletion: uploads the audio again and re-inserts the row as it was
+const restoreTrack = async (track: Track, assets: Map<string, Blob>) => {
+  const row: Partial<Track> = { ...track };
+  delete row.audio_blob;
+  delete row.audio_url;
+
+  await Promise.all(Array.from(assets, ([path, blob]) => audioStorage.uploadAudio(path, blob)));
+
+  const { data, error } = await supabase
+    .from('tracks')
+    .insert([row])
+    .select()
+    .single();
+
+  if (error) {
+    await audioStorage.deleteAudio(Array.from(assets.keys())).catch(() => undefined);
+    throw error;
+  }
+
+  // Audio a snapshot kept in storage wasn't deleted, so comes from there
+  const fetchAsset = async (path: string) => assets.get(path) ?? audioStorage.downloadAudio(path);
+  const recording = track.audio_path
+    ? await fetchAsset(track.audio_path).catch(() => undefined)
+    : undefined;
+  const restored: Track = {
+    ...(data as Track),
+    clips: track.clips,
+    audio_url: recording ? URL.createObjectURL(recording) : undefined,
+  };
+
+  new Set(track.clips.map(clip => clip.asset_path)).forEach(path => {
+    if (path === track.audio_path) return;
+    fetchAsset(path)
+      .then(blob => multiTrackEngine.loadAsset(path, blob))
+      .catch(assetError => {
+        console.error('Error fetching clip audio:', path, assetError);
+      });
+  });
+  useTrackStore.setState(state => ({
+    tracks: [...state.tracks, restored].sort((a, b) => a.track_order - b.track_order),
+  }));
+
+  if (recording) {
+    await useTrackStore.getState().createTrackSession(restored.id, recording);
+  }
+};
+
+// Keep the engine's gain/pan nodes in step with every track change
+useTrackStore.subscribe((state, prevState) => {
+  if (state.tracks !== prevState.tracks) {
+    multiTrackEngine.syncMix(state.tracks);
+  }
+});
+
+// Play the mix through the project's master effects, as the mixdown does
+useProjectStore.subscribe((state, prevState) => {
+  if (state.currentProject?.effects_settings !== prevState.currentProject?.effects_settings) {
+    multiTrackEngine.setMasterEffects(state.currentProject?.effects_settings);
+  }
+});
+
+// Mirror transport changes (play, pause, seek, end of song) into the store
+multiTrackEngine.subscribe(transport => {
+  const { trackSessions, updateTrackSession } = useTrackStore.getState();
+  useTrackStore.setState({ transport });
+
+  if (!transport.isPlaying) {
+    trackSessions.forEach((session, trackId) => {
+      if (session.isPlaying) {
+        updateTrackSession(trackId, { isPlaying: false, currentTime: transport.currentTime });
+      }
+    });
+  }
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { encodeFlac } from '../lib/encoders/flac';
+import { encodeMp3 } from '../lib/encoders/mp3';
+import { encodeOpus, isOpusEncodingSupported, OPUS_SAMPLE_RATE } from '../lib/encoders/opus';
+import { encodeVorbis } from '../lib/encoders/vorbis';
+import { encodeWav } from '../lib/encoders/wav';
+import { processChannels } from '../lib/exportProcessing';
+import { writeTags } from '../lib/tags';
+import type { ExportWorkerRequest, ExportWorkerResponse } from '../lib/exportWorker';
+
+const ctx = self as unknown as Worker;
+
+// Share of the reported progress spent processing; encoding takes the rest.
+// Sample-rate conversion makes processing a much larger part of the job.
+const PROCESSING_WEIGHT = 0.1;
+const RESAMPLING_WEIGHT = 0.4;
+
+const post = (message: ExportWorkerResponse, transfer: Transferable[] = []) => {
+  ctx.postMessage(message, transfer);
+};
+
+ctx.onmessage = async (event: MessageEvent<ExportWorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+
+  // Throttle progress messages to whole percentages
+  let lastProgress = -1;
+  const reportProgress = (progress: number) => {
+    const percent = Math.floor(progress * 100);
+    if (percent !== lastProgress) {
+      lastProgress = percent;
+      post({ id, type: 'progress', progress });
+    }
+  };
+
+  try {
+    const processingWeight = request.sampleRate === request.processing.sampleRate
+      ? PROCESSING_WEIGHT
+      : RESAMPLING_WEIGHT;
+    const channelData = processChannels(request.channelData, request.sampleRate, request.processing, (progress) => {
+      reportProgress(progress * processingWeight);
+    });
+    const sampleRate = request.processing.sampleRate;
+    const onProgress = (progress: number) => {
+      reportProgress(processingWeight + progress * (1 - processingWeight));
+    };
+
+    let data: Uint8Array;
+
+    switch (request.format) {
+      case 'wav':
+        data = await encodeWav(channelData, sampleRate, request.options, onProgress);
+        break;
+      case 'mp3':
+        data = await encodeMp3(channelData, sampleRate, request.options, onProgress);
+        break;
+      case 'flac':
+        data = await encodeFlac(channelData, sampleRate, request.options, onProgress);
+        break;
+      case 'ogg': {
+        const { codec, bitrate } = request.options;
+        const channels = Math.min(2, channelData.length);
+        const useOpus = codec === 'opus' &&
+          sampleRate === OPUS_SAMPLE_RATE &&
+          await isOpusEncodingSupported(channels, bitrate);
+        data = useOpus
+          ? await encodeOpus(channelData, sampleRate, bitrate, onProgress)
+          : await encodeVorbis(channelData, sampleRate, bitrate, onProgress);
+        break;
+      }
+      default:
+        throw new Error(`Unsupported export format: ${(request as { format: string }).format}`);
+    }
+
+    data = writeTags(data, request.format, request.tags);
+    post({ id, type: 'done', data }, [data.buffer]);
+  } catch (error) {
+    post({ id, type: 'error', error: error instanceof Error ? error.message : 'Encoding failed' });
+  }
+};
@@ -0,0 +1,16 @@
+import { computePeakPyramid } from '../lib/peaks';
+import type { PeaksWorkerRequest, PeaksWorkerResponse } from '../lib/peaksWorker';
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<PeaksWorkerRequest>) => {
+  const { id, channelData, sampleRate } = event.data;
+
+  let response: PeaksWorkerResponse;
+  try {
+    response = { id, type: 'done', pyramid: computePeakPyramid(channelData, sampleRate) };
+  } catch (error) {
+    response = { id, type: 'error', error: error instanceof Error ? error.message : 'Failed to compute peaks' };
+  }
+  ctx.postMessage(response);
+};
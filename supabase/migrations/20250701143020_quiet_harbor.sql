@@ -0,0 +1,46 @@
+/*
+  # Create storage bucket for track audio
+
+  1. Storage
+    - `audio-files` bucket (private)
+      - Objects are stored as `<user_id>/<project_id>/<track_id>.<ext>`
+      - 50 MB per-file limit, audio MIME types only
+
+  2. Security
+    - Users can upload, read, update and delete objects under their own user folder
+      (mirrors "Users can manage own tracks" on `tracks`)
+    - Objects under a public project's folder are readable by all
+      (mirrors "Tracks viewable for public projects" on `tracks`)
+*/
+
+-- Create the bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'audio-files',
+  'audio-files',
+  false,
+  52428800,
+  ARRAY['audio/webm', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/flac', 'audio/x-flac']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- RLS Policies
+CREATE POLICY "Users can manage own track audio" ON storage.objects
+  FOR ALL USING (
+    bucket_id = 'audio-files'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  )
+  WITH CHECK (
+    bucket_id = 'audio-files'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Track audio viewable for public projects" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'audio-files'
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE id::text = (storage.foldername(name))[2]
+      AND is_public = true
+    )
+  );
@@ -0,0 +1,126 @@
+/*
+  # Persist export history and export presets
+
+  1. New Tables
+    - `exports`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `project_id` (uuid, foreign key to projects)
+      - `source` (text, what was exported: recording, mix or stems)
+      - `format` (text, output format)
+      - `quality` (text, quality tier)
+      - `settings` (jsonb, export settings without cover art)
+      - `storage_path` (text, path of the file in the `exports` bucket)
+      - `file_size_bytes` (bigint, size of the exported file)
+      - `duration_seconds` (decimal, length of the exported audio)
+      - `sample_rate` (integer, output sample rate)
+      - `created_at` (timestamp)
+    - `export_presets`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `name` (text, unique per user)
+      - `settings` (jsonb, export settings without metadata)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+    - `usage_tracking` (if missing)
+      - Written by `useSubscriptionStore.trackUsage`, which now counts exports
+
+  2. Storage
+    - `exports` bucket (private)
+      - Objects are stored as `<user_id>/<project_id>/<export_id>.<ext>`
+      - 500 MB per-file limit; audio MIME types and ZIP (stems)
+
+  3. Security
+    - Enable RLS on all three tables; users manage only their own rows
+    - Users can manage objects under their own folder in the `exports` bucket
+
+  4. Indexes
+    - Index on (project_id, created_at) for loading a project's history
+    - Index on user_id for presets and usage queries
+*/
+
+CREATE TABLE IF NOT EXISTS exports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL CHECK (source IN ('recording', 'mix', 'stems')),
+  format text NOT NULL CHECK (format IN ('mp3', 'wav', 'flac', 'ogg')),
+  quality text NOT NULL,
+  settings jsonb NOT NULL DEFAULT '{}',
+  storage_path text NOT NULL,
+  file_size_bytes bigint NOT NULL DEFAULT 0,
+  duration_seconds decimal(10,3) NOT NULL DEFAULT 0,
+  sample_rate integer NOT NULL DEFAULT 44100,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS export_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  settings jsonb NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS usage_tracking (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  resource_type text NOT NULL,
+  quantity integer NOT NULL DEFAULT 1,
+  billing_period text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_exports_project_created ON exports(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_exports_user_id ON exports(user_id);
+CREATE INDEX IF NOT EXISTS idx_export_presets_user_id ON export_presets(user_id);
+CREATE INDEX IF NOT EXISTS idx_usage_tracking_user_period ON usage_tracking(user_id, billing_period);
+
+-- Enable RLS
+ALTER TABLE exports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE export_presets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_tracking ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can manage own exports" ON exports
+  FOR ALL USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own export presets" ON export_presets
+  FOR ALL USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own usage" ON usage_tracking;
+CREATE POLICY "Users can view own usage" ON usage_tracking
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can record own usage" ON usage_tracking;
+CREATE POLICY "Users can record own usage" ON usage_tracking
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Update trigger
+CREATE TRIGGER update_export_presets_updated_at
+  BEFORE UPDATE ON export_presets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Storage bucket for exported files
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'exports',
+  'exports',
+  false,
+  524288000,
+  ARRAY['audio/mpeg', 'audio/wav', 'audio/flac', 'audio/ogg', 'application/zip']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can manage own exported files" ON storage.objects
+  FOR ALL USING (
+    bucket_id = 'exports'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  )
+  WITH CHECK (
+    bucket_id = 'exports'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
@@ -0,0 +1,18 @@
+/*
+  # Add clips to tracks
+
+  1. Changes
+    - `tracks.clips` (jsonb, default empty array)
+      - Ordered list of clips placing source audio on the track's timeline:
+        `id`, `asset_path`, `start`, `source_in`, `source_out`, `gain`,
+        `fade_in`, `fade_out` (times in seconds)
+      - `asset_path` is an object in the `audio-files` bucket; the track's own
+        recording is `audio_path`
+      - An empty array means a single clip covering the whole recording at 0,
+        which is how tracks created before this migration play
+*/
+
+ALTER TABLE tracks ADD COLUMN IF NOT EXISTS clips jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE tracks ADD CONSTRAINT tracks_clips_is_array
+  CHECK (jsonb_typeof(clips) = 'array');
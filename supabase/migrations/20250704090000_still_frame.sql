@@ -0,0 +1,45 @@
+/*
+  # Named project snapshots
+
+  1. New Tables
+    - `project_snapshots`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to users)
+      - `project_id` (uuid, foreign key to projects)
+      - `name` (text, e.g. "v1 rough mix")
+      - `project` (jsonb, the project's title, description, genre, tags,
+        sample rate, effects settings, BPM and project settings)
+      - `tracks` (jsonb, array of track rows: name, description, audio path,
+        clips, order, volume, pan, mute/solo and effects settings)
+      - `asset_paths` (text[], objects in the `audio-files` bucket the tracks
+        play from)
+      - `created_at` (timestamp)
+
+  2. Storage
+    - Audio listed in any snapshot's `asset_paths` is kept when the tracks
+      using it are deleted, and removed with the last snapshot that needs it
+
+  3. Security
+    - Enable RLS; users manage only their own snapshots
+
+  4. Indexes
+    - Index on (project_id, created_at) for listing a project's snapshots
+*/
+
+CREATE TABLE IF NOT EXISTS project_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  project jsonb NOT NULL DEFAULT '{}',
+  tracks jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(tracks) = 'array'),
+  asset_paths text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_snapshots_project_created ON project_snapshots(project_id, created_at DESC);
+
+ALTER TABLE project_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own project snapshots" ON project_snapshots
+  FOR ALL USING (auth.uid() = user_id);